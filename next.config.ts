@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The application PDF cover page reads its Hebrew font from disk
+  outputFileTracingIncludes: {
+    "/api/customers/submissions/[id]/package": ["./node_modules/@fontsource/noto-sans-hebrew/files/noto-sans-hebrew-{hebrew,latin}-{400,700}-normal.woff"],
+  },
 };
 
 export default nextConfig;
@@ -2,25 +2,41 @@
 
 import { useState, useEffect } from 'react'
 import { useParams } from 'next/navigation'
-import { SupabaseService } from '@/lib/supabase-service'
-import { Customer, CustomerSubmission, UploadedFile, MessageLog, CustomerStatus, CustomerCriterion, AuthToken } from '@/lib/supabase'
-import formFieldsData from '@/data/form-fields.json'
+import { Customer, CustomerSubmission, UploadedFile, MessageLog, CustomerStatus, CustomerCriterion, ReminderPolicy, RejectionReason } from '@/lib/supabase'
 import Link from 'next/link'
 import CustomFileInput from '@/components/CustomFileInput'
 import WhatsAppModal from '@/components/WhatsAppModal'
+import AuthTokensPanel from '@/components/AuthTokensPanel'
+import LinkActivityPanel from '@/components/LinkActivityPanel'
+import FileReviewControls, { REVIEW_STATUS_LABELS } from '@/components/FileReviewControls'
+import { useAdminSession } from '@/components/AdminUserMenu'
+import { getFieldFileLimits, getFieldPeriod, getPeriodCoverage, getPeriodSlots, getReferenceDate } from '@/lib/form-fields'
+import { CompletionService } from '@/lib/completion-service'
+import { FormFieldDefinition, getFieldDefinition, getFormDefinitions, getFormType, getFormTypeLabel } from '@/lib/form-definitions'
+import { useFormDefinitions } from '@/components/useFormDefinitions'
 
-interface FieldInfo {
-  name: string;
-  slug: string;
-  description?: string;
-  variants?: string[];
-  template?: string;
-  templates?: Array<{ label: string; path: string }>;
+interface CustomerProfile {
+  customer: Customer | null
+  submissions: CustomerSubmission[]
+  files: UploadedFile[]
+  messages: MessageLog[]
+}
+
+// The customer, their submissions, files and message history from the admin API
+const fetchCustomerProfile = async (phoneNumber: string): Promise<CustomerProfile> => {
+  const response = await fetch(`/api/customers/profile?phoneNumber=${encodeURIComponent(phoneNumber)}`)
+  const result = await response.json()
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to load customer')
+  }
+  return result
 }
 
 export default function CustomerPage() {
   const params = useParams()
   const phoneNumber = decodeURIComponent(params.phone as string)
+  const adminSession = useAdminSession()
+  useFormDefinitions() // Re-render with the form builder's fields once they load
 
   const [customer, setCustomer] = useState<Customer | null>(null)
   const [submissions, setSubmissions] = useState<CustomerSubmission[]>([])
@@ -29,11 +45,16 @@ export default function CustomerPage() {
   const [messageHistory, setMessageHistory] = useState<MessageLog[]>([])
   const [loading, setLoading] = useState(true)
   const [uploading, setUploading] = useState(false)
+  const [creatingPackageFor, setCreatingPackageFor] = useState<string | null>(null)
   const [isWhatsAppModalOpen, setIsWhatsAppModalOpen] = useState(false)
   const [isCustomMessageModalOpen, setIsCustomMessageModalOpen] = useState(false)
   const [sendingMessage, setSendingMessage] = useState(false)
+  const [replyText, setReplyText] = useState('')
+  const [humanHandling, setHumanHandling] = useState(false)
+  const [updatingHandoff, setUpdatingHandoff] = useState(false)
+  const [reminderPolicies, setReminderPolicies] = useState<ReminderPolicy[]>([])
+  const [rejectionReasons, setRejectionReasons] = useState<RejectionReason[]>([])
   const [editingDetails, setEditingDetails] = useState(false)
-  const [_authTokens, _setAuthTokens] = useState<AuthToken[]>([])
   const [customerDetails, setCustomerDetails] = useState({
     status: 'new_lead' as CustomerStatus,
     criterion: null as CustomerCriterion | null,
@@ -52,8 +73,14 @@ export default function CustomerPage() {
     const loadData = async () => {
     setLoading(true)
       
-      // Load customer from customers table
-      const customerData = await SupabaseService.getCustomerByPhone(phoneNumber)
+      // Load the customer with their submissions, files and message history
+      let profile: CustomerProfile = { customer: null, submissions: [], files: [], messages: [] }
+      try {
+        profile = await fetchCustomerProfile(phoneNumber)
+      } catch (error) {
+        console.error('Error loading customer:', error)
+      }
+      const customerData = profile.customer
       setCustomer(customerData)
       
       // Set customer details for editing form
@@ -73,22 +100,36 @@ export default function CustomerPage() {
         })
       }
     
-    // Get all submissions for this phone number
-    const allSubmissions = await SupabaseService.getAllSubmissions()
-    const customerSubmissions = allSubmissions.filter(sub => sub.phone_number === phoneNumber)
-    setSubmissions(customerSubmissions)
-    
-      // Load all files for this customer
-      const allFiles = await SupabaseService.getAllFilesByPhone(phoneNumber)
-      setCustomerFiles(allFiles)
+      const customerSubmissions = profile.submissions
+      setSubmissions(customerSubmissions)
+      setCustomerFiles(profile.files)
+      setMessageHistory(profile.messages)
+      
+      // Load whether a team member is handling the WhatsApp chat
+      try {
+        const handoffResponse = await fetch(`/api/whatsapp/handoff?phoneNumber=${encodeURIComponent(phoneNumber)}`)
+        const handoffResult = await handoffResponse.json()
+        setHumanHandling(!!handoffResult.humanHandling)
+      } catch (error) {
+        console.warn('Handoff status not available:', error)
+      }
+      
+      // Load reminder policies for the per-form override
+      try {
+        const policiesResponse = await fetch('/api/reminders/policies')
+        const policiesResult = await policiesResponse.json()
+        setReminderPolicies(policiesResult.policies || [])
+      } catch (error) {
+        console.warn('Reminder policies not available:', error)
+      }
       
-      // Load message history - with error handling for missing table
+      // Load the rejection reason library for document reviews
       try {
-        const messages = await SupabaseService.getMessageHistory(phoneNumber)
-        setMessageHistory(messages)
+        const reasonsResponse = await fetch('/api/reviews/reasons')
+        const reasonsResult = await reasonsResponse.json()
+        setRejectionReasons(reasonsResult.reasons || [])
       } catch (error) {
-        console.warn('Message history not available:', error)
-        setMessageHistory([]) // Fallback to empty array
+        console.warn('Rejection reasons not available:', error)
       }
       
       // Smart form selection: auto-select if only one form, otherwise let user choose
@@ -100,15 +141,6 @@ export default function CustomerPage() {
         // Multiple forms - let user choose, don't auto-select
         setSelectedFormType('')
       }
-      
-      // Load authorization tokens for this customer
-      try {
-        const tokens = await SupabaseService.getTokensByPhone(phoneNumber)
-        _setAuthTokens(tokens)
-      } catch (error) {
-        console.warn('Failed to load authorization tokens:', error)
-        _setAuthTokens([])
-    }
     
     setLoading(false)
   }
@@ -118,81 +150,123 @@ export default function CustomerPage() {
 
 
 
+  const reloadFiles = async () => {
+    try {
+      setCustomerFiles((await fetchCustomerProfile(phoneNumber)).files)
+    } catch (error) {
+      console.error('Error reloading files:', error)
+    }
+  }
+
+  const reloadMessages = async () => {
+    try {
+      setMessageHistory((await fetchCustomerProfile(phoneNumber)).messages)
+    } catch (error) {
+      console.error('Error reloading messages:', error)
+    }
+  }
+
   const handleFormTypeSelect = async (formType: string) => {
     setSelectedFormType(formType)
     // No need to reload files, they're already loaded
   }
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, fieldSlug: string, fieldName: string) => {
-    const file = event.target.files?.[0]
-    if (!file || !selectedFormType) return
-
-    const formTypeLabel = formFieldsData.formTypes.find(ft => ft.slug === selectedFormType)?.label || selectedFormType
+  // Multi-file fields accept several files at once; they're uploaded in order until the field is full
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, fieldSlug: string, fieldName: string, periodKey?: string) => {
+    const files = Array.from(event.target.files || [])
+    if (files.length === 0 || !selectedFormType) return
 
     setUploading(true)
-    const result = await SupabaseService.adminUploadFile(
-      phoneNumber,
-      selectedFormType,
-      formTypeLabel,
-      fieldSlug,
-      fieldName,
-      file
-    )
+    let updatedSubmission: CustomerSubmission | undefined
+    for (const file of files) {
+      try {
+        const formData = new FormData()
+        formData.append('phoneNumber', phoneNumber)
+        formData.append('formType', selectedFormType)
+        formData.append('fieldSlug', fieldSlug)
+        if (periodKey) formData.append('periodKey', periodKey)
+        formData.append('file', file)
 
-    if (result.success) {
-      // Reload all files for this customer
-      const allFiles = await SupabaseService.getAllFilesByPhone(phoneNumber)
-      setCustomerFiles(allFiles)
-      
-      // Find the current submission for this form type
-      const currentSubmission = submissions.find(sub => sub.form_type === selectedFormType)
-      console.log('Admin file upload - currentSubmission:', currentSubmission)
-      console.log('Admin file upload - fieldSlug:', fieldSlug)
-      
-      // Update submitted fields to mark this field as submitted
-      if (currentSubmission?.id) {
-        const currentFields = currentSubmission.submitted_fields || []
-        console.log('Admin file upload - currentFields:', currentFields)
-        
-        if (!currentFields.includes(fieldSlug)) {
-          const updatedFields = [...currentFields, fieldSlug]
-          console.log('Admin file upload - updating with fields:', updatedFields)
-          
-          const updateSuccess = await SupabaseService.updateSubmittedFields(currentSubmission.id, updatedFields)
-          console.log('Admin file upload - update success:', updateSuccess)
-          
-          if (updateSuccess) {
-            // Update local state
-            setSubmissions(prevSubmissions => 
-              prevSubmissions.map(sub => 
-                sub.id === currentSubmission.id 
-                  ? { ...sub, submitted_fields: updatedFields }
-                  : sub
-              )
-            )
-            console.log('Admin file upload - local state updated')
-          }
-        } else {
-          console.log('Admin file upload - field already in submitted_fields')
+        const response = await fetch('/api/customers/files', { method: 'POST', body: formData })
+        const result = await response.json()
+
+        if (result.limitReached) {
+          alert(`הגעת למספר הקבצים המקסימלי (${getFieldFileLimits(fieldSlug).maxFiles}) עבור ${fieldName}`)
+          break
         }
-      } else {
-        console.log('Admin file upload - no currentSubmission found')
+        if (result.invalidPeriod) {
+          alert('התקופה שנבחרה אינה חלק מהתקופות הנדרשות לשדה זה')
+          break
+        }
+        if (!result.success) {
+          alert(`שגיאה בהעלאת הקובץ: ${result.error}`)
+          break
+        }
+        updatedSubmission = result.submission
+      } catch (error) {
+        console.error('Error uploading file:', error)
+        alert('שגיאה בהעלאת הקובץ')
+        break
       }
     }
+
+    if (updatedSubmission) {
+      // Reload all files for this customer
+      await reloadFiles()
+      replaceSubmission(updatedSubmission)
+    }
     setUploading(false)
     
     // Reset file input
     event.target.value = ''
   }
 
-  const getFileUrl = async (filePath: string) => {
+  // Swap in a submission the server recomputed; the first upload to a form type creates it
+  const replaceSubmission = (updated: CustomerSubmission) => {
+    setSubmissions(prevSubmissions => prevSubmissions.some(sub => sub.id === updated.id)
+      ? prevSubmissions.map(sub => sub.id === updated.id ? updated : sub)
+      : [updated, ...prevSubmissions])
+  }
+
+  // After a review or a period change: swap in the updated file and the submission the server recomputed
+  const handleFileUpdated = (file: UploadedFile, submission: CustomerSubmission | null) => {
+    setCustomerFiles(prevFiles => prevFiles.map(f => f.id === file.id ? file : f))
+    if (submission) {
+      replaceSubmission(submission)
+    }
+  }
+
+  const handleCreatePackage = async (submissionId: string) => {
+    setCreatingPackageFor(submissionId)
+    try {
+      const response = await fetch(`/api/customers/submissions/${submissionId}/package`, { method: 'POST' })
+      const result = await response.json()
+
+      if (result.success) {
+        await reloadFiles()
+
+        const skippedNote = result.skipped?.length
+          ? `\n${result.skipped.length} קבצים לא נכללו (מפורטים בעמוד השער)`
+          : ''
+        alert(`ה-PDF המאוחד נוצר (${result.pageCount} עמודים) ✅${skippedNote}`)
+      } else {
+        alert(`שגיאה ביצירת ה-PDF: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error creating application PDF:', error)
+      alert('שגיאה ביצירת ה-PDF')
+    } finally {
+      setCreatingPackageFor(null)
+    }
+  }
+
+  const openFile = async (file: UploadedFile) => {
     try {
-      console.log('Admin panel requesting file URL for:', filePath)
-    const url = await SupabaseService.getFileUrl(filePath)
-      console.log('Received URL:', url)
+      const response = await fetch(`/api/customers/files/${file.id}/url`)
+      const result = await response.json()
       
-    if (url) {
-      window.open(url, '_blank')
+      if (result.success && result.url) {
+        window.open(result.url, '_blank')
       } else {
         alert('לא ניתן לפתוח את הקובץ כרגע. הקובץ עלול להיות זמינות באחסון.')
       }
@@ -205,13 +279,10 @@ export default function CustomerPage() {
   const getFormTypeFields = (formTypeSlug?: string) => {
     const typeToUse = formTypeSlug || selectedFormType
     if (!typeToUse) return []
-    const formType = formFieldsData.formTypes.find(ft => ft.slug === typeToUse)
-    return formType?.fields || []
+    return getFormType(typeToUse)?.fields || []
   }
 
-  const getFieldInfo = (fieldSlug: string): FieldInfo | undefined => {
-    return formFieldsData.fields[fieldSlug as keyof typeof formFieldsData.fields] as FieldInfo | undefined
-  }
+  const getFieldInfo = (fieldSlug: string): FormFieldDefinition | undefined => getFieldDefinition(fieldSlug)
 
   const handleSendWhatsAppLink = async (formType: string, message: string) => {
     setSendingMessage(true)
@@ -232,8 +303,7 @@ export default function CustomerPage() {
       if (result.success) {
         alert('הודעה נשלחה בהצלחה! ✅')
         // Refresh message history
-        const messages = await SupabaseService.getMessageHistory(phoneNumber)
-        setMessageHistory(messages)
+        await reloadMessages()
       } else {
         alert(`שגיאה בשליחת ההודעה: ${result.error}`)
       }
@@ -265,8 +335,7 @@ export default function CustomerPage() {
       if (result.success) {
         alert('הודעה נשלחה בהצלחה! ✅')
         // Refresh message history
-        const messages = await SupabaseService.getMessageHistory(phoneNumber)
-        setMessageHistory(messages)
+        await reloadMessages()
       } else {
         alert(`שגיאה בשליחת ההודעה: ${result.error}`)
       }
@@ -278,52 +347,137 @@ export default function CustomerPage() {
     }
   }
 
-  const getAutomaticStatus = (
-    submission: CustomerSubmission,
-    totalFields: number,
-    submittedCountOverride?: number
-  ): 'new' | 'in-progress' | 'completed' => {
-    const submittedCount = typeof submittedCountOverride === 'number'
-      ? submittedCountOverride
-      : submission.submitted_fields.length
-    if (submittedCount === 0) return 'new'
-    if (submittedCount === totalFields) return 'completed'
-    return 'in-progress'
+  const handleSendReply = async () => {
+    const message = replyText.trim()
+    if (!message) return
+
+    await handleSendMessage(message)
+    setReplyText('')
   }
 
-  const _handleRevokeToken = async (tokenId: string) => {
-    if (!confirm('האם אתה בטוח שברצונך לבטל את האסימון? פעולה זו לא ניתנת לביטול.')) {
-      return
+  const handleReferenceDateChange = async (submissionId: string, referenceDate: string) => {
+    try {
+      const response = await fetch(`/api/customers/submissions/${submissionId}/reference-date`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ referenceDate: referenceDate || null }),
+      })
+
+      const result = await response.json()
+
+      if (result.success && result.submission) {
+        setSubmissions(prev => prev.map(sub => sub.id === submissionId ? result.submission : sub))
+      } else {
+        alert(`שגיאה בעדכון תאריך ההגשה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating reference date:', error)
+      alert('שגיאה בעדכון תאריך ההגשה')
     }
+  }
 
+  const handleFilePeriodChange = async (file: UploadedFile, periodKey: string) => {
     try {
-      const success = await SupabaseService.revokeToken(tokenId)
-      if (success) {
-        alert('האסימון בוטל בהצלחה!')
-        // Refresh tokens
-        const tokens = await SupabaseService.getTokensByPhone(phoneNumber)
-        _setAuthTokens(tokens)
+      const response = await fetch(`/api/customers/files/${file.id}/period`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ periodKey: periodKey || null }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        handleFileUpdated(result.file, result.submission)
       } else {
-        alert('שגיאה בביטול האסימון')
+        alert(`שגיאה בשיוך הקובץ: ${result.error}`)
       }
     } catch (error) {
-      console.error('Error revoking token:', error)
-      alert('שגיאה בביטול האסימון')
+      console.error('Error updating file period:', error)
+      alert('שגיאה בשיוך הקובץ')
     }
   }
 
-  const _getTokenStatus = (token: AuthToken): { status: string; color: string; description: string } => {
-    const now = new Date()
-    const expiration = new Date(token.expires_at)
-    const isExpired = now > expiration
-    const isUsed = !token.is_reusable && !!token.used_at
-
-    if (isExpired) {
-      return { status: 'פג תוקף', color: 'text-red-600', description: 'האסימון פג תוקף' }
-    } else if (isUsed) {
-      return { status: 'בשימוש', color: 'text-orange-600', description: 'האסימון נוצל (חד פעמי)' }
-    } else {
-      return { status: 'פעיל', color: 'text-green-600', description: token.is_reusable ? 'זמין לשימוש חוזר' : 'זמין לשימוש חד פעמי' }
+  const handleWaiverChange = async (submissionId: string, fieldSlug: string, waived: boolean) => {
+    try {
+      const response = await fetch(`/api/customers/submissions/${submissionId}/waivers`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fieldSlug, waived }),
+      })
+
+      const result = await response.json()
+
+      if (result.success && result.submission) {
+        setSubmissions(prev => prev.map(sub => sub.id === submissionId ? result.submission : sub))
+      } else {
+        alert(`שגיאה בעדכון הפטור: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating waiver:', error)
+      alert('שגיאה בעדכון הפטור')
+    }
+  }
+
+  const handleReminderPolicyChange = async (submissionId: string, policyId: string) => {
+    try {
+      const response = await fetch('/api/reminders/policies', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          submissionId,
+          policyId: policyId || null,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setSubmissions(prev => prev.map(sub =>
+          sub.id === submissionId ? { ...sub, reminder_policy_id: policyId || null } : sub
+        ))
+      } else {
+        alert(`שגיאה בעדכון מדיניות התזכורות: ${result.error || result.message}`)
+      }
+    } catch (error) {
+      console.error('Error updating reminder policy:', error)
+      alert('שגיאה בעדכון מדיניות התזכורות')
+    }
+  }
+
+  const handleToggleHandoff = async () => {
+    setUpdatingHandoff(true)
+    try {
+      const response = await fetch('/api/whatsapp/handoff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          phoneNumber,
+          enabled: !humanHandling,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setHumanHandling(result.humanHandling)
+      } else {
+        alert(`שגיאה בעדכון מצב השיחה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating handoff:', error)
+      alert('שגיאה בעדכון מצב השיחה')
+    } finally {
+      setUpdatingHandoff(false)
     }
   }
 
@@ -337,7 +491,10 @@ export default function CustomerPage() {
       'reminder_second_week': 'תזכורת שבוע 2',
       'reminder_third_week': 'תזכורת שבוע 3',
       'reminder_fourth_week': 'תזכורת אחרונה',
-      'verification_code': 'קוד אימות'
+      'verification_code': 'קוד אימות',
+      'incoming': 'הודעה מהלקוח',
+      'bot_reply': 'מענה אוטומטי',
+      'document_rejected': 'מסמך נדחה'
     }
     return labels[messageType] || messageType
   }
@@ -352,11 +509,34 @@ export default function CustomerPage() {
       'reminder_second_week': 'bg-yellow-100 text-yellow-800',
       'reminder_third_week': 'bg-yellow-100 text-yellow-800',
       'reminder_fourth_week': 'bg-red-100 text-red-800',
-      'verification_code': 'bg-purple-100 text-purple-800'
+      'verification_code': 'bg-purple-100 text-purple-800',
+      'incoming': 'bg-indigo-100 text-indigo-800',
+      'bot_reply': 'bg-gray-100 text-gray-800',
+      'document_rejected': 'bg-red-100 text-red-800'
     }
     return colors[messageType] || 'bg-gray-100 text-gray-800'
   }
 
+  const getDeliveryStatusLabel = (status: NonNullable<MessageLog['delivery_status']>): string => {
+    const labels = {
+      'sent': '✓ נשלח לוואטסאפ',
+      'delivered': '✓✓ נמסר',
+      'read': '✓✓ נקרא',
+      'failed': '✗ לא נמסר'
+    }
+    return labels[status] || status
+  }
+
+  const getDeliveryStatusColor = (status: NonNullable<MessageLog['delivery_status']>): string => {
+    const colors = {
+      'sent': 'text-gray-600',
+      'delivered': 'text-gray-700',
+      'read': 'text-blue-600 font-medium',
+      'failed': 'text-red-600'
+    }
+    return colors[status] || 'text-gray-600'
+  }
+
   const getCustomerStatusLabel = (status: CustomerStatus): string => {
     const labels = {
       'new_lead': 'ליד חדש',
@@ -385,9 +565,7 @@ export default function CustomerPage() {
 
   const getCustomerCriterionLabel = (criterion: CustomerCriterion | null | undefined): string => {
     if (!criterion) return 'לא נבחר'
-    
-    const formType = formFieldsData.formTypes.find(ft => ft.slug === criterion)
-    return formType?.label || criterion
+    return getFormTypeLabel(criterion)
   }
 
   const handleSaveCustomerDetails = async () => {
@@ -397,21 +575,29 @@ export default function CustomerPage() {
         return
       }
 
-      // Update customer in customers table
-      const success = await SupabaseService.updateCustomer(customer.id, {
-        status: customerDetails.status,
-        criterion: customerDetails.criterion || undefined,
-        name: customerDetails.name || undefined,
-        family_name: customerDetails.family_name || undefined,
-        id_number: customerDetails.id_number ? parseInt(customerDetails.id_number) : undefined,
-        birth_date: customerDetails.birth_date || undefined,
-        address: Object.values(customerDetails.address).some(v => v) ? customerDetails.address : undefined
+      const response = await fetch('/api/customers/update-details', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          phoneNumber,
+          details: {
+            status: customerDetails.status,
+            criterion: customerDetails.criterion || undefined,
+            name: customerDetails.name || undefined,
+            family_name: customerDetails.family_name || undefined,
+            id_number: customerDetails.id_number ? parseInt(customerDetails.id_number) : undefined,
+            birth_date: customerDetails.birth_date || undefined,
+            address: Object.values(customerDetails.address).some(v => v) ? customerDetails.address : undefined
+          }
+        }),
       })
+
+      const result = await response.json()
       
-      if (success) {
-        // Reload customer data
-        const updatedCustomer = await SupabaseService.getCustomerByPhone(phoneNumber)
-        setCustomer(updatedCustomer)
+      if (result.success) {
+        setCustomer(result.customer)
         setEditingDetails(false)
         alert('פרטי הלקוח נשמרו בהצלחה! ✅')
       } else {
@@ -434,6 +620,26 @@ export default function CustomerPage() {
   }
 
   const selectedSubmission = submissions.find(sub => sub.form_type === selectedFormType)
+  const selectedReport = selectedSubmission ? CompletionService.evaluate(selectedSubmission) : null
+
+  // A waived item no longer holds the form back; read-only admins only see the badge
+  const renderWaiverToggle = (fieldSlug: string, waived: boolean) => {
+    if (!selectedSubmission) return null
+    if (!adminSession || adminSession.role === 'read_only') {
+      return waived ? <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded-full">פטור</span> : null
+    }
+    return (
+      <button
+        onClick={() => handleWaiverChange(selectedSubmission.id!, fieldSlug, !waived)}
+        className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+          waived ? 'bg-gray-200 text-gray-800 border-gray-300 hover:bg-gray-300' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+        }`}
+        title={waived ? 'בטל פטור' : 'פטור את הלקוח ממסמך זה'}
+      >
+        {waived ? '🚫 פטור (בטל)' : 'פטור'}
+      </button>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gray-50 p-8" dir="rtl">
@@ -469,11 +675,12 @@ export default function CustomerPage() {
                 <h3 className="font-medium mb-4 text-gray-900">רשימת טפסים</h3>
                 <div className="space-y-3">
                   {submissions.map((submission) => {
-                    const totalFields = getFormTypeFields(submission.form_type).filter(f => !f.isSection).length
-                    const submittedFilesForSubmission = customerFiles.filter(f => f.submission_id === submission.id).length
-                    const submittedFields = submission.submitted_fields.length || submittedFilesForSubmission
+                    const report = CompletionService.evaluate(submission)
                     const isSelected = selectedFormType === submission.form_type
-                    const automaticStatus = getAutomaticStatus(submission, totalFields, submittedFields)
+                    // Files from before progress was tracked still count as a started form
+                    const automaticStatus = report.status === 'new' && customerFiles.some(f => f.submission_id === submission.id)
+                      ? 'in-progress'
+                      : report.status
 
                     return (
                       <div
@@ -501,7 +708,7 @@ export default function CustomerPage() {
 
                         <div className="flex justify-between items-center mb-3">
                           <div className="text-sm text-gray-600">
-                            📊 {submittedFields}/{totalFields} שדות הוגשו
+                            📊 {report.submitted}/{report.required} פריטים הוגשו • ✅ {report.approved} אושרו
                           </div>
                           <div className="text-xs text-gray-500">
                             📅 {new Date(submission.updated_at || '').toLocaleDateString('he-IL')}
@@ -550,7 +757,7 @@ export default function CustomerPage() {
                               automaticStatus === 'completed' ? 'bg-green-500' :
                               automaticStatus === 'in-progress' ? 'bg-yellow-500' : 'bg-gray-400'
                             }`}
-                            style={{ width: totalFields > 0 ? `${(submittedFields / totalFields) * 100}%` : '0%' }}
+                            style={{ width: report.required > 0 ? `${(report.submitted / report.required) * 100}%` : '0%' }}
                           />
                         </div>
                       </div>
@@ -561,14 +768,220 @@ export default function CustomerPage() {
 
               {selectedFormType && selectedSubmission && (
                 <>
+                  {/* Reminder Policy Override */}
+                  {reminderPolicies.length > 0 && (
+                    <div className="mb-6 p-3 bg-gray-50 rounded-lg flex items-center gap-3">
+                      <label htmlFor="reminder-policy" className="text-sm font-medium text-gray-900">⏱️ מדיניות תזכורות לטופס זה:</label>
+                      <select
+                        id="reminder-policy"
+                        value={selectedSubmission.reminder_policy_id || ''}
+                        onChange={(e) => handleReminderPolicyChange(selectedSubmission.id!, e.target.value)}
+                        className="p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                      >
+                        <option value="">לפי סוג הטופס</option>
+                        {reminderPolicies.map((policy) => (
+                          <option key={policy.id} value={policy.id}>{policy.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {/* Reference date for month/week fields */}
+                  {getFormTypeFields().some(field => !field.isSection && getFieldPeriod(field.fieldSlug)) && (
+                    <div className="mb-6 p-3 bg-gray-50 rounded-lg flex flex-wrap items-center gap-3">
+                      <label htmlFor="reference-date" className="text-sm font-medium text-gray-900">📅 תאריך הגשה מתוכנן:</label>
+                      <input
+                        id="reference-date"
+                        type="date"
+                        value={selectedSubmission.reference_date || ''}
+                        onChange={(e) => handleReferenceDateChange(selectedSubmission.id!, e.target.value)}
+                        disabled={!adminSession || adminSession.role === 'read_only'}
+                        className="p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                      />
+                      <span className="text-xs text-gray-600">
+                        {selectedSubmission.reference_date
+                          ? 'החודשים והשבועות הנדרשים נספרים אחורה מתאריך זה'
+                          : `לא נקבע - נספר מתאריך פתיחת הטופס (${new Date(getReferenceDate(selectedSubmission)).toLocaleDateString('he-IL')})`}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Form Fields */}
                   <div className="mb-6">
                     <h3 className="font-medium mb-4 text-gray-900">שדות הטופס</h3>
                     <div className="space-y-4">
                       {getFormTypeFields().map((field) => {
+                        const completionItem = selectedReport?.items.find(item => item.slug === field.fieldSlug)
+                        const waived = !!completionItem?.waived
+
+                        // Sections only need requiredCount of their options
+                        if (field.isSection) {
+                          if (!completionItem?.options) return null
+                          const submittedOptions = completionItem.options.filter(option => option.submitted).length
+                          return (
+                            <div key={field.fieldSlug} className={`p-4 border rounded-lg ${
+                              waived ? 'border-gray-200 bg-gray-50' : completionItem.submitted ? 'border-green-200 bg-green-50' : 'border-gray-200'
+                            }`}>
+                              <div className="flex justify-between items-center gap-2 mb-2">
+                                <div className="flex items-center gap-2">
+                                  <div className="font-medium text-sm text-gray-900">
+                                    {field.number}. {completionItem.name}
+                                  </div>
+                                  <span className={`text-xs px-2 py-1 rounded-full ${completionItem.submitted ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                                    {submittedOptions}/{completionItem.requiredCount} נדרשים
+                                  </span>
+                                </div>
+                                {renderWaiverToggle(field.fieldSlug, waived)}
+                              </div>
+                              <div className="text-xs text-gray-700 space-y-1">
+                                {completionItem.options.map((option) => (
+                                  <div key={option.slug}>
+                                    {option.approved ? '✅' : option.submitted ? '🕓' : '▫️'} {option.name}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )
+                        }
+
                         const fieldInfo = getFieldInfo(field.fieldSlug)
-                        if (!fieldInfo || field.isSection) return null
+                        if (!fieldInfo) return null
                         
+                        const { minFiles, maxFiles } = getFieldFileLimits(field.fieldSlug)
+                        if (maxFiles > 1) {
+                          const fieldFiles = customerFiles.filter(f =>
+                            f.field_slug === field.fieldSlug &&
+                            f.submission_id === selectedSubmission?.id
+                          )
+                          const activeCount = fieldFiles.filter(f => f.review_status !== 'rejected').length
+                          const isSubmitted = selectedSubmission.submitted_fields.includes(field.fieldSlug)
+                          const canEdit = !!adminSession && adminSession.role !== 'read_only'
+                          const period = getFieldPeriod(field.fieldSlug)
+                          const referenceDate = getReferenceDate(selectedSubmission)
+                          const periodSlots = period ? getPeriodSlots(field.fieldSlug, referenceDate) : []
+                          const activeCoverage = period
+                            ? getPeriodCoverage(field.fieldSlug, referenceDate, fieldFiles.filter(f => f.review_status !== 'rejected')).slots
+                            : []
+
+                          // One card per file; period fields also let the team move it to another month or week
+                          const renderFile = (file: UploadedFile, label: string) => (
+                            <div key={file.id} className={`p-3 border rounded-md bg-white ${file.review_status === 'rejected' ? 'border-red-200' : 'border-gray-200'}`}>
+                              <div className="flex justify-between items-center gap-2 mb-2">
+                                <div className="min-w-0">
+                                  <div className="text-xs text-gray-900 font-medium truncate">{label}</div>
+                                  <div className="text-xs text-gray-600">
+                                    {(file.file_size / 1024).toFixed(1)} KB • {new Date(file.created_at || '').toLocaleDateString('he-IL')}
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                  <span className={`text-xs px-2 py-1 rounded-full ${REVIEW_STATUS_LABELS[file.review_status || 'pending'].className}`}>
+                                    {REVIEW_STATUS_LABELS[file.review_status || 'pending'].label}
+                                  </span>
+                                  <button
+                                    onClick={() => openFile(file)}
+                                    className="text-xs px-2 py-1 rounded bg-green-50 hover:bg-green-100 text-green-800 border border-green-300"
+                                  >
+                                    📂 פתח
+                                  </button>
+                                </div>
+                              </div>
+                              {period && canEdit && (
+                                <select
+                                  value={periodSlots.some(slot => slot.key === file.period_key) ? file.period_key! : ''}
+                                  onChange={(e) => handleFilePeriodChange(file, e.target.value)}
+                                  aria-label={`שיוך ${file.file_name}`}
+                                  className="w-full mb-2 p-1 border border-gray-300 rounded text-xs text-gray-900"
+                                >
+                                  <option value="">לא משויך</option>
+                                  {periodSlots.map((slot) => (
+                                    <option key={slot.key} value={slot.key}>{slot.label}</option>
+                                  ))}
+                                </select>
+                              )}
+                              <FileReviewControls
+                                file={file}
+                                reasons={rejectionReasons}
+                                canEdit={canEdit}
+                                onReviewed={handleFileUpdated}
+                              />
+                            </div>
+                          )
+
+                          return (
+                            <div key={field.fieldSlug} className={`p-4 border rounded-lg ${
+                              waived ? 'border-gray-200 bg-gray-50' : isSubmitted ? 'border-green-200 bg-green-50' : 'border-gray-200'
+                            }`}>
+                              <div className="flex items-center gap-2 mb-1">
+                                <div className="font-medium text-sm text-gray-900">
+                                  {field.number}. {fieldInfo.name}
+                                </div>
+                                <span className={`text-xs px-2 py-1 rounded-full ${isSubmitted ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}>
+                                  {period
+                                    ? `${activeCoverage.filter(coverage => coverage.complete).length}/${activeCoverage.length} ${period.unit === 'month' ? 'חודשים' : 'שבועות'}`
+                                    : `${activeCount}/${minFiles} קבצים (עד ${maxFiles})`}
+                                </span>
+                                <div className="mr-auto">{renderWaiverToggle(field.fieldSlug, waived)}</div>
+                              </div>
+                              {fieldInfo?.description && (
+                                <div className="text-xs text-gray-700 mb-1">
+                                  {fieldInfo.description}
+                                </div>
+                              )}
+
+                              {period ? (
+                                <div className="space-y-3 mt-3">
+                                  {activeCoverage.map(({ slot, files, complete }) => (
+                                    <div key={slot.key} className={`p-3 border rounded-md ${complete ? 'border-green-200' : 'border-amber-300 bg-amber-50'}`}>
+                                      <div className="flex justify-between items-center mb-2">
+                                        <span className="text-sm font-medium text-gray-900">{complete ? '✅' : '⏳'} {slot.label}</span>
+                                        <span className="text-xs text-gray-700">{files.length}/{period.filesPerPeriod}</span>
+                                      </div>
+                                      <div className="space-y-2">
+                                        {fieldFiles
+                                          .filter(file => file.period_key === slot.key)
+                                          .map((file, fileIndex) => renderFile(file, `${fileIndex + 1}. ${file.file_name}`))}
+                                      </div>
+                                      {activeCount < maxFiles && (
+                                        <CustomFileInput
+                                          onChange={(e) => handleFileUpload(e, field.fieldSlug, fieldInfo.name, slot.key)}
+                                          disabled={uploading}
+                                          multiple
+                                          ariaLabel={`העלה קבצים עבור ${slot.label}`}
+                                          className="w-full mt-2"
+                                        />
+                                      )}
+                                    </div>
+                                  ))}
+                                  {fieldFiles.some(file => !periodSlots.some(slot => slot.key === file.period_key)) && (
+                                    <div className="p-3 border border-gray-300 rounded-md">
+                                      <div className="text-sm font-medium text-gray-900 mb-2">📥 לא משויכים</div>
+                                      <div className="space-y-2">
+                                        {fieldFiles
+                                          .filter(file => !periodSlots.some(slot => slot.key === file.period_key))
+                                          .map((file, fileIndex) => renderFile(file, `${fileIndex + 1}. ${file.file_name}`))}
+                                      </div>
+                                    </div>
+                                  )}
+                                </div>
+                              ) : (
+                                <div className="space-y-3 mt-3">
+                                  {fieldFiles.map((file, fileIndex) => renderFile(file, `${fileIndex + 1}. ${file.file_name}`))}
+
+                                  {activeCount < maxFiles && (
+                                    <CustomFileInput
+                                      onChange={(e) => handleFileUpload(e, field.fieldSlug, fieldInfo.name)}
+                                      disabled={uploading}
+                                      multiple
+                                      ariaLabel={`העלה קבצים עבור ${fieldInfo.name}`}
+                                      className="w-full"
+                                    />
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          )
+                        }
+
                         const existingFile = customerFiles.find(f => 
                           f.field_slug === field.fieldSlug && 
                           f.submission_id === selectedSubmission?.id
@@ -576,14 +989,21 @@ export default function CustomerPage() {
                         const isSubmitted = selectedSubmission.submitted_fields.includes(field.fieldSlug) || !!existingFile
                         
                         return (
-                          <div key={field.fieldSlug} className={`p-4 border rounded-lg ${isSubmitted ? 'border-green-200 bg-green-50' : 'border-gray-200'}`}>
+                          <div key={field.fieldSlug} className={`p-4 border rounded-lg ${
+                            waived ? 'border-gray-200 bg-gray-50' :
+                            existingFile?.review_status === 'rejected' ? 'border-red-200 bg-red-50' : isSubmitted ? 'border-green-200 bg-green-50' : 'border-gray-200'
+                          }`}>
                             <div className="flex justify-between items-start mb-2">
                               <div className="flex-1">
                                 <div className="flex items-center gap-2">
                                   <div className="font-medium text-sm text-gray-900">
                                     {field.number}. {fieldInfo.name}
                                   </div>
-                                  {isSubmitted && (
+                                  {existingFile ? (
+                                    <span className={`text-xs px-2 py-1 rounded-full ${REVIEW_STATUS_LABELS[existingFile.review_status || 'pending'].className}`}>
+                                      {REVIEW_STATUS_LABELS[existingFile.review_status || 'pending'].label}
+                                    </span>
+                                  ) : isSubmitted && (
                                     <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
                                       הוגש
                                     </span>
@@ -595,6 +1015,7 @@ export default function CustomerPage() {
                                   </div>
                                 )}
                               </div>
+                              {renderWaiverToggle(field.fieldSlug, waived)}
                             </div>
                             
                             {isSubmitted ? (
@@ -610,13 +1031,32 @@ export default function CustomerPage() {
                                 <div className="space-x-2 space-x-reverse">
                                     </div>
                                   </div>
+                                )}
+                                {existingFile && (
+                                  <FileReviewControls
+                                    file={existingFile}
+                                    reasons={rejectionReasons}
+                                    canEdit={!!adminSession && adminSession.role !== 'read_only'}
+                                    onReviewed={handleFileUpdated}
+                                  />
                                 )}
                                   <button
-                                  onClick={() => existingFile ? getFileUrl(existingFile.file_path) : alert('הקובץ לא זמין כרגע')}
+                                  onClick={() => existingFile ? openFile(existingFile) : alert('הקובץ לא זמין כרגע')}
                                   className="w-full p-3 border-2 border-green-300 bg-green-50 hover:bg-green-100 text-green-800 rounded-lg transition-colors font-medium flex items-center justify-center gap-2"
                                   >
                                   📂 פתח קובץ
                                   </button>
+                                {existingFile?.review_status === 'rejected' && (
+                                  <div className="mt-3">
+                                    <div className="text-xs text-gray-600 mb-1">העלאת מסמך חלופי:</div>
+                                    <CustomFileInput
+                                      onChange={(e) => handleFileUpload(e, field.fieldSlug, fieldInfo.name)}
+                                      disabled={uploading}
+                                      ariaLabel={`העלה קובץ חלופי עבור ${fieldInfo.name}`}
+                                      className="w-full"
+                                    />
+                                  </div>
+                                )}
                               </div>
                             ) : (
                               <div className="mt-3">
@@ -653,27 +1093,32 @@ export default function CustomerPage() {
               <div className="bg-white rounded-lg shadow-md p-6">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-xl font-semibold text-gray-900">פרטי לקוח</h2>
-                  <button
-                    className="text-red-600 hover:text-red-800 bg-red-50 hover:bg-red-100 px-3 py-1 rounded-md transition-colors"
-                    onClick={async () => {
-                      const confirmed = confirm(`למחוק את הלקוח וכל הנתונים עבור ${phoneNumber}? פעולה זו אינה ניתנת לביטול.`)
-                      if (!confirmed) return
-                      try {
-                        const success = await SupabaseService.deleteCustomerCompletely(phoneNumber)
-                        if (success) {
-                          alert('הלקוח נמחק בהצלחה')
-                          window.location.href = '/admin'
-                        } else {
-                          alert('מחיקה נכשלה. נסה שוב.')
+                  {adminSession?.role === 'owner' && (
+                    <button
+                      className="text-red-600 hover:text-red-800 bg-red-50 hover:bg-red-100 px-3 py-1 rounded-md transition-colors"
+                      onClick={async () => {
+                        const confirmed = confirm(`למחוק את הלקוח וכל הנתונים עבור ${phoneNumber}? פעולה זו אינה ניתנת לביטול.`)
+                        if (!confirmed) return
+                        try {
+                          const response = await fetch(`/api/customers?phoneNumber=${encodeURIComponent(phoneNumber)}`, {
+                            method: 'DELETE'
+                          })
+                          const result = await response.json()
+                          if (result.success) {
+                            alert('הלקוח נמחק בהצלחה')
+                            window.location.href = '/admin'
+                          } else {
+                            alert(`מחיקה נכשלה: ${result.error || 'נסה שוב.'}`)
+                          }
+                        } catch (e) {
+                          console.error('Delete customer failed:', e)
+                          alert('שגיאה במחיקה')
                         }
-                      } catch (e) {
-                        console.error('Delete customer failed:', e)
-                        alert('שגיאה במחיקה')
-                      }
-                    }}
-                  >
-                    מחק לקוח
-                  </button>
+                      }}
+                    >
+                      מחק לקוח
+                    </button>
+                  )}
                 </div>
                 
                 {/* Personal Details */}
@@ -733,7 +1178,7 @@ export default function CustomerPage() {
                           aria-label="בחר קריטריון זכאות"
                         >
                           <option value="">לא נבחר</option>
-                          {formFieldsData.formTypes.map((formType) => (
+                          {getFormDefinitions().formTypes.filter(formType => formType.isActive !== false || formType.slug === customerDetails.criterion).map((formType) => (
                             <option key={formType.slug} value={formType.slug}>
                               {formType.label}
                             </option>
@@ -904,6 +1349,22 @@ export default function CustomerPage() {
                     >
                       שלח קישור לטופס
                     </button>
+                    <button 
+                      onClick={handleToggleHandoff}
+                      disabled={updatingHandoff}
+                      className={`w-full text-sm px-3 py-2 rounded-md transition-colors ${
+                        updatingHandoff 
+                          ? 'bg-gray-400 cursor-not-allowed text-white' 
+                          : humanHandling
+                            ? 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                            : 'bg-purple-600 hover:bg-purple-700 text-white'
+                      }`}
+                    >
+                      {humanHandling ? '🤖 החזר את השיחה לבוט' : '👤 נציג מטפל בשיחה (השתק בוט)'}
+                    </button>
+                    {humanHandling && (
+                      <p className="text-xs text-purple-700">הבוט לא עונה אוטומטית ללקוח זה</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -923,9 +1384,26 @@ export default function CustomerPage() {
                         <div key={submission.id} className="border rounded-lg p-4">
                           <div className="flex justify-between items-center mb-3">
                             <h3 className="font-medium text-gray-900">{submission.form_type_label}</h3>
-                            <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">
-                              {formFiles.length} קבצים
-                            </span>
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">
+                                {formFiles.length} קבצים
+                              </span>
+                              <a
+                                href={`/api/customers/submissions/${submission.id}/bundle`}
+                                className="text-xs bg-blue-50 text-blue-700 hover:bg-blue-100 px-2 py-1 rounded"
+                              >
+                                ⬇️ הורד תיק (ZIP)
+                              </a>
+                              {!!adminSession && adminSession.role !== 'read_only' && (
+                                <button
+                                  onClick={() => handleCreatePackage(submission.id!)}
+                                  disabled={creatingPackageFor !== null}
+                                  className="text-xs bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50 px-2 py-1 rounded"
+                                >
+                                  {creatingPackageFor === submission.id ? 'יוצר PDF...' : '📑 צור PDF מאוחד'}
+                                </button>
+                              )}
+                            </div>
                           </div>
                           
                           <div className="space-y-2">
@@ -933,14 +1411,21 @@ export default function CustomerPage() {
                               <div key={file.id} className="p-2 bg-gray-50 rounded border">
                                 <div className="flex justify-between items-start">
                                   <div className="flex-1">
-                                    <div className="font-medium text-xs text-gray-900 truncate">{file.field_name}</div>
+                                    <div className="flex items-center gap-1">
+                                      <div className="font-medium text-xs text-gray-900 truncate">{file.field_name}</div>
+                                      {getFieldInfo(file.field_slug) && (
+                                        <span className={`text-[10px] px-1.5 rounded-full shrink-0 ${REVIEW_STATUS_LABELS[file.review_status || 'pending'].className}`}>
+                                          {REVIEW_STATUS_LABELS[file.review_status || 'pending'].label}
+                                        </span>
+                                      )}
+                                    </div>
                                     <div className="text-xs text-gray-600 truncate">{file.file_name}</div>
                                     <div className="text-xs text-gray-500">
                                       {(file.file_size / 1024).toFixed(1)} KB • {new Date(file.created_at || '').toLocaleDateString('he-IL')}
                               </div>
                             </div>
                             <button
-                              onClick={() => getFileUrl(file.file_path)}
+                              onClick={() => openFile(file)}
                                     className="text-blue-600 hover:text-blue-800 text-xs ml-2 bg-blue-50 px-2 py-1 rounded"
                             >
                               צפה
@@ -960,13 +1445,14 @@ export default function CustomerPage() {
                 )}
               </div>
 
-              {/* Authorization Tokens - Hidden per user request */}
-              {/* 
-              <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-                <h2 className="text-xl font-semibold mb-4 text-gray-900">אסימוני הרשאה ({authTokens.length})</h2>
-                [Previous authorization tokens section hidden]
-              </div>
-              */}
+              {/* Magic-link tokens */}
+              <AuthTokensPanel
+                phoneNumber={phoneNumber}
+                canEdit={!!adminSession && adminSession.role !== 'read_only'}
+              />
+
+              {/* Link opens */}
+              <LinkActivityPanel phoneNumber={phoneNumber} />
 
               {/* Message History */}
               <div className="bg-white rounded-lg shadow-md p-6">
@@ -976,9 +1462,11 @@ export default function CustomerPage() {
                   <div className="space-y-3 max-h-96 overflow-y-auto">
                     {messageHistory.map((message) => (
                       <div key={message.id} className={`p-3 rounded-lg border-r-4 ${
-                        message.sent_successfully 
-                          ? 'bg-green-50 border-green-400' 
-                          : 'bg-red-50 border-red-400'
+                        message.direction === 'incoming'
+                          ? 'bg-indigo-50 border-indigo-400 mr-8'
+                          : message.sent_successfully 
+                            ? 'bg-green-50 border-green-400' 
+                            : 'bg-red-50 border-red-400'
                       }`}>
                         <div className="flex justify-between items-start mb-2">
                           <div className="flex items-center gap-2">
@@ -1005,11 +1493,24 @@ export default function CustomerPage() {
                         
                         <div className="flex justify-between items-center text-xs">
                           <div className="flex items-center gap-2">
-                            {message.sent_successfully ? (
+                            {message.direction === 'incoming' ? (
+                              <span className="text-indigo-600">⬅️ התקבל מהלקוח</span>
+                            ) : message.sent_successfully ? (
                               <span className="text-green-600">✓ נשלח בהצלחה</span>
                             ) : (
                               <span className="text-red-600">✗ שגיאה בשליחה</span>
                             )}
+                            {message.direction !== 'incoming' && message.delivery_status && (
+                              <span className={getDeliveryStatusColor(message.delivery_status)} title={
+                                message.read_at
+                                  ? `נקראה: ${new Date(message.read_at).toLocaleString('he-IL')}`
+                                  : message.delivered_at
+                                    ? `נמסרה: ${new Date(message.delivered_at).toLocaleString('he-IL')}`
+                                    : undefined
+                              }>
+                                {getDeliveryStatusLabel(message.delivery_status)}
+                              </span>
+                            )}
                             {message.whatsapp_message_id && (
                               <span className="text-gray-500">ID: {message.whatsapp_message_id}</span>
                             )}
@@ -1028,6 +1529,30 @@ export default function CustomerPage() {
                     אין הודעות עדיין
                 </div>
               )}
+
+                {/* Quick reply */}
+                <div className="mt-4 pt-4 border-t">
+                  <textarea
+                    value={replyText}
+                    onChange={(e) => setReplyText(e.target.value)}
+                    placeholder="כתוב תשובה ללקוח..."
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900 min-h-[80px]"
+                    disabled={sendingMessage}
+                  />
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={handleSendReply}
+                      disabled={sendingMessage || !replyText.trim()}
+                      className={`px-4 py-2 rounded-md text-sm transition-colors ${
+                        sendingMessage || !replyText.trim()
+                          ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                          : 'bg-green-600 hover:bg-green-700 text-white'
+                      }`}
+                    >
+                      {sendingMessage ? 'שולח...' : '📱 שלח תשובה'}
+                    </button>
+                  </div>
+                </div>
             </div>
           </div>
         </div>
@@ -1074,6 +1599,7 @@ export default function CustomerPage() {
                   כתוב הודעה מותאמת:
                 </label>
                 <textarea
+                  id="custom-message-textarea"
                   placeholder="כתוב כאן את ההודעה שלך..."
                   className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900 min-h-[150px]"
                   disabled={sendingMessage}
@@ -1091,7 +1617,7 @@ export default function CustomerPage() {
                 </button>
                 <button
                   onClick={async () => {
-                    const textarea = document.querySelector('textarea') as HTMLTextAreaElement
+                    const textarea = document.getElementById('custom-message-textarea') as HTMLTextAreaElement
                     const customMessage = textarea?.value?.trim()
                     
                     if (customMessage) {
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { FormDefinitionSource, FormDefinitions } from '@/lib/form-definitions'
+import FormTypeEditor from '@/components/FormTypeEditor'
+import FormFieldEditor from '@/components/FormFieldEditor'
+import { useAdminSession } from '@/components/AdminUserMenu'
+import { reloadFormDefinitions } from '@/components/useFormDefinitions'
+
+export default function FormBuilderPage() {
+  const adminSession = useAdminSession()
+  const canEdit = adminSession?.role === 'owner'
+  const [definitions, setDefinitions] = useState<FormDefinitions | null>(null)
+  const [source, setSource] = useState<FormDefinitionSource>('bundled')
+  const [version, setVersion] = useState(0) // Remounts the editors with the saved definitions
+  const [selectedSlug, setSelectedSlug] = useState('')
+  const [editingField, setEditingField] = useState<string | null>(null) // A field slug, or 'new'
+  const [newFormType, setNewFormType] = useState({ slug: '', label: '' })
+  const [saving, setSaving] = useState(false)
+
+  const loadDefinitions = async () => {
+    try {
+      const response = await fetch('/api/forms')
+      const result = await response.json()
+
+      if (result.success) {
+        setDefinitions(result.definitions)
+        setSource(result.source)
+        setVersion(current => current + 1)
+        setSelectedSlug(current => current || result.definitions.formTypes[0]?.slug || '')
+      }
+    } catch (error) {
+      console.error('Error loading form definitions:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadDefinitions()
+  }, [])
+
+  const handleSaved = async () => {
+    setEditingField(null)
+    await loadDefinitions()
+    await reloadFormDefinitions()
+  }
+
+  const sendRequest = async (url: string, method: 'POST' | 'PATCH', body?: object) => {
+    setSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: body ? JSON.stringify(body) : undefined
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        await handleSaved()
+        return true
+      }
+      alert(`❌ שגיאה: ${result.error}`)
+    } catch (error) {
+      console.error('Error saving form definitions:', error)
+      alert('שגיאה בשמירה')
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const importBundled = async () => {
+    if (!confirm('להעתיק את הטפסים הקיימים למסד הנתונים? מעכשיו הם ייערכו מכאן.')) return
+    await sendRequest('/api/forms/import', 'POST')
+  }
+
+  const addFormType = async () => {
+    if (await sendRequest('/api/forms/types', 'POST', newFormType)) {
+      setSelectedSlug(newFormType.slug.trim())
+      setNewFormType({ slug: '', label: '' })
+    }
+  }
+
+  const moveFormType = async (index: number, offset: number) => {
+    if (!definitions) return
+    const order = definitions.formTypes.map(type => type.slug)
+    const target = index + offset
+    if (target < 0 || target >= order.length) return
+    order.splice(target, 0, order.splice(index, 1)[0])
+    await sendRequest('/api/forms/types', 'PATCH', { order })
+  }
+
+  const editable = canEdit && source === 'database'
+  const selectedFormType = definitions?.formTypes.find(type => type.slug === selectedSlug)
+  const sortedFields = Object.values(definitions?.fields || {}).sort((a, b) => a.name.localeCompare(b.name, 'he'))
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8" dir="rtl">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">עורך טפסים</h1>
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-800 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-md transition-colors"
+          >
+            ← חזרה לניהול
+          </Link>
+        </div>
+
+        {!definitions ? (
+          <div className="text-center text-gray-500 py-8">טוען...</div>
+        ) : (
+          <>
+            {source === 'bundled' && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-center justify-between gap-4">
+                <div className="text-sm text-yellow-800">
+                  הטפסים נטענים כרגע מהקובץ המובנה במערכת. כדי לערוך אותם יש להעתיק אותם תחילה למסד הנתונים.
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={importBundled}
+                    disabled={saving}
+                    className="shrink-0 text-sm px-4 py-2 rounded-md bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-400 text-white transition-colors"
+                  >
+                    העתק למסד הנתונים
+                  </button>
+                )}
+              </div>
+            )}
+            {!canEdit && (
+              <div className="text-sm text-gray-600 mb-4">רק בעלים יכולים לערוך טפסים.</div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              {/* Form types */}
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold mb-4 text-gray-900">סוגי טפסים</h2>
+                <div className="space-y-1 mb-4">
+                  {definitions.formTypes.map((formType, index) => (
+                    <div
+                      key={formType.slug}
+                      className={`flex items-center gap-2 p-2 rounded-md cursor-pointer ${
+                        formType.slug === selectedSlug ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50'
+                      } ${formType.isActive === false ? 'opacity-60' : ''}`}
+                      onClick={() => setSelectedSlug(formType.slug)}
+                    >
+                      <div className="flex-1 min-w-0 text-sm text-gray-900 truncate">
+                        {formType.label}
+                        {formType.isActive === false && <span className="text-xs text-gray-500 mr-1">(מושבת)</span>}
+                      </div>
+                      <span className="text-xs text-gray-500">{formType.fields.length}</span>
+                      {editable && (
+                        <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          <button
+                            onClick={() => moveFormType(index, -1)}
+                            disabled={saving || index === 0}
+                            className="text-xs px-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                            aria-label="הזז למעלה"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            onClick={() => moveFormType(index, 1)}
+                            disabled={saving || index === definitions.formTypes.length - 1}
+                            className="text-xs px-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40"
+                            aria-label="הזז למטה"
+                          >
+                            ↓
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {editable && (
+                  <div className="border-t pt-4 space-y-2">
+                    <div className="text-sm font-medium text-gray-700">טופס חדש</div>
+                    <input
+                      type="text"
+                      value={newFormType.label}
+                      onChange={(e) => setNewFormType({ ...newFormType, label: e.target.value })}
+                      placeholder="שם הטופס"
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                    />
+                    <input
+                      type="text"
+                      value={newFormType.slug}
+                      onChange={(e) => setNewFormType({ ...newFormType, slug: e.target.value })}
+                      placeholder="מזהה לקישור (למשל: חקלאי-שכיר)"
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                    />
+                    <button
+                      onClick={addFormType}
+                      disabled={saving || !newFormType.slug.trim() || !newFormType.label.trim()}
+                      className="w-full text-sm px-4 py-2 rounded-md bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white transition-colors"
+                    >
+                      + הוסף טופס
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Selected form type */}
+              <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-6">
+                {selectedFormType ? (
+                  <>
+                    <h2 className="text-xl font-semibold mb-4 text-gray-900">
+                      {selectedFormType.label}
+                      <span className="text-sm font-normal text-gray-500 mr-2">{selectedFormType.slug}</span>
+                    </h2>
+                    <FormTypeEditor
+                      key={`${selectedFormType.slug}-${version}`}
+                      formType={selectedFormType}
+                      fields={definitions.fields}
+                      canEdit={editable}
+                      onSaved={handleSaved}
+                    />
+                  </>
+                ) : (
+                  <div className="text-center text-gray-500 py-8">בחר טופס לעריכה</div>
+                )}
+              </div>
+            </div>
+
+            {/* Field library */}
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold text-gray-900">מסמכים</h2>
+                {editable && editingField !== 'new' && (
+                  <button
+                    onClick={() => setEditingField('new')}
+                    className="text-sm px-4 py-2 rounded-md bg-green-600 hover:bg-green-700 text-white transition-colors"
+                  >
+                    + מסמך חדש
+                  </button>
+                )}
+              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                המסמכים שאפשר לשבץ בטפסים. שינוי במסמך חל על כל הטפסים שבהם הוא מופיע.
+              </p>
+
+              {editingField === 'new' && (
+                <div className="mb-4">
+                  <FormFieldEditor onSaved={handleSaved} onCancel={() => setEditingField(null)} />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {sortedFields.map(field => (
+                  editingField === field.slug ? (
+                    <FormFieldEditor
+                      key={`${field.slug}-${version}`}
+                      field={field}
+                      onSaved={handleSaved}
+                      onCancel={() => setEditingField(null)}
+                    />
+                  ) : (
+                    <div key={field.slug} className="flex justify-between items-start gap-4 p-3 border border-gray-200 rounded-md">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-sm text-gray-900">
+                          {field.name}
+                          <span className="text-xs font-normal text-gray-500 mr-2" dir="ltr">{field.slug}</span>
+                        </div>
+                        {field.description && <div className="text-sm text-gray-700">{field.description}</div>}
+                        <div className="text-xs text-gray-500 mt-1 flex gap-3 flex-wrap">
+                          {field.period && <span>📅 {field.period.count} {field.period.unit === 'month' ? 'חודשים' : 'שבועות'} × {field.period.filesPerPeriod} קבצים</span>}
+                          {!field.period && (field.minFiles || field.maxFiles) && <span>📎 {field.minFiles || 1}–{field.maxFiles || field.minFiles} קבצים</span>}
+                          {(field.template || field.templates?.length) && <span>📄 טופס להורדה</span>}
+                        </div>
+                      </div>
+                      {editable && (
+                        <button
+                          onClick={() => setEditingField(field.slug)}
+                          className="shrink-0 text-xs px-2 py-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100"
+                        >
+                          ערוך
+                        </button>
+                      )}
+                    </div>
+                  )
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { InboxConversation } from '@/lib/supabase'
+
+export default function InboxPage() {
+  const [conversations, setConversations] = useState<InboxConversation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showAll, setShowAll] = useState(false)
+  const [updatingPhone, setUpdatingPhone] = useState<string | null>(null)
+
+  const loadInbox = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/whatsapp/inbox')
+      const result = await response.json()
+
+      if (result.success) {
+        setConversations(result.conversations || [])
+      }
+    } catch (error) {
+      console.error('Error loading inbox:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadInbox()
+  }, [])
+
+  const toggleHandoff = async (conversation: InboxConversation) => {
+    setUpdatingPhone(conversation.phone_number)
+    try {
+      const response = await fetch('/api/whatsapp/handoff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          phoneNumber: conversation.phone_number,
+          enabled: !conversation.human_handling
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setConversations(prev => prev.map(c =>
+          c.phone_number === conversation.phone_number
+            ? { ...c, human_handling: result.humanHandling, handoff_expires_at: result.expiresAt || undefined }
+            : c
+        ))
+      } else {
+        alert(`שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating handoff:', error)
+      alert('שגיאה בעדכון מצב השיחה')
+    } finally {
+      setUpdatingPhone(null)
+    }
+  }
+
+  const formatPhone = (phone: string): string => {
+    if (phone.startsWith('+972') && phone.length >= 13) {
+      const local = phone.substring(4)
+      return `0${local.substring(0, 2)}-${local.substring(2, 5)}-${local.substring(5)}`
+    }
+    return phone
+  }
+
+  // Open conversations: customer is waiting for an answer, or a team member is handling the chat
+  const visibleConversations = showAll
+    ? conversations
+    : conversations.filter(c => c.unanswered_count > 0 || c.human_handling)
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8" dir="rtl">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">תיבת הודעות נכנסות</h1>
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-800 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-md transition-colors"
+          >
+            ← חזרה לניהול
+          </Link>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              שיחות {showAll ? '' : 'פתוחות '}({visibleConversations.length})
+            </h2>
+            <div className="flex gap-3 items-center">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={showAll}
+                  onChange={(e) => setShowAll(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                הצג גם שיחות שנענו
+              </label>
+              <button
+                onClick={loadInbox}
+                disabled={loading}
+                className={`px-4 py-2 rounded-md transition-colors text-sm ${
+                  loading
+                    ? 'bg-gray-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                } text-white`}
+              >
+                {loading ? 'טוען...' : 'רענן'}
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="text-center text-gray-500 py-8">טוען...</div>
+          ) : visibleConversations.length > 0 ? (
+            <div className="space-y-3">
+              {visibleConversations.map((conversation) => (
+                <div
+                  key={conversation.phone_number}
+                  className={`border rounded-lg p-4 ${
+                    conversation.human_handling
+                      ? 'border-purple-300 bg-purple-50'
+                      : conversation.unanswered_count > 0
+                        ? 'border-orange-300 bg-orange-50'
+                        : 'border-gray-200 bg-white'
+                  }`}
+                >
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-gray-900 flex items-center gap-2 flex-wrap">
+                        📱 {conversation.customer_name || formatPhone(conversation.phone_number)}
+                        {conversation.customer_name && (
+                          <span className="text-sm text-gray-500">{formatPhone(conversation.phone_number)}</span>
+                        )}
+                        {conversation.unanswered_count > 0 && (
+                          <span className="text-xs bg-orange-600 text-white px-2 py-1 rounded">
+                            {conversation.unanswered_count} ממתינות למענה
+                          </span>
+                        )}
+                        {conversation.human_handling && (
+                          <span className="text-xs bg-purple-600 text-white px-2 py-1 rounded">👤 בטיפול נציג</span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-700 mt-2 truncate">
+                        {conversation.last_message.direction === 'incoming' ? '⬅️ ' : '➡️ '}
+                        {conversation.last_message.message_content}
+                      </div>
+                      <div className="flex gap-4 mt-2 text-xs text-gray-600 flex-wrap">
+                        <span>🕒 הודעה אחרונה: {new Date(conversation.last_message.sent_at).toLocaleString('he-IL')}</span>
+                        {conversation.handoff_expires_at && (
+                          <span>🤖 הבוט יחזור לפעול: {new Date(conversation.handoff_expires_at).toLocaleString('he-IL')}</span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col gap-2 shrink-0">
+                      <Link
+                        href={`/admin/customers/${encodeURIComponent(conversation.phone_number)}`}
+                        className="text-sm text-center px-3 py-2 rounded-md bg-green-600 hover:bg-green-700 text-white transition-colors"
+                      >
+                        פתח ושלח תשובה
+                      </Link>
+                      <button
+                        onClick={() => toggleHandoff(conversation)}
+                        disabled={updatingPhone === conversation.phone_number}
+                        className={`text-sm px-3 py-2 rounded-md transition-colors ${
+                          updatingPhone === conversation.phone_number
+                            ? 'bg-gray-400 cursor-not-allowed text-white'
+                            : conversation.human_handling
+                              ? 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                              : 'bg-purple-600 hover:bg-purple-700 text-white'
+                        }`}
+                      >
+                        {conversation.human_handling ? '🤖 החזר לבוט' : '👤 העבר לטיפול נציג'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center text-gray-500 py-8">
+              אין שיחות פתוחות
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
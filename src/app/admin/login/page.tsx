@@ -0,0 +1,99 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+function LoginForm() {
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState(
+    searchParams.get('error') === 'config' ? 'התחברות מנהלים לא הוגדרה בשרת (ADMIN_SESSION_SECRET)' : ''
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/admin/auth/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email, password })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        // Only follow local admin paths
+        const next = searchParams.get('next')
+        window.location.href = next && next.startsWith('/admin') ? next : '/admin'
+      } else {
+        setError(response.status === 401 ? 'אימייל או סיסמה שגויים' : result.error || 'שגיאה בהתחברות')
+      }
+    } catch (error) {
+      console.error('Error logging in:', error)
+      setError('שגיאה בהתחברות')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-8 w-full max-w-sm space-y-4">
+      <h1 className="text-2xl font-bold text-gray-900 text-center">כניסת מנהלים</h1>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3">{error}</div>
+      )}
+
+      <label className="block text-sm text-gray-700">
+        אימייל
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          dir="ltr"
+          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900"
+        />
+      </label>
+
+      <label className="block text-sm text-gray-700">
+        סיסמה
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          dir="ltr"
+          className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900"
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className={`w-full px-4 py-2 rounded-md transition-colors ${
+          submitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+        } text-white font-medium`}
+      >
+        {submitting ? 'מתחבר...' : 'התחבר'}
+      </button>
+    </form>
+  )
+}
+
+export default function AdminLoginPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8" dir="rtl">
+      <Suspense fallback={<div className="text-gray-500">טוען...</div>}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  )
+}
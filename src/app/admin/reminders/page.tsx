@@ -2,7 +2,13 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { ReminderCandidate, BatchProgress, ReminderType } from '@/lib/supabase'
+import { ReminderCandidate, ReminderType } from '@/lib/supabase'
+import ReminderPoliciesEditor from '@/components/ReminderPoliciesEditor'
+import SendingWindowEditor from '@/components/SendingWindowEditor'
+import RejectionReasonsEditor from '@/components/RejectionReasonsEditor'
+import BatchJobsPanel from '@/components/BatchJobsPanel'
+import LinkFunnelPanel from '@/components/LinkFunnelPanel'
+import { useAdminSession } from '@/components/AdminUserMenu'
 
 interface MessageTemplates {
   first_message: string
@@ -15,18 +21,23 @@ interface MessageTemplates {
 }
 
 export default function RemindersPage() {
+  const adminSession = useAdminSession()
+  const canEditSettings = adminSession?.role === 'owner' // Templates, policies, the sending window and rejection reasons
   const [candidates, setCandidates] = useState<ReminderCandidate[]>([])
   const [loading, setLoading] = useState(true)
   const [processing, setProcessing] = useState(false)
   const [lastCheck, setLastCheck] = useState<string>('')
   const [showTemplates, setShowTemplates] = useState(false)
+  const [showPolicies, setShowPolicies] = useState(false)
+  const [showSendingWindow, setShowSendingWindow] = useState(false)
+  const [showRejectionReasons, setShowRejectionReasons] = useState(false)
   const [savingTemplates, setSavingTemplates] = useState(false)
   
   // Multi-select state
   const [selectedCandidates, setSelectedCandidates] = useState<Set<string>>(new Set())
   const [batchProcessing, setBatchProcessing] = useState(false)
-  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null)
-  const [showBatchProgress, setShowBatchProgress] = useState(false)
+  const [batchScheduleAt, setBatchScheduleAt] = useState('')
+  const [batchJobsRefreshKey, setBatchJobsRefreshKey] = useState(0)
   
   const [templates, setTemplates] = useState<MessageTemplates>({
     first_message: 'שלום {customerName}! 👋\n\nבהמשך לשיחתינו ועל מנת שנוכל לקדם את הבקשה שלך מול המשרד לביטחון פנים יש להמציא את המסמכים המופרטים ברשימה הבאה:\n\n{formLink}\n\nבברכה, Easy2Get',
@@ -68,7 +79,10 @@ export default function RemindersPage() {
       const result = await response.json()
       
       if (result.success) {
-        alert(`✅ הושלם! נשלחו ${result.sent} תזכורות, ${result.failed} נכשלו`)
+        const deferredText = result.deferred > 0
+          ? `\n🌙 ${result.deferred} נדחו עד חלון השליחה הבא${result.nextWindowAt ? ` (${new Date(result.nextWindowAt).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' })})` : ''}`
+          : ''
+        alert(`✅ הושלם! נשלחו ${result.sent} תזכורות, ${result.failed} נכשלו${deferredText}`)
         loadCandidates() // Reload to see updated status
       } else {
         alert(`❌ שגיאה: ${result.error}`)
@@ -120,7 +134,7 @@ export default function RemindersPage() {
     }
   }
 
-  const sendManualReminder = async (phoneNumber: string, formType: string) => {
+  const sendManualReminder = async (phoneNumber: string, formType: string, force: boolean = false) => {
     try {
       const response = await fetch('/api/reminders/manage', {
         method: 'POST',
@@ -130,12 +144,23 @@ export default function RemindersPage() {
         body: JSON.stringify({
           action: 'send-now',
           phoneNumber,
-          formType
+          formType,
+          force
         })
       })
       
       const result = await response.json()
       
+      if (result.outsideWindow) {
+        const nextWindow = result.nextWindowAt
+          ? new Date(result.nextWindowAt).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' })
+          : 'לא ידוע'
+        if (confirm(`🌙 כעת מחוץ לחלון השליחה (שליחה תתחדש: ${nextWindow}).\nלשלוח בכל זאת?`)) {
+          await sendManualReminder(phoneNumber, formType, true)
+        }
+        return
+      }
+      
       if (result.success) {
         alert('✅ תזכורת נשלחה בהצלחה!')
         loadCandidates()
@@ -194,20 +219,23 @@ export default function RemindersPage() {
 
     // Confirm batch operation
     const estimatedMinutes = Math.ceil((selected.length * 3.5) + (Math.floor(selected.length / 20) * 30))
-    const confirmMessage = `האם אתה בטוח שברצונך לשלוח ${selected.length} תזכורות?\n\nזמן משוער: ${estimatedMinutes} דקות\n(כולל הפסקות של 30 דקות כל 20 הודעות)`
+    const confirmMessage = `האם אתה בטוח שברצונך לשלוח ${selected.length} תזכורות?\n\nזמן משוער: ${formatEstimatedTime(estimatedMinutes)}\n(כולל הפסקות של 30 דקות כל 20 הודעות)`
     
     if (!confirm(confirmMessage)) {
       return
     }
 
+    let scheduledFor: string | undefined
+    if (batchScheduleAt) {
+      const scheduledDate = new Date(batchScheduleAt)
+      if (scheduledDate.getTime() <= Date.now()) {
+        alert('מועד התזמון חייב להיות בעתיד')
+        return
+      }
+      scheduledFor = scheduledDate.toISOString()
+    }
+
     setBatchProcessing(true)
-    setShowBatchProgress(true)
-    setBatchProgress({
-      totalCount: selected.length,
-      sentCount: 0,
-      failedCount: 0,
-      currentStatus: 'preparing'
-    })
 
     try {
       // Convert candidates to batch recipients format
@@ -217,8 +245,6 @@ export default function RemindersPage() {
         reminderType: candidate.reminderType as ReminderType
       }))
 
-      console.log('Starting batch processing for recipients:', recipients)
-
       const response = await fetch('/api/reminders/batch', {
         method: 'POST',
         headers: {
@@ -226,66 +252,30 @@ export default function RemindersPage() {
         },
         body: JSON.stringify({
           recipients,
-          sendImmediately: true
+          sendImmediately: !scheduledFor,
+          scheduledFor
         })
       })
 
       const result = await response.json()
       
-      if (result.success || result.results?.totalSent > 0) {
-        const { totalSent = 0, totalFailed = 0 } = result.results || {}
-        
-        // Update final progress
-        setBatchProgress({
-          totalCount: selected.length,
-          sentCount: totalSent,
-          failedCount: totalFailed,
-          currentStatus: 'completed'
-        })
-
-        // Show results
-        let alertMessage = `✅ עיבוד אצוות הושלם!\n\n📤 נשלחו: ${totalSent}\n❌ נכשלו: ${totalFailed}`
-        
-        if (result.results?.successRate) {
-          alertMessage += `\n📊 שיעור הצלחה: ${result.results.successRate}%`
-        }
-        
-        if (result.results?.durationMinutes) {
-          alertMessage += `\n⏱️ זמן ביצוע: ${result.results.durationMinutes} דקות`
-        }
-
-        if (result.errors && result.errors.length > 0) {
-          alertMessage += `\n\n❌ שגיאות:\n${result.errors.slice(0, 3).map((e: { phoneNumber: string; error: string }) => `• ${e.phoneNumber}: ${e.error}`).join('\n')}`
-          if (result.errors.length > 3) {
-            alertMessage += `\n... ועוד ${result.errors.length - 3} שגיאות`
-          }
-        }
+      if (result.success) {
+        alert(scheduledFor
+          ? `🗓️ האצווה תוזמנה ל-${new Date(scheduledFor).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' })}\n\n${selected.length} הודעות יישלחו ברקע`
+          : `✅ האצווה נוספה לתור!\n\n${selected.length} הודעות יישלחו ברקע - ניתן לסגור את הדף`)
 
-        alert(alertMessage)
-        
-        // Clear selection and reload candidates
+        // Clear selection and show the new job
         setSelectedCandidates(new Set())
-        loadCandidates()
+        setBatchScheduleAt('')
+        setBatchJobsRefreshKey(prev => prev + 1)
       } else {
-        alert(`❌ שגיאה בעיבוד האצווה: ${result.error || 'שגיאה לא ידועה'}`)
+        alert(`❌ שגיאה ביצירת האצווה: ${result.error || 'שגיאה לא ידועה'}`)
       }
     } catch (error) {
-      console.error('Error processing batch reminders:', error)
-      alert('שגיאה בעיבוד התזכורות האצוותיות')
-      
-      setBatchProgress({
-        totalCount: selected.length,
-        sentCount: 0,
-        failedCount: selected.length,
-        currentStatus: 'failed'
-      })
+      console.error('Error creating batch job:', error)
+      alert('שגיאה ביצירת אצוות התזכורות')
     } finally {
       setBatchProcessing(false)
-      // Keep progress visible for a few seconds before hiding
-      setTimeout(() => {
-        setShowBatchProgress(false)
-        setBatchProgress(null)
-      }, 3000)
     }
   }
 
@@ -354,6 +344,31 @@ export default function RemindersPage() {
             >
               {showTemplates ? 'סגור עריכת הודעות' : '✏️ ערוך הודעות תזכורת'}
             </button>
+
+            {canEditSettings && (
+              <>
+                <button
+                  onClick={() => setShowSendingWindow(!showSendingWindow)}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition-colors"
+                >
+                  {showSendingWindow ? 'סגור חלון שליחה' : '🌙 חלון שליחה'}
+                </button>
+
+                <button
+                  onClick={() => setShowPolicies(!showPolicies)}
+                  className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-md transition-colors"
+                >
+                  {showPolicies ? 'סגור מדיניות תזכורות' : '⏱️ מדיניות תזכורות'}
+                </button>
+
+                <button
+                  onClick={() => setShowRejectionReasons(!showRejectionReasons)}
+                  className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors"
+                >
+                  {showRejectionReasons ? 'סגור סיבות דחייה' : '🚫 סיבות דחיית מסמכים'}
+                </button>
+              </>
+            )}
           </div>
 
           {/* Multi-Select Actions */}
@@ -378,6 +393,14 @@ export default function RemindersPage() {
                   </button>
                 )}
                 
+                <input
+                  type="datetime-local"
+                  value={batchScheduleAt}
+                  onChange={(e) => setBatchScheduleAt(e.target.value)}
+                  title="השאר ריק לשליחה מיידית"
+                  className="p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                />
+
                 <button
                   onClick={processBatchReminders}
                   disabled={batchProcessing || selectedCandidates.size === 0}
@@ -388,8 +411,10 @@ export default function RemindersPage() {
                   } text-white`}
                 >
                   {batchProcessing 
-                    ? 'שולח אצווה...' 
-                    : `📤 שלח נבחרים (${selectedCandidates.size})`
+                    ? 'יוצר אצווה...' 
+                    : batchScheduleAt
+                      ? `🗓️ תזמן נבחרים (${selectedCandidates.size})`
+                      : `📤 שלח נבחרים (${selectedCandidates.size})`
                   }
                 </button>
               </div>
@@ -415,52 +440,20 @@ export default function RemindersPage() {
           )}
         </div>
 
-        {/* Batch Progress Display */}
-        {showBatchProgress && batchProgress && (
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6">
-            <h3 className="text-lg font-semibold text-blue-900 mb-4">התקדמות שליחת אצווה</h3>
-            
-            <div className="space-y-3">
-              <div className="flex justify-between items-center">
-                <span className="text-blue-800">סה״כ הודעות:</span>
-                <span className="font-medium text-blue-900">{batchProgress.totalCount}</span>
-              </div>
-              
-              <div className="flex justify-between items-center">
-                <span className="text-blue-800">נשלחו בהצלחה:</span>
-                <span className="font-medium text-green-700">{batchProgress.sentCount}</span>
-              </div>
-              
-              <div className="flex justify-between items-center">
-                <span className="text-blue-800">נכשלו:</span>
-                <span className="font-medium text-red-700">{batchProgress.failedCount}</span>
-              </div>
-              
-              <div className="w-full bg-gray-200 rounded-full h-3">
-                <div 
-                  className="bg-blue-600 h-3 rounded-full transition-all duration-300" 
-                  style={{ 
-                    width: `${((batchProgress.sentCount + batchProgress.failedCount) / batchProgress.totalCount) * 100}%` 
-                  }}
-                ></div>
-              </div>
-              
-              <div className="text-sm text-blue-700">
-                {batchProgress.currentStatus === 'preparing' && '🔄 מכין להעברה...'}
-                {batchProgress.currentStatus === 'sending' && `📤 שולח ל-${batchProgress.currentRecipient || 'מועמד'}...`}
-                {batchProgress.currentStatus === 'sleeping' && '😴 הפסקה של 30 דקות...'}
-                {batchProgress.currentStatus === 'completed' && '✅ הושלם!'}
-                {batchProgress.currentStatus === 'failed' && '❌ נכשל'}
-                
-                {batchProgress.estimatedTimeRemaining && batchProgress.estimatedTimeRemaining > 0 && (
-                  <span className="mr-2">
-                    (זמן משוער: {formatEstimatedTime(Math.ceil(batchProgress.estimatedTimeRemaining / 1000 / 60))})
-                  </span>
-                )}
-              </div>
-            </div>
-          </div>
-        )}
+        {/* Batch Jobs */}
+        <BatchJobsPanel refreshKey={batchJobsRefreshKey} />
+
+        {/* Link Funnel */}
+        <LinkFunnelPanel />
+
+        {/* Sending Window Editor */}
+        {showSendingWindow && <SendingWindowEditor />}
+
+        {/* Reminder Policies Editor */}
+        {showPolicies && <ReminderPoliciesEditor />}
+
+        {/* Rejection Reasons Editor */}
+        {showRejectionReasons && <RejectionReasonsEditor />}
 
         {/* Message Templates Editor */}
         {showTemplates && (
@@ -498,7 +491,7 @@ export default function RemindersPage() {
                   placeholder="הודעת תזכורת ראשונה"
                 />
                 <div className="text-xs text-gray-600 mt-1">
-                  השתמש ב-{`{customerName}`} לשם הלקוח וב-{`{formLabel}`} לשם הטופס
+                  השתמש ב-{`{customerName}`} לשם הלקוח, ב-{`{formLabel}`} לשם הטופס וב-{`{formLink}`} לקישור לטופס (אופציונלי)
                 </div>
               </div>
 
@@ -515,7 +508,7 @@ export default function RemindersPage() {
                   placeholder="הודעת תזכורת שנייה"
                 />
                 <div className="text-xs text-gray-600 mt-1">
-                  השתמש ב-{`{customerName}`} לשם הלקוח וב-{`{formLabel}`} לשם הטופס
+                  השתמש ב-{`{customerName}`} לשם הלקוח, ב-{`{formLabel}`} לשם הטופס וב-{`{formLink}`} לקישור לטופס (אופציונלי)
                 </div>
               </div>
 
@@ -532,7 +525,7 @@ export default function RemindersPage() {
                   placeholder="הודעת תזכורת שבוע ראשון"
                 />
                 <div className="text-xs text-gray-600 mt-1">
-                  השתמש ב-{`{customerName}`} לשם הלקוח וב-{`{formLabel}`} לשם הטופס
+                  השתמש ב-{`{customerName}`} לשם הלקוח, ב-{`{formLabel}`} לשם הטופס וב-{`{formLink}`} לקישור לטופס (אופציונלי)
                 </div>
               </div>
 
@@ -549,7 +542,7 @@ export default function RemindersPage() {
                   placeholder="הודעת תזכורת שבוע שני"
                 />
                 <div className="text-xs text-gray-600 mt-1">
-                  השתמש ב-{`{customerName}`} לשם הלקוח וב-{`{formLabel}`} לשם הטופס
+                  השתמש ב-{`{customerName}`} לשם הלקוח, ב-{`{formLabel}`} לשם הטופס וב-{`{formLink}`} לקישור לטופס (אופציונלי)
                 </div>
               </div>
 
@@ -566,7 +559,7 @@ export default function RemindersPage() {
                   placeholder="הודעת תזכורת שבוע שלישי"
                 />
                 <div className="text-xs text-gray-600 mt-1">
-                  השתמש ב-{`{customerName}`} לשם הלקוח וב-{`{formLabel}`} לשם הטופס
+                  השתמש ב-{`{customerName}`} לשם הלקוח, ב-{`{formLabel}`} לשם הטופס וב-{`{formLink}`} לקישור לטופס (אופציונלי)
                 </div>
               </div>
 
@@ -583,7 +576,7 @@ export default function RemindersPage() {
                   placeholder="הודעת תזכורת שבוע רביעי"
                 />
                 <div className="text-xs text-gray-600 mt-1">
-                  השתמש ב-{`{customerName}`} לשם הלקוח וב-{`{formLabel}`} לשם הטופס - זוהי התזכורת האחרונה שתישלח שוב ושוב
+                  השתמש ב-{`{customerName}`} לשם הלקוח, ב-{`{formLabel}`} לשם הטופס וב-{`{formLink}`} לקישור לטופס (אופציונלי) - זוהי התזכורת האחרונה שתישלח שוב ושוב
                 </div>
               </div>
 
@@ -591,9 +584,10 @@ export default function RemindersPage() {
               <div className="flex gap-3 pt-4 border-t">
                 <button
                   onClick={saveTemplates}
-                  disabled={savingTemplates}
+                  disabled={savingTemplates || !canEditSettings}
+                  title={canEditSettings ? undefined : 'רק בעלים יכולים לערוך תבניות'}
                   className={`px-6 py-2 rounded-md transition-colors ${
-                    savingTemplates
+                    savingTemplates || !canEditSettings
                       ? 'bg-gray-400 cursor-not-allowed'
                       : 'bg-green-600 hover:bg-green-700'
                   } text-white font-medium`}
@@ -662,6 +656,7 @@ export default function RemindersPage() {
                             📱 {candidate.phoneNumber}
                             {isFirstMessage && <span className="text-xs bg-blue-600 text-white px-2 py-1 rounded">הודעה ראשונה</span>}
                             {isSelected && <span className="text-xs bg-orange-600 text-white px-2 py-1 rounded">נבחר</span>}
+                            {candidate.escalated && <span className="text-xs bg-red-600 text-white px-2 py-1 rounded">הוקדם - תזכורת לא נקראה</span>}
                           </div>
                           <div className="text-sm text-gray-700 mt-1">
                             📋 {candidate.formTypeLabel || candidate.formType}
@@ -679,7 +674,32 @@ export default function RemindersPage() {
                             }</span>
                             <span>📅 ימים מאז פעולה: {candidate.daysSinceLastAction}</span>
                             <span>📊 תזכורות שנשלחו: {candidate.reminderCount}</span>
+                            {candidate.policyName && <span>⏱️ מדיניות: {candidate.policyName}</span>}
+                            {candidate.lastReminderSentAt && (
+                              <span className={
+                                candidate.lastReminderStatus === 'read' ? 'text-blue-700 font-medium' :
+                                candidate.lastReminderStatus === 'failed' ? 'text-red-600 font-medium' :
+                                'text-gray-600'
+                              }>
+                                📨 תזכורת אחרונה: {
+                                  candidate.lastReminderStatus === 'read' ? 'נקראה ✓✓' :
+                                  candidate.lastReminderStatus === 'delivered' ? 'נמסרה, לא נקראה ✓✓' :
+                                  candidate.lastReminderStatus === 'sent' ? 'נשלחה ✓' :
+                                  candidate.lastReminderStatus === 'failed' ? 'לא נמסרה ✗' :
+                                  'אין אישור מסירה'
+                                } ({new Date(candidate.lastReminderSentAt).toLocaleDateString('he-IL')})
+                              </span>
+                            )}
                           </div>
+                          {candidate.missingPeriods && candidate.missingPeriods.length > 0 && (
+                            <div className="mt-2 space-y-1">
+                              {candidate.missingPeriods.map((missing) => (
+                                <div key={missing} className="text-xs text-amber-800 bg-amber-50 rounded px-2 py-1">
+                                  📅 חסר: {missing}
+                                </div>
+                              ))}
+                            </div>
+                          )}
                           {isFirstMessage && (
                             <div className="mt-2 text-xs text-blue-700 font-medium">
                               🆕 לקוח ללא טפסים - יקבל קישור עם אימות וקיצור אוטומטי
@@ -722,13 +742,18 @@ export default function RemindersPage() {
           <div className="text-sm text-blue-800 space-y-1">
             <div>• 🆕 <strong>הודעות ראשונות:</strong> לקוחות ללא טפסים יקבלו הודעה ראשונה עם קישור מאומת וקצר אוטומטית</div>
             <div>• 📤 כאשר טופס נשלח ללקוח, הטיימר מתחיל</div>
+            <div>• ⏱️ הזמנים שלהלן הם ברירת המחדל - ניתן לשנות אותם לכל סוג טופס או לטופס ספציפי ב&ldquo;מדיניות תזכורות&rdquo;</div>
             <div>• ⏰ לאחר 48 שעות - תזכורת ראשונה (אם אין אינטראקציה)</div>
             <div>• ⏰ לאחר 72 שעות נוספות - תזכורת שנייה</div>
             <div>• 📅 שבוע אחד לאחר מכן - תזכורת שבוע ראשון</div>
             <div>• 📅 שבוע שני - תזכורת שבוע שני</div>
             <div>• 📅 שבוע שלישי - תזכורת שבוע שלישי</div>
             <div>• 📅 שבוע רביעי ואילך - תזכורת אחרונה (חוזרת כל שבוע)</div>
-            <div>• 🎯 אינטראקציות (העלאת קבצים) מאפסות את הטיימר</div>
+            <div>• 🌙 תזכורות נשלחות רק בחלון השליחה (שעות היום, לא בשבת ובחגים) - מה שלא נשלח יידחה לחלון הבא</div>
+            <div>• 📦 שליחת נבחרים יוצרת אצווה שנשלחת ברקע (ניתן לתזמן, להשהות ולבטל) - אין צורך להשאיר את הדף פתוח</div>
+            <div>• 🎯 אינטראקציות (העלאת קבצים, פתיחת הקישור, הודעה בצ&apos;אט) מאפסות את הטיימר</div>
+            <div>• 💬 לקוח שענה בצ&apos;אט או פתח את הקישור ב-48 השעות האחרונות לא יקבל תזכורת</div>
+            <div>• 📨 תזכורת שנמסרה ולא נקראה במשך 24 שעות - התזכורת הבאה תישלח בחצי מהזמן</div>
             <div>• 🔧 <strong>סוג הטופס נקבע אוטומטית</strong> על פי השדה &ldquo;קריטריון&rdquo; של הלקוח</div>
           </div>
         </div>
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { TokenAnomaly, TokenAnomalyType, TokenValidationLog, TokenValidationReason } from '@/lib/supabase'
+import { getFormTypeLabel } from '@/lib/form-definitions'
+import { useFormDefinitions } from '@/components/useFormDefinitions'
+
+const ANOMALY_LABELS: Record<TokenAnomalyType, { label: string; description: string }> = {
+  many_ips: { label: '🌐 נפתח מכתובות רבות', description: 'אותו קישור נפתח בהצלחה מכמה כתובות IP - ייתכן שהועבר לאחרים' },
+  repeated_failures: { label: '🔁 ניסיונות כושלים חוזרים', description: 'ניסיונות אימות כושלים רבים - ייתכן ניחוש או קישור שדלף' },
+  used_after_revocation: { label: '🚫 שימוש לאחר ביטול', description: 'נעשה ניסיון להשתמש בקישור שבוטל' }
+}
+
+const REASON_LABELS: Record<TokenValidationReason, string> = {
+  ok: '✅ תקין',
+  not_found: '❓ לא נמצא',
+  expired: '⌛ פג תוקף',
+  used: '🔒 נוצל',
+  revoked: '🚫 בוטל'
+}
+
+const WINDOW_OPTIONS = [1, 7, 30]
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : '-'
+
+const formatPhone = (phone?: string): string => {
+  if (!phone) return '-'
+  if (phone.startsWith('+972') && phone.length >= 13) {
+    const local = phone.substring(4)
+    return `0${local.substring(0, 2)}-${local.substring(2, 5)}-${local.substring(5)}`
+  }
+  return phone
+}
+
+const getFormLabel = (formType?: string) => formType ? getFormTypeLabel(formType) : '-'
+
+export default function TokenAuditPage() {
+  useFormDefinitions() // Re-render with the form builder's labels once they load
+  const [days, setDays] = useState(7)
+  const [anomalies, setAnomalies] = useState<TokenAnomaly[]>([])
+  const [logs, setLogs] = useState<TokenValidationLog[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadAudit = async (windowDays: number) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/auth/tokens/audit?days=${windowDays}`)
+      const result = await response.json()
+
+      if (result.success) {
+        setAnomalies(result.anomalies || [])
+        setLogs(result.logs || [])
+      }
+    } catch (error) {
+      console.error('Error loading token audit:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadAudit(days)
+  }, [days])
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8" dir="rtl">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">ביקורת קישורי גישה</h1>
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-800 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-md transition-colors"
+          >
+            ← חזרה לניהול
+          </Link>
+        </div>
+
+        <div className="flex gap-3 items-center mb-6">
+          <span className="text-sm text-gray-700">תקופה:</span>
+          {WINDOW_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                days === option ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {option === 1 ? 'יום אחרון' : `${option} ימים`}
+            </button>
+          ))}
+          <button
+            onClick={() => loadAudit(days)}
+            disabled={loading}
+            className={`px-4 py-1 rounded-md transition-colors text-sm ${
+              loading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+            } text-white`}
+          >
+            {loading ? 'טוען...' : 'רענן'}
+          </button>
+        </div>
+
+        {/* Anomalies */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">חריגות ({anomalies.length})</h2>
+
+          {loading ? (
+            <div className="text-center text-gray-500 py-8">טוען...</div>
+          ) : anomalies.length > 0 ? (
+            <div className="space-y-3">
+              {anomalies.map((anomaly, index) => {
+                const label = ANOMALY_LABELS[anomaly.type]
+                return (
+                  <div key={`${anomaly.type}-${anomaly.token_id || anomaly.ip_addresses[0]}-${index}`} className="border border-red-200 bg-red-50 rounded-lg p-4">
+                    <div className="flex justify-between items-start gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-gray-900">{label.label}</div>
+                        <div className="text-sm text-gray-700 mt-1">{label.description}</div>
+                        <div className="flex gap-4 mt-2 text-xs text-gray-600 flex-wrap">
+                          <span>📱 {formatPhone(anomaly.phone_number)}</span>
+                          <span>📋 {getFormLabel(anomaly.form_type)}</span>
+                          <span>🔑 {anomaly.token_prefix}…</span>
+                          <span>{anomaly.count} אירועים</span>
+                          <span>{formatTime(anomaly.first_seen)} - {formatTime(anomaly.last_seen)}</span>
+                        </div>
+                        <div className="text-xs text-gray-600 mt-1" dir="ltr">
+                          IP: {anomaly.ip_addresses.join(', ')}
+                        </div>
+                      </div>
+                      {anomaly.phone_number && (
+                        <Link
+                          href={`/admin/customers/${encodeURIComponent(anomaly.phone_number)}`}
+                          className="text-sm px-3 py-2 rounded-md bg-green-600 hover:bg-green-700 text-white transition-colors shrink-0"
+                        >
+                          פתח לקוח
+                        </Link>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          ) : (
+            <div className="text-center text-gray-500 py-8">לא נמצאו חריגות בתקופה זו</div>
+          )}
+        </div>
+
+        {/* Recent validations */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">אימותים אחרונים ({logs.length})</h2>
+
+          {!loading && logs.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-right text-gray-600 border-b">
+                    <th className="py-2 px-2">זמן</th>
+                    <th className="py-2 px-2">תוצאה</th>
+                    <th className="py-2 px-2">טלפון</th>
+                    <th className="py-2 px-2">טופס</th>
+                    <th className="py-2 px-2">IP</th>
+                    <th className="py-2 px-2">דפדפן</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {logs.map(log => (
+                    <tr key={log.id} className={`border-b ${log.outcome === 'invalid' ? 'bg-red-50' : ''}`}>
+                      <td className="py-2 px-2 text-gray-700 whitespace-nowrap">{formatTime(log.created_at)}</td>
+                      <td className="py-2 px-2 text-gray-900 whitespace-nowrap">{REASON_LABELS[log.reason]}</td>
+                      <td className="py-2 px-2 text-gray-700 whitespace-nowrap">{formatPhone(log.phone_number)}</td>
+                      <td className="py-2 px-2 text-gray-700">{getFormLabel(log.form_type)}</td>
+                      <td className="py-2 px-2 text-gray-700" dir="ltr">{log.ip_address || '-'}</td>
+                      <td className="py-2 px-2 text-gray-500 truncate max-w-xs" title={log.user_agent}>{log.user_agent || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : !loading && (
+            <div className="text-center text-gray-500 py-8">אין אימותים בתקופה זו</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
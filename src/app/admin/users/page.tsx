@@ -0,0 +1,235 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { AdminRole } from '@/lib/supabase'
+import type { AdminUserSummary } from '@/lib/admin-auth-service'
+import { ADMIN_ROLE_LABELS, useAdminSession } from '@/components/AdminUserMenu'
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'גישה מלאה, כולל מחיקת לקוחות, תבניות, עורך הטפסים, מדיניות תזכורות וניהול משתמשים',
+  case_handler: 'טיפול בלקוחות: שליחת הודעות ותזכורות, ייבוא, עדכון פרטים',
+  read_only: 'צפייה בלבד, ללא שינויים'
+}
+
+export default function AdminUsersPage() {
+  const session = useAdminSession()
+  const [users, setUsers] = useState<AdminUserSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newUser, setNewUser] = useState({ email: '', name: '', role: 'case_handler' as AdminRole, password: '' })
+  const [creating, setCreating] = useState(false)
+
+  const loadUsers = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/users')
+      const result = await response.json()
+
+      if (result.success) {
+        setUsers(result.users || [])
+      }
+    } catch (error) {
+      console.error('Error loading admin users:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  const createUser = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(newUser)
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setUsers(prev => [...prev, result.user])
+        setNewUser({ email: '', name: '', role: 'case_handler', password: '' })
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error creating admin user:', error)
+      alert('שגיאה ביצירת המשתמש')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const updateUser = async (userId: string, updates: { role?: AdminRole; isActive?: boolean; password?: string }) => {
+    try {
+      const response = await fetch('/api/admin/users', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ userId, ...updates })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setUsers(prev => prev.map(user => (user.id === userId ? result.user : user)))
+        if (updates.password) {
+          alert('✅ הסיסמה עודכנה')
+        }
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating admin user:', error)
+      alert('שגיאה בעדכון המשתמש')
+    }
+  }
+
+  const resetPassword = (user: AdminUserSummary) => {
+    const password = prompt(`סיסמה חדשה עבור ${user.name} (לפחות 10 תווים):`)
+    if (password) {
+      updateUser(user.id!, { password })
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8" dir="rtl">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">ניהול משתמשים</h1>
+          <Link
+            href="/admin"
+            className="text-blue-600 hover:text-blue-800 bg-blue-50 hover:bg-blue-100 px-4 py-2 rounded-md transition-colors"
+          >
+            ← חזרה לניהול
+          </Link>
+        </div>
+
+        {/* New user */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">משתמש חדש</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <input
+              type="text"
+              placeholder="שם"
+              value={newUser.name}
+              onChange={(e) => setNewUser({ ...newUser, name: e.target.value })}
+              className="p-2 border border-gray-300 rounded-md text-gray-900"
+            />
+            <input
+              type="email"
+              placeholder="אימייל"
+              dir="ltr"
+              value={newUser.email}
+              onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+              className="p-2 border border-gray-300 rounded-md text-gray-900"
+            />
+            <input
+              type="password"
+              placeholder="סיסמה (לפחות 10 תווים)"
+              dir="ltr"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              className="p-2 border border-gray-300 rounded-md text-gray-900"
+            />
+            <select
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value as AdminRole })}
+              className="p-2 border border-gray-300 rounded-md text-gray-900"
+            >
+              {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map(role => (
+                <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-600">{ROLE_DESCRIPTIONS[newUser.role]}</span>
+            <button
+              onClick={createUser}
+              disabled={creating || !newUser.email || !newUser.name || !newUser.password}
+              className={`px-4 py-2 rounded-md transition-colors text-sm ${
+                creating || !newUser.email || !newUser.name || !newUser.password
+                  ? 'bg-gray-400 cursor-not-allowed'
+                  : 'bg-green-600 hover:bg-green-700'
+              } text-white`}
+            >
+              {creating ? 'יוצר...' : '+ הוסף משתמש'}
+            </button>
+          </div>
+        </div>
+
+        {/* Users */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">משתמשים ({users.length})</h2>
+
+          {loading ? (
+            <div className="text-center text-gray-500 py-8">טוען...</div>
+          ) : (
+            <div className="space-y-3">
+              {users.map((user) => {
+                const isSelf = user.id === session?.userId
+                return (
+                  <div
+                    key={user.id}
+                    className={`border rounded-lg p-4 flex flex-wrap items-center justify-between gap-4 ${
+                      user.is_active ? 'bg-white' : 'bg-gray-100 opacity-75'
+                    }`}
+                  >
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {user.name} {isSelf && <span className="text-xs text-gray-500">(את/ה)</span>}
+                      </div>
+                      <div className="text-sm text-gray-600" dir="ltr">{user.email}</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        כניסה אחרונה: {user.last_login_at ? new Date(user.last_login_at).toLocaleString('he-IL') : 'אף פעם'}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-2 items-center">
+                      <select
+                        value={user.role}
+                        disabled={isSelf}
+                        onChange={(e) => updateUser(user.id!, { role: e.target.value as AdminRole })}
+                        className="p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                      >
+                        {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map(role => (
+                          <option key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => resetPassword(user)}
+                        className="text-sm px-3 py-2 rounded-md bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors"
+                      >
+                        איפוס סיסמה
+                      </button>
+                      {!isSelf && (
+                        <button
+                          onClick={() => updateUser(user.id!, { isActive: !user.is_active })}
+                          className={`text-sm px-3 py-2 rounded-md transition-colors ${
+                            user.is_active
+                              ? 'border border-red-300 text-red-700 hover:bg-red-50'
+                              : 'bg-green-600 hover:bg-green-700 text-white'
+                          }`}
+                        >
+                          {user.is_active ? 'השבת' : 'הפעל'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AdminAuthService } from '@/lib/admin-auth-service'
+import { AdminSessionService } from '@/lib/admin-session'
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!AdminSessionService.isConfigured()) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Admin authentication is not configured (ADMIN_SESSION_SECRET)' 
+      }, { status: 503 })
+    }
+
+    const { email, password } = await request.json()
+
+    if (!email || !password) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Email and password are required' 
+      }, { status: 400 })
+    }
+
+    const result = await AdminAuthService.authenticate(email, password)
+    if (!result.success || !result.user) {
+      return NextResponse.json({ 
+        success: false, 
+        error: result.error 
+      }, { status: 401 })
+    }
+
+    const { token, expiresAt } = await AdminSessionService.createToken({
+      id: result.user.id!,
+      email: result.user.email,
+      name: result.user.name,
+      role: result.user.role
+    })
+
+    const response = NextResponse.json({
+      success: true,
+      user: result.user
+    })
+
+    return AdminSessionService.setSessionCookie(response, token, expiresAt)
+  } catch (error) {
+    console.error('Admin login error:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
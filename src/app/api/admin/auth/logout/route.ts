@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { AdminSessionService } from '@/lib/admin-session'
+
+export async function POST() {
+  const response = NextResponse.json({ success: true })
+  return AdminSessionService.clearSessionCookie(response)
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AdminSessionService } from '@/lib/admin-session'
+
+// The signed-in admin, used by the admin pages to adapt to the user's role
+export async function GET(request: NextRequest) {
+  const session = await AdminSessionService.getSessionFromRequest(request)
+
+  if (!session) {
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Authentication required' 
+    }, { status: 401 })
+  }
+
+  return NextResponse.json({
+    success: true,
+    session
+  })
+}
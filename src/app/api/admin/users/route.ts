@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AdminAuthService } from '@/lib/admin-auth-service'
+import { AdminSessionService } from '@/lib/admin-session'
+
+// Owner only (enforced by the middleware)
+export async function GET() {
+  try {
+    const users = await AdminAuthService.listUsers()
+
+    return NextResponse.json({
+      success: true,
+      users
+    })
+  } catch (error) {
+    console.error('Error fetching admin users:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, name, role, password } = await request.json()
+
+    if (!email || !name || !password) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Email, name and password are required' 
+      }, { status: 400 })
+    }
+
+    if (!AdminAuthService.isValidRole(role)) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Invalid role' 
+      }, { status: 400 })
+    }
+
+    const result = await AdminAuthService.createUser({ email, name, role, password })
+    if (!result.success) {
+      return NextResponse.json({ 
+        success: false, 
+        error: result.error 
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: result.user
+    })
+  } catch (error) {
+    console.error('Error creating admin user:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
+
+// Update role / name / active flag, or reset the password
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await AdminSessionService.getSessionFromRequest(request)
+    if (!session) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Authentication required' 
+      }, { status: 401 })
+    }
+
+    const { userId, name, role, isActive, password } = await request.json()
+
+    if (!userId) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'userId is required' 
+      }, { status: 400 })
+    }
+
+    if (role !== undefined && !AdminAuthService.isValidRole(role)) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Invalid role' 
+      }, { status: 400 })
+    }
+
+    const result = await AdminAuthService.updateUser(
+      userId,
+      { name, role, is_active: isActive, password },
+      session.userId
+    )
+
+    if (!result.success) {
+      return NextResponse.json({ 
+        success: false, 
+        error: result.error 
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: result.user
+    })
+  } catch (error) {
+    console.error('Error updating admin user:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
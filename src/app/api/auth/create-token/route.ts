@@ -3,16 +3,7 @@ import { TokenService } from '@/lib/token-service'
 
 export async function POST(request: NextRequest) {
   try {
-    // For now, we'll implement basic admin authentication
-    // In production, you might want more sophisticated admin auth
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized - Admin access required' },
-        { status: 401 }
-      )
-    }
-
+    // Admin access (session cookie or ADMIN_API_TOKEN bearer) is enforced by the middleware
     const body = await request.json()
     const { phoneNumber, formType, expiryDays, isReusable } = body
 
@@ -80,27 +71,11 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// For development/testing purposes - simple admin key check
-function isValidAdminToken(token: string): boolean {
-  // In production, implement proper admin authentication
-  // For now, check against an environment variable
-  const adminToken = process.env.ADMIN_API_TOKEN
-  return !!(adminToken && token === adminToken)
-}
-
-// Alternative endpoint with admin key validation
+// Same as POST, used by the admin link modals
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
-    const { phoneNumber, formType, expiryDays, isReusable, adminKey } = body
-
-    // Simple admin key validation
-    if (!adminKey || !isValidAdminToken(adminKey)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid admin key' },
-        { status: 401 }
-      )
-    }
+    const { phoneNumber, formType, expiryDays, isReusable } = body
 
     // Validate required fields
     if (!phoneNumber || !formType) {
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { greenAPI } from '@/lib/green-api'
-import { verificationStorage } from '@/lib/verification-service'
+import { VerificationService } from '@/lib/verification-service'
+import { AuthService } from '@/lib/auth-service'
 import { SupabaseService } from '@/lib/supabase-service'
 
+const buildCodeMessage = (code: string) =>
+  `קוד האימות שלך: ${code}\n\nהקוד תקף ל-${VerificationService.CODE_EXPIRY_MINUTES} דקות.\n\nאל תשתף את הקוד עם אף אחד! 🔒`
+
 export async function POST(request: NextRequest) {
   try {
     const { phoneNumber } = await request.json()
@@ -23,21 +27,46 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (!AuthService.isConfigured()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Customer sessions are not configured'
+      }, { status: 503 })
+    }
+
+    // Cooldown, lockout and per-phone / per-IP hourly limits
+    const ipAddress = AuthService.getClientIp(request.headers)
+    const allowed = await VerificationService.checkSendAllowed(phoneNumber, ipAddress)
+    if (!allowed.success) {
+      return NextResponse.json({
+        success: false,
+        error: allowed.error,
+        retryAfterSeconds: allowed.retryAfterSeconds
+      }, {
+        status: allowed.status,
+        headers: allowed.retryAfterSeconds ? { 'Retry-After': String(allowed.retryAfterSeconds) } : undefined
+      })
+    }
+
     // Generate and store verification code
-    const code = verificationStorage.generateCode()
-    verificationStorage.storeCode(phoneNumber, code, 10) // 10 minutes
+    const code = await VerificationService.createCode(phoneNumber)
+    if (!code) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to create verification code'
+      }, { status: 500 })
+    }
 
     // Send verification code via WhatsApp
     const chatId = greenAPI.formatChatId(phoneNumber)
-    const message = `קוד האימות שלך: ${code}\n\nהקוד תקף ל-10 דקות.\n\nאל תשתף את הקוד עם אף אחד! 🔒`
-
-    const result = await greenAPI.sendMessage(chatId, message)
+    const result = await greenAPI.sendMessage(chatId, buildCodeMessage(code))
+    await VerificationService.recordSend(phoneNumber, ipAddress, result.success, result.success ? undefined : result.error)
 
-    // Log the verification code message
+    // Log the verification code message; the code itself is only kept hashed (see VerificationService)
     await SupabaseService.logMessage({
       phone_number: phoneNumber,
       message_type: 'verification_code',
-      message_content: message,
+      message_content: buildCodeMessage('******'),
       sent_successfully: result.success,
       error_message: result.success ? undefined : result.error,
       whatsapp_message_id: result.data && typeof result.data === 'object' && 'idMessage' in result.data ? String(result.data.idMessage) : undefined
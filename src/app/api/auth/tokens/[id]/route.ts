@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenService } from '@/lib/token-service'
+
+const DEFAULT_EXTEND_DAYS = 30
+
+// Manage a token: { action: 'revoke' | 'extend' | 'regenerate' | 'resend', days? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { action, days } = await request.json()
+
+    let result
+    switch (action) {
+      case 'revoke':
+        result = await TokenService.revokeToken(id)
+        break
+      case 'extend': {
+        const extendDays = days === undefined ? DEFAULT_EXTEND_DAYS : Number(days)
+        if (!Number.isInteger(extendDays) || extendDays < 1 || extendDays > 365) {
+          return NextResponse.json({
+            success: false,
+            error: 'Days must be a whole number between 1 and 365'
+          }, { status: 400 })
+        }
+        result = await TokenService.extendToken(id, extendDays)
+        break
+      }
+      case 'regenerate':
+        result = await TokenService.regenerateToken(id)
+        break
+      case 'resend':
+        result = await TokenService.resendToken(id, `${request.nextUrl.protocol}//${request.nextUrl.host}`)
+        break
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Action must be revoke, extend, regenerate or resend'
+        }, { status: 400 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.error === 'Token not found' ? 404 : 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      token: result.token ? { ...result.token, status: TokenService.getTokenStatus(result.token) } : undefined
+    })
+  } catch (error) {
+    console.error('Error updating token:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
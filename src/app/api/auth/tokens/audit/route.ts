@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenAuditService } from '@/lib/token-audit-service'
+
+// Suspicious token activity and the latest validations: GET ?days=7
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const daysParam = searchParams.get('days')
+    const days = daysParam ? Number(daysParam) : TokenAuditService.DEFAULT_WINDOW_DAYS
+
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      return NextResponse.json({
+        success: false,
+        error: 'Days must be a whole number between 1 and 90'
+      }, { status: 400 })
+    }
+
+    const [anomalies, logs] = await Promise.all([
+      TokenAuditService.detectAnomalies(days),
+      TokenAuditService.getRecentLogs(days)
+    ])
+
+    return NextResponse.json({ success: true, days, anomalies, logs })
+  } catch (error) {
+    console.error('Error fetching token audit:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
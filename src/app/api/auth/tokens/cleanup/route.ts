@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenService } from '@/lib/token-service'
+
+// Scheduled cleanup of old expired and revoked magic-link tokens - call from a scheduler once a day
+async function runCleanup(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const expectedAuth = process.env.REMINDER_JOB_AUTH_TOKEN
+    
+    if (expectedAuth && authHeader !== `Bearer ${expectedAuth}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const deleted = await TokenService.cleanupExpiredTokens()
+
+    return NextResponse.json({
+      success: true,
+      message: `Token cleanup: ${deleted} tokens deleted`,
+      deleted,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Token cleanup error:', error)
+    return NextResponse.json({ 
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return runCleanup(request)
+}
+
+// Cron services that can only issue GET requests
+export async function GET(request: NextRequest) {
+  return runCleanup(request)
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { TokenService } from '@/lib/token-service'
+
+// All magic-link tokens issued for a phone number, newest first, with their lifecycle status
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const phoneNumber = searchParams.get('phoneNumber')
+
+    if (!phoneNumber) {
+      return NextResponse.json({
+        success: false,
+        error: 'Phone number is required'
+      }, { status: 400 })
+    }
+
+    const tokens = await TokenService.getTokensForPhone(phoneNumber)
+
+    return NextResponse.json({
+      success: true,
+      tokens: tokens.map(token => ({ ...token, status: TokenService.getTokenStatus(token) }))
+    })
+  } catch (error) {
+    console.error('Error fetching tokens:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { TokenService } from '@/lib/token-service'
+import { SupabaseService } from '@/lib/supabase-service'
+import { AuthService } from '@/lib/auth-service'
+import { TokenAuditService } from '@/lib/token-audit-service'
 
 export async function GET(request: NextRequest) {
   try {
@@ -14,7 +17,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Validate the token
-    const validation = await TokenService.validateToken(token)
+    const validation = await TokenService.validateToken(token, TokenAuditService.getContext(request.headers, 'open'))
 
     if (!validation.isValid) {
       return NextResponse.json(
@@ -27,8 +30,34 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    if (!AuthService.isConfigured()) {
+      console.error('CUSTOMER_SESSION_SECRET is not configured, token link cannot open a session')
+      return NextResponse.json(
+        { success: false, error: 'Token sessions are not available', isValid: false },
+        { status: 503 }
+      )
+    }
+
+    // A single-use link is consumed by the session it opens; a replayed link gets no new session
+    if (!validation.tokenData!.is_reusable && !await TokenService.markTokenAsUsed(validation.tokenData!.id!)) {
+      return NextResponse.json(
+        { success: false, error: 'Token has already been used', isValid: false },
+        { status: 401 }
+      )
+    }
+
+    // Use count and last use for the admin token panel
+    await SupabaseService.recordTokenUse(validation.tokenData!)
+
+    // Opening the link is an engagement signal for reminder scheduling
+    await SupabaseService.updateSubmissionLinkOpened(
+      validation.tokenData!.phone_number,
+      validation.tokenData!.form_type,
+      new Date().toISOString()
+    )
+
     // Return token information without sensitive data
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       isValid: true,
       data: {
@@ -40,6 +69,12 @@ export async function GET(request: NextRequest) {
       }
     })
 
+    // The link opens a customer session limited to the token's phone number and form
+    return await AuthService.setAuthCookie(response, validation.tokenData!.phone_number, {
+      formType: validation.tokenData!.form_type,
+      method: 'token'
+    })
+
   } catch (error) {
     console.error('Error in validate-token API:', error)
     return NextResponse.json(
@@ -62,7 +97,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate the token
-    const validation = await TokenService.validateToken(token)
+    const validation = await TokenService.validateToken(token, TokenAuditService.getContext(request.headers, 'consume'))
 
     if (!validation.isValid) {
       return NextResponse.json(
@@ -119,7 +154,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Get token data without validation (for status checking)
-    const tokenData = await TokenService.validateToken(token)
+    const tokenData = await TokenService.validateToken(token, TokenAuditService.getContext(request.headers, 'status_check'))
     
     // Prepare response with detailed status
     const response: {
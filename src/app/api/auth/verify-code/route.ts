@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { verificationStorage } from '@/lib/verification-service'
+import { VerificationService } from '@/lib/verification-service'
 import { AuthService } from '@/lib/auth-service'
 
 export async function POST(request: NextRequest) {
@@ -13,6 +13,13 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (!AuthService.isConfigured()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Customer sessions are not configured'
+      }, { status: 503 })
+    }
+
     // Validate code format (6 digits)
     if (!/^\d{6}$/.test(code)) {
       return NextResponse.json({
@@ -21,14 +28,19 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Verify and remove code
-    const isValid = verificationStorage.verifyAndRemoveCode(phoneNumber, code)
-    
-    if (!isValid) {
+    // Verify and consume code (counts the attempt and locks out repeated failures)
+    const ipAddress = AuthService.getClientIp(request.headers)
+    const verification = await VerificationService.verifyCode(phoneNumber, code, ipAddress)
+
+    if (!verification.success) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid or expired verification code'
-      }, { status: 400 })
+        error: verification.error,
+        retryAfterSeconds: verification.retryAfterSeconds
+      }, {
+        status: verification.status,
+        headers: verification.retryAfterSeconds ? { 'Retry-After': String(verification.retryAfterSeconds) } : undefined
+      })
     }
 
     console.log(`Phone number ${phoneNumber} verified successfully`)
@@ -39,8 +51,8 @@ export async function POST(request: NextRequest) {
       phoneNumber
     })
 
-    // Set authentication cookie for 90 days
-    return AuthService.setAuthCookie(response, phoneNumber)
+    // Set signed authentication cookie for 90 days
+    return await AuthService.setAuthCookie(response, phoneNumber)
   } catch (error) {
     console.error('Error in verify-code:', error)
     return NextResponse.json({
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { SupabaseService } from '@/lib/supabase-service'
+import { DocumentIntakeService } from '@/lib/document-intake-service'
+import { FileReviewService } from '@/lib/file-review-service'
+import { getFieldFileLimits } from '@/lib/form-fields'
+import { getFormType } from '@/lib/form-definitions'
+
+// Recompute the submission's progress and return the files the customer should see
+async function syncSubmittedFields(submissionId: string, formType: string) {
+  const progress = await SupabaseService.syncSubmissionProgress(submissionId)
+  return FileReviewService.getCustomerFiles(progress?.files || [], formType)
+}
+
+// Upload a file for one field of the verified customer's submission
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const phoneNumber = formData.get('phoneNumber') as string | null
+    const formType = formData.get('formType') as string | null
+    const fieldSlug = formData.get('fieldSlug') as string | null
+    const periodKey = formData.get('periodKey') as string | null
+    const file = formData.get('file')
+
+    if (!formType || !fieldSlug || !(file instanceof File)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Form type, field and file are required'
+      }, { status: 400 })
+    }
+
+    const { auth, error, status } = await AuthService.authorizeCustomer(request, phoneNumber, formType)
+    if (!auth) {
+      return NextResponse.json({ success: false, error }, { status })
+    }
+
+    await SupabaseService.loadFormDefinitions()
+    const formTypeData = getFormType(formType)
+    const field = DocumentIntakeService.findField(formType, fieldSlug)
+    if (!formTypeData || !field) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unknown form type or field'
+      }, { status: 400 })
+    }
+
+    const result = await SupabaseService.handleFileUpload(
+      auth.phoneNumber,
+      formType,
+      formTypeData.label,
+      fieldSlug,
+      field.name,
+      file,
+      periodKey || undefined
+    )
+
+    if (result.invalidPeriod) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unknown period for this field'
+      }, { status: 400 })
+    }
+
+    if (result.limitReached) {
+      return NextResponse.json({
+        success: false,
+        error: `This field takes up to ${getFieldFileLimits(fieldSlug).maxFiles} files`
+      }, { status: 400 })
+    }
+
+    if (!result.success || !result.submission) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to upload file'
+      }, { status: 500 })
+    }
+
+    const files = await syncSubmittedFields(result.submission.id!, formType)
+
+    return NextResponse.json({ success: true, submission: result.submission, files })
+  } catch (error) {
+    console.error('Error in customer files POST:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// Remove the files uploaded for one field of the verified customer's submission, or just one of them with fileId
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const phoneNumber = searchParams.get('phoneNumber')
+    const formType = searchParams.get('formType')
+    const fieldSlug = searchParams.get('fieldSlug')
+    const fileId = searchParams.get('fileId')
+
+    if (!formType || !fieldSlug) {
+      return NextResponse.json({
+        success: false,
+        error: 'Form type and field are required'
+      }, { status: 400 })
+    }
+
+    const { auth, error, status } = await AuthService.authorizeCustomer(request, phoneNumber, formType)
+    if (!auth) {
+      return NextResponse.json({ success: false, error }, { status })
+    }
+
+    // Only the session's own submission is looked up, so another customer's files can't be reached
+    const submissions = await SupabaseService.getSubmissionsByPhone(auth.phoneNumber)
+    const submission = submissions.find(s => s.form_type === formType)
+    if (!submission) {
+      return NextResponse.json({
+        success: false,
+        error: 'Submission not found'
+      }, { status: 404 })
+    }
+
+    const deleted = fileId
+      ? await SupabaseService.deleteFileById(submission.id!, fileId)
+      : await SupabaseService.deleteFileForField(submission.id!, fieldSlug)
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to delete file'
+      }, { status: 500 })
+    }
+
+    const files = await syncSubmittedFields(submission.id!, formType)
+
+    return NextResponse.json({ success: true, files })
+  } catch (error) {
+    console.error('Error in customer files DELETE:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
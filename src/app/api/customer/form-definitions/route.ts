@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// GET - The form types and fields the customer form and admin pages render
+export async function GET() {
+  try {
+    const { definitions } = await SupabaseService.loadFormDefinitions()
+
+    return NextResponse.json({ success: true, definitions })
+  } catch (error) {
+    console.error('Error loading form definitions:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
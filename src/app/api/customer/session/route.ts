@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+
+// The verified customer behind the signed session cookie, so the form can skip phone verification
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await AuthService.getAuthFromCookie(request)
+    if (!auth) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: {
+        phoneNumber: auth.phoneNumber,
+        formType: auth.formType,
+        expiresAt: auth.expiresAt
+      }
+    })
+  } catch (error) {
+    console.error('Error in customer session GET:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  return AuthService.clearAuthCookie(response)
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthService } from '@/lib/auth-service'
+import { SupabaseService } from '@/lib/supabase-service'
+import { FileReviewService } from '@/lib/file-review-service'
+import { getFormType } from '@/lib/form-definitions'
+
+// The verified customer's submission for a form type (created on first visit) and its uploaded files,
+// without rejected ones
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const phoneNumber = searchParams.get('phoneNumber')
+    const formType = searchParams.get('formType')
+
+    await SupabaseService.loadFormDefinitions()
+    const formTypeData = getFormType(formType)
+    if (!formType || !formTypeData) {
+      return NextResponse.json({
+        success: false,
+        error: 'Valid form type is required'
+      }, { status: 400 })
+    }
+
+    const { auth, error, status } = await AuthService.authorizeCustomer(request, phoneNumber, formType)
+    if (!auth) {
+      return NextResponse.json({ success: false, error }, { status })
+    }
+
+    const submission = await SupabaseService.getOrCreateSubmission(auth.phoneNumber, formType, formTypeData.label)
+    if (!submission) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to load submission'
+      }, { status: 500 })
+    }
+
+    const files = FileReviewService.getCustomerFiles(await SupabaseService.getUploadedFiles(submission.id!), formType)
+
+    return NextResponse.json({ success: true, submission, files })
+  } catch (error) {
+    console.error('Error in customer submission GET:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
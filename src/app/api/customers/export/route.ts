@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CustomerExportService, ExportDataset, ExportFormat } from '@/lib/export-service'
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json']
+const EXPORT_DATASETS: ExportDataset[] = ['customers', 'submissions']
+
+/**
+ * Download customers and their submissions:
+ * GET ?format=csv|xlsx|json&dataset=customers|submissions&search=<phone filter>
+ * CSV holds one dataset; XLSX has a sheet for each and JSON nests submissions under customers.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'csv') as ExportFormat
+    const dataset = (searchParams.get('dataset') || 'customers') as ExportDataset
+    const search = searchParams.get('search') || ''
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ success: false, error: 'Format must be csv, xlsx or json' }, { status: 400 })
+    }
+    if (!EXPORT_DATASETS.includes(dataset)) {
+      return NextResponse.json({ success: false, error: 'Dataset must be customers or submissions' }, { status: 400 })
+    }
+
+    const data = await CustomerExportService.getExportData(search)
+    const date = new Date().toISOString().slice(0, 10)
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify({ exported_at: new Date().toISOString(), customers: data }, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="customers-${date}.json"`
+        }
+      })
+    }
+
+    if (format === 'xlsx') {
+      return new NextResponse(await CustomerExportService.toXlsx(data), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="customers-${date}.xlsx"`
+        }
+      })
+    }
+
+    return new NextResponse(CustomerExportService.toCsv(data, dataset), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${dataset}-${date}.csv"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting customers:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
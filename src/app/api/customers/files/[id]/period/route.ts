@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+import { getPeriodSlots, getReferenceDate } from '@/lib/form-fields'
+
+// Assign a period field's file to one of its months or weeks, or back to unassigned with null
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { periodKey } = await request.json()
+
+    const file = await SupabaseService.getUploadedFileById(id)
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 })
+    }
+
+    const submission = await SupabaseService.getSubmissionById(file.submission_id)
+    if (!submission) {
+      return NextResponse.json({ success: false, error: 'Submission not found' }, { status: 404 })
+    }
+
+    await SupabaseService.loadFormDefinitions()
+    const slots = getPeriodSlots(file.field_slug, getReferenceDate(submission))
+    if (periodKey !== null && !slots.some(slot => slot.key === periodKey)) {
+      return NextResponse.json({ success: false, error: 'Unknown period for this field' }, { status: 400 })
+    }
+
+    const updated = await SupabaseService.updateFilePeriod(id, periodKey)
+    if (!updated) {
+      return NextResponse.json({ success: false, error: 'Failed to update file period' }, { status: 500 })
+    }
+
+    await SupabaseService.syncSubmissionProgress(file.submission_id)
+    const updatedSubmission = await SupabaseService.getSubmissionById(file.submission_id)
+
+    return NextResponse.json({ success: true, file: updated, submission: updatedSubmission })
+  } catch (error) {
+    console.error('Error updating file period:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
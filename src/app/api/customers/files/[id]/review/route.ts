@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AdminSessionService } from '@/lib/admin-session'
+import { FileReviewService } from '@/lib/file-review-service'
+import { FileReviewStatus } from '@/lib/supabase'
+
+const REVIEW_STATUSES: FileReviewStatus[] = ['pending', 'approved', 'rejected']
+
+// Approve or reject an uploaded file; rejecting messages the customer unless notifyCustomer is false
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { status, reasonId, reasonText, notifyCustomer } = await request.json()
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json({ success: false, error: 'Invalid review status' }, { status: 400 })
+    }
+
+    const session = await AdminSessionService.getSessionFromRequest(request)
+    const result = await FileReviewService.reviewFile(
+      id,
+      { status, reasonId, reasonText, notifyCustomer },
+      session?.name || session?.email || 'admin',
+      `${request.nextUrl.protocol}//${request.nextUrl.host}`
+    )
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status || 500 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error reviewing file:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
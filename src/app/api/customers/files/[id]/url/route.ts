@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// A short-lived signed URL for opening an uploaded file
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const file = await SupabaseService.getUploadedFileById(id)
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'File not found' }, { status: 404 })
+    }
+
+    const url = await SupabaseService.getFileUrl(file.file_path)
+    if (!url) {
+      return NextResponse.json({ success: false, error: 'Failed to create file URL' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, url })
+  } catch (error) {
+    console.error('Error creating file URL:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
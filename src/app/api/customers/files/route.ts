@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+import { DocumentIntakeService } from '@/lib/document-intake-service'
+import { getFieldFileLimits } from '@/lib/form-fields'
+import { getFormType } from '@/lib/form-definitions'
+
+// Upload a file for a customer from the admin page; the upload waits for review like the customer's own
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const phoneNumber = formData.get('phoneNumber') as string | null
+    const formType = formData.get('formType') as string | null
+    const fieldSlug = formData.get('fieldSlug') as string | null
+    const periodKey = formData.get('periodKey') as string | null
+    const file = formData.get('file')
+
+    if (!phoneNumber || !formType || !fieldSlug || !(file instanceof File)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Phone number, form type, field and file are required'
+      }, { status: 400 })
+    }
+
+    await SupabaseService.loadFormDefinitions()
+    const formTypeData = getFormType(formType)
+    const field = DocumentIntakeService.findField(formType, fieldSlug)
+    if (!formTypeData || !field) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unknown form type or field'
+      }, { status: 400 })
+    }
+
+    const result = await SupabaseService.adminUploadFile(
+      phoneNumber,
+      formType,
+      formTypeData.label,
+      fieldSlug,
+      field.name,
+      file,
+      periodKey || undefined
+    )
+
+    if (result.invalidPeriod) {
+      return NextResponse.json({
+        success: false,
+        invalidPeriod: true,
+        error: 'Unknown period for this field'
+      }, { status: 400 })
+    }
+
+    if (result.limitReached) {
+      return NextResponse.json({
+        success: false,
+        limitReached: true,
+        error: `This field takes up to ${getFieldFileLimits(fieldSlug).maxFiles} files`
+      }, { status: 400 })
+    }
+
+    if (!result.success || !result.submission || !result.uploadedFile) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to upload file'
+      }, { status: 500 })
+    }
+
+    // Recompute submitted/approved fields; a new upload waits for review
+    await SupabaseService.syncSubmissionProgress(result.submission.id!)
+    const submission = await SupabaseService.getSubmissionById(result.submission.id!)
+
+    return NextResponse.json({ success: true, file: result.uploadedFile, submission: submission || result.submission })
+  } catch (error) {
+    console.error('Error uploading file for customer:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
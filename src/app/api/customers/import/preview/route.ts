@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CustomerImportService } from '@/lib/import-service'
+
+// Read an uploaded CSV/XLSX and return its columns, the first rows and a suggested column mapping
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'File is required (field name: file)' }, { status: 400 })
+    }
+
+    const { table, error } = await CustomerImportService.parseFile(file)
+    if (!table) {
+      return NextResponse.json({ success: false, error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, preview: CustomerImportService.getPreview(table) })
+  } catch (error) {
+    console.error('Error previewing import:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// Everything the customer page shows: GET ?phoneNumber=+972...
+export async function GET(request: NextRequest) {
+  try {
+    const phoneNumber = request.nextUrl.searchParams.get('phoneNumber')
+
+    if (!phoneNumber) {
+      return NextResponse.json({
+        success: false,
+        error: 'Phone number is required'
+      }, { status: 400 })
+    }
+
+    const [customer, submissions, files, messages] = await Promise.all([
+      SupabaseService.getCustomerByPhone(phoneNumber),
+      SupabaseService.getSubmissionsByPhone(phoneNumber),
+      SupabaseService.getAllFilesByPhone(phoneNumber),
+      SupabaseService.getMessageHistory(phoneNumber)
+    ])
+
+    return NextResponse.json({ success: true, customer, submissions, files, messages })
+  } catch (error) {
+    console.error('Error fetching customer profile:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
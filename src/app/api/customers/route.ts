@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+import { getFormTypeLabel } from '@/lib/form-definitions'
+
+// Customers, their submissions and the number of files per submission, for the admin panel list
+export async function GET() {
+  try {
+    const [customers, submissions] = await Promise.all([
+      SupabaseService.getAllCustomers(),
+      SupabaseService.getAllSubmissions()
+    ])
+
+    const files = await SupabaseService.getFilesBySubmissionIds(submissions.map(submission => submission.id!).filter(Boolean))
+    const fileCounts: Record<string, number> = {}
+    for (const file of files) {
+      fileCounts[file.submission_id] = (fileCounts[file.submission_id] || 0) + 1
+    }
+
+    return NextResponse.json({ success: true, customers, submissions, fileCounts })
+  } catch (error) {
+    console.error('Error fetching customers:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
+
+/**
+ * Register a customer before their form link is sent: create them (or fill in the name and
+ * criterion on an existing customer) and open the submission for the form type.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { phoneNumber, name, familyName, formType } = await request.json()
+
+    if (!phoneNumber || typeof phoneNumber !== 'string') {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'phoneNumber is required' 
+      }, { status: 400 })
+    }
+
+    let customer = await SupabaseService.getCustomerByPhone(phoneNumber)
+    if (!customer) {
+      customer = await SupabaseService.createCustomer({
+        phone_number: phoneNumber,
+        name: name || undefined,
+        family_name: familyName || undefined,
+        criterion: formType || undefined,
+        status: 'agreement_signed'
+      })
+    } else if (name || familyName || (formType && !customer.criterion)) {
+      const updates = {
+        ...(name && { name }),
+        ...(familyName && { family_name: familyName }),
+        ...(formType && !customer.criterion && { criterion: formType })
+      }
+      if (await SupabaseService.updateCustomer(customer.id, updates)) {
+        customer = { ...customer, ...updates }
+      }
+    }
+
+    if (!customer) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Failed to create customer' 
+      }, { status: 500 })
+    }
+
+    let submission = null
+    if (formType) {
+      await SupabaseService.loadFormDefinitions()
+      submission = await SupabaseService.getOrCreateSubmission(phoneNumber, formType, getFormTypeLabel(formType))
+      if (submission) {
+        // Mark when the form was first sent
+        await SupabaseService.updateSubmissionSentTracking(submission.id!, new Date().toISOString())
+      }
+    }
+
+    return NextResponse.json({ success: true, customer, submission })
+  } catch (error) {
+    console.error('Error registering customer:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
+
+// Delete a customer with all submissions, files and messages - owner only (enforced by the middleware)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const phoneNumber = searchParams.get('phoneNumber')
+
+    if (!phoneNumber) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'phoneNumber is required' 
+      }, { status: 400 })
+    }
+
+    const success = await SupabaseService.deleteCustomerCompletely(phoneNumber)
+
+    if (!success) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Failed to delete customer' 
+      }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting customer:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DocumentBundleService } from '@/lib/document-bundle-service'
+
+// Download a submission's documents as a ZIP with a manifest
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { bundle, error } = await DocumentBundleService.createBundle(id)
+
+    if (!bundle) {
+      return NextResponse.json({ success: false, error }, { status: 404 })
+    }
+
+    return new NextResponse(bundle.stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${bundle.fileName}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error creating document bundle:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
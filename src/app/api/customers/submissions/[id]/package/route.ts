@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApplicationPackageService } from '@/lib/application-package-service'
+
+// Merge the submission's documents into one PDF and store it with the customer's files
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await ApplicationPackageService.createPackage(id)
+
+    if (!result.success) {
+      const status = result.error === 'Submission not found' ? 404
+        : result.error === 'Failed to store the PDF' ? 500
+        : 400
+      return NextResponse.json(result, { status })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error creating application PDF:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// Set the planned application date that period fields count back from; null goes back to the creation date
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { referenceDate } = await request.json()
+
+    if (referenceDate !== null && (typeof referenceDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(referenceDate) || isNaN(Date.parse(referenceDate)))) {
+      return NextResponse.json({ success: false, error: 'referenceDate must be a YYYY-MM-DD date or null' }, { status: 400 })
+    }
+
+    const submission = await SupabaseService.getSubmissionById(id)
+    if (!submission) {
+      return NextResponse.json({ success: false, error: 'Submission not found' }, { status: 404 })
+    }
+
+    const updated = await SupabaseService.updateSubmissionReferenceDate(id, referenceDate)
+    if (!updated) {
+      return NextResponse.json({ success: false, error: 'Failed to update reference date' }, { status: 500 })
+    }
+
+    // The months and weeks move with the date, so coverage is recomputed
+    await SupabaseService.syncSubmissionProgress(id)
+
+    return NextResponse.json({ success: true, submission: await SupabaseService.getSubmissionById(id) })
+  } catch (error) {
+    console.error('Error updating reference date:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+import { CompletionService } from '@/lib/completion-service'
+
+// Waive a field or section for this submission (or take the waiver back); completion is recomputed
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { fieldSlug, waived } = await request.json()
+
+    if (typeof fieldSlug !== 'string' || typeof waived !== 'boolean') {
+      return NextResponse.json({ success: false, error: 'fieldSlug and waived are required' }, { status: 400 })
+    }
+
+    const submission = await SupabaseService.getSubmissionById(id)
+    if (!submission) {
+      return NextResponse.json({ success: false, error: 'Submission not found' }, { status: 404 })
+    }
+
+    await SupabaseService.loadFormDefinitions()
+    if (!CompletionService.evaluate(submission).items.some(item => item.slug === fieldSlug)) {
+      return NextResponse.json({ success: false, error: 'Unknown field for this form' }, { status: 400 })
+    }
+
+    const current = submission.waived_fields || []
+    const waivedFields = waived
+      ? [...new Set([...current, fieldSlug])]
+      : current.filter(slug => slug !== fieldSlug)
+
+    const updated = await SupabaseService.updateSubmissionWaivers(id, waivedFields)
+    if (!updated) {
+      return NextResponse.json({ success: false, error: 'Failed to update waivers' }, { status: 500 })
+    }
+
+    await SupabaseService.syncSubmissionProgress(id)
+
+    return NextResponse.json({ success: true, submission: await SupabaseService.getSubmissionById(id) })
+  } catch (error) {
+    console.error('Error updating waivers:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SupabaseService } from '@/lib/supabase-service'
+import { Customer } from '@/lib/supabase'
+
+// Columns the customer page edits; ids and the phone number stay as they are
+const EDITABLE_FIELDS = ['status', 'criterion', 'name', 'family_name', 'id_number', 'birth_date', 'address'] as const
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,13 +24,21 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
+    const updates: Partial<Customer> = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (details && field in details) {
+        Object.assign(updates, { [field]: details[field] })
+      }
+    }
+
     // Update customer in customers table
-    const success = await SupabaseService.updateCustomer(customer.id, details)
+    const success = await SupabaseService.updateCustomer(customer.id, updates)
 
     if (success) {
       return NextResponse.json({
         success: true,
-        message: 'Customer details updated successfully'
+        message: 'Customer details updated successfully',
+        customer: { ...customer, ...updates }
       })
     } else {
       return NextResponse.json({
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+import { FormFieldDefinition, isValidFieldSlug, toFormFieldRecord } from '@/lib/form-definitions'
+
+const NOT_IMPORTED_ERROR = 'Import the bundled form definitions before editing them'
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) >= 1
+
+// Why a field definition can't be saved, or null when it can
+const validateField = (field: FormFieldDefinition): string | null => {
+  if (!field.name?.trim()) return 'Name is required'
+  if (field.variants !== undefined && (!Array.isArray(field.variants) || field.variants.some(variant => typeof variant !== 'string'))) {
+    return 'Variants must be a list of names'
+  }
+  if (field.templates !== undefined && (!Array.isArray(field.templates) || field.templates.some(template => !template?.label?.trim() || !template?.path?.trim()))) {
+    return 'Every template needs a label and a file'
+  }
+  if (field.minFiles !== undefined && !isPositiveInteger(field.minFiles)) return 'Minimum files must be a whole number from 1'
+  if (field.maxFiles !== undefined && !isPositiveInteger(field.maxFiles)) return 'Maximum files must be a whole number from 1'
+  if (field.minFiles && field.maxFiles && field.maxFiles < field.minFiles) return 'Maximum files cannot be below the minimum'
+
+  if (field.period) {
+    const { unit, count, filesPerPeriod } = field.period
+    if (!['month', 'week'].includes(unit) || !isPositiveInteger(count) || !isPositiveInteger(filesPerPeriod)) {
+      return 'A period needs a unit (month or week), a count and files per period'
+    }
+  }
+
+  return null
+}
+
+// The definition as given, trimmed, keeping only what the form uses
+const normalizeField = (slug: string, field: FormFieldDefinition): FormFieldDefinition => ({
+  slug,
+  name: field.name.trim(),
+  description: field.description?.trim() || undefined,
+  variants: (field.variants || []).map(variant => variant.trim()).filter(Boolean),
+  template: field.template?.trim() || undefined,
+  templates: (field.templates || []).map(template => ({ label: template.label.trim(), path: template.path.trim() })),
+  minFiles: field.minFiles,
+  maxFiles: field.maxFiles,
+  period: field.period ? { unit: field.period.unit, count: field.period.count, filesPerPeriod: field.period.filesPerPeriod } : undefined
+})
+
+async function saveField(request: NextRequest, isNew: boolean) {
+  const field: FormFieldDefinition = await request.json()
+  const slug = field.slug?.trim()
+
+  if (!slug) {
+    return NextResponse.json({ success: false, error: 'Slug is required' }, { status: 400 })
+  }
+
+  const { definitions, source } = await SupabaseService.loadFormDefinitions(true)
+  if (source !== 'database') {
+    return NextResponse.json({ success: false, error: NOT_IMPORTED_ERROR }, { status: 409 })
+  }
+
+  if (isNew) {
+    if (!isValidFieldSlug(slug)) {
+      return NextResponse.json({ success: false, error: 'Slug must be lowercase latin letters, digits and dashes' }, { status: 400 })
+    }
+    if (definitions.fields[slug]) {
+      return NextResponse.json({ success: false, error: 'A field with this slug already exists' }, { status: 409 })
+    }
+  } else if (!definitions.fields[slug]) {
+    return NextResponse.json({ success: false, error: 'Field not found' }, { status: 404 })
+  }
+
+  const fieldError = validateField(field)
+  if (fieldError) {
+    return NextResponse.json({ success: false, error: fieldError }, { status: 400 })
+  }
+
+  const saved = await SupabaseService.saveFormField(toFormFieldRecord(normalizeField(slug, field)))
+  if (!saved) {
+    return NextResponse.json({ success: false, error: 'Failed to save field' }, { status: 500 })
+  }
+
+  return NextResponse.json({ success: true, field: saved })
+}
+
+// POST - Add a document field; it can then be placed on form types
+export async function POST(request: NextRequest) {
+  try {
+    return await saveField(request, true)
+  } catch (error) {
+    console.error('Error creating form field:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Replace a field's definition; the slug stays since uploaded files refer to it
+export async function PATCH(request: NextRequest) {
+  try {
+    return await saveField(request, false)
+  } catch (error) {
+    console.error('Error updating form field:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
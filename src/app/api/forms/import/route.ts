@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// POST - Copy the bundled form-fields.json into the form builder tables, once, so it can be edited
+export async function POST() {
+  try {
+    const { source } = await SupabaseService.loadFormDefinitions(true)
+    if (source === 'database') {
+      return NextResponse.json({ success: false, error: 'Form definitions are already in the database' }, { status: 409 })
+    }
+
+    if (!await SupabaseService.importBundledFormDefinitions()) {
+      return NextResponse.json({ success: false, error: 'Failed to import form definitions' }, { status: 500 })
+    }
+
+    const { definitions } = await SupabaseService.loadFormDefinitions(true)
+    return NextResponse.json({ success: true, definitions, source: 'database' })
+  } catch (error) {
+    console.error('Error importing form definitions:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
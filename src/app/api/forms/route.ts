@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// GET - Form definitions for the form builder, read fresh, and whether they come from the database yet
+export async function GET() {
+  try {
+    const { definitions, source } = await SupabaseService.loadFormDefinitions(true)
+
+    return NextResponse.json({ success: true, definitions, source })
+  } catch (error) {
+    console.error('Error loading form definitions:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
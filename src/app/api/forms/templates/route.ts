@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+const TEMPLATE_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+]
+
+// POST - Upload a downloadable form (multipart field: file) and return the URL to put on a field
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ success: false, error: 'File is required (field name: file)' }, { status: 400 })
+    }
+    if (!TEMPLATE_TYPES.includes(file.type)) {
+      return NextResponse.json({ success: false, error: 'Templates must be PDF or Word files' }, { status: 400 })
+    }
+
+    const path = await SupabaseService.uploadFormTemplate(file)
+    if (!path) {
+      return NextResponse.json({ success: false, error: 'Failed to upload template' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, path })
+  } catch (error) {
+    console.error('Error uploading form template:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
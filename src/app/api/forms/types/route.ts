@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+import { FormDefinitions, FormTypeFieldDefinition, isValidFormTypeSlug, toFormTypeFieldRecords } from '@/lib/form-definitions'
+
+const NOT_IMPORTED_ERROR = 'Import the bundled form definitions before editing them'
+
+// Why a form type's field list can't be saved, or null when it can
+const validateFields = (fields: FormTypeFieldDefinition[], definitions: FormDefinitions): string | null => {
+  // Section options count towards completion like top-level fields, so a document can appear only once across both
+  const slugs = fields.flatMap(field => [field.fieldSlug, ...(field.isSection ? (field.options || []).map(option => option.slug) : [])])
+  if (new Set(slugs).size !== slugs.length) {
+    return 'A field can appear only once in a form, including in section options'
+  }
+
+  for (const field of fields) {
+    if (!field.isSection) {
+      if (!definitions.fields[field.fieldSlug]) return `Unknown field: ${field.fieldSlug}`
+      continue
+    }
+
+    const options = field.options || []
+    if (!field.fieldSlug?.trim() || !field.sectionTitle?.trim()) {
+      return 'Sections need a slug and a title'
+    }
+    if (definitions.fields[field.fieldSlug]) {
+      return `Section slug ${field.fieldSlug} is already used by a field`
+    }
+    if (options.length === 0 || options.some(option => !definitions.fields[option.slug])) {
+      return `Section ${field.fieldSlug} needs options from the known fields`
+    }
+    if (field.requiredCount !== undefined && (!Number.isInteger(field.requiredCount) || field.requiredCount < 1 || field.requiredCount > options.length)) {
+      return `Section ${field.fieldSlug} can require between 1 and ${options.length} options`
+    }
+  }
+
+  return null
+}
+
+// POST - Add a form type (a criterion), at the end of the menu and without fields
+export async function POST(request: NextRequest) {
+  try {
+    const { slug, label } = await request.json()
+
+    if (!slug?.trim() || !label?.trim()) {
+      return NextResponse.json({ success: false, error: 'Slug and label are required' }, { status: 400 })
+    }
+    if (!isValidFormTypeSlug(slug.trim())) {
+      return NextResponse.json({ success: false, error: 'Slug cannot contain spaces or / ? # & %' }, { status: 400 })
+    }
+
+    const { definitions, source } = await SupabaseService.loadFormDefinitions(true)
+    if (source !== 'database') {
+      return NextResponse.json({ success: false, error: NOT_IMPORTED_ERROR }, { status: 409 })
+    }
+    if (definitions.formTypes.some(type => type.slug === slug.trim())) {
+      return NextResponse.json({ success: false, error: 'A form type with this slug already exists' }, { status: 409 })
+    }
+
+    const formType = await SupabaseService.createFormType(slug.trim(), label.trim())
+    if (!formType) {
+      return NextResponse.json({ success: false, error: 'Failed to create form type' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, formType })
+  } catch (error) {
+    console.error('Error creating form type:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH - Edit a form type: { slug, label?, isActive?, fields? } where fields is the full
+ * ordered list, or reorder the menu with { order: [slug, ...] }.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { slug, label, isActive, fields, order } = await request.json()
+
+    const { definitions, source } = await SupabaseService.loadFormDefinitions(true)
+    if (source !== 'database') {
+      return NextResponse.json({ success: false, error: NOT_IMPORTED_ERROR }, { status: 409 })
+    }
+
+    if (Array.isArray(order)) {
+      const known = new Set(definitions.formTypes.map(type => type.slug))
+      if (order.length !== known.size || order.some((typeSlug: string) => !known.has(typeSlug))) {
+        return NextResponse.json({ success: false, error: 'Order must list every form type once' }, { status: 400 })
+      }
+
+      const results = await Promise.all(order.map((typeSlug: string, index: number) =>
+        SupabaseService.updateFormType(typeSlug, { position: index })
+      ))
+      if (results.some(result => !result)) {
+        return NextResponse.json({ success: false, error: 'Failed to reorder form types' }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (!definitions.formTypes.some(type => type.slug === slug)) {
+      return NextResponse.json({ success: false, error: 'Form type not found' }, { status: 404 })
+    }
+    if (label !== undefined && !label?.trim()) {
+      return NextResponse.json({ success: false, error: 'Label cannot be empty' }, { status: 400 })
+    }
+
+    if (fields !== undefined) {
+      if (!Array.isArray(fields)) {
+        return NextResponse.json({ success: false, error: 'Fields must be a list' }, { status: 400 })
+      }
+
+      const fieldsError = validateFields(fields, definitions)
+      if (fieldsError) {
+        return NextResponse.json({ success: false, error: fieldsError }, { status: 400 })
+      }
+
+      if (!await SupabaseService.replaceFormTypeFields(slug, toFormTypeFieldRecords(slug, fields))) {
+        return NextResponse.json({ success: false, error: 'Failed to save form fields' }, { status: 500 })
+      }
+    }
+
+    if (label !== undefined || typeof isActive === 'boolean') {
+      const updated = await SupabaseService.updateFormType(slug, {
+        ...(label !== undefined && { label: label.trim() }),
+        ...(typeof isActive === 'boolean' && { is_active: isActive })
+      })
+
+      if (!updated) {
+        return NextResponse.json({ success: false, error: 'Failed to update form type' }, { status: 500 })
+      }
+    }
+
+    const { definitions: saved } = await SupabaseService.loadFormDefinitions(true)
+    return NextResponse.json({ success: true, formType: saved.formTypes.find(type => type.slug === slug) })
+  } catch (error) {
+    console.error('Error updating form type:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LinkAnalyticsService } from '@/lib/link-analytics-service'
+
+// Link funnel per form type and campaign step: GET ?days=30
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const daysParam = searchParams.get('days')
+    const days = daysParam ? Number(daysParam) : LinkAnalyticsService.DEFAULT_WINDOW_DAYS
+
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      return NextResponse.json({
+        success: false,
+        error: 'Days must be a whole number between 1 and 365'
+      }, { status: 400 })
+    }
+
+    const funnel = await LinkAnalyticsService.getFunnel(days)
+
+    return NextResponse.json({ success: true, days, funnel })
+  } catch (error) {
+    console.error('Error fetching link funnel:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
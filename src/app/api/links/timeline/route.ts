@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LinkAnalyticsService } from '@/lib/link-analytics-service'
+
+// Links sent to a customer and their clicks: GET ?phoneNumber=+972...
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const phoneNumber = searchParams.get('phoneNumber')
+
+    if (!phoneNumber) {
+      return NextResponse.json({
+        success: false,
+        error: 'Phone number is required'
+      }, { status: 400 })
+    }
+
+    const links = await LinkAnalyticsService.getCustomerTimeline(phoneNumber)
+
+    return NextResponse.json({ success: true, links })
+  } catch (error) {
+    console.error('Error fetching link timeline:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
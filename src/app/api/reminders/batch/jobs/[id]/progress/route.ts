@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BatchJobService } from '@/lib/batch-job-service'
+
+// Polled by the admin reminders page while a batch is active
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const progress = await BatchJobService.getProgress(id)
+
+    if (!progress) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Job not found' 
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      progress,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Error fetching batch progress:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BatchJobService } from '@/lib/batch-job-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const result = await BatchJobService.getJob(id)
+
+    if (!result) {
+      return NextResponse.json({ 
+        success: false, 
+        error: 'Job not found' 
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: result.job,
+      recipients: result.recipients
+    })
+  } catch (error) {
+    console.error('Error fetching batch job:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
+
+// Control a job: { action: 'pause' | 'resume' | 'cancel' }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { action } = await request.json()
+
+    let result
+    switch (action) {
+      case 'pause':
+        result = await BatchJobService.pauseJob(id)
+        break
+      case 'resume':
+        result = await BatchJobService.resumeJob(id)
+        break
+      case 'cancel':
+        result = await BatchJobService.cancelJob(id)
+        break
+      default:
+        return NextResponse.json({ 
+          success: false, 
+          error: 'Action must be pause, resume or cancel' 
+        }, { status: 400 })
+    }
+
+    if (!result.success) {
+      return NextResponse.json({ 
+        success: false, 
+        error: result.error 
+      }, { status: result.error === 'Job not found' ? 404 : 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: result.job
+    })
+  } catch (error) {
+    console.error('Error updating batch job:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BatchJobService } from '@/lib/batch-job-service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    const jobs = await BatchJobService.listJobs(isNaN(limit) ? 50 : limit)
+
+    return NextResponse.json({
+      success: true,
+      jobs
+    })
+  } catch (error) {
+    console.error('Error fetching batch jobs:', error)
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal server error' 
+    }, { status: 500 })
+  }
+}
@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { BatchReminderService } from '@/lib/batch-reminder-service'
-import { BatchRecipient, BatchProgress, BatchResult } from '@/lib/supabase'
+import { BatchJobService } from '@/lib/batch-job-service'
+import { BatchRecipient } from '@/lib/supabase'
 
 interface BatchRequestBody {
   recipients: BatchRecipient[]
   sendImmediately?: boolean
+  scheduledFor?: string // ISO date, used when sendImmediately is false
 }
 
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
     const body: BatchRequestBody = await request.json()
-    const { recipients, sendImmediately = true } = body
+    const { recipients, sendImmediately = true, scheduledFor } = body
 
     // Validate input
     if (!recipients || !Array.isArray(recipients)) {
@@ -31,66 +33,54 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    console.log(`Starting batch reminder processing for ${recipients.length} recipients`)
-
+    let scheduledDate: Date | undefined
     if (!sendImmediately) {
-      // Just validate and return (for future scheduling feature)
-      return NextResponse.json({
-        success: true,
-        message: `Batch of ${recipients.length} reminders validated and scheduled`,
-        recipientCount: recipients.length,
-        estimatedDuration: BatchReminderService.estimateBatchDuration(recipients.length)
-      })
-    }
+      scheduledDate = scheduledFor ? new Date(scheduledFor) : undefined
+      if (!scheduledDate || isNaN(scheduledDate.getTime())) {
+        return NextResponse.json({
+          success: false,
+          error: 'A valid scheduledFor date is required when sendImmediately is false'
+        }, { status: 400 })
+      }
 
-    // Process the batch with progress tracking
-    let lastProgress: BatchProgress | null = null
-    
-    const result: BatchResult = await BatchReminderService.processBatchReminders(
-      recipients,
-      (progress: BatchProgress) => {
-        lastProgress = progress
-        console.log(`Batch progress: ${progress.sentCount}/${progress.totalCount} sent, ${progress.failedCount} failed, status: ${progress.currentStatus}`)
+      if (scheduledDate.getTime() <= Date.now()) {
+        return NextResponse.json({
+          success: false,
+          error: 'scheduledFor must be in the future'
+        }, { status: 400 })
       }
-    )
-
-    // Return comprehensive result
-    const responseData = {
-      success: result.success,
-      message: result.success 
-        ? `Batch completed successfully: ${result.totalSent} sent, ${result.totalFailed} failed`
-        : `Batch completed with errors: ${result.totalSent} sent, ${result.totalFailed} failed`,
-      results: {
-        totalSent: result.totalSent,
-        totalFailed: result.totalFailed,
-        totalProcessed: recipients.length,
-        durationMinutes: Math.round(result.duration / 1000 / 60),
-        successRate: Math.round((result.totalSent / recipients.length) * 100)
-      },
-      errors: result.errors,
-      finalProgress: lastProgress,
-      timestamp: new Date().toISOString()
     }
 
-    // Log the completion
-    console.log(`Batch reminder processing completed:`, {
-      sent: result.totalSent,
-      failed: result.totalFailed,
-      duration: `${Math.round(result.duration / 1000 / 60)} minutes`,
-      successRate: `${responseData.results.successRate}%`
-    })
+    // The batch is persisted and sent by the worker (/api/reminders/batch/worker),
+    // so it survives the end of this request and server restarts
+    const job = await BatchJobService.enqueueBatch(recipients, scheduledDate)
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to create batch job'
+      }, { status: 500 })
+    }
 
-    // Return success even if some messages failed (partial success)
-    const httpStatus = result.totalSent > 0 ? 200 : 500
-    
-    return NextResponse.json(responseData, { status: httpStatus })
+    console.log(`Batch job ${job.id} ${job.status} with ${recipients.length} recipients`)
+
+    return NextResponse.json({
+      success: true,
+      message: scheduledDate
+        ? `Batch of ${recipients.length} reminders scheduled for ${scheduledDate.toISOString()}`
+        : `Batch of ${recipients.length} reminders queued`,
+      jobId: job.id,
+      job,
+      recipientCount: recipients.length,
+      estimatedDurationMinutes: Math.round(BatchReminderService.estimateBatchDuration(recipients.length) / 1000 / 60),
+      timestamp: new Date().toISOString()
+    })
 
   } catch (error) {
     console.error('Batch reminder API error:', error)
     
     return NextResponse.json({
       success: false,
-      error: 'Internal server error during batch processing',
+      error: 'Internal server error while creating batch job',
       message: error instanceof Error ? error.message : 'Unknown error',
       timestamp: new Date().toISOString()
     }, { status: 500 })
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BatchJobService } from '@/lib/batch-job-service'
+
+// Worker tick for batch reminder jobs - call from a scheduler every minute.
+// Each call sends at most one message per due job, so it always finishes quickly.
+async function runWorker(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const expectedAuth = process.env.REMINDER_JOB_AUTH_TOKEN
+    
+    if (expectedAuth && authHeader !== `Bearer ${expectedAuth}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await BatchJobService.runDueJobs()
+
+    return NextResponse.json({
+      success: true,
+      message: `Batch worker tick: ${result.jobsProcessed} jobs, ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped, ${result.deferred} deferred, ${result.completed} completed`,
+      ...result,
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Batch worker error:', error)
+    return NextResponse.json({ 
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return runWorker(request)
+}
+
+// Cron services that can only issue GET requests
+export async function GET(request: NextRequest) {
+  return runWorker(request)
+}
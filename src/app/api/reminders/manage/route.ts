@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ReminderService } from '@/lib/reminder-service'
+import { SendingWindowService } from '@/lib/sending-window-service'
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { action, submissionId, phoneNumber, formType } = body
+    const { action, submissionId, phoneNumber, formType, force } = body
 
     switch (action) {
       case 'pause':
@@ -33,6 +34,18 @@ export async function POST(request: NextRequest) {
         if (!phoneNumber || !formType) {
           return NextResponse.json({ error: 'phoneNumber and formType are required for send-now action' }, { status: 400 })
         }
+
+        // Outside the sending window the admin has to confirm explicitly
+        if (!force) {
+          const sendingWindow = await SendingWindowService.canSendNow()
+          if (!sendingWindow.allowed) {
+            return NextResponse.json({
+              error: 'Outside sending window',
+              outsideWindow: true,
+              nextWindowAt: sendingWindow.nextWindowAt?.toISOString() || null
+            }, { status: 409 })
+          }
+        }
         
         // First check if there's an existing submission
         const submissions = await import('@/lib/supabase-service').then(m => m.SupabaseService.getAllSubmissions())
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ReminderService } from '@/lib/reminder-service'
+import { SupabaseService } from '@/lib/supabase-service'
+import { ReminderPolicy } from '@/lib/supabase'
+
+// Check a policy coming from the admin editor
+function validatePolicy(policy: ReminderPolicy): string | null {
+  if (!policy?.name?.trim()) {
+    return 'Policy name is required'
+  }
+
+  const numericFields: Array<keyof ReminderPolicy> = [
+    'first_reminder_hours',
+    'second_reminder_hours',
+    'weekly_reminder_hours',
+    'max_inactive_days'
+  ]
+  for (const field of numericFields) {
+    const value = policy[field]
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      return `${field} must be a positive whole number`
+    }
+  }
+
+  if (policy.form_types && (!Array.isArray(policy.form_types) || policy.form_types.some(formType => typeof formType !== 'string'))) {
+    return 'form_types must be an array of form type slugs'
+  }
+
+  return null
+}
+
+// GET - List reminder policies
+export async function GET() {
+  try {
+    const policies = await SupabaseService.getReminderPolicies()
+
+    return NextResponse.json({
+      success: true,
+      policies,
+      fallbackPolicy: ReminderService.FALLBACK_POLICY
+    })
+  } catch (error) {
+    console.error('Error loading reminder policies:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Create or update a reminder policy
+export async function POST(request: NextRequest) {
+  try {
+    const { policy } = await request.json()
+
+    const validationError = validatePolicy(policy)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const saved = await ReminderService.saveReminderPolicy({
+      ...policy,
+      name: policy.name.trim(),
+      is_default: !!policy.is_default
+    })
+
+    if (!saved) {
+      return NextResponse.json({ error: 'Failed to save reminder policy' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, policy: saved })
+  } catch (error) {
+    console.error('Error saving reminder policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Override the policy of a single submission (policyId null clears the override)
+export async function PATCH(request: NextRequest) {
+  try {
+    const { submissionId, policyId } = await request.json()
+
+    if (!submissionId) {
+      return NextResponse.json({ error: 'submissionId is required' }, { status: 400 })
+    }
+
+    const success = await SupabaseService.updateSubmissionReminderPolicy(submissionId, policyId || null)
+
+    return NextResponse.json({
+      success,
+      message: success ? 'Submission reminder policy updated' : 'Failed to update submission reminder policy'
+    })
+  } catch (error) {
+    console.error('Error updating submission reminder policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Remove a reminder policy
+export async function DELETE(request: NextRequest) {
+  try {
+    const policyId = request.nextUrl.searchParams.get('id')
+
+    if (!policyId) {
+      return NextResponse.json({ error: 'Policy id is required' }, { status: 400 })
+    }
+
+    const success = await SupabaseService.deleteReminderPolicy(policyId)
+
+    return NextResponse.json({
+      success,
+      message: success ? 'Reminder policy deleted' : 'Failed to delete reminder policy'
+    })
+  } catch (error) {
+    console.error('Error deleting reminder policy:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
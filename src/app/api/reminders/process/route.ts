@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ReminderService } from '@/lib/reminder-service'
+import { describeMissingPeriods } from '@/lib/form-fields'
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,9 +17,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Reminder job completed: ${result.sent} sent, ${result.failed} failed`,
+      message: `Reminder job completed: ${result.sent} sent, ${result.failed} failed, ${result.deferred} deferred`,
       sent: result.sent,
       failed: result.failed,
+      deferred: result.deferred,
+      nextWindowAt: result.nextWindowAt,
       timestamp: new Date().toISOString()
     })
   } catch (error) {
@@ -46,7 +49,12 @@ export async function GET() {
         formTypeLabel: c.submission.form_type_label,
         reminderType: c.reminderType,
         daysSinceLastAction: c.daysSinceLastAction,
-        reminderCount: c.submission.reminder_count || 0
+        reminderCount: c.submission.reminder_count || 0,
+        lastReminderSentAt: c.lastReminder?.sent_at,
+        lastReminderStatus: c.lastReminder?.delivery_status,
+        escalated: c.escalated,
+        policyName: c.policy?.name,
+        missingPeriods: describeMissingPeriods(c.submission)
       })),
       timestamp: new Date().toISOString()
     })
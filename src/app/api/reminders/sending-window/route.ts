@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SendingWindowService } from '@/lib/sending-window-service'
+import { SendingWindowSettings } from '@/lib/supabase'
+
+// Check the settings coming from the admin editor
+function validateSettings(settings: SendingWindowSettings): string | null {
+  const isHour = (value: unknown, max: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max
+
+  if (!isHour(settings.start_hour, 23) || !isHour(settings.end_hour, 24) || settings.start_hour >= settings.end_hour) {
+    return 'Daily hours must satisfy 0 <= start_hour < end_hour <= 24'
+  }
+
+  if (!isHour(settings.pre_rest_day_cutoff_hour, 24) || !isHour(settings.rest_day_resume_hour, 24)) {
+    return 'Shabbat hours must be between 0 and 24'
+  }
+
+  if (!Array.isArray(settings.holiday_dates) ||
+      settings.holiday_dates.some(d => typeof d !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(d))) {
+    return 'Holiday dates must be in YYYY-MM-DD format'
+  }
+
+  return null
+}
+
+// GET - Load sending window settings and current status
+export async function GET() {
+  try {
+    const settings = await SendingWindowService.getSettings()
+    const now = new Date()
+    const allowed = SendingWindowService.isWithinWindow(now, settings)
+    const nextWindowAt = allowed ? null : SendingWindowService.getNextAllowedTime(now, settings)
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      status: {
+        allowed,
+        nextWindowAt: nextWindowAt?.toISOString() || null
+      }
+    })
+  } catch (error) {
+    console.error('Error loading sending window:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Save sending window settings
+export async function POST(request: NextRequest) {
+  try {
+    const { settings } = await request.json()
+
+    const validationError = validateSettings(settings)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const success = await SendingWindowService.saveSettings({
+      enabled: !!settings.enabled,
+      start_hour: settings.start_hour,
+      end_hour: settings.end_hour,
+      pre_rest_day_cutoff_hour: settings.pre_rest_day_cutoff_hour,
+      rest_day_resume_hour: settings.rest_day_resume_hour,
+      holiday_dates: settings.holiday_dates
+    })
+
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to save sending window' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Sending window saved successfully' })
+  } catch (error) {
+    console.error('Error saving sending window:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SupabaseService } from '@/lib/supabase-service'
+
+// GET - List rejection reasons (?all=true includes retired ones)
+export async function GET(request: NextRequest) {
+  try {
+    const includeInactive = request.nextUrl.searchParams.get('all') === 'true'
+    const reasons = await SupabaseService.getRejectionReasons(includeInactive)
+
+    return NextResponse.json({ success: true, reasons })
+  } catch (error) {
+    console.error('Error loading rejection reasons:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Add a reason to the library
+export async function POST(request: NextRequest) {
+  try {
+    const { label, message } = await request.json()
+
+    if (!label?.trim() || !message?.trim()) {
+      return NextResponse.json({ success: false, error: 'Label and message are required' }, { status: 400 })
+    }
+
+    const reason = await SupabaseService.createRejectionReason({
+      label: label.trim(),
+      message: message.trim(),
+      is_active: true
+    })
+
+    if (!reason) {
+      return NextResponse.json({ success: false, error: 'Failed to save rejection reason' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, reason })
+  } catch (error) {
+    console.error('Error creating rejection reason:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Edit a reason, or retire it with isActive false (past rejections keep their text)
+export async function PATCH(request: NextRequest) {
+  try {
+    const { id, label, message, isActive } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'Reason id is required' }, { status: 400 })
+    }
+    if ((label !== undefined && !label?.trim()) || (message !== undefined && !message?.trim())) {
+      return NextResponse.json({ success: false, error: 'Label and message cannot be empty' }, { status: 400 })
+    }
+
+    const reason = await SupabaseService.updateRejectionReason(id, {
+      ...(label !== undefined && { label: label.trim() }),
+      ...(message !== undefined && { message: message.trim() }),
+      ...(typeof isActive === 'boolean' && { is_active: isActive })
+    })
+
+    if (!reason) {
+      return NextResponse.json({ success: false, error: 'Failed to update rejection reason' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, reason })
+  } catch (error) {
+    console.error('Error updating rejection reason:', error)
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -13,9 +13,11 @@ export async function POST(request: NextRequest) {
       generateCustom = false
     } = body
 
+    const baseUrl = `${request.nextUrl.protocol}//${request.nextUrl.host}`
+
     // Method 1: Direct URL shortening (if longUrl provided)
     if (longUrl) {
-      const result = await URLService.createShortUrl(longUrl)
+      const result = await URLService.createShortUrl(longUrl, baseUrl)
       if (result.success) {
         return NextResponse.json(result)
       }
@@ -37,8 +39,6 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const baseUrl = `${request.nextUrl.protocol}//${request.nextUrl.host}`
-      
       const result = await URLService.createWhatsAppShortUrl(
         baseUrl,
         phoneNumber,
@@ -59,7 +59,7 @@ export async function POST(request: NextRequest) {
           token
         )
         
-        const customResult = await URLService.createShortUrl(longUrlForCustom, alias)
+        const customResult = await URLService.createShortUrl(longUrlForCustom, baseUrl, { alias })
         
         // If custom alias worked, use it; otherwise keep the original
         if (customResult.success) {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ConversationService } from '@/lib/conversation-service'
+
+// Get whether a team member is handling the chat
+export async function GET(request: NextRequest) {
+  try {
+    const phoneNumber = request.nextUrl.searchParams.get('phoneNumber')
+
+    if (!phoneNumber) {
+      return NextResponse.json({ error: 'Phone number is required' }, { status: 400 })
+    }
+
+    const session = await ConversationService.getSession(phoneNumber)
+
+    return NextResponse.json({
+      success: true,
+      humanHandling: session.state === 'human',
+      expiresAt: session.state === 'human' ? session.expires_at : null
+    })
+  } catch (error) {
+    console.error('Get handoff status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Turn the "human is handling this" flag on or off
+export async function POST(request: NextRequest) {
+  try {
+    const { phoneNumber, enabled } = await request.json()
+
+    if (!phoneNumber || typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'Phone number and enabled flag are required' }, { status: 400 })
+    }
+
+    if (enabled) {
+      const session = await ConversationService.startHandoff(phoneNumber)
+      return NextResponse.json({ success: true, humanHandling: true, expiresAt: session.expires_at })
+    }
+
+    await ConversationService.endHandoff(phoneNumber)
+    return NextResponse.json({ success: true, humanHandling: false, expiresAt: null })
+  } catch (error) {
+    console.error('Update handoff error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { ConversationService } from '@/lib/conversation-service'
+
+export async function GET() {
+  try {
+    const conversations = await ConversationService.getInbox()
+
+    return NextResponse.json({
+      success: true,
+      conversations
+    })
+  } catch (error) {
+    console.error('Get inbox error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { greenAPI } from '@/lib/green-api'
 import { ReminderService } from '@/lib/reminder-service'
 import { SupabaseService } from '@/lib/supabase-service'
+import { ConversationService } from '@/lib/conversation-service'
+import { LinkAnalyticsService } from '@/lib/link-analytics-service'
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,7 +33,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Log the message
-    await SupabaseService.logMessage({
+    const log = await SupabaseService.logMessage({
       customer_id: customerId,
       phone_number: phoneNumber,
       message_type: messageType,
@@ -43,10 +45,20 @@ export async function POST(request: NextRequest) {
     })
 
     if (result.success) {
+      // Form links in the message are attributed to it for click analytics
+      if (message) {
+        await LinkAnalyticsService.recordSentLinks(message, log, { phoneNumber, formType })
+      }
+
       // If formType is provided, mark form as sent for reminder tracking
       if (formType) {
         await ReminderService.markFormSent(phoneNumber, formType)
       }
+
+      // A reply from the team keeps the bot muted for this chat
+      if (await ConversationService.isHumanHandling(phoneNumber)) {
+        await ConversationService.startHandoff(phoneNumber)
+      }
       
       return NextResponse.json({ success: true, data: result.data })
     } else {
@@ -1,10 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { greenAPI } from '@/lib/green-api'
+import { DocumentIntakeService, IntakeField } from '@/lib/document-intake-service'
+import { ConversationService } from '@/lib/conversation-service'
+import { SupabaseService } from '@/lib/supabase-service'
+import { TokenService } from '@/lib/token-service'
+import { URLService } from '@/lib/url-service'
+import { LinkAnalyticsService } from '@/lib/link-analytics-service'
+import { getFieldFileLimits, getFieldPeriod } from '@/lib/form-fields'
+import { CompletionReport, CompletionService } from '@/lib/completion-service'
+import { ConversationSession, ConversationContext, CustomerSubmission, PendingUpload } from '@/lib/supabase'
 
-import formFieldsData from '@/data/form-fields.json'
+import { getFormTypes } from '@/lib/form-definitions'
 
 export async function POST(request: NextRequest) {
   try {
+    // The webhook is public, so every notification must carry the token set on the Green API instance
+    if (!process.env.GREEN_API_WEBHOOK_TOKEN) {
+      console.error('GREEN_API_WEBHOOK_TOKEN is not set - webhook notifications are rejected')
+      return NextResponse.json({ error: 'Webhook authentication is not configured' }, { status: 503 })
+    }
+    if (!greenAPI.isAuthorizedWebhook(request.headers)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const body = await request.json()
     console.log('WhatsApp webhook received:', body)
 
@@ -13,12 +31,51 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true, message: 'No action needed' })
     }
 
-    const { phoneNumber, message, type } = parsedMessage
+    const { chatId, phoneNumber, messageId, message, type, fileUrl, fileName, mimeType, caption, status, statusDescription, timestamp } = parsedMessage
+
+    // Delivery and read receipts for messages we sent
+    if (type === 'outgoingMessageStatus') {
+      if (messageId && status) {
+        // Green API timestamps are in seconds
+        const occurredAt = new Date(timestamp < 1e12 ? timestamp * 1000 : timestamp).toISOString()
+        await SupabaseService.recordMessageStatus(messageId, status, occurredAt, statusDescription)
+      }
+      return NextResponse.json({ success: true })
+    }
 
     // Handle different message types
     if (type === 'incomingMessageReceived') {
-      if (message) {
-        await handleTextMessage(phoneNumber, message)
+      const dbPhone = greenAPI.formatPhoneFromChatId(chatId)
+
+      // Keep every customer message so the team can follow up from the inbox
+      await SupabaseService.logMessage({
+        phone_number: dbPhone,
+        direction: 'incoming',
+        message_type: 'incoming',
+        message_content: message || (fileUrl ? `File: ${fileName || 'ללא שם'}${caption ? ` - ${caption}` : ''}` : ''),
+        sent_successfully: true,
+        whatsapp_message_id: messageId
+      })
+
+      const [session] = await Promise.all([
+        ConversationService.getSession(dbPhone),
+        SupabaseService.loadFormDefinitions()
+      ])
+
+      // A team member is handling this conversation, the bot stays quiet
+      if (session.state === 'human') {
+        return NextResponse.json({ success: true, message: 'Conversation handled by a human' })
+      }
+
+      if (fileUrl) {
+        const upload: PendingUpload = {
+          fileUrl,
+          fileName: DocumentIntakeService.resolveFileName(fileName, mimeType),
+          mimeType
+        }
+        await handleFileMessage(chatId, session, upload, caption)
+      } else if (message) {
+        await handleTextMessage(chatId, phoneNumber, session, message)
       }
     }
 
@@ -29,20 +86,55 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function handleTextMessage(phoneNumber: string, message: string) {
+async function handleTextMessage(chatId: string, phoneNumber: string, session: ConversationSession, message: string) {
   const lowerMessage = message.toLowerCase().trim()
+  const dbPhone = session.phone_number
 
-  // Handle menu command
-  if (lowerMessage === 'תפריט' || lowerMessage === 'menu') {
+  // Reset commands work from any step of the conversation
+  if (ConversationService.isResetCommand(lowerMessage)) {
+    const isCancel = lowerMessage === 'ביטול' || lowerMessage === 'cancel'
+    await ConversationService.reset(dbPhone)
+    if (isCancel && session.state !== 'menu') {
+      await sendReply(chatId, '🚫 *הפעולה בוטלה*')
+    }
     await sendMenu(phoneNumber)
     return
   }
 
+  // The customer asked for a person: the bot stays quiet until the team ends the handoff
+  if (ConversationService.isHandoffCommand(lowerMessage)) {
+    await ConversationService.startHandoff(dbPhone)
+    await sendReply(chatId, '👤 *הפנייה הועברה לנציג*\n\nנציג יחזור אליך כאן בהקדם.')
+    return
+  }
+
+  switch (session.state) {
+    case 'awaiting_field_choice':
+      await handleFieldChoice(chatId, session, lowerMessage)
+      return
+    case 'awaiting_confirmation':
+      await handleReplaceConfirmation(chatId, session, lowerMessage)
+      return
+    case 'awaiting_file':
+      if (ConversationService.isUploadIntent(lowerMessage)) {
+        await sendAwaitingFileReminder(chatId, session)
+        return
+      }
+      // A question or another choice leaves the upload step; files sent later still reach the open form
+      await ConversationService.reset(dbPhone)
+      break
+  }
+
   // Handle form type selection (by number)
+  const formTypes = getFormTypes()
   const formTypeIndex = parseInt(lowerMessage) - 1
-  if (!isNaN(formTypeIndex) && formTypeIndex >= 0 && formTypeIndex < formFieldsData.formTypes.length) {
-    const selectedFormType = formFieldsData.formTypes[formTypeIndex]
-    await sendFormLink(phoneNumber, selectedFormType)
+  if (!isNaN(formTypeIndex) && formTypeIndex >= 0 && formTypeIndex < formTypes.length) {
+    const selectedFormType = formTypes[formTypeIndex]
+    await sendFormLink(chatId, dbPhone, selectedFormType)
+    await ConversationService.setState(dbPhone, 'awaiting_file', {
+      formType: selectedFormType.slug,
+      formTypeLabel: selectedFormType.label
+    })
     return
   }
 
@@ -50,10 +142,250 @@ async function handleTextMessage(phoneNumber: string, message: string) {
   await sendDefaultResponse(phoneNumber)
 }
 
+async function handleFileMessage(
+  chatId: string,
+  session: ConversationSession,
+  upload: PendingUpload,
+  caption: string | undefined
+) {
+  const dbPhone = session.phone_number
+  const { formType, formTypeLabel } = session.context
+  const submission = formType && formTypeLabel
+    ? await SupabaseService.getOrCreateSubmission(dbPhone, formType, formTypeLabel)
+    : await DocumentIntakeService.findOpenSubmission(dbPhone)
+
+  if (!submission) {
+    let messageText = '📎 *קיבלנו את הקובץ*\n\n'
+    messageText += 'לא מצאנו טופס פתוח עבור מספר הטלפון שלך, ולכן הקובץ לא נשמר.\n\n'
+    messageText += '📋 לבחירת טופס שלח: *תפריט*'
+    await sendReply(chatId, messageText)
+    return
+  }
+
+  const context: ConversationContext = {
+    formType: submission.form_type,
+    formTypeLabel: submission.form_type_label,
+    pendingUpload: upload
+  }
+  const fields = DocumentIntakeService.getRequiredFields(submission.form_type)
+
+  // A caption with the field number lets the customer skip the question
+  const captionIndex = caption ? parseInt(caption.trim()) - 1 : NaN
+  if (!isNaN(captionIndex) && captionIndex >= 0 && captionIndex < fields.length) {
+    await selectField(chatId, dbPhone, submission, context, fields, fields[captionIndex])
+    return
+  }
+
+  await ConversationService.setState(dbPhone, 'awaiting_field_choice', context)
+  await sendReply(
+    chatId,
+    DocumentIntakeService.buildFieldChoiceMessage(fields, submission.submitted_fields || [], submission.form_type_label)
+  )
+}
+
+async function handleFieldChoice(chatId: string, session: ConversationSession, message: string) {
+  const dbPhone = session.phone_number
+  const { context } = session
+  if (!context.formType || !context.formTypeLabel || !context.pendingUpload) {
+    await ConversationService.reset(dbPhone)
+    await sendDefaultResponse(dbPhone)
+    return
+  }
+
+  const submission = await SupabaseService.getOrCreateSubmission(dbPhone, context.formType, context.formTypeLabel)
+  if (!submission) {
+    await sendStoreFailed(chatId, dbPhone, context)
+    return
+  }
+
+  const fields = DocumentIntakeService.getRequiredFields(context.formType)
+  const fieldIndex = parseInt(message) - 1
+
+  if (isNaN(fieldIndex) || fieldIndex < 0 || fieldIndex >= fields.length) {
+    await sendReply(
+      chatId,
+      DocumentIntakeService.buildFieldChoiceMessage(fields, submission.submitted_fields || [], context.formTypeLabel)
+    )
+    return
+  }
+
+  await selectField(chatId, dbPhone, submission, context, fields, fields[fieldIndex])
+}
+
+async function handleReplaceConfirmation(chatId: string, session: ConversationSession, message: string) {
+  const dbPhone = session.phone_number
+  const { context } = session
+  const field = context.formType && context.fieldSlug
+    ? DocumentIntakeService.findField(context.formType, context.fieldSlug)
+    : null
+
+  if (!field || !context.formTypeLabel || !context.pendingUpload) {
+    await ConversationService.reset(dbPhone)
+    await sendDefaultResponse(dbPhone)
+    return
+  }
+
+  const fields = DocumentIntakeService.getRequiredFields(context.formType!)
+
+  if (message === 'כן' || message === 'yes') {
+    await storeAndConfirm(chatId, dbPhone, context, fields, field)
+    return
+  }
+
+  if (message === 'לא' || message === 'no') {
+    const choiceContext: ConversationContext = { ...context, fieldSlug: undefined }
+    const submission = await SupabaseService.getOrCreateSubmission(dbPhone, context.formType!, context.formTypeLabel)
+    await ConversationService.setState(dbPhone, 'awaiting_field_choice', choiceContext)
+    await sendReply(
+      chatId,
+      DocumentIntakeService.buildFieldChoiceMessage(fields, submission?.submitted_fields || [], context.formTypeLabel)
+    )
+    return
+  }
+
+  await sendReplaceQuestion(chatId, field)
+}
+
+// Ask before overwriting a field that already has a file, otherwise store right away.
+// Fields that take several files just collect another one.
+async function selectField(
+  chatId: string,
+  dbPhone: string,
+  submission: CustomerSubmission,
+  context: ConversationContext,
+  fields: IntakeField[],
+  field: IntakeField
+) {
+  if (getFieldFileLimits(field.slug).maxFiles === 1 && (submission.submitted_fields || []).includes(field.slug)) {
+    await ConversationService.setState(dbPhone, 'awaiting_confirmation', { ...context, fieldSlug: field.slug })
+    await sendReplaceQuestion(chatId, field)
+    return
+  }
+
+  await storeAndConfirm(chatId, dbPhone, context, fields, field)
+}
+
+async function storeAndConfirm(
+  chatId: string,
+  dbPhone: string,
+  context: ConversationContext,
+  fields: IntakeField[],
+  field: IntakeField
+) {
+  const result = await DocumentIntakeService.storeFile(
+    dbPhone,
+    { form_type: context.formType!, form_type_label: context.formTypeLabel! },
+    context.pendingUpload!,
+    field
+  )
+
+  if (result.limitReached) {
+    await ConversationService.setState(dbPhone, 'awaiting_file', {
+      formType: context.formType,
+      formTypeLabel: context.formTypeLabel
+    })
+    await sendReply(chatId, `⚠️ *כבר הועלו ${getFieldFileLimits(field.slug).maxFiles} קבצים עבור: ${field.name}*\n\nזה המספר המקסימלי למסמך זה. לשינוי הקבצים ניתן להיעזר בקישור לטופס.`)
+    return
+  }
+
+  if (!result.success) {
+    await sendStoreFailed(chatId, dbPhone, context)
+    return
+  }
+
+  await ConversationService.setState(dbPhone, 'awaiting_file', {
+    formType: context.formType,
+    formTypeLabel: context.formTypeLabel
+  })
+
+  const submittedFields = result.submittedFields || []
+  const missingFields = result.completion
+    ? getMissingFields(fields, result.completion)
+    : fields.filter(f => !submittedFields.includes(f.slug))
+  const { minFiles, maxFiles } = getFieldFileLimits(field.slug)
+
+  let messageText = `✅ *הקובץ נשמר בתור: ${field.name}*\n\n`
+  if (maxFiles > 1) {
+    const count = result.fieldFileCount || 0
+    messageText += count < minFiles
+      ? `📄 הועלו ${count} מתוך ${minFiles} קבצים לפחות - ניתן לשלוח את הקובץ הבא\n\n`
+      : `📄 הועלו ${count} קבצים (עד ${maxFiles})\n\n`
+  }
+  // Files sent in the chat don't say which month or week they cover
+  const period = getFieldPeriod(field.slug)
+  if (period) {
+    messageText += period.unit === 'month'
+      ? '📅 הצוות ישייך את הקובץ לחודש המתאים. ניתן גם להעלות לפי חודשים בקישור לטופס.\n\n'
+      : '📅 הצוות ישייך את הקובץ לשבוע המתאים. ניתן גם להעלות לפי שבועות בקישור לטופס.\n\n'
+  }
+  if (missingFields.length > 0) {
+    messageText += formatMissingFields(fields, missingFields)
+    messageText += '\n📎 ניתן לשלוח את המסמך הבא כאן בצ\'אט'
+  } else {
+    messageText += '🎉 כל המסמכים בטופס הועלו!'
+  }
+
+  await sendReply(chatId, messageText)
+}
+
+async function sendStoreFailed(chatId: string, dbPhone: string, context: ConversationContext) {
+  await ConversationService.setState(dbPhone, 'awaiting_file', {
+    formType: context.formType,
+    formTypeLabel: context.formTypeLabel
+  })
+
+  let messageText = '❌ *לא הצלחנו לשמור את הקובץ*\n\n'
+  messageText += 'אנא נסה לשלוח את הקובץ שוב.'
+  await sendReply(chatId, messageText)
+}
+
+async function sendReplaceQuestion(chatId: string, field: IntakeField) {
+  let messageText = `⚠️ *כבר קיים קובץ עבור: ${field.name}*\n\n`
+  messageText += 'האם להחליף אותו בקובץ החדש?\n\n'
+  messageText += '💬 שלח *כן* להחלפה או *לא* לבחירת מסמך אחר'
+  await sendReply(chatId, messageText)
+}
+
+async function sendAwaitingFileReminder(chatId: string, session: ConversationSession) {
+  const { formType, formTypeLabel } = session.context
+  let messageText = '📎 *ממתינים למסמכים שלך*\n\n'
+
+  if (formType && formTypeLabel) {
+    const submission = await SupabaseService.getOrCreateSubmission(session.phone_number, formType, formTypeLabel)
+    const fields = DocumentIntakeService.getRequiredFields(formType)
+    const missingFields = submission ? getMissingFields(fields, CompletionService.evaluate(submission)) : fields
+
+    if (missingFields.length > 0) {
+      messageText += formatMissingFields(fields, missingFields) + '\n'
+    }
+  }
+
+  messageText += 'ניתן לשלוח כאן תמונה או קובץ PDF של המסמך.\n\n'
+  messageText += '📝 לחזרה לתפריט הראשי שלח: *תפריט*\n'
+  messageText += '👤 לשיחה עם נציג שלח: *נציג*'
+  await sendReply(chatId, messageText)
+}
+
+// Fields still holding the form back: missing documents, and the open options of sections that need more
+function getMissingFields(fields: IntakeField[], report: CompletionReport): IntakeField[] {
+  const missingSlugs = new Set(report.missing.flatMap(item =>
+    item.options ? item.options.filter(option => !option.submitted).map(option => option.slug) : [item.slug]
+  ))
+  return fields.filter(f => missingSlugs.has(f.slug))
+}
+
+function formatMissingFields(fields: IntakeField[], missingFields: IntakeField[]): string {
+  let text = '📋 *מסמכים שעדיין חסרים:*\n'
+  missingFields.forEach(f => {
+    text += `${fields.indexOf(f) + 1}. ${f.name}\n`
+  })
+  return text
+}
+
 async function sendMenu(phoneNumber: string) {
   let menuText = '🔸 *בחר סוג הטופס שברצונך למלא:*\n\n'
   
-  formFieldsData.formTypes.forEach((formType, index) => {
+  getFormTypes().forEach((formType, index) => {
     menuText += `${index + 1}. ${formType.label}\n`
   })
   
@@ -61,20 +393,33 @@ async function sendMenu(phoneNumber: string) {
   menuText += '\n\n📝 לחזרה לתפריט הראשי שלח: *תפריט*'
 
   const chatId = greenAPI.formatChatId(phoneNumber)
-  await greenAPI.sendMessage(chatId, menuText)
+  await sendReply(chatId, menuText)
 }
 
-async function sendFormLink(phoneNumber: string, formType: { slug: string; label: string }) {
+// The link carries a magic-link token, so it opens the customer's own form without a code
+async function sendFormLink(chatId: string, dbPhone: string, formType: { slug: string; label: string }) {
   const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
-  const formUrl = `${baseUrl}/${formType.slug}?phone=${encodeURIComponent(phoneNumber)}`
-  
+  const tokenData = await TokenService.createAuthToken(dbPhone, formType.slug, {
+    isReusable: true,
+    createdByAdmin: false
+  })
+  if (!tokenData) {
+    await sendReply(chatId, '❌ *לא הצלחנו ליצור קישור לטופס*\n\nאנא נסה שוב בעוד מספר דקות, או שלח *נציג* לשיחה עם נציג.')
+    return
+  }
+
+  const shortUrlResult = await URLService.createWhatsAppShortUrl(baseUrl, dbPhone, formType.slug, formType.label, tokenData.token)
+  const formUrl = shortUrlResult.shortUrl || TokenService.generateTokenizedURL(baseUrl, dbPhone, formType.slug, tokenData.token)
+
   let messageText = `✅ *נבחר: ${formType.label}*\n\n`
   messageText += `🔗 *לחץ על הקישור למילוי הטופס:*\n${formUrl}\n\n`
   messageText += `📱 *או העתק והדבק את הקישור בדפדפן*\n\n`
   messageText += `💬 לחזרה לתפריט הראשי שלח: *תפריט*`
 
-  const chatId = greenAPI.formatChatId(phoneNumber)
-  await greenAPI.sendMessage(chatId, messageText)
+  const log = await sendReply(chatId, messageText, formType)
+  if (log?.sent_successfully) {
+    await LinkAnalyticsService.recordSentLinks(messageText, log, { phoneNumber: dbPhone, formType: formType.slug })
+  }
 }
 
 async function sendDefaultResponse(phoneNumber: string) {
@@ -82,12 +427,31 @@ async function sendDefaultResponse(phoneNumber: string) {
   messageText += '📋 *כדי לקבל רשימת טפסים זמינים שלח:* תפריט\n\n'
   messageText += '🔍 *או בחר מספר טופס ישירות מהרשימה:*\n\n'
   
-  formFieldsData.formTypes.forEach((formType, index) => {
+  getFormTypes().forEach((formType, index) => {
     messageText += `${index + 1}. ${formType.label}\n`
   })
 
+  messageText += '\n💬 הודעתך נשמרה, ונציג יחזור אליך בהקדם במידת הצורך.'
+  messageText += '\n👤 לשיחה עם נציג שלח: *נציג*'
+
   const chatId = greenAPI.formatChatId(phoneNumber)
-  await greenAPI.sendMessage(chatId, messageText)
+  await sendReply(chatId, messageText)
+}
+
+// Send an automatic reply and keep it in the message log next to the customer's messages
+async function sendReply(chatId: string, messageText: string, formType?: { slug: string; label: string }) {
+  const result = await greenAPI.sendMessage(chatId, messageText)
+
+  return await SupabaseService.logMessage({
+    phone_number: greenAPI.formatPhoneFromChatId(chatId),
+    message_type: 'bot_reply',
+    message_content: messageText,
+    form_type: formType?.slug,
+    form_type_label: formType?.label,
+    sent_successfully: result.success,
+    error_message: result.success ? undefined : result.error,
+    whatsapp_message_id: result.data && typeof result.data === 'object' && 'idMessage' in result.data ? String(result.data.idMessage) : undefined
+  })
 }
 
 // Also handle GET requests for webhook verification (if needed)
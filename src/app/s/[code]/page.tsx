@@ -0,0 +1,34 @@
+import { headers } from 'next/headers'
+import { notFound, redirect } from 'next/navigation'
+import { URLService } from '@/lib/url-service'
+import { AuthService } from '@/lib/auth-service'
+
+// Short link redirect: /s/<code> → the stored form URL
+export default async function ShortLinkPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = await params
+  const requestHeaders = await headers()
+  const result = await URLService.resolveShortUrl(code, {
+    ip_address: AuthService.getClientIp(requestHeaders),
+    user_agent: requestHeaders.get('user-agent') || undefined
+  })
+
+  if (result.status === 'not_found') {
+    notFound()
+  }
+
+  if (result.status === 'active' && result.targetUrl) {
+    redirect(result.targetUrl)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8" dir="rtl">
+      <div className="bg-white rounded-lg shadow-md p-8 max-w-md text-center">
+        <div className="text-4xl mb-4">⌛</div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">הקישור אינו בתוקף</h1>
+        <p className="text-gray-600">
+          תוקף הקישור פג או שהוא בוטל. לקבלת קישור חדש אנא פנו אלינו בוואטסאפ.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,21 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { SupabaseService } from '@/lib/supabase-service'
-import { CustomerSubmission, Customer, CustomerStatus, CustomerCriterion } from '@/lib/supabase'
+import { CustomerSubmission, Customer, CustomerStatus } from '@/lib/supabase'
 import Link from 'next/link'
 import NewCustomerLinkModal from './NewCustomerLinkModal'
-import formFieldsData from '@/data/form-fields.json'
+import CustomerImportModal from './CustomerImportModal'
+import AdminUserMenu from './AdminUserMenu'
+import { getFormTypeLabel } from '@/lib/form-definitions'
+import { useFormDefinitions } from './useFormDefinitions'
+import { CompletionService } from '@/lib/completion-service'
+
+const EXPORT_OPTIONS = [
+  { label: '⬇️ Excel', format: 'xlsx', dataset: 'customers' },
+  { label: '⬇️ CSV לקוחות', format: 'csv', dataset: 'customers' },
+  { label: '⬇️ CSV טפסים', format: 'csv', dataset: 'submissions' },
+  { label: '⬇️ JSON', format: 'json', dataset: 'customers' }
+]
 
 interface CustomerGroup {
   phoneNumber: string
@@ -14,6 +24,7 @@ interface CustomerGroup {
 }
 
 export default function AdminPanel() {
+  useFormDefinitions() // Re-render with the form builder's labels and fields once they load
   const [submissions, setSubmissions] = useState<CustomerSubmission[]>([])
   const [customers, setCustomers] = useState<Customer[]>([])
   const [loading, setLoading] = useState(true)
@@ -22,9 +33,6 @@ export default function AdminPanel() {
   const [isNewLinkModalOpen, setIsNewLinkModalOpen] = useState(false)
   const [sendingMessage, setSendingMessage] = useState(false)
   const [isImportOpen, setIsImportOpen] = useState(false)
-  const [importing, setImporting] = useState(false)
-  const [importCriterion, setImportCriterion] = useState('')
-  const [importFile, setImportFile] = useState<File | null>(null)
 
   useEffect(() => {
     loadData()
@@ -32,27 +40,18 @@ export default function AdminPanel() {
 
   const loadData = async () => {
     setLoading(true)
-    const [submissionsData, customersData] = await Promise.all([
-      SupabaseService.getAllSubmissions(),
-      SupabaseService.getAllCustomers()
-    ])
-    setSubmissions(submissionsData)
-    setCustomers(customersData)
-
-    // Also load file counts per submission to improve status accuracy
     try {
-      const submissionIds = submissionsData.map(s => s.id!).filter(Boolean)
-      const files = await SupabaseService.getFilesBySubmissionIds(submissionIds)
-      const counts: Record<string, number> = {}
-      files.forEach(f => {
-        if (f.submission_id) {
-          counts[f.submission_id] = (counts[f.submission_id] || 0) + 1
-        }
-      })
-      setFilesBySubmission(counts)
-    } catch (e) {
-      console.warn('Failed to load files for submissions', e)
-      setFilesBySubmission({})
+      const response = await fetch('/api/customers')
+      const result = await response.json()
+
+      if (result.success) {
+        setSubmissions(result.submissions)
+        setCustomers(result.customers)
+        // File counts per submission improve status accuracy
+        setFilesBySubmission(result.fileCounts || {})
+      }
+    } catch (error) {
+      console.error('Error loading customers:', error)
     }
     setLoading(false)
   }
@@ -129,9 +128,7 @@ export default function AdminPanel() {
   // Helper function to get customer criterion label in Hebrew  
   const getCustomerCriterionLabel = (criterion: string | null | undefined): string => {
     if (!criterion) return 'לא נבחר'
-    
-    const formType = formFieldsData.formTypes.find(ft => ft.slug === criterion)
-    return formType?.label || criterion
+    return getFormTypeLabel(criterion)
   }
 
   // Helper function to get customer status color
@@ -164,43 +161,27 @@ export default function AdminPanel() {
     }
     
     try {
-      // First, create or update the customer in the database
-      if (customerName) {
-        try {
-          // Parse first and last name from full name
-          const nameParts = customerName.trim().split(' ')
-          const firstName = nameParts[0] || undefined
-          const lastName = nameParts.length > 1 ? nameParts.slice(1).join(' ') : undefined
-
-          // Create or update customer in customers table
-          const existingCustomer = await SupabaseService.getCustomerByPhone(formattedPhone)
-          if (!existingCustomer) {
-            // Create new customer with name and criterion
-            const newCustomer = await SupabaseService.createCustomer({
-              phone_number: formattedPhone,
-              name: firstName,
-              family_name: lastName,
-              criterion: formType as CustomerCriterion,
-              status: 'agreement_signed'
-            })
-            customerId = newCustomer?.id
-            console.log('Created new customer:', { phone: formattedPhone, name: firstName, family_name: lastName, criterion: formType })
-          } else {
-            customerId = existingCustomer.id
-            if (!existingCustomer.name && firstName) {
-              // Update existing customer with name if they don't have one
-              await SupabaseService.updateCustomer(existingCustomer.id, {
-                name: firstName,
-                family_name: lastName,
-                criterion: existingCustomer.criterion || (formType as CustomerCriterion)
-              })
-              console.log('Updated existing customer with name:', { id: existingCustomer.id, name: firstName, family_name: lastName })
-            }
-          }
-        } catch (error) {
-          console.error('Error creating/updating customer:', error)
-          // Don't fail the whole process if customer creation fails
-        }
+      // First, create or update the customer and open the submission in the database
+      try {
+        // Parse first and last name from full name
+        const nameParts = (customerName || '').trim().split(' ')
+        const registerResponse = await fetch('/api/customers', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            phoneNumber: formattedPhone,
+            name: nameParts[0] || undefined,
+            familyName: nameParts.length > 1 ? nameParts.slice(1).join(' ') : undefined,
+            formType
+          }),
+        })
+        const registerResult = await registerResponse.json()
+        customerId = registerResult.customer?.id
+      } catch (error) {
+        console.error('Error creating/updating customer:', error)
+        // Don't fail the whole process if customer creation fails
       }
 
       // Send WhatsApp message using formatted phone number
@@ -249,7 +230,12 @@ export default function AdminPanel() {
     <div className="min-h-screen bg-gray-50 p-8" dir="rtl">
       <div className="max-w-7xl mx-auto">
         <div className="flex justify-between items-center mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">פאנל ניהול - רשימת לקוחות</h1>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">פאנל ניהול - רשימת לקוחות</h1>
+            <div className="mt-2">
+              <AdminUserMenu />
+            </div>
+          </div>
           <div className="flex gap-3 items-center">
             <Link
               href="/admin/reminders"
@@ -257,11 +243,29 @@ export default function AdminPanel() {
             >
               🔔 ניהול תזכורות
             </Link>
+            <Link
+              href="/admin/inbox"
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors text-sm"
+            >
+              💬 הודעות נכנסות
+            </Link>
+            <Link
+              href="/admin/token-audit"
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors text-sm"
+            >
+              🛡️ ביקורת קישורים
+            </Link>
+            <Link
+              href="/admin/forms"
+              className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg transition-colors text-sm"
+            >
+              🧩 עורך טפסים
+            </Link>
             <button
               onClick={() => setIsImportOpen(true)}
               className="px-4 py-2 bg-gray-700 hover:bg-gray-800 text-white rounded-lg transition-colors text-sm"
             >
-              ⬆️ ייבוא לקוחות (CSV)
+              ⬆️ ייבוא לקוחות (CSV / Excel)
             </button>
             <button
               onClick={() => setIsNewLinkModalOpen(true)}
@@ -290,6 +294,19 @@ export default function AdminPanel() {
             <div className="text-sm text-gray-600">
               סה&quot;כ לקוחות: {filteredCustomerGroups.length}
             </div>
+          </div>
+          {/* Exports use the same phone search as the list */}
+          <div className="flex items-center gap-2 mt-4 text-sm flex-wrap">
+            <span className="text-gray-600">ייצוא:</span>
+            {EXPORT_OPTIONS.map(option => (
+              <a
+                key={option.label}
+                href={`/api/customers/export?format=${option.format}&dataset=${option.dataset}&search=${encodeURIComponent(searchPhone)}`}
+                className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
+              >
+                {option.label}
+              </a>
+            ))}
           </div>
             </div>
 
@@ -392,21 +409,9 @@ export default function AdminPanel() {
                           }
 
                           const statusCounts = customerGroup.submissions.reduce((acc, sub) => {
-                            // Calculate automatic status based on form progress
-                            const submittedCount = sub.submitted_fields.length || filesBySubmission[sub.id!] || 0
-                            let automaticStatus: string
-                            if (submittedCount === 0) {
-                              automaticStatus = 'new'
-                            } else {
-                              // We need to get total fields for this form type
-                              const formType = formFieldsData.formTypes.find(ft => ft.slug === sub.form_type)
-                              const totalFields = formType?.fields.filter(f => !f.isSection).length || 0
-                              if (submittedCount === totalFields) {
-                                automaticStatus = 'completed'
-                              } else {
-                                automaticStatus = 'in-progress'
-                              }
-                            }
+                            // Files from before progress was tracked still count as a started form
+                            const { status } = CompletionService.evaluate(sub)
+                            const automaticStatus = status === 'new' && filesBySubmission[sub.id!] ? 'in-progress' : status
                             
                             acc[automaticStatus] = (acc[automaticStatus] || 0) + 1
                             return acc
@@ -460,79 +465,11 @@ export default function AdminPanel() {
       />
 
       {/* Import Modal */}
-      {isImportOpen && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg" dir="rtl">
-            <div className="p-6">
-              <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-semibold text-gray-900">ייבוא לקוחות מקובץ CSV</h2>
-                <button className="text-gray-500 hover:text-gray-700 text-2xl" onClick={() => setIsImportOpen(false)} disabled={importing}>×</button>
-              </div>
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-gray-700 font-medium mb-1">קריטריון (תבחין)</label>
-                  <select
-                    value={importCriterion}
-                    onChange={(e) => setImportCriterion(e.target.value)}
-                    className="w-full p-2 border rounded text-gray-900"
-                    aria-label="בחר קריטריון"
-                  >
-                    <option value="">בחר קריטריון...</option>
-                    {formFieldsData.formTypes.map(ft => (
-                      <option key={ft.slug} value={ft.slug}>{ft.label}</option>
-                    ))}
-                  </select>
-                </div>
-                                  <div>
-                  <label className="block text-gray-700 font-medium mb-1">קובץ CSV</label>
-                                  <input
-                                    type="file"
-                    accept=".csv,text/csv"
-                    onChange={(e) => setImportFile(e.target.files?.[0] || null)}
-                    aria-label="בחר קובץ CSV"
-                    className="w-full"
-                  />
-                  <p className="text-xs text-gray-500 mt-1">עמודות דרושות: &quot;שם עסק&quot;, &quot;נייד&quot;/&quot;טלפון&quot;, &quot;ח.פ.&quot;</p>
-                                </div>
-                              </div>
-              <div className="flex justify-end gap-2 mt-6">
-                <button className="px-4 py-2 border rounded text-gray-700" onClick={() => setIsImportOpen(false)} disabled={importing}>בטל</button>
-                              <button
-                  className={`px-4 py-2 rounded text-white ${importing ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'}`}
-                  disabled={importing || !importFile || !importCriterion}
-                  onClick={async () => {
-                    if (!importFile || !importCriterion) return
-                    try {
-                      setImporting(true)
-                      const fd = new FormData()
-                      fd.append('file', importFile)
-                      fd.append('criterion', importCriterion)
-                      const res = await fetch('/api/customers/import', { method: 'POST', body: fd })
-                      const json = await res.json()
-                      if (json.success) {
-                        alert(`ייבוא הושלם: ${json.count} שורות`)
-                        setIsImportOpen(false)
-                        setImportFile(null)
-                        setImportCriterion('')
-                        await loadData()
-                      } else {
-                        alert(`שגיאה בייבוא: ${json.error || 'לא ידוע'}`)
-                      }
-                    } catch (e) {
-                      console.error('Import failed', e)
-                      alert('שגיאה בייבוא')
-                    } finally {
-                      setImporting(false)
-                    }
-                  }}
-                >
-                  {importing ? 'מייבא...' : 'ייבא'}
-                              </button>
-              </div>
-              </div>
-          </div>
-        </div>
-      )}
+      <CustomerImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={loadData}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { AdminSession } from '@/lib/admin-session'
+import { AdminRole } from '@/lib/supabase'
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'בעלים',
+  case_handler: 'מטפל/ת בתיקים',
+  read_only: 'צפייה בלבד'
+}
+
+// The signed-in admin (null while loading), for hiding actions the role can't perform
+export function useAdminSession(): AdminSession | null {
+  const [session, setSession] = useState<AdminSession | null>(null)
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/admin/auth/me')
+        const result = await response.json()
+
+        if (result.success) {
+          setSession(result.session)
+        }
+      } catch (error) {
+        console.error('Error loading admin session:', error)
+      }
+    }
+
+    loadSession()
+  }, [])
+
+  return session
+}
+
+export default function AdminUserMenu() {
+  const session = useAdminSession()
+
+  const logout = async () => {
+    try {
+      await fetch('/api/admin/auth/logout', { method: 'POST' })
+    } catch (error) {
+      console.error('Error logging out:', error)
+    }
+    window.location.href = '/admin/login'
+  }
+
+  if (!session) return null
+
+  return (
+    <div className="flex gap-3 items-center text-sm text-gray-700">
+      <span>
+        👤 {session.name} ({ADMIN_ROLE_LABELS[session.role]})
+      </span>
+      {session.role === 'owner' && (
+        <Link
+          href="/admin/users"
+          className="px-3 py-2 bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-lg transition-colors"
+        >
+          👥 משתמשים
+        </Link>
+      )}
+      <button
+        onClick={logout}
+        className="px-3 py-2 border border-gray-300 hover:bg-gray-100 text-gray-700 rounded-lg transition-colors"
+      >
+        יציאה
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AuthToken, AuthTokenStatus } from '@/lib/supabase'
+import { getFormTypeLabel } from '@/lib/form-definitions'
+import { useFormDefinitions } from './useFormDefinitions'
+
+interface AuthTokensPanelProps {
+  phoneNumber: string
+  canEdit: boolean // Read-only admins see the list without actions
+}
+
+type TokenWithStatus = AuthToken & { status: AuthTokenStatus }
+type TokenAction = 'revoke' | 'extend' | 'regenerate' | 'resend'
+
+const STATUS_LABELS: Record<AuthTokenStatus, { label: string; className: string }> = {
+  active: { label: 'פעיל', className: 'bg-green-100 text-green-800' },
+  used: { label: 'נוצל', className: 'bg-orange-100 text-orange-800' },
+  expired: { label: 'פג תוקף', className: 'bg-red-100 text-red-800' },
+  revoked: { label: 'בוטל', className: 'bg-gray-200 text-gray-600' }
+}
+
+const ACTION_SUCCESS_MESSAGES: Record<TokenAction, string> = {
+  revoke: 'הקישור בוטל',
+  extend: 'תוקף הקישור הוארך',
+  regenerate: 'נוצר קישור חדש והקישור הקודם בוטל',
+  resend: 'הקישור נשלח שוב בוואטסאפ'
+}
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : '-'
+
+const fetchTokens = async (phoneNumber: string): Promise<TokenWithStatus[]> => {
+  try {
+    const response = await fetch(`/api/auth/tokens?phoneNumber=${encodeURIComponent(phoneNumber)}`)
+    const result = await response.json()
+    return result.success ? result.tokens : []
+  } catch (error) {
+    console.error('Error loading tokens:', error)
+    return []
+  }
+}
+
+export default function AuthTokensPanel({ phoneNumber, canEdit }: AuthTokensPanelProps) {
+  useFormDefinitions() // Re-render with the form builder's labels once they load
+  const [tokens, setTokens] = useState<TokenWithStatus[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingTokenId, setUpdatingTokenId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadTokens = async () => {
+      setLoading(true)
+      setTokens(await fetchTokens(phoneNumber))
+      setLoading(false)
+    }
+
+    loadTokens()
+  }, [phoneNumber])
+
+  const runAction = async (token: TokenWithStatus, action: TokenAction) => {
+    let days: number | undefined
+    if (action === 'revoke' && !confirm('האם לבטל את הקישור? הלקוח לא יוכל להשתמש בו יותר.')) {
+      return
+    }
+    if (action === 'regenerate' && !confirm('ליצור קישור חדש? הקישור הנוכחי יבוטל.')) {
+      return
+    }
+    if (action === 'extend') {
+      const input = prompt('בכמה ימים להאריך את התוקף?', '30')
+      if (!input) return
+      days = Number(input)
+    }
+
+    setUpdatingTokenId(token.id!)
+    try {
+      const response = await fetch(`/api/auth/tokens/${token.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, days })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        alert(`✅ ${ACTION_SUCCESS_MESSAGES[action]}`)
+        setTokens(await fetchTokens(phoneNumber))
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating token:', error)
+      alert('שגיאה בעדכון הקישור')
+    } finally {
+      setUpdatingTokenId(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-4 text-gray-900">קישורי גישה ({tokens.length})</h2>
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-4">טוען...</div>
+      ) : tokens.length === 0 ? (
+        <div className="text-center text-gray-500 py-4">לא נוצרו קישורים ללקוח זה</div>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {tokens.map((token) => {
+            const status = STATUS_LABELS[token.status]
+            const isUpdating = updatingTokenId === token.id
+
+            return (
+              <div key={token.id} className="border rounded-lg p-3">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap mb-1">
+                      <span className={`text-xs px-2 py-1 rounded ${status.className}`}>{status.label}</span>
+                      <span className="text-sm font-medium text-gray-900">{getFormTypeLabel(token.form_type)}</span>
+                      <span className="text-xs text-gray-500">{token.is_reusable ? 'רב פעמי' : 'חד פעמי'}</span>
+                    </div>
+                    <div className="flex gap-4 text-xs text-gray-600 flex-wrap">
+                      <span>נוצר: {formatTime(token.created_at)}</span>
+                      <span>תוקף עד: {formatTime(token.expires_at)}</span>
+                      <span>שימוש אחרון: {formatTime(token.last_used_at)}</span>
+                      <span>שימושים: {token.use_count || 0}</span>
+                      {token.revoked_at && <span>בוטל: {formatTime(token.revoked_at)}</span>}
+                    </div>
+                  </div>
+
+                  {canEdit && (
+                    <div className="flex gap-1 flex-wrap justify-end shrink-0">
+                      {token.status === 'active' && (
+                        <button
+                          onClick={() => runAction(token, 'resend')}
+                          disabled={isUpdating}
+                          className="text-xs px-2 py-1 rounded bg-green-600 hover:bg-green-700 text-white transition-colors"
+                        >
+                          שלח שוב
+                        </button>
+                      )}
+                      {(token.status === 'active' || token.status === 'expired') && (
+                        <button
+                          onClick={() => runAction(token, 'extend')}
+                          disabled={isUpdating}
+                          className="text-xs px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                        >
+                          הארך
+                        </button>
+                      )}
+                      <button
+                        onClick={() => runAction(token, 'regenerate')}
+                        disabled={isUpdating}
+                        className="text-xs px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors"
+                      >
+                        צור מחדש
+                      </button>
+                      {token.status !== 'revoked' && (
+                        <button
+                          onClick={() => runAction(token, 'revoke')}
+                          disabled={isUpdating}
+                          className="text-xs px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                        >
+                          בטל
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
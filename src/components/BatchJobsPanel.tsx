@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { BatchJob, BatchJobStatus, BatchProgress } from '@/lib/supabase'
+
+interface BatchJobsPanelProps {
+  refreshKey: number // Bump to reload after a new batch was enqueued
+}
+
+const STATUS_LABELS: Record<BatchJobStatus, { label: string; className: string }> = {
+  scheduled: { label: '🗓️ מתוזמן', className: 'bg-indigo-100 text-indigo-800' },
+  queued: { label: '⏳ בתור', className: 'bg-gray-200 text-gray-800' },
+  running: { label: '📤 בשליחה', className: 'bg-blue-100 text-blue-800' },
+  paused: { label: '⏸️ מושהה', className: 'bg-yellow-100 text-yellow-800' },
+  completed: { label: '✅ הושלם', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: '🚫 בוטל', className: 'bg-gray-200 text-gray-600' },
+  failed: { label: '❌ נכשל', className: 'bg-red-100 text-red-800' }
+}
+
+const POLL_INTERVAL = 10 * 1000
+const ACTIVE_STATUSES: BatchJobStatus[] = ['scheduled', 'queued', 'running']
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : '-'
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.ceil(ms / 1000 / 60)
+  if (minutes < 60) {
+    return `${minutes} דקות`
+  }
+  return `${Math.floor(minutes / 60)} שעות ו-${minutes % 60} דקות`
+}
+
+// Same wording as the inline batch progress used to show
+const describeProgress = (progress: BatchProgress): string => {
+  switch (progress.currentStatus) {
+    case 'scheduled':
+      return `🗓️ ממתין למועד התזמון (${formatTime(progress.nextRunAt)})`
+    case 'preparing':
+      return '🔄 מכין להעברה...'
+    case 'sending':
+      return `📤 שולח ל-${progress.currentRecipient || 'מועמד'}...`
+    case 'waiting':
+      return `⏱️ ממתין להודעה הבאה (${formatTime(progress.nextRunAt)})`
+    case 'sleeping':
+      return `😴 הפסקה של 30 דקות - ממשיך ב-${formatTime(progress.nextRunAt)}`
+    case 'waiting_window':
+      return `🌙 מחוץ לחלון השליחה - ממתין עד ${formatTime(progress.nextWindowAt)}`
+    case 'paused':
+      return '⏸️ מושהה'
+    case 'completed':
+      return '✅ הושלם!'
+    case 'cancelled':
+      return '🚫 בוטל'
+    case 'failed':
+      return '❌ נכשל'
+  }
+}
+
+const fetchProgress = async (jobId: string): Promise<BatchProgress | null> => {
+  try {
+    const response = await fetch(`/api/reminders/batch/jobs/${jobId}/progress`)
+    const result = await response.json()
+    return result.success ? result.progress : null
+  } catch (error) {
+    console.error('Error loading batch progress:', error)
+    return null
+  }
+}
+
+export default function BatchJobsPanel({ refreshKey }: BatchJobsPanelProps) {
+  const [jobs, setJobs] = useState<BatchJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingJobId, setUpdatingJobId] = useState<string | null>(null)
+  const [progressByJob, setProgressByJob] = useState<Record<string, BatchProgress>>({})
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null)
+
+  const loadProgress = async (jobId: string) => {
+    const progress = await fetchProgress(jobId)
+    if (progress) {
+      setProgressByJob(prev => ({ ...prev, [jobId]: progress }))
+    }
+  }
+
+  // `silent` skips the loading state so polling doesn't flicker the panel
+  const loadJobs = async (silent: boolean = false) => {
+    if (!silent) setLoading(true)
+    try {
+      const response = await fetch('/api/reminders/batch/jobs?limit=10')
+      const result = await response.json()
+
+      if (result.success) {
+        const loadedJobs: BatchJob[] = result.jobs || []
+        setJobs(loadedJobs)
+
+        const activeJobs = loadedJobs.filter(job => ACTIVE_STATUSES.includes(job.status))
+        const progresses = await Promise.all(activeJobs.map(job => fetchProgress(job.id!)))
+        setProgressByJob(prev => {
+          const next = { ...prev }
+          activeJobs.forEach((job, index) => {
+            const progress = progresses[index]
+            if (progress) next[job.id!] = progress
+          })
+          return next
+        })
+      }
+    } catch (error) {
+      console.error('Error loading batch jobs:', error)
+    } finally {
+      if (!silent) setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadJobs()
+  }, [refreshKey])
+
+  // Poll while any batch is still going
+  const hasActiveJobs = jobs.some(job => ACTIVE_STATUSES.includes(job.status))
+  useEffect(() => {
+    if (!hasActiveJobs) return
+
+    const interval = setInterval(() => loadJobs(true), POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [hasActiveJobs])
+
+  const toggleErrors = (jobId: string) => {
+    if (expandedJobId === jobId) {
+      setExpandedJobId(null)
+      return
+    }
+
+    setExpandedJobId(jobId)
+    loadProgress(jobId)
+  }
+
+  const controlJob = async (job: BatchJob, action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('האם לבטל את האצווה? הודעות שטרם נשלחו לא יישלחו.')) {
+      return
+    }
+
+    setUpdatingJobId(job.id!)
+    try {
+      const response = await fetch(`/api/reminders/batch/jobs/${job.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        setJobs(prev => prev.map(j => (j.id === job.id ? result.job : j)))
+        loadProgress(job.id!)
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating batch job:', error)
+      alert('שגיאה בעדכון האצווה')
+    } finally {
+      setUpdatingJobId(null)
+    }
+  }
+
+  if (!loading && jobs.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">אצוות שליחה</h2>
+        <button
+          onClick={() => loadJobs()}
+          disabled={loading}
+          className={`px-4 py-2 rounded-md transition-colors text-sm ${
+            loading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+          } text-white`}
+        >
+          {loading ? 'טוען...' : 'רענן'}
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {jobs.map((job) => {
+          const processed = job.sent_count + job.failed_count + job.skipped_count
+          const status = STATUS_LABELS[job.status]
+          const isActive = ACTIVE_STATUSES.includes(job.status)
+          const progress = progressByJob[job.id!]
+          const problemCount = job.failed_count + job.skipped_count
+
+          return (
+            <div key={job.id} className="border rounded-lg p-4">
+              <div className="flex justify-between items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap mb-2">
+                    <span className={`text-xs px-2 py-1 rounded ${status.className}`}>{status.label}</span>
+                    <span className="text-sm text-gray-700">
+                      {processed}/{job.total_count} טופלו · ✅ {job.sent_count} · ❌ {job.failed_count}
+                      {job.skipped_count > 0 && ` · ⏭️ ${job.skipped_count}`}
+                    </span>
+                  </div>
+
+                  <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${job.total_count > 0 ? (processed / job.total_count) * 100 : 0}%` }}
+                    ></div>
+                  </div>
+
+                  {isActive && progress && (
+                    <div className="text-sm text-blue-700 mb-2">
+                      {describeProgress(progress)}
+                      {progress.estimatedTimeRemaining !== undefined && progress.estimatedTimeRemaining > 0 && (
+                        <span className="mr-2">(זמן משוער לסיום: {formatDuration(progress.estimatedTimeRemaining)})</span>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex gap-4 text-xs text-gray-600 flex-wrap">
+                    <span>נוצרה: {formatTime(job.created_at)}</span>
+                    {job.scheduled_for && <span>מתוזמנת ל: {formatTime(job.scheduled_for)}</span>}
+                    {job.completed_at && <span>הסתיימה: {formatTime(job.completed_at)}</span>}
+                  </div>
+
+                  {job.last_error && (
+                    <div className="text-xs text-red-700 mt-2">שגיאה אחרונה: {job.last_error}</div>
+                  )}
+
+                  {problemCount > 0 && (
+                    <button
+                      onClick={() => toggleErrors(job.id!)}
+                      className="text-xs text-blue-600 hover:text-blue-800 mt-2"
+                    >
+                      {expandedJobId === job.id ? 'הסתר שגיאות' : `הצג שגיאות (${problemCount})`}
+                    </button>
+                  )}
+
+                  {expandedJobId === job.id && progress?.errors && progress.errors.length > 0 && (
+                    <div className="mt-2 bg-red-50 border border-red-200 rounded-md p-2 max-h-48 overflow-y-auto">
+                      {progress.errors.map((item, index) => (
+                        <div key={`${item.phoneNumber}-${index}`} className="text-xs text-red-800">
+                          {item.status === 'skipped' ? '⏭️' : '❌'} {item.phoneNumber}: {item.error}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2 shrink-0">
+                  {isActive && (
+                    <button
+                      onClick={() => controlJob(job, 'pause')}
+                      disabled={updatingJobId === job.id}
+                      className="text-xs px-3 py-1 rounded bg-yellow-500 hover:bg-yellow-600 text-white transition-colors"
+                    >
+                      השהה
+                    </button>
+                  )}
+                  {job.status === 'paused' && (
+                    <button
+                      onClick={() => controlJob(job, 'resume')}
+                      disabled={updatingJobId === job.id}
+                      className="text-xs px-3 py-1 rounded bg-green-600 hover:bg-green-700 text-white transition-colors"
+                    >
+                      המשך
+                    </button>
+                  )}
+                  {(isActive || job.status === 'paused') && (
+                    <button
+                      onClick={() => controlJob(job, 'cancel')}
+                      disabled={updatingJobId === job.id}
+                      className="text-xs px-3 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                    >
+                      בטל
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
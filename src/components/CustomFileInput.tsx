@@ -6,6 +6,7 @@ interface CustomFileInputProps {
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   accept?: string;
   disabled?: boolean;
+  multiple?: boolean;
   ariaLabel?: string;
   className?: string;
 }
@@ -14,6 +15,7 @@ export default function CustomFileInput({
   onChange, 
   accept, 
   disabled, 
+  multiple,
   ariaLabel,
   className = ""
 }: CustomFileInputProps) {
@@ -32,6 +34,7 @@ export default function CustomFileInput({
         type="file"
         onChange={onChange}
         accept={accept}
+        multiple={multiple}
         disabled={disabled}
         aria-label={ariaLabel}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
@@ -46,7 +49,7 @@ export default function CustomFileInput({
       >
         <div className="flex items-center justify-between">
           <span className="text-gray-700 font-medium">
-            בחר קובץ...
+            {multiple ? 'בחר קבצים...' : 'בחר קובץ...'}
           </span>
           <span className="text-gray-500 text-sm">
             📁
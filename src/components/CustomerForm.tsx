@@ -2,10 +2,11 @@
 
 import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
-import formData from '@/data/form-fields.json';
-import { SupabaseService } from '@/lib/supabase-service';
 import { CustomerSubmission, UploadedFile } from '@/lib/supabase';
-import { AuthService } from '@/lib/auth-service';
+import { getFieldFileLimits, getFieldPeriod, getPeriodCoverage, getReferenceDate } from '@/lib/form-fields';
+import { CompletionService } from '@/lib/completion-service';
+import { getFieldDefinition, getFormDefinitions, getFormType, getFormTypes } from '@/lib/form-definitions';
+import { useFormDefinitions } from './useFormDefinitions';
 import CustomFileInput from './CustomFileInput';
 import PhoneVerification from './PhoneVerification';
 
@@ -27,21 +28,10 @@ interface FormField {
   template?: string;
   templates?: Array<{ label: string; path: string }>;
   optional?: boolean;
+  minFiles?: number;
+  maxFiles?: number;
 }
 
-interface FormTypeField {
-  fieldSlug: string;
-  number: number;
-  optional?: boolean;
-  isSection?: boolean;
-  sectionType?: string;
-  sectionTitle?: string;
-  requiredCount?: number;
-  options?: Array<{ label: string; slug: string }>;
-}
-
-const formTypes = formData.formTypes;
-
 // Helper function to display phone number in normal Israeli format
 const displayPhoneNumber = (phone: string) => {
   // Convert +972xxxxxxxxx to 0xx-xxx-xxxx format for display
@@ -79,7 +69,7 @@ const sanitizePhoneForUrl = (phone: string): string => {
 
 // Function to get form fields for a specific type
 const getFormFields = (formTypeSlug: string, selectedMailDocs: string[] = []) => {
-  const formType = formTypes.find(type => type.slug === formTypeSlug);
+  const formType = getFormType(formTypeSlug);
   if (!formType) return [];
   
   const fields: FormField[] = [];
@@ -106,7 +96,8 @@ const getFormFields = (formTypeSlug: string, selectedMailDocs: string[] = []) =>
             name: option.label,
             number: field.number + index + 1,
             slug: docSlug,
-            isMailDocument: true
+            isMailDocument: true,
+            ...getFieldFileLimits(docSlug)
           });
         }
       });
@@ -125,14 +116,7 @@ const getFormFields = (formTypeSlug: string, selectedMailDocs: string[] = []) =>
       return;
     }
     
-    const fieldData = (formData.fields as Record<string, { 
-      name: string; 
-      slug: string; 
-      description?: string;
-      variants?: string[]; 
-      template?: string;
-      templates?: Array<{ label: string; path: string }>;
-    }>)[field.fieldSlug];
+    const fieldData = getFieldDefinition(field.fieldSlug);
     
          fields.push({
        name: fieldData?.name || '',
@@ -141,7 +125,8 @@ const getFormFields = (formTypeSlug: string, selectedMailDocs: string[] = []) =>
        slug: field.fieldSlug,
        template: fieldData?.template,
        templates: fieldData?.templates,
-       optional: (field as FormTypeField).optional || false
+       optional: field.optional || false,
+       ...getFieldFileLimits(field.fieldSlug)
      });
   });
   
@@ -159,9 +144,9 @@ export default function CustomerForm() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [verifiedPhoneNumber, setVerifiedPhoneNumber] = useState('');
   
-  // Check if the form type from URL is valid, otherwise use first form type
-  const initialFormType = formTypes.find(type => type.slug === formTypeFromUrl)?.slug || formTypes[0].slug;
-  const [selectedType, setSelectedType] = useState(initialFormType);
+  // Form types added in the form builder are only known once the definitions load, so the URL's type is kept until then
+  const { loaded: definitionsLoaded } = useFormDefinitions();
+  const [selectedType, setSelectedType] = useState(formTypeFromUrl || getFormTypes()[0]?.slug || '');
   const [uploadedFiles, setUploadedFiles] = useState<FileUploadState>({});
   const [dragOver, setDragOver] = useState<string | null>(null);
   const [currentSubmission, setCurrentSubmission] = useState<CustomerSubmission | null>(null);
@@ -174,6 +159,9 @@ export default function CustomerForm() {
   // Get current form fields based on selected type
   const currentFormFields = getFormFields(selectedType, selectedMailDocuments);
 
+  // Retired form types stay available to customers whose link points to them
+  const formTypes = getFormDefinitions().formTypes.filter(type => type.isActive !== false || type.slug === selectedType);
+
   // Phone number to use (verified phone takes priority over URL phone)
   const phoneNumber = verifiedPhoneNumber || phoneNumberFromUrl;
 
@@ -198,8 +186,7 @@ export default function CustomerForm() {
 
             console.log('Valid authorization token found, auto-authenticating user');
 
-            // Auto-authenticate with token
-            AuthService.setClientAuth(phoneToUse)
+            // The validation response set a session cookie limited to the token's phone and form
             setVerifiedPhoneNumber(phoneToUse)
             setIsAuthenticated(true)
 
@@ -210,19 +197,7 @@ export default function CustomerForm() {
               router.push(`/?${params.toString()}`)
             }
 
-            // Mark token as used if it's single-use
-            if (!result.data.isReusable) {
-              try {
-                await fetch('/api/auth/validate-token', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ token: tokenFromUrl, markAsUsed: true })
-                })
-              } catch (error) {
-                console.warn('Failed to mark token as used:', error)
-              }
-            }
-
+            // A single-use token was consumed when the session was opened; reloads use the session cookie
             return // Skip other authentication methods
           } else {
             console.warn('Invalid or expired authorization token');
@@ -232,28 +207,40 @@ export default function CustomerForm() {
         }
       }
       
-      // Priority 2: Check for existing authentication cookie
-      const existingAuth = AuthService.getClientAuth();
-      
-      if (existingAuth) {
-        // If we have valid auth and it matches the URL phone, auto-authenticate
-        if (phoneNumberFromUrl && existingAuth.phoneNumber === phoneNumberFromUrl) {
-          setVerifiedPhoneNumber(existingAuth.phoneNumber);
-          setIsAuthenticated(true);
-          return;
-        }
-        
-        // If we have auth but no phone in URL, use the authenticated phone
-        if (!phoneNumberFromUrl) {
-          setVerifiedPhoneNumber(existingAuth.phoneNumber);
-          setIsAuthenticated(true);
-          
-          // Update URL with authenticated phone
-          const params = new URLSearchParams(searchParams.toString());
-          params.set('phone', sanitizePhoneForUrl(existingAuth.phoneNumber));
-          router.push(`/?${params.toString()}`);
-          return;
+      // Priority 2: Check for an existing signed session cookie
+      try {
+        const response = await fetch('/api/customer/session');
+        const result = await response.json();
+
+        if (result.success) {
+          const sessionPhone: string = result.session.phoneNumber;
+
+          // Token sessions only cover the form the link was sent for
+          if (result.session.formType) {
+            setSelectedType(result.session.formType);
+          }
+
+          // If the session matches the URL phone, auto-authenticate
+          if (phoneNumberFromUrl && normalizePhone(phoneNumberFromUrl) === sessionPhone) {
+            setVerifiedPhoneNumber(sessionPhone);
+            setIsAuthenticated(true);
+            return;
+          }
+
+          // If we have a session but no phone in URL, use the authenticated phone
+          if (!phoneNumberFromUrl) {
+            setVerifiedPhoneNumber(sessionPhone);
+            setIsAuthenticated(true);
+
+            // Update URL with authenticated phone
+            const params = new URLSearchParams(searchParams.toString());
+            params.set('phone', sanitizePhoneForUrl(sessionPhone));
+            router.push(`/?${params.toString()}`);
+            return;
+          }
         }
+      } catch (error) {
+        console.error('Error checking customer session:', error);
       }
       
       // No valid authentication found, require verification
@@ -275,8 +262,12 @@ export default function CustomerForm() {
   };
 
   // Handle logout
-  const handleLogout = () => {
-    AuthService.clearClientAuth();
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/customer/session', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
     setIsAuthenticated(false);
     setVerifiedPhoneNumber('');
     
@@ -285,36 +276,39 @@ export default function CustomerForm() {
     params.delete('phone');
     router.push(params.toString() ? `/?${params.toString()}` : '/');
   };
-  const selectedFormType = formTypes.find(type => type.slug === selectedType) || formTypes[0];
 
   // Clear uploaded files when form type changes
   useEffect(() => {
     setUploadedFiles({});
   }, [selectedType]);
 
+  // Fall back to the first form type when the URL's type doesn't exist
+  useEffect(() => {
+    if (definitionsLoaded && !getFormType(selectedType)) {
+      setSelectedType(getFormTypes()[0]?.slug || '');
+    }
+  }, [definitionsLoaded, selectedType]);
+
   // Load existing submission data
   useEffect(() => {
     const loadExistingData = async () => {
-      if (!phoneNumber) return;
+      if (!phoneNumber || !isAuthenticated) return;
       
       try {
         // Check if we're in a browser environment
         if (typeof window === 'undefined') return;
         
-        const currentFormType = formTypes.find(type => type.slug === selectedType) || formTypes[0];
         console.log('Loading data for form type:', selectedType, 'Phone:', phoneNumber);
         
-        const submission = await SupabaseService.getOrCreateSubmission(
-          phoneNumber, 
-          selectedType, 
-          currentFormType.label
-        );
+        const params = new URLSearchParams({ phoneNumber, formType: selectedType });
+        const response = await fetch(`/api/customer/submission?${params.toString()}`);
+        const result = await response.json();
         
-        if (submission) {
-          setCurrentSubmission(submission);
+        if (result.success) {
+          setCurrentSubmission(result.submission);
           
           // Load uploaded files
-          const files = await SupabaseService.getUploadedFiles(submission.id!);
+          const files: UploadedFile[] = result.files;
           console.log('Found uploaded files:', files.length, files);
           setUploadedFilesList(files);
           
@@ -335,58 +329,74 @@ export default function CustomerForm() {
     };
 
     loadExistingData();
-  }, [phoneNumber, selectedType]);
-
-  const handleFileUpload = async (fieldSlug: string, file: File | null) => {
+  }, [phoneNumber, selectedType, isAuthenticated]);
+
+  // Pass fileId to remove a single file of a multi-file field, periodKey to upload into a month or week of a period field
+  const handleFileUpload = async (
+    fieldSlug: string,
+    file: File | null,
+    { fileId, periodKey }: { fileId?: string; periodKey?: string } = {}
+  ): Promise<boolean> => {
     if (!phoneNumber) {
       alert('יש להזין מספר טלפון בכתובת URL');
-      return;
+      return false;
     }
 
     // Check if Supabase is configured
     if (!process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL === 'https://placeholder.supabase.co') {
       alert('מערכת האחסון אינה מוגדרת. אנא צור קשר עם מנהל המערכת.');
-      return;
+      return false;
     }
 
     if (!file) {
       // Handle file removal
       if (currentSubmission) {
         setFieldLoading(prev => ({ ...prev, [fieldSlug]: true }));
-        await SupabaseService.deleteFileForField(currentSubmission.id!, fieldSlug);
-        
-        // Update local state
-        setUploadedFiles(prev => ({
-          ...prev,
-          [fieldSlug]: null
-        }));
-        
-        // Reload files and auto-update submitted fields
-        const files = await SupabaseService.getUploadedFiles(currentSubmission.id!);
-        setUploadedFilesList(files);
-        
-        // Automatically update submitted fields
-        const submittedFieldSlugs = files.map(file => file.field_slug);
-        await SupabaseService.updateSubmittedFields(currentSubmission.id!, submittedFieldSlugs);
-        
-        setFieldLoading(prev => ({ ...prev, [fieldSlug]: false }));
+        try {
+          // The server removes the file and updates the submitted fields
+          const params = new URLSearchParams({ phoneNumber, formType: selectedType, fieldSlug });
+          if (fileId) {
+            params.set('fileId', fileId);
+          }
+          const response = await fetch(`/api/customer/files?${params.toString()}`, { method: 'DELETE' });
+          const result = await response.json();
+
+          if (result.success) {
+            // Update local state; a multi-file field keeps its remaining files
+            const remaining = (result.files as UploadedFile[]).find(f => f.field_slug === fieldSlug);
+            setUploadedFiles(prev => ({
+              ...prev,
+              [fieldSlug]: remaining ? new File([new Uint8Array([1])], remaining.file_name) : null
+            }));
+            setUploadedFilesList(result.files);
+            return true;
+          } else {
+            alert('שגיאה במחיקת הקובץ. אנא נסה שוב.');
+          }
+        } catch (error) {
+          console.error('Error deleting file:', error);
+          alert('שגיאה במחיקת הקובץ. אנא נסה שוב.');
+        } finally {
+          setFieldLoading(prev => ({ ...prev, [fieldSlug]: false }));
+        }
       }
-      return;
+      return false;
     }
 
     // Handle file upload
     setFieldLoading(prev => ({ ...prev, [fieldSlug]: true }));
     try {
-      const fieldName = currentFormFields.find(f => f.slug === fieldSlug)?.name || '';
-      
-      const result = await SupabaseService.handleFileUpload(
-        phoneNumber,
-        selectedType,
-        selectedFormType.label,
-        fieldSlug,
-        fieldName,
-        file
-      );
+      const body = new FormData();
+      body.append('phoneNumber', phoneNumber);
+      body.append('formType', selectedType);
+      body.append('fieldSlug', fieldSlug);
+      body.append('file', file);
+      if (periodKey) {
+        body.append('periodKey', periodKey);
+      }
+
+      const response = await fetch('/api/customer/files', { method: 'POST', body });
+      const result = await response.json();
 
       if (result.success) {
         // Update local state
@@ -399,15 +409,9 @@ export default function CustomerForm() {
           setCurrentSubmission(result.submission);
         }
         
-        // Reload uploaded files and auto-update submitted fields
-        if (result.submission) {
-          const files = await SupabaseService.getUploadedFiles(result.submission.id!);
-          setUploadedFilesList(files);
-          
-          // Automatically mark as submitted
-          const submittedFieldSlugs = files.map(file => file.field_slug);
-          await SupabaseService.updateSubmittedFields(result.submission.id!, submittedFieldSlugs);
-        }
+        // The server already marked the uploaded fields as submitted
+        setUploadedFilesList(result.files);
+        return true;
       } else {
         alert('שגיאה בהעלאת הקובץ. אנא נסה שוב.');
       }
@@ -417,6 +421,38 @@ export default function CustomerForm() {
     } finally {
       setFieldLoading(prev => ({ ...prev, [fieldSlug]: false }));
     }
+    return false;
+  };
+
+  const getFieldFiles = (fieldSlug: string) =>
+    uploadedFilesList.filter(file => file.field_slug === fieldSlug);
+
+  const referenceDate = getReferenceDate(currentSubmission);
+
+  // A period field is complete once every month or week has its files, any other field once it has its minimum count
+  const isFieldComplete = (fieldSlug: string, minFiles: number) =>
+    getFieldPeriod(fieldSlug)
+      ? getPeriodCoverage(fieldSlug, referenceDate, uploadedFilesList).slots.every(coverage => coverage.complete)
+      : getFieldFiles(fieldSlug).length >= minFiles;
+
+  // Multi-file fields take several files at once; they're uploaded one after another up to the field's maximum
+  const handleFilesSelected = async (fieldSlug: string, files: File[], periodKey?: string) => {
+    const { maxFiles } = getFieldFileLimits(fieldSlug);
+    if (maxFiles === 1) {
+      if (files.length > 0) {
+        await handleFileUpload(fieldSlug, files[0]);
+      }
+      return;
+    }
+
+    const room = maxFiles - getFieldFiles(fieldSlug).length;
+    if (files.length > room) {
+      alert(`ניתן להעלות עד ${maxFiles} קבצים למסמך זה. יועלו ${Math.max(room, 0)} הקבצים הראשונים.`);
+    }
+
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      if (!await handleFileUpload(fieldSlug, file, { periodKey })) break;
+    }
   };
 
 
@@ -434,19 +470,19 @@ export default function CustomerForm() {
     e.preventDefault();
     setDragOver(null);
     
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFileUpload(fieldSlug, files[0]);
-    }
+    handleFilesSelected(fieldSlug, Array.from(e.dataTransfer.files));
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, fieldSlug: string) => {
-    const file = e.target.files?.[0] || null;
-    handleFileUpload(fieldSlug, file);
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, fieldSlug: string, periodKey?: string) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) {
+      handleFilesSelected(fieldSlug, files, periodKey);
+    }
   };
 
-  const removeFile = (fieldSlug: string) => {
-    handleFileUpload(fieldSlug, null);
+  const removeFile = (fieldSlug: string, fileId?: string) => {
+    handleFileUpload(fieldSlug, null, { fileId });
   };
 
   const handleFormTypeChange = (newType: string) => {
@@ -461,6 +497,10 @@ export default function CustomerForm() {
     router.push(`/?${params.toString()}`);
   };
 
+  // Same rules the team sees: sections need requiredCount options, optional and waived items don't count
+  const completion = CompletionService.getReport({ ...currentSubmission, form_type: selectedType }, uploadedFilesList);
+  const waivedFields = currentSubmission?.waived_fields || [];
+
   // Show phone verification if not authenticated
   if (!isAuthenticated) {
     return (
@@ -471,6 +511,21 @@ export default function CustomerForm() {
     );
   }
 
+  if (!definitionsLoaded) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white rounded-lg shadow-xl p-6 mb-8">
+            <div className="animate-pulse">
+              <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
       <div className="max-w-4xl mx-auto">
@@ -571,6 +626,7 @@ export default function CustomerForm() {
                     <div className="bg-blue-50 border-l-4 border-blue-400 p-4 rounded-r-lg">
                       <h3 className="text-lg font-semibold text-blue-800 mb-3">
                         {field.sectionTitle}
+                        {waivedFields.includes(field.slug) && <span className="text-gray-500 text-sm mr-2">(לא נדרש)</span>}
                       </h3>
                       <p className="text-sm text-blue-800 mb-4">
                         יש לבחור את סוג המכתבים אותם תרצה לצרף - שים לב לכך שהמכתבים כוללים כתובת ותאריך ברורים
@@ -638,6 +694,13 @@ export default function CustomerForm() {
               const isUploaded = uploadedFiles[fieldKey];
               const isDragging = dragOver === fieldKey;
               const isFieldLoading = fieldLoading[fieldKey] || false;
+              const minFiles = field.minFiles || 1;
+              const maxFiles = field.maxFiles || 1;
+              const isMultiFile = maxFiles > 1;
+              const fieldFiles = getFieldFiles(fieldKey);
+              const isComplete = isMultiFile ? isFieldComplete(fieldKey, minFiles) : !!isUploaded;
+              const period = getFieldPeriod(fieldKey);
+              const periodCoverage = period ? getPeriodCoverage(fieldKey, referenceDate, fieldFiles) : null;
               
               // Debug field matching
               console.log(`Field: ${field.name} | Key: ${fieldKey} | Has file: ${!!isUploaded} | File:`, isUploaded?.name);
@@ -661,12 +724,13 @@ export default function CustomerForm() {
                         <h3 className="text-lg font-semibold text-gray-900">
                           {field.name}
                           {field.optional && <span className="text-orange-600 text-sm mr-2">(בחירה)</span>}
+                          {waivedFields.includes(fieldKey) && <span className="text-gray-500 text-sm mr-2">(לא נדרש)</span>}
                         </h3>
-                        {isUploaded && (
+                        {isComplete && (
                           <span className="text-green-500 text-xl">✓</span>
                         )}
                       </div>
-                      {isUploaded && (
+                      {isUploaded && !isMultiFile && (
                         <button
                           onClick={() => removeFile(fieldKey)}
                           className="text-red-500 hover:text-red-700 text-sm font-medium"
@@ -713,6 +777,95 @@ export default function CustomerForm() {
                     )}
                   </div>
                   
+                  {period && periodCoverage && (
+                    <div className="mb-3 space-y-2">
+                      <div className="text-sm text-gray-800">
+                        יש להעלות {period.filesPerPeriod > 1 ? `${period.filesPerPeriod} קבצים` : 'קובץ'} עבור כל {period.unit === 'month' ? 'חודש' : 'שבוע'}:
+                      </div>
+                      {periodCoverage.slots.map(({ slot, files, complete }) => (
+                        <div key={slot.key} className={`border rounded-md p-3 ${complete ? 'border-green-200 bg-green-50' : 'border-amber-200 bg-amber-50'}`}>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-sm font-medium text-gray-900">
+                              {complete ? '✓' : '⏳'} {slot.label}
+                            </span>
+                            <span className={`text-xs ${complete ? 'text-green-700' : 'text-amber-800'}`}>
+                              {files.length}/{period.filesPerPeriod}
+                            </span>
+                          </div>
+                          {files.length > 0 && (
+                            <ul className="mt-2 space-y-1">
+                              {files.map((file) => (
+                                <li key={file.id} className="flex items-center justify-between gap-2 text-xs bg-white border border-gray-200 rounded px-2 py-1">
+                                  <span className="text-gray-800 truncate">{file.file_name}</span>
+                                  <button
+                                    onClick={() => removeFile(fieldKey, file.id)}
+                                    disabled={isFieldLoading}
+                                    className="text-red-500 hover:text-red-700 font-medium shrink-0"
+                                  >
+                                    הסר
+                                  </button>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {fieldFiles.length < maxFiles && (
+                            <CustomFileInput
+                              onChange={(e) => handleInputChange(e, fieldKey, slot.key)}
+                              accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
+                              ariaLabel={`העלה קבצים עבור ${slot.label}`}
+                              disabled={isFieldLoading}
+                              multiple
+                              className="mt-2"
+                            />
+                          )}
+                        </div>
+                      ))}
+                      {periodCoverage.unassigned.length > 0 && (
+                        <div className="border border-gray-200 rounded-md p-3">
+                          <div className="text-sm font-medium text-gray-900 mb-1">קבצים שממתינים לשיוך על ידי הצוות</div>
+                          <ul className="space-y-1">
+                            {periodCoverage.unassigned.map((file) => (
+                              <li key={file.id} className="flex items-center justify-between gap-2 text-xs bg-gray-50 rounded px-2 py-1">
+                                <span className="text-gray-800 truncate">{file.file_name}</span>
+                                <button
+                                  onClick={() => removeFile(fieldKey, file.id)}
+                                  disabled={isFieldLoading}
+                                  className="text-red-500 hover:text-red-700 font-medium shrink-0"
+                                >
+                                  הסר
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {isMultiFile && !period && (
+                    <div className="mb-3">
+                      <div className={`text-sm font-medium mb-2 ${isComplete ? 'text-green-700' : 'text-gray-800'}`}>
+                        הועלו {fieldFiles.length} קבצים מתוך {minFiles} לפחות (עד {maxFiles})
+                      </div>
+                      {fieldFiles.length > 0 && (
+                        <ul className="space-y-1">
+                          {fieldFiles.map((file, fileIndex) => (
+                            <li key={file.id} className="flex items-center justify-between gap-2 text-sm bg-green-50 border border-green-200 rounded-md px-3 py-2">
+                              <span className="text-gray-800 truncate">{fileIndex + 1}. {file.file_name}</span>
+                              <button
+                                onClick={() => removeFile(fieldKey, file.id)}
+                                disabled={isFieldLoading}
+                                className="text-red-500 hover:text-red-700 text-xs font-medium shrink-0"
+                              >
+                                הסר
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
                   {isFieldLoading ? (
                     <div className="border-2 border-dashed border-blue-300 bg-blue-50 rounded-lg p-6 text-center">
                       <div className="text-blue-600">
@@ -720,7 +873,11 @@ export default function CustomerForm() {
                         <div className="text-sm">אנא המתן</div>
                       </div>
                     </div>
-                  ) : isUploaded ? (
+                  ) : period ? null : isMultiFile && fieldFiles.length >= maxFiles ? (
+                    <div className="border-2 border-dashed border-green-400 bg-green-50 rounded-lg p-4 text-center text-sm text-green-700">
+                      ✓ הועלה המספר המקסימלי של קבצים. להחלפת קובץ יש להסיר אותו תחילה.
+                    </div>
+                  ) : isUploaded && !isMultiFile ? (
                     <div className="border-2 border-dashed border-green-400 bg-green-50 rounded-lg p-6 text-center">
                       <div className="text-green-600">
                         <div className="text-lg font-semibold mb-1">✓ קובץ הועלה</div>
@@ -759,10 +916,10 @@ export default function CustomerForm() {
                       <div className="text-gray-700 mb-4">
                         <div className="text-lg mb-2">📁</div>
                         <div className="text-lg font-semibold mb-1 hidden md:block">
-                          גרור קובץ לכאן או לחץ לבחירה
+                          {isMultiFile ? 'גרור קבצים לכאן או לחץ לבחירה' : 'גרור קובץ לכאן או לחץ לבחירה'}
                         </div>
                         <div className="text-lg font-semibold mb-1 md:hidden">
-                          לחץ לבחירת קובץ
+                          {isMultiFile ? 'לחץ לבחירת קבצים' : 'לחץ לבחירת קובץ'}
                         </div>
                       </div>
                       <CustomFileInput
@@ -770,6 +927,7 @@ export default function CustomerForm() {
                         accept=".pdf,.jpg,.jpeg,.png,.doc,.docx"
                         ariaLabel={`העלה קובץ עבור ${field.name}`}
                         disabled={isFieldLoading}
+                        multiple={isMultiFile}
                         className="max-w-xs mx-auto"
                       />
                     </div>
@@ -786,7 +944,7 @@ export default function CustomerForm() {
                 סטטוס הגשה
               </div>
               <div className="text-sm text-gray-800">
-                הועלו {uploadedFilesList.length} מתוך {currentFormFields.length} קבצים
+                הושלמו {completion.submitted} מתוך {completion.required} מסמכים
               </div>
               {uploadedFilesList.length > 0 && (
                 <div className="text-xs text-green-600 mt-1">
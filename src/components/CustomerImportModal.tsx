@@ -0,0 +1,311 @@
+'use client'
+
+import { useState } from 'react'
+import type { ImportField, ImportMapping, ImportMode, ImportPreview, ImportReport, ImportRowResult } from '@/lib/import-service'
+import { toCsv, CSV_BOM } from '@/lib/csv'
+import { getFormTypes } from '@/lib/form-definitions'
+import { useFormDefinitions } from './useFormDefinitions'
+
+interface CustomerImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported: () => Promise<void>
+}
+
+type ImportStep = 'upload' | 'mapping' | 'review' | 'done'
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  full_name: 'שם מלא',
+  first_name: 'שם פרטי',
+  family_name: 'שם משפחה',
+  phone: 'טלפון נייד',
+  alt_phone: 'טלפון חלופי (אם אין נייד)',
+  id_number: 'ת.ז. / ח.פ.'
+}
+
+const ACTION_LABELS: Record<ImportRowResult['action'], { planned: string; done: string; className: string }> = {
+  create: { planned: 'ייווצר', done: 'נוצר', className: 'text-green-700' },
+  update: { planned: 'יעודכן', done: 'עודכן', className: 'text-blue-700' },
+  skip: { planned: 'ידולג (קיים)', done: 'דולג (קיים)', className: 'text-gray-500' },
+  error: { planned: 'שגיאה', done: 'שגיאה', className: 'text-red-700' }
+}
+
+// Rows with errors as a CSV the admin can fix and re-upload
+const downloadErrorReport = (report: ImportReport) => {
+  const csv = toCsv([
+    ['שורה', 'טלפון', 'שם פרטי', 'שם משפחה', 'ת.ז. / ח.פ.', 'שגיאות'],
+    ...report.rows
+      .filter(row => row.action === 'error')
+      .map(row => [row.row, row.phone, row.name, row.family_name, row.id_number, row.errors.join('; ')])
+  ])
+
+  const url = URL.createObjectURL(new Blob([CSV_BOM + csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `import-errors-${new Date().toISOString().slice(0, 10)}.csv`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function CustomerImportModal({ isOpen, onClose, onImported }: CustomerImportModalProps) {
+  useFormDefinitions() // Re-render with the form builder's form types once they load
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [criterion, setCriterion] = useState('')
+  const [mode, setMode] = useState<ImportMode>('skip')
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  if (!isOpen) return null
+
+  const handleClose = () => {
+    setStep('upload')
+    setCriterion('')
+    setMode('skip')
+    setFile(null)
+    setPreview(null)
+    setMapping({})
+    setReport(null)
+    onClose()
+  }
+
+  const loadPreview = async () => {
+    if (!file || !criterion) return
+    setBusy(true)
+    try {
+      const fd = new FormData()
+      fd.append('file', file)
+      const res = await fetch('/api/customers/import/preview', { method: 'POST', body: fd })
+      const json = await res.json()
+      if (json.success) {
+        setPreview(json.preview)
+        setMapping(json.preview.suggestedMapping)
+        setStep('mapping')
+      } else {
+        alert(`שגיאה בקריאת הקובץ: ${json.error || 'לא ידוע'}`)
+      }
+    } catch (e) {
+      console.error('Import preview failed', e)
+      alert('שגיאה בקריאת הקובץ')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !criterion) return
+    setBusy(true)
+    try {
+      const fd = new FormData()
+      fd.append('file', file)
+      fd.append('criterion', criterion)
+      fd.append('mapping', JSON.stringify(mapping))
+      fd.append('mode', mode)
+      fd.append('dryRun', String(dryRun))
+      const res = await fetch('/api/customers/import', { method: 'POST', body: fd })
+      const json = await res.json()
+      if (json.success) {
+        setReport(json.report)
+        setStep(dryRun ? 'review' : 'done')
+        if (!dryRun) await onImported()
+      } else {
+        alert(`שגיאה בייבוא: ${json.error || 'לא ידוע'}`)
+      }
+    } catch (e) {
+      console.error('Import failed', e)
+      alert('שגיאה בייבוא')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const fields = Object.keys(FIELD_LABELS) as ImportField[]
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto" dir="rtl">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">ייבוא לקוחות מקובץ CSV / Excel</h2>
+            <button className="text-gray-500 hover:text-gray-700 text-2xl" onClick={handleClose} disabled={busy}>×</button>
+          </div>
+
+          {/* Step 1: file, criterion and duplicate handling */}
+          {step === 'upload' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-gray-700 font-medium mb-1">קריטריון (תבחין)</label>
+                <select
+                  value={criterion}
+                  onChange={(e) => setCriterion(e.target.value)}
+                  className="w-full p-2 border rounded text-gray-900"
+                  aria-label="בחר קריטריון"
+                >
+                  <option value="">בחר קריטריון...</option>
+                  {getFormTypes().map(ft => (
+                    <option key={ft.slug} value={ft.slug}>{ft.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-gray-700 font-medium mb-1">קובץ CSV או Excel</label>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  aria-label="בחר קובץ לייבוא"
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">השורה הראשונה צריכה להכיל את שמות העמודות. בשלב הבא תוכל להתאים עמודות לשדות.</p>
+              </div>
+              <div>
+                <label className="block text-gray-700 font-medium mb-1">לקוחות שכבר קיימים במערכת</label>
+                <div className="flex gap-4 text-gray-900">
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={mode === 'skip'} onChange={() => setMode('skip')} />
+                    דלג עליהם
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="radio" checked={mode === 'upsert'} onChange={() => setMode('upsert')} />
+                    עדכן את פרטיהם
+                  </label>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Step 2: column mapping with a sample of the file */}
+          {step === 'mapping' && preview && (
+            <div className="space-y-4">
+              <div className="text-sm text-gray-700">נמצאו {preview.totalRows} שורות. בחר איזו עמודה מתאימה לכל שדה:</div>
+              <div className="grid grid-cols-2 gap-3">
+                {fields.map(field => (
+                  <div key={field}>
+                    <label className="block text-sm text-gray-700 mb-1">{FIELD_LABELS[field]}</label>
+                    <select
+                      value={mapping[field] || ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}
+                      className="w-full p-2 border rounded text-gray-900 text-sm"
+                      aria-label={FIELD_LABELS[field]}
+                    >
+                      <option value="">— ללא —</option>
+                      {preview.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="overflow-x-auto border rounded">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="bg-gray-50 text-right text-gray-600">
+                      {preview.headers.map(header => (
+                        <th key={header} className="py-2 px-2 whitespace-nowrap">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.sampleRows.map((row, index) => (
+                      <tr key={index} className="border-t">
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="py-1 px-2 text-gray-800 whitespace-nowrap">{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Steps 3-4: dry-run results, then the actual import results */}
+          {(step === 'review' || step === 'done') && report && (
+            <div className="space-y-4">
+              <div className={`p-3 rounded text-sm ${step === 'review' ? 'bg-yellow-50 text-yellow-900' : 'bg-green-50 text-green-900'}`}>
+                {step === 'review' ? 'בדיקה בלבד - שום דבר עוד לא נשמר.' : 'הייבוא הושלם.'}
+                {' '}{report.total} שורות: {report.created} {step === 'review' ? 'ייווצרו' : 'נוצרו'}, {report.updated} {step === 'review' ? 'יעודכנו' : 'עודכנו'}, {report.skipped} ידולגו, {report.failed} עם שגיאות
+              </div>
+              {report.failed > 0 && (
+                <button
+                  onClick={() => downloadErrorReport(report)}
+                  className="px-3 py-1 text-sm rounded border border-red-300 text-red-700 hover:bg-red-50"
+                >
+                  ⬇️ הורד דוח שגיאות
+                </button>
+              )}
+              <div className="overflow-x-auto border rounded max-h-80 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="bg-gray-50 text-right text-gray-600">
+                      <th className="py-2 px-2">שורה</th>
+                      <th className="py-2 px-2">פעולה</th>
+                      <th className="py-2 px-2">טלפון</th>
+                      <th className="py-2 px-2">שם</th>
+                      <th className="py-2 px-2">שגיאות</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map(row => {
+                      const action = ACTION_LABELS[row.action]
+                      return (
+                        <tr key={row.row} className={`border-t ${row.action === 'error' ? 'bg-red-50' : ''}`}>
+                          <td className="py-1 px-2 text-gray-700">{row.row}</td>
+                          <td className={`py-1 px-2 whitespace-nowrap ${action.className}`}>{step === 'review' ? action.planned : action.done}</td>
+                          <td className="py-1 px-2 text-gray-800" dir="ltr">{row.phone || '-'}</td>
+                          <td className="py-1 px-2 text-gray-800">{[row.name, row.family_name].filter(Boolean).join(' ') || '-'}</td>
+                          <td className="py-1 px-2 text-red-700">{row.errors.join('; ')}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 mt-6">
+            <button className="px-4 py-2 border rounded text-gray-700" onClick={handleClose} disabled={busy}>
+              {step === 'done' ? 'סגור' : 'בטל'}
+            </button>
+            {step === 'mapping' && (
+              <button className="px-4 py-2 border rounded text-gray-700" onClick={() => setStep('upload')} disabled={busy}>חזור</button>
+            )}
+            {step === 'review' && (
+              <button className="px-4 py-2 border rounded text-gray-700" onClick={() => setStep('mapping')} disabled={busy}>חזור למיפוי</button>
+            )}
+            {step === 'upload' && (
+              <button
+                className={`px-4 py-2 rounded text-white ${busy ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'}`}
+                disabled={busy || !file || !criterion}
+                onClick={loadPreview}
+              >
+                {busy ? 'קורא קובץ...' : 'המשך'}
+              </button>
+            )}
+            {step === 'mapping' && (
+              <button
+                className={`px-4 py-2 rounded text-white ${busy ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'}`}
+                disabled={busy || (!mapping.phone && !mapping.alt_phone)}
+                onClick={() => runImport(true)}
+              >
+                {busy ? 'בודק...' : 'בדוק לפני ייבוא'}
+              </button>
+            )}
+            {step === 'review' && report && (
+              <button
+                className={`px-4 py-2 rounded text-white ${busy ? 'bg-gray-400' : 'bg-green-600 hover:bg-green-700'}`}
+                disabled={busy || report.created + report.updated === 0}
+                onClick={() => runImport(false)}
+              >
+                {busy ? 'מייבא...' : `ייבא ${report.created + report.updated} לקוחות`}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
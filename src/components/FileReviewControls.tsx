@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { CustomerSubmission, FileReviewStatus, RejectionReason, UploadedFile } from '@/lib/supabase'
+
+export const REVIEW_STATUS_LABELS: Record<FileReviewStatus, { label: string; className: string }> = {
+  pending: { label: 'ממתין לבדיקה', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'אושר', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'נדחה', className: 'bg-red-100 text-red-800' }
+}
+
+const OTHER_REASON = 'other'
+
+interface FileReviewControlsProps {
+  file: UploadedFile
+  reasons: RejectionReason[]
+  canEdit: boolean
+  onReviewed: (file: UploadedFile, submission: CustomerSubmission | null) => void
+}
+
+export default function FileReviewControls({ file, reasons, canEdit, onReviewed }: FileReviewControlsProps) {
+  const [rejecting, setRejecting] = useState(false)
+  const [reasonId, setReasonId] = useState('')
+  const [reasonText, setReasonText] = useState('')
+  const [notifyCustomer, setNotifyCustomer] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const status = file.review_status || 'pending'
+
+  const submitReview = async (reviewStatus: FileReviewStatus) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/customers/files/${file.id}/review`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          status: reviewStatus,
+          reasonId: reasonId && reasonId !== OTHER_REASON ? reasonId : undefined,
+          reasonText: reasonId === OTHER_REASON ? reasonText : undefined,
+          notifyCustomer
+        })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        onReviewed(result.file, result.submission)
+        setRejecting(false)
+        setReasonId('')
+        setReasonText('')
+        if (reviewStatus === 'rejected' && notifyCustomer && !result.notified) {
+          alert(`המסמך נדחה, אך שליחת ההודעה ללקוח נכשלה: ${result.notifyError || 'שגיאה לא ידועה'}`)
+        }
+      } else {
+        alert(`שגיאה בעדכון סטטוס המסמך: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error reviewing file:', error)
+      alert('שגיאה בעדכון סטטוס המסמך')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const canReject = reasonId && (reasonId !== OTHER_REASON || reasonText.trim())
+
+  return (
+    <div className="mb-3 space-y-2">
+      {status === 'rejected' && file.rejection_reason && (
+        <div className="text-xs bg-red-50 border border-red-200 text-red-800 rounded p-2">
+          ❌ סיבת הדחייה: {file.rejection_reason}
+        </div>
+      )}
+      {status !== 'pending' && file.reviewed_at && (
+        <div className="text-xs text-gray-500">
+          {REVIEW_STATUS_LABELS[status].label} ע״י {file.reviewed_by || '-'} • {new Date(file.reviewed_at).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' })}
+        </div>
+      )}
+
+      {canEdit && !rejecting && (
+        <div className="flex gap-2">
+          {status !== 'approved' && (
+            <button
+              onClick={() => submitReview('approved')}
+              disabled={saving}
+              className="flex-1 text-sm px-3 py-2 rounded-md bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white transition-colors"
+            >
+              ✅ אשר
+            </button>
+          )}
+          {status !== 'rejected' && (
+            <button
+              onClick={() => setRejecting(true)}
+              disabled={saving}
+              className="flex-1 text-sm px-3 py-2 rounded-md bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white transition-colors"
+            >
+              ❌ דחה
+            </button>
+          )}
+          {status !== 'pending' && (
+            <button
+              onClick={() => submitReview('pending')}
+              disabled={saving}
+              className="text-sm px-3 py-2 rounded-md bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors"
+            >
+              ↩️ החזר לבדיקה
+            </button>
+          )}
+        </div>
+      )}
+
+      {canEdit && rejecting && (
+        <div className="p-3 border border-red-200 rounded-md bg-white space-y-2">
+          <select
+            value={reasonId}
+            onChange={(e) => setReasonId(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          >
+            <option value="">בחר סיבת דחייה...</option>
+            {reasons.map((reason) => (
+              <option key={reason.id} value={reason.id}>{reason.label}</option>
+            ))}
+            <option value={OTHER_REASON}>אחר (טקסט חופשי)</option>
+          </select>
+
+          {reasonId && reasonId !== OTHER_REASON && (
+            <div className="text-xs text-gray-600">
+              {reasons.find(reason => reason.id === reasonId)?.message}
+            </div>
+          )}
+          {reasonId === OTHER_REASON && (
+            <textarea
+              value={reasonText}
+              onChange={(e) => setReasonText(e.target.value)}
+              placeholder="הסבר ללקוח מה צריך לתקן"
+              rows={2}
+              className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            />
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={notifyCustomer}
+              onChange={(e) => setNotifyCustomer(e.target.checked)}
+              className="w-4 h-4"
+            />
+            שלח ללקוח הודעת וואטסאפ עם הסיבה וקישור חדש
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => submitReview('rejected')}
+              disabled={saving || !canReject}
+              className={`flex-1 text-sm px-3 py-2 rounded-md transition-colors text-white ${
+                saving || !canReject ? 'bg-gray-400 cursor-not-allowed' : 'bg-red-600 hover:bg-red-700'
+              }`}
+            >
+              {saving ? 'שומר...' : 'דחה מסמך'}
+            </button>
+            <button
+              onClick={() => setRejecting(false)}
+              disabled={saving}
+              className="text-sm px-3 py-2 rounded-md bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors"
+            >
+              ביטול
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useState } from 'react'
+import { FormFieldDefinition } from '@/lib/form-definitions'
+import { FieldPeriod, FormTemplateLink } from '@/lib/supabase'
+
+interface FormFieldEditorProps {
+  field?: FormFieldDefinition // Missing when adding a field
+  onSaved: () => void
+  onCancel: () => void
+}
+
+interface FieldDraft {
+  slug: string
+  name: string
+  description: string
+  variants: string
+  template: string
+  templates: FormTemplateLink[]
+  minFiles: string
+  maxFiles: string
+  periodUnit: '' | FieldPeriod['unit']
+  periodCount: string
+  filesPerPeriod: string
+}
+
+const toDraft = (field?: FormFieldDefinition): FieldDraft => ({
+  slug: field?.slug || '',
+  name: field?.name || '',
+  description: field?.description || '',
+  variants: (field?.variants || []).join('\n'),
+  template: field?.template || '',
+  templates: field?.templates || [],
+  minFiles: field?.minFiles ? String(field.minFiles) : '',
+  maxFiles: field?.maxFiles ? String(field.maxFiles) : '',
+  periodUnit: field?.period?.unit || '',
+  periodCount: field?.period ? String(field.period.count) : '',
+  filesPerPeriod: field?.period ? String(field.period.filesPerPeriod) : ''
+})
+
+const toNumber = (value: string) => value.trim() ? Number(value) : undefined
+
+// Upload a PDF or Word form and return its public URL
+const uploadTemplate = async (file: File): Promise<string | null> => {
+  try {
+    const body = new FormData()
+    body.append('file', file)
+
+    const response = await fetch('/api/forms/templates', { method: 'POST', body })
+    const result = await response.json()
+
+    if (result.success) return result.path
+    alert(`❌ שגיאה בהעלאת הקובץ: ${result.error}`)
+  } catch (error) {
+    console.error('Error uploading form template:', error)
+    alert('שגיאה בהעלאת הקובץ')
+  }
+  return null
+}
+
+export default function FormFieldEditor({ field, onSaved, onCancel }: FormFieldEditorProps) {
+  const [draft, setDraft] = useState<FieldDraft>(() => toDraft(field))
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+
+  const update = (changes: Partial<FieldDraft>) => setDraft(current => ({ ...current, ...changes }))
+
+  const handleTemplateFile = async (file: File | undefined, apply: (path: string) => void) => {
+    if (!file) return
+    setUploading(true)
+    const path = await uploadTemplate(file)
+    setUploading(false)
+    if (path) apply(path)
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/forms/fields', {
+        method: field ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          slug: draft.slug.trim(),
+          name: draft.name,
+          description: draft.description,
+          variants: draft.variants.split('\n').map(variant => variant.trim()).filter(Boolean),
+          template: draft.template || undefined,
+          templates: draft.templates,
+          minFiles: draft.periodUnit ? undefined : toNumber(draft.minFiles),
+          maxFiles: toNumber(draft.maxFiles),
+          period: draft.periodUnit
+            ? { unit: draft.periodUnit, count: toNumber(draft.periodCount), filesPerPeriod: toNumber(draft.filesPerPeriod) || 1 }
+            : undefined
+        })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        onSaved()
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving form field:', error)
+      alert('שגיאה בשמירת השדה')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900'
+
+  return (
+    <div className="p-4 border border-blue-200 rounded-md bg-blue-50 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="text-sm text-gray-700">
+          מזהה (אותיות לועזיות קטנות, ספרות ומקפים)
+          <input
+            type="text"
+            value={draft.slug}
+            onChange={(e) => update({ slug: e.target.value })}
+            disabled={!!field}
+            placeholder="bank-statement"
+            dir="ltr"
+            className={`${inputClass} ${field ? 'bg-gray-100 text-gray-600' : ''}`}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          שם המסמך
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className="block text-sm text-gray-700">
+        הסבר ללקוח
+        <textarea
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block text-sm text-gray-700">
+        שמות נוספים למסמך (שם בכל שורה)
+        <textarea
+          value={draft.variants}
+          onChange={(e) => update({ variants: e.target.value })}
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <label className="text-sm text-gray-700">
+          חלוקה לתקופות
+          <select
+            value={draft.periodUnit}
+            onChange={(e) => update({ periodUnit: e.target.value as FieldDraft['periodUnit'] })}
+            className={inputClass}
+          >
+            <option value="">ללא</option>
+            <option value="month">חודשים</option>
+            <option value="week">שבועות</option>
+          </select>
+        </label>
+        {draft.periodUnit ? (
+          <>
+            <label className="text-sm text-gray-700">
+              מספר תקופות
+              <input type="number" min={1} value={draft.periodCount} onChange={(e) => update({ periodCount: e.target.value })} className={inputClass} />
+            </label>
+            <label className="text-sm text-gray-700">
+              קבצים לכל תקופה
+              <input type="number" min={1} value={draft.filesPerPeriod} onChange={(e) => update({ filesPerPeriod: e.target.value })} className={inputClass} />
+            </label>
+          </>
+        ) : (
+          <label className="text-sm text-gray-700">
+            מינימום קבצים
+            <input type="number" min={1} value={draft.minFiles} onChange={(e) => update({ minFiles: e.target.value })} placeholder="1" className={inputClass} />
+          </label>
+        )}
+        <label className="text-sm text-gray-700">
+          מקסימום קבצים
+          <input type="number" min={1} value={draft.maxFiles} onChange={(e) => update({ maxFiles: e.target.value })} placeholder="1" className={inputClass} />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700">טופס להורדה</div>
+        {draft.template ? (
+          <div className="flex items-center gap-2 text-sm">
+            <a href={draft.template} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline truncate" dir="ltr">
+              {draft.template}
+            </a>
+            <button onClick={() => update({ template: '' })} className="text-xs px-2 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100">
+              הסר
+            </button>
+          </div>
+        ) : (
+          <input
+            type="file"
+            accept=".pdf,.doc,.docx"
+            disabled={uploading}
+            onChange={(e) => handleTemplateFile(e.target.files?.[0], path => update({ template: path }))}
+            className="text-sm text-gray-700"
+          />
+        )}
+
+        <div className="text-sm font-medium text-gray-700 pt-2">גרסאות נוספות להורדה</div>
+        {draft.templates.map((template, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={template.label}
+              onChange={(e) => update({ templates: draft.templates.map((item, i) => i === index ? { ...item, label: e.target.value } : item) })}
+              placeholder="תווית (למשל: במקרה של מגורים אצל ההורים)"
+              className={inputClass}
+            />
+            <a href={template.path} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:text-blue-800 underline whitespace-nowrap">
+              פתח
+            </a>
+            <button
+              onClick={() => update({ templates: draft.templates.filter((_, i) => i !== index) })}
+              className="text-xs px-2 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100"
+            >
+              הסר
+            </button>
+          </div>
+        ))}
+        <input
+          type="file"
+          accept=".pdf,.doc,.docx"
+          disabled={uploading}
+          onChange={(e) => handleTemplateFile(e.target.files?.[0], path => update({ templates: [...draft.templates, { label: '', path }] }))}
+          className="text-sm text-gray-700"
+        />
+        {uploading && <div className="text-xs text-gray-500">מעלה...</div>}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="text-sm px-4 py-2 rounded-md bg-gray-200 hover:bg-gray-300 text-gray-800 transition-colors"
+        >
+          ביטול
+        </button>
+        <button
+          onClick={save}
+          disabled={saving || uploading || !draft.slug.trim() || !draft.name.trim()}
+          className={`text-sm px-4 py-2 rounded-md transition-colors text-white ${
+            saving || uploading || !draft.slug.trim() || !draft.name.trim() ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+          }`}
+        >
+          {saving ? 'שומר...' : 'שמור שדה'}
+        </button>
+      </div>
+    </div>
+  )
+}
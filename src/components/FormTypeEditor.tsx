@@ -0,0 +1,247 @@
+'use client'
+
+import { useState } from 'react'
+import { FormFieldDefinition, FormTypeDefinition, FormTypeFieldDefinition } from '@/lib/form-definitions'
+
+interface FormTypeEditorProps {
+  formType: FormTypeDefinition
+  fields: Record<string, FormFieldDefinition>
+  canEdit: boolean
+  onSaved: () => void
+}
+
+// Moves the item at index by offset (-1 up, 1 down), leaving the list alone at either end
+const move = <T,>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset
+  if (target < 0 || target >= items.length) return items
+  const moved = [...items]
+  moved.splice(target, 0, moved.splice(index, 1)[0])
+  return moved
+}
+
+export default function FormTypeEditor({ formType, fields, canEdit, onSaved }: FormTypeEditorProps) {
+  const [label, setLabel] = useState(formType.label)
+  const [isActive, setIsActive] = useState(formType.isActive !== false)
+  const [lines, setLines] = useState<FormTypeFieldDefinition[]>(formType.fields)
+  const [newFieldSlug, setNewFieldSlug] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const usedSlugs = new Set(lines.flatMap(line => [line.fieldSlug, ...(line.options || []).map(option => option.slug)]))
+  const availableFields = Object.values(fields)
+    .filter(field => !usedSlugs.has(field.slug))
+    .sort((a, b) => a.name.localeCompare(b.name, 'he'))
+
+  const updateLine = (index: number, changes: Partial<FormTypeFieldDefinition>) =>
+    setLines(current => current.map((line, i) => i === index ? { ...line, ...changes } : line))
+
+  const addField = () => {
+    if (!newFieldSlug) return
+    setLines(current => [...current, { fieldSlug: newFieldSlug, number: current.length + 1 }])
+    setNewFieldSlug('')
+  }
+
+  const addSection = () => {
+    setLines(current => [...current, {
+      fieldSlug: `section-${Date.now().toString(36)}`,
+      number: current.length + 1,
+      isSection: true,
+      sectionType: 'mail-documents',
+      sectionTitle: '',
+      requiredCount: 1,
+      options: []
+    }])
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/forms/types', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ slug: formType.slug, label, isActive, fields: lines })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        onSaved()
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving form type:', error)
+      alert('שגיאה בשמירת הטופס')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const buttonClass = 'text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40'
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+        <label className="md:col-span-2 text-sm text-gray-700">
+          שם הטופס
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            disabled={!canEdit}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={isActive}
+            onChange={(e) => setIsActive(e.target.checked)}
+            disabled={!canEdit}
+            className="w-4 h-4"
+          />
+          מוצג בתפריטים (לקוחות קיימים ממשיכים לראות טופס מושבת)
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {lines.map((line, index) => (
+          <div key={line.fieldSlug} className="p-3 border border-gray-200 rounded-md">
+            <div className="flex items-start gap-3">
+              <span className="text-sm font-bold text-gray-500 w-6">{index + 1}.</span>
+              <div className="flex-1 min-w-0">
+                {line.isSection ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      value={line.sectionTitle || ''}
+                      onChange={(e) => updateLine(index, { sectionTitle: e.target.value })}
+                      disabled={!canEdit}
+                      placeholder="כותרת הקבוצה (למשל: צרף שלושה מכתבים)"
+                      className="w-full p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      נדרשים
+                      <input
+                        type="number"
+                        min={1}
+                        max={Math.max(1, (line.options || []).length)}
+                        value={line.requiredCount || 1}
+                        onChange={(e) => updateLine(index, { requiredCount: Number(e.target.value) || 1 })}
+                        disabled={!canEdit}
+                        className="w-16 p-1 border border-gray-300 rounded-md text-sm text-gray-900"
+                      />
+                      מתוך {(line.options || []).length} אפשרויות:
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {(line.options || []).map(option => (
+                        <span key={option.slug} className="inline-flex items-center gap-1 text-xs bg-blue-50 text-blue-800 px-2 py-1 rounded">
+                          {fields[option.slug]?.name || option.label}
+                          {canEdit && (
+                            <button
+                              onClick={() => updateLine(index, { options: (line.options || []).filter(item => item.slug !== option.slug) })}
+                              className="text-red-600 hover:text-red-800"
+                              aria-label="הסר אפשרות"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                    {canEdit && availableFields.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const field = fields[e.target.value]
+                          if (field) updateLine(index, { options: [...(line.options || []), { slug: field.slug, label: field.name }] })
+                        }}
+                        className="p-1 border border-gray-300 rounded-md text-sm text-gray-900"
+                        aria-label="הוסף אפשרות לקבוצה"
+                      >
+                        <option value="">+ הוסף אפשרות...</option>
+                        {availableFields.map(field => (
+                          <option key={field.slug} value={field.slug}>{field.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-900">
+                    {fields[line.fieldSlug]?.name || line.fieldSlug}
+                    <span className="text-xs text-gray-500 mr-2" dir="ltr">{line.fieldSlug}</span>
+                  </div>
+                )}
+                <label className="flex items-center gap-2 text-xs text-gray-600 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={!!line.optional}
+                    onChange={(e) => updateLine(index, { optional: e.target.checked })}
+                    disabled={!canEdit}
+                    className="w-3 h-3"
+                  />
+                  לא חובה
+                </label>
+              </div>
+              {canEdit && (
+                <div className="flex gap-1 shrink-0">
+                  <button onClick={() => setLines(move(lines, index, -1))} disabled={index === 0} className={buttonClass} aria-label="הזז למעלה">↑</button>
+                  <button onClick={() => setLines(move(lines, index, 1))} disabled={index === lines.length - 1} className={buttonClass} aria-label="הזז למטה">↓</button>
+                  <button
+                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                    className="text-xs px-2 py-1 rounded bg-red-50 text-red-700 hover:bg-red-100"
+                  >
+                    הסר
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+        {lines.length === 0 && (
+          <div className="text-center text-gray-500 py-4">אין מסמכים בטופס</div>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+          <select
+            value={newFieldSlug}
+            onChange={(e) => setNewFieldSlug(e.target.value)}
+            className="p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            aria-label="בחר מסמך להוספה"
+          >
+            <option value="">בחר מסמך להוספה...</option>
+            {availableFields.map(field => (
+              <option key={field.slug} value={field.slug}>{field.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={addField}
+            disabled={!newFieldSlug}
+            className="text-sm px-3 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white transition-colors"
+          >
+            + הוסף מסמך
+          </button>
+          <button
+            onClick={addSection}
+            className="text-sm px-3 py-2 rounded-md bg-blue-50 hover:bg-blue-100 text-blue-700 transition-colors"
+          >
+            + הוסף קבוצת מסמכים לבחירה
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={save}
+            disabled={saving || !label.trim()}
+            className={`text-sm px-4 py-2 rounded-md transition-colors text-white ${
+              saving || !label.trim() ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700'
+            }`}
+          >
+            {saving ? 'שומר...' : 'שמור טופס'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
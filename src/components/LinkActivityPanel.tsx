@@ -0,0 +1,92 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { LinkActivity } from '@/lib/supabase'
+import { getLinkStepLabel } from '@/components/LinkFunnelPanel'
+import { getFormTypeLabel } from '@/lib/form-definitions'
+import { useFormDefinitions } from './useFormDefinitions'
+
+interface LinkActivityPanelProps {
+  phoneNumber: string
+}
+
+type TimelineEvent = {
+  key: string
+  type: 'sent' | 'click'
+  at: string
+  link: LinkActivity
+}
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : '-'
+
+const getFormLabel = (formType?: string) => formType ? getFormTypeLabel(formType) : '-'
+
+// Sends and clicks of every link, newest first
+const buildTimeline = (links: LinkActivity[]): TimelineEvent[] =>
+  links
+    .flatMap(link => [
+      { key: `sent-${link.id}`, type: 'sent' as const, at: link.sent_at!, link },
+      ...link.clicks.map(click => ({ key: `click-${click.id}`, type: 'click' as const, at: click.clicked_at!, link }))
+    ])
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+
+export default function LinkActivityPanel({ phoneNumber }: LinkActivityPanelProps) {
+  useFormDefinitions() // Re-render with the form builder's labels once they load
+  const [links, setLinks] = useState<LinkActivity[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadLinks = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/links/timeline?phoneNumber=${encodeURIComponent(phoneNumber)}`)
+        const result = await response.json()
+        setLinks(result.success ? result.links : [])
+      } catch (error) {
+        console.error('Error loading link activity:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadLinks()
+  }, [phoneNumber])
+
+  const openedCount = links.filter(link => link.clicks.length > 0).length
+  const timeline = buildTimeline(links)
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1 text-gray-900">פעילות קישורים</h2>
+      <div className="text-sm text-gray-600 mb-4">
+        {links.length} קישורים נשלחו, {openedCount} נפתחו
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-4">טוען...</div>
+      ) : timeline.length === 0 ? (
+        <div className="text-center text-gray-500 py-4">לא נשלחו קישורים ללקוח זה</div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {timeline.map(event => (
+            <div
+              key={event.key}
+              className={`p-3 rounded-lg border-r-4 ${
+                event.type === 'click' ? 'bg-green-50 border-green-400' : 'bg-gray-50 border-gray-300'
+              }`}
+            >
+              <div className="flex justify-between items-start gap-3">
+                <div className="text-sm text-gray-900">
+                  {event.type === 'click' ? '👆 הקישור נפתח' : '📤 נשלח קישור'}
+                  <span className="text-gray-600"> · {getLinkStepLabel(event.link)} · {getFormLabel(event.link.form_type)}</span>
+                </div>
+                <div className="text-xs text-gray-500 whitespace-nowrap">{formatTime(event.at)}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
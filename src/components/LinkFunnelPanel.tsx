@@ -0,0 +1,113 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { LinkFunnelRow, ShortLink } from '@/lib/supabase'
+import { getFormTypeLabel } from '@/lib/form-definitions'
+import { useFormDefinitions } from './useFormDefinitions'
+
+export const LINK_STEP_LABELS: Record<string, string> = {
+  first_message: '🆕 הודעה ראשונה',
+  first: '📅 תזכורת ראשונה',
+  second: '📅 תזכורת שנייה',
+  first_week: '📆 תזכורת שבועית ראשונה',
+  second_week: '📆 תזכורת שבועית שנייה',
+  third_week: '📆 תזכורת שבועית שלישית',
+  fourth_week: '🚨 תזכורת אחרונה',
+  manual: '✋ שליחה ידנית'
+}
+
+// Step a sent link belongs to, matching the funnel rows
+export const getLinkStepLabel = (link: Pick<ShortLink, 'campaign' | 'reminder_type'>) => {
+  const step = link.campaign === 'reminder' ? link.reminder_type || 'reminder' : link.campaign
+  return LINK_STEP_LABELS[step] || step
+}
+
+const WINDOW_OPTIONS = [7, 30, 90]
+
+const formatRate = (count: number, sent: number) =>
+  `${count} (${sent > 0 ? Math.round((count / sent) * 100) : 0}%)`
+
+const fetchFunnel = async (days: number): Promise<LinkFunnelRow[]> => {
+  try {
+    const response = await fetch(`/api/links/funnel?days=${days}`)
+    const result = await response.json()
+    return result.success ? result.funnel : []
+  } catch (error) {
+    console.error('Error loading link funnel:', error)
+    return []
+  }
+}
+
+export default function LinkFunnelPanel() {
+  useFormDefinitions() // Re-render with the form builder's labels once they load
+  const [days, setDays] = useState(30)
+  const [rows, setRows] = useState<LinkFunnelRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadFunnel = async () => {
+      setLoading(true)
+      setRows(await fetchFunnel(days))
+      setLoading(false)
+    }
+
+    loadFunnel()
+  }, [days])
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 gap-4 flex-wrap">
+        <h2 className="text-xl font-semibold text-gray-900">📊 משפך קישורים</h2>
+        <div className="flex gap-2">
+          {WINDOW_OPTIONS.map(option => (
+            <button
+              key={option}
+              onClick={() => setDays(option)}
+              className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                days === option ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {option} ימים
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-8">טוען...</div>
+      ) : rows.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-right text-gray-600 border-b">
+                <th className="py-2 px-2">טופס</th>
+                <th className="py-2 px-2">שלב</th>
+                <th className="py-2 px-2">נשלחו</th>
+                <th className="py-2 px-2">נלחצו</th>
+                <th className="py-2 px-2">העלו מסמך</th>
+                <th className="py-2 px-2">הושלמו</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.form_type}-${row.step}`} className="border-b">
+                  <td className="py-2 px-2 text-gray-900">{getFormTypeLabel(row.form_type)}</td>
+                  <td className="py-2 px-2 text-gray-700 whitespace-nowrap">{LINK_STEP_LABELS[row.step] || row.step}</td>
+                  <td className="py-2 px-2 text-gray-900">{row.sent}</td>
+                  <td className="py-2 px-2 text-gray-700">{formatRate(row.clicked, row.sent)}</td>
+                  <td className="py-2 px-2 text-gray-700">{formatRate(row.first_upload, row.sent)}</td>
+                  <td className="py-2 px-2 text-gray-700">{formatRate(row.completed, row.sent)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500 mt-3">
+            &quot;העלו מסמך&quot; סופר קישורים שאחריהם הלקוח העלה מסמך; &quot;הושלמו&quot; מתוכם את אלו שהטופס שלהם הושלם.
+          </div>
+        </div>
+      ) : (
+        <div className="text-center text-gray-500 py-8">לא נשלחו קישורים בתקופה זו</div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,6 @@
 'use client'
 
 import { useState } from 'react'
-import { AuthService } from '@/lib/auth-service'
 
 interface PhoneVerificationProps {
   onVerified: (phoneNumber: string) => void
@@ -35,6 +34,14 @@ const displayPhoneNumber = (phone: string) => {
   return phone
 }
 
+// Shown when the server rate-limits sending or locks verification after repeated failures
+const rateLimitMessage = (retryAfterSeconds?: number) => {
+  if (!retryAfterSeconds || retryAfterSeconds < 60) {
+    return 'יותר מדי ניסיונות. נסה שוב בעוד דקה'
+  }
+  return `יותר מדי ניסיונות. נסה שוב בעוד ${Math.ceil(retryAfterSeconds / 60)} דקות`
+}
+
 export default function PhoneVerification({ onVerified, initialPhone = '' }: PhoneVerificationProps) {
   const [step, setStep] = useState<'phone' | 'code'>('phone')
   // Convert initial phone to display format if it starts with +972
@@ -80,6 +87,8 @@ export default function PhoneVerification({ onVerified, initialPhone = '' }: Pho
         setSentCode(result.code) // In production, this should not be returned to client
         setStep('code')
         setPhoneNumber(formattedPhone)
+      } else if (response.status === 429) {
+        setError(rateLimitMessage(result.retryAfterSeconds))
       } else {
         setError(result.error || 'שגיאה בשליחת הקוד')
       }
@@ -115,9 +124,10 @@ export default function PhoneVerification({ onVerified, initialPhone = '' }: Pho
       const result = await response.json()
 
       if (result.success) {
-        // Set client-side authentication cookie
-        AuthService.setClientAuth(phoneNumber)
+        // The response set the signed session cookie
         onVerified(phoneNumber)
+      } else if (response.status === 429) {
+        setError(rateLimitMessage(result.retryAfterSeconds))
       } else {
         setError(result.error || 'קוד שגוי. נסה שוב')
       }
@@ -0,0 +1,148 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RejectionReason } from '@/lib/supabase'
+
+export default function RejectionReasonsEditor() {
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newReason, setNewReason] = useState({ label: '', message: '' })
+  const [saving, setSaving] = useState(false)
+
+  const loadReasons = async () => {
+    try {
+      const response = await fetch('/api/reviews/reasons?all=true')
+      const result = await response.json()
+
+      if (result.success) {
+        setReasons(result.reasons || [])
+      }
+    } catch (error) {
+      console.error('Error loading rejection reasons:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadReasons()
+  }, [])
+
+  const saveReason = async (method: 'POST' | 'PATCH', body: object) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/reviews/reasons', {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        await loadReasons()
+        return true
+      }
+      alert(`❌ שגיאה: ${result.error}`)
+    } catch (error) {
+      console.error('Error saving rejection reason:', error)
+      alert('שגיאה בשמירת סיבת הדחייה')
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const addReason = async () => {
+    if (await saveReason('POST', newReason)) {
+      setNewReason({ label: '', message: '' })
+    }
+  }
+
+  const editReason = async (reason: RejectionReason) => {
+    const message = prompt(`ההודעה ללקוח עבור "${reason.label}":`, reason.message)
+    if (message === null || message.trim() === reason.message) return
+    await saveReason('PATCH', { id: reason.id, message })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-2 text-gray-900">סיבות דחיית מסמכים</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        ההודעה נשלחת ללקוח בוואטסאפ כשמסמך נדחה, יחד עם קישור חדש לטופס.
+      </p>
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-4">טוען...</div>
+      ) : (
+        <div className="space-y-2 mb-6">
+          {reasons.map((reason) => (
+            <div
+              key={reason.id}
+              className={`flex justify-between items-start gap-4 p-3 border rounded-md ${reason.is_active ? 'border-gray-200' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-sm text-gray-900">{reason.label}</div>
+                <div className="text-sm text-gray-700">{reason.message}</div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => editReason(reason)}
+                  disabled={saving}
+                  className="text-xs px-2 py-1 rounded bg-blue-50 text-blue-700 hover:bg-blue-100"
+                >
+                  ערוך
+                </button>
+                <button
+                  onClick={() => saveReason('PATCH', { id: reason.id, isActive: !reason.is_active })}
+                  disabled={saving}
+                  className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  {reason.is_active ? 'השבת' : 'הפעל'}
+                </button>
+              </div>
+            </div>
+          ))}
+          {reasons.length === 0 && (
+            <div className="text-center text-gray-500 py-4">אין סיבות דחייה</div>
+          )}
+        </div>
+      )}
+
+      <div className="border-t pt-4">
+        <div className="text-sm font-medium text-gray-700 mb-2">סיבה חדשה</div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <input
+            type="text"
+            value={newReason.label}
+            onChange={(e) => setNewReason({ ...newReason, label: e.target.value })}
+            placeholder="שם קצר (למשל: מטושטש)"
+            className="p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          />
+          <input
+            type="text"
+            value={newReason.message}
+            onChange={(e) => setNewReason({ ...newReason, message: e.target.value })}
+            placeholder="ההודעה ללקוח"
+            className="md:col-span-2 p-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          />
+        </div>
+        <div className="flex justify-end mt-2">
+          <button
+            onClick={addReason}
+            disabled={saving || !newReason.label.trim() || !newReason.message.trim()}
+            className={`px-4 py-2 rounded-md transition-colors text-sm ${
+              saving || !newReason.label.trim() || !newReason.message.trim()
+                ? 'bg-gray-400 cursor-not-allowed'
+                : 'bg-green-600 hover:bg-green-700'
+            } text-white`}
+          >
+            + הוסף סיבה
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ReminderPolicy } from '@/lib/supabase'
+import { getFormTypes } from '@/lib/form-definitions'
+import { useFormDefinitions } from './useFormDefinitions'
+
+const EMPTY_POLICY: ReminderPolicy = {
+  name: '',
+  first_reminder_hours: 48,
+  second_reminder_hours: 72,
+  weekly_reminder_hours: 168,
+  max_inactive_days: 30,
+  form_types: [],
+  is_default: false
+}
+
+export default function ReminderPoliciesEditor() {
+  useFormDefinitions() // Re-render with the form builder's form types once they load
+  const [policies, setPolicies] = useState<ReminderPolicy[]>([])
+  const [fallbackPolicy, setFallbackPolicy] = useState<ReminderPolicy | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingIndex, setSavingIndex] = useState<number | null>(null)
+
+  const loadPolicies = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/reminders/policies')
+      const result = await response.json()
+
+      if (result.success) {
+        setPolicies(result.policies || [])
+        setFallbackPolicy(result.fallbackPolicy || null)
+      }
+    } catch (error) {
+      console.error('Error loading reminder policies:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPolicies()
+  }, [])
+
+  const updatePolicy = (index: number, updates: Partial<ReminderPolicy>) => {
+    setPolicies(prev => prev.map((policy, i) => (i === index ? { ...policy, ...updates } : policy)))
+  }
+
+  const toggleFormType = (index: number, formType: string, checked: boolean) => {
+    const current = policies[index].form_types || []
+    updatePolicy(index, {
+      form_types: checked ? [...current, formType] : current.filter(ft => ft !== formType)
+    })
+  }
+
+  const savePolicy = async (index: number) => {
+    setSavingIndex(index)
+    try {
+      const response = await fetch('/api/reminders/policies', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ policy: policies[index] })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        // Reload: saving may move form types or the default flag away from other policies
+        await loadPolicies()
+        alert('✅ המדיניות נשמרה בהצלחה!')
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving reminder policy:', error)
+      alert('שגיאה בשמירת המדיניות')
+    } finally {
+      setSavingIndex(null)
+    }
+  }
+
+  const deletePolicy = async (index: number) => {
+    const policy = policies[index]
+    if (!policy.id) {
+      setPolicies(prev => prev.filter((_, i) => i !== index))
+      return
+    }
+
+    if (!confirm(`האם למחוק את המדיניות "${policy.name}"? טפסים שמשויכים אליה יחזרו למדיניות ברירת המחדל.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/reminders/policies?id=${encodeURIComponent(policy.id)}`, {
+        method: 'DELETE'
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        await loadPolicies()
+      } else {
+        alert(`❌ שגיאה: ${result.error || result.message}`)
+      }
+    } catch (error) {
+      console.error('Error deleting reminder policy:', error)
+      alert('שגיאה במחיקת המדיניות')
+    }
+  }
+
+  const numberField = (index: number, field: keyof ReminderPolicy, label: string) => (
+    <label className="block text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={1}
+        value={policies[index][field] as number}
+        onChange={(e) => updatePolicy(index, { [field]: parseInt(e.target.value) || 0 })}
+        className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900"
+      />
+    </label>
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">מדיניות תזכורות</h2>
+        <button
+          onClick={() => setPolicies(prev => [...prev, { ...EMPTY_POLICY }])}
+          className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors text-sm"
+        >
+          + מדיניות חדשה
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        כל סוג טופס משויך למדיניות אחת לכל היותר. טפסים ללא שיוך משתמשים במדיניות ברירת המחדל
+        {fallbackPolicy && policies.every(p => !p.is_default) && (
+          <> (כרגע: {fallbackPolicy.first_reminder_hours}/{fallbackPolicy.second_reminder_hours}/{fallbackPolicy.weekly_reminder_hours} שעות, עד {fallbackPolicy.max_inactive_days} ימים)</>
+        )}
+        . ניתן גם לקבוע מדיניות לטופס ספציפי מדף הלקוח.
+      </p>
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-4">טוען...</div>
+      ) : policies.length === 0 ? (
+        <div className="text-center text-gray-500 py-4">לא הוגדרו מדיניות תזכורות</div>
+      ) : (
+        <div className="space-y-4">
+          {policies.map((policy, index) => (
+            <div key={policy.id || `new-${index}`} className="border rounded-lg p-4">
+              <div className="flex flex-wrap items-end gap-4 mb-4">
+                <label className="block text-sm text-gray-700 flex-1 min-w-[200px]">
+                  שם המדיניות
+                  <input
+                    type="text"
+                    value={policy.name}
+                    onChange={(e) => updatePolicy(index, { name: e.target.value })}
+                    className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={policy.is_default}
+                    onChange={(e) => updatePolicy(index, { is_default: e.target.checked })}
+                    className="w-4 h-4"
+                  />
+                  ברירת מחדל
+                </label>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                {numberField(index, 'first_reminder_hours', 'תזכורת ראשונה (שעות)')}
+                {numberField(index, 'second_reminder_hours', 'תזכורת שנייה (שעות)')}
+                {numberField(index, 'weekly_reminder_hours', 'תזכורת חוזרת (שעות)')}
+                {numberField(index, 'max_inactive_days', 'הפסקה אחרי (ימים ללא פעילות)')}
+              </div>
+
+              <div className="mb-4">
+                <div className="text-sm font-medium text-gray-700 mb-2">סוגי טפסים</div>
+                <div className="flex flex-wrap gap-3">
+                  {getFormTypes().map((formType) => (
+                    <label key={formType.slug} className="flex items-center gap-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={(policy.form_types || []).includes(formType.slug)}
+                        onChange={(e) => toggleFormType(index, formType.slug, e.target.checked)}
+                        className="w-4 h-4"
+                      />
+                      {formType.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3 justify-end">
+                <button
+                  onClick={() => deletePolicy(index)}
+                  className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors text-sm"
+                >
+                  מחק
+                </button>
+                <button
+                  onClick={() => savePolicy(index)}
+                  disabled={savingIndex === index}
+                  className={`px-4 py-2 rounded-md transition-colors text-sm ${
+                    savingIndex === index
+                      ? 'bg-gray-400 cursor-not-allowed'
+                      : 'bg-blue-600 hover:bg-blue-700'
+                  } text-white`}
+                >
+                  {savingIndex === index ? 'שומר...' : 'שמור'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
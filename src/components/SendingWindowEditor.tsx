@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { SendingWindowSettings } from '@/lib/supabase'
+
+export default function SendingWindowEditor() {
+  const [settings, setSettings] = useState<SendingWindowSettings | null>(null)
+  const [status, setStatus] = useState<{ allowed: boolean; nextWindowAt: string | null } | null>(null)
+  const [newHoliday, setNewHoliday] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const loadSettings = async () => {
+    try {
+      const response = await fetch('/api/reminders/sending-window')
+      const result = await response.json()
+
+      if (result.success) {
+        setSettings(result.settings)
+        setStatus(result.status)
+      }
+    } catch (error) {
+      console.error('Error loading sending window:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const saveSettings = async () => {
+    if (!settings) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/reminders/sending-window', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ settings })
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        await loadSettings()
+        alert('✅ חלון השליחה נשמר בהצלחה!')
+      } else {
+        alert(`❌ שגיאה: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error saving sending window:', error)
+      alert('שגיאה בשמירת חלון השליחה')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addHoliday = () => {
+    if (!settings || !newHoliday || settings.holiday_dates.includes(newHoliday)) return
+    setSettings({ ...settings, holiday_dates: [...settings.holiday_dates, newHoliday].sort() })
+    setNewHoliday('')
+  }
+
+  const hourField = (field: keyof SendingWindowSettings, label: string, max: number) => (
+    <label className="block text-sm text-gray-700">
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={max}
+        value={settings ? (settings[field] as number) : 0}
+        onChange={(e) => settings && setSettings({ ...settings, [field]: parseInt(e.target.value) || 0 })}
+        className="mt-1 w-full p-2 border border-gray-300 rounded-md text-gray-900"
+      />
+    </label>
+  )
+
+  if (!settings) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+        <div className="text-center text-gray-500">טוען...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">חלון שליחה (שעון ישראל)</h2>
+        {status && (
+          <span className={`text-sm px-3 py-1 rounded-full ${status.allowed ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-800'}`}>
+            {status.allowed
+              ? '🟢 כעת ניתן לשלוח'
+              : `🌙 שליחה תתחדש: ${status.nextWindowAt ? new Date(status.nextWindowAt).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : 'לא נמצא חלון'}`}
+          </span>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+          className="w-4 h-4"
+        />
+        הגבל שליחת תזכורות לחלון השליחה
+      </label>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {hourField('start_hour', 'שעת התחלה יומית', 23)}
+        {hourField('end_hour', 'שעת סיום יומית', 24)}
+        {hourField('pre_rest_day_cutoff_hour', 'שישי / ערב חג - עד שעה', 24)}
+        {hourField('rest_day_resume_hour', 'מוצ״ש / מוצאי חג - משעה', 24)}
+      </div>
+
+      <div className="mb-4">
+        <div className="text-sm font-medium text-gray-700 mb-2">תאריכי חגים (נחשבים כמו שבת)</div>
+        <div className="flex gap-2 mb-2">
+          <input
+            type="date"
+            value={newHoliday}
+            onChange={(e) => setNewHoliday(e.target.value)}
+            className="p-2 border border-gray-300 rounded-md text-gray-900"
+          />
+          <button
+            onClick={addHoliday}
+            disabled={!newHoliday}
+            className={`px-3 py-2 rounded-md text-sm transition-colors ${
+              newHoliday ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            + הוסף
+          </button>
+        </div>
+        {settings.holiday_dates.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {settings.holiday_dates.map((date) => (
+              <span key={date} className="text-xs bg-gray-100 text-gray-800 px-2 py-1 rounded flex items-center gap-1">
+                {new Date(`${date}T12:00:00`).toLocaleDateString('he-IL')}
+                <button
+                  onClick={() => setSettings({ ...settings, holiday_dates: settings.holiday_dates.filter(d => d !== date) })}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <div className="text-xs text-gray-500">לא הוגדרו חגים</div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className={`px-4 py-2 rounded-md transition-colors text-sm ${
+            saving ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'
+          } text-white`}
+        >
+          {saving ? 'שומר...' : 'שמור חלון שליחה'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import formData from '@/data/form-fields.json';
+import { getFormTypes } from '@/lib/form-definitions';
+import { useFormDefinitions } from './useFormDefinitions';
 
 interface WhatsAppModalProps {
   isOpen: boolean;
@@ -26,7 +27,8 @@ export default function WhatsAppModal({ isOpen, onClose, phoneNumber, onSendLink
   }>({});
   const [urlGenerating, setUrlGenerating] = useState(false);
 
-  const formTypes = formData.formTypes;
+  useFormDefinitions(); // Re-render with the form builder's form types once they load
+  const formTypes = getFormTypes();
 
   // Reset form when modal opens
   useEffect(() => {
@@ -80,8 +82,7 @@ export default function WhatsAppModal({ isOpen, onClose, phoneNumber, onSendLink
               phoneNumber: formattedPhone,
               formType: selectedFormType,
               expiryDays: _tokenExpiry,
-              isReusable: _isReusableToken,
-              adminKey: 'shimi-admin-2024-secure-key-auth-tokens'
+              isReusable: _isReusableToken
             })
           });
 
@@ -0,0 +1,50 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { FormDefinitions, getFormDefinitions, setFormDefinitions } from '@/lib/form-definitions'
+
+let loading: Promise<void> | null = null
+let loaded = false
+
+// Fetched once per page load and shared by every component that asks
+const loadFormDefinitions = (): Promise<void> => {
+  loading ??= (async () => {
+    try {
+      const response = await fetch('/api/customer/form-definitions')
+      const result = await response.json()
+
+      if (result.success) {
+        setFormDefinitions(result.definitions)
+      }
+    } catch (error) {
+      console.error('Error loading form definitions:', error)
+    } finally {
+      loaded = true
+    }
+  })()
+  return loading
+}
+
+// Load again after the form builder saved a change
+export const reloadFormDefinitions = (): Promise<void> => {
+  loading = null
+  return loadFormDefinitions()
+}
+
+/**
+ * The form definitions from the form builder. Until they load (loaded false) the bundled ones
+ * are returned; if loading fails those stay.
+ */
+export function useFormDefinitions(): { definitions: FormDefinitions, loaded: boolean } {
+  const [state, setState] = useState({ definitions: getFormDefinitions(), loaded })
+
+  useEffect(() => {
+    let active = true
+    loadFormDefinitions().then(() => {
+      if (active) setState({ definitions: getFormDefinitions(), loaded: true })
+    })
+    return () => { active = false }
+  }, [])
+
+  return state
+}
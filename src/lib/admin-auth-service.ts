@@ -0,0 +1,159 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { SupabaseService } from './supabase-service'
+import { AdminRole, AdminUser } from './supabase'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+const MIN_PASSWORD_LENGTH = 10
+const ADMIN_ROLES: AdminRole[] = ['owner', 'case_handler', 'read_only']
+
+// What the admin UI gets back - never the password hash
+export type AdminUserSummary = Omit<AdminUser, 'password_hash'>
+
+export class AdminAuthService {
+  static isValidRole(role: unknown): role is AdminRole {
+    return typeof role === 'string' && ADMIN_ROLES.includes(role as AdminRole)
+  }
+
+  // Stored as scrypt$<salt>$<hash>, both hex
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex')
+    const hash = await scryptAsync(password, salt, KEY_LENGTH)
+    return `scrypt$${salt}$${hash.toString('hex')}`
+  }
+
+  static async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hashHex] = stored.split('$')
+    if (scheme !== 'scrypt' || !salt || !hashHex) return false
+
+    const expected = Buffer.from(hashHex, 'hex')
+    const actual = await scryptAsync(password, salt, expected.length)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  }
+
+  static validatePassword(password: unknown): string | null {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    }
+    return null
+  }
+
+  /**
+   * Check credentials and return the user to start a session for.
+   * While no admin user exists, the ADMIN_BOOTSTRAP_EMAIL / ADMIN_BOOTSTRAP_PASSWORD
+   * pair creates the first owner on its first login.
+   */
+  static async authenticate(email: string, password: string): Promise<{ success: boolean, user?: AdminUserSummary, error?: string }> {
+    const normalizedEmail = email.trim().toLowerCase()
+    let user = await SupabaseService.getAdminUserByEmail(normalizedEmail)
+
+    if (!user) {
+      user = await this.bootstrapOwner(normalizedEmail, password)
+      if (!user) {
+        return { success: false, error: 'Invalid email or password' }
+      }
+    }
+
+    if (!user.is_active) {
+      return { success: false, error: 'User is disabled' }
+    }
+
+    if (!(await this.verifyPassword(password, user.password_hash))) {
+      return { success: false, error: 'Invalid email or password' }
+    }
+
+    await SupabaseService.updateAdminUser(user.id!, { last_login_at: new Date().toISOString() })
+    return { success: true, user: this.toSummary(user) }
+  }
+
+  static async listUsers(): Promise<AdminUserSummary[]> {
+    const users = await SupabaseService.getAdminUsers()
+    return users.map(user => this.toSummary(user))
+  }
+
+  static async createUser(input: { email: string, name: string, role: AdminRole, password: string }): Promise<{ success: boolean, user?: AdminUserSummary, error?: string }> {
+    const passwordError = this.validatePassword(input.password)
+    if (passwordError) {
+      return { success: false, error: passwordError }
+    }
+
+    const existing = await SupabaseService.getAdminUserByEmail(input.email)
+    if (existing) {
+      return { success: false, error: 'A user with this email already exists' }
+    }
+
+    const user = await SupabaseService.createAdminUser({
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      password_hash: await this.hashPassword(input.password),
+      is_active: true
+    })
+
+    return user ? { success: true, user: this.toSummary(user) } : { success: false, error: 'Failed to create user' }
+  }
+
+  static async updateUser(
+    userId: string,
+    updates: { name?: string, role?: AdminRole, is_active?: boolean, password?: string },
+    actingUserId: string
+  ): Promise<{ success: boolean, user?: AdminUserSummary, error?: string }> {
+    // Keep at least one way back in: an owner can't demote or disable themselves
+    if (userId === actingUserId && ((updates.role && updates.role !== 'owner') || updates.is_active === false)) {
+      return { success: false, error: 'You cannot remove your own owner access' }
+    }
+
+    const dbUpdates: Partial<Omit<AdminUser, 'id' | 'email' | 'created_at' | 'updated_at'>> = {}
+    if (updates.name !== undefined) dbUpdates.name = updates.name
+    if (updates.role !== undefined) dbUpdates.role = updates.role
+    if (updates.is_active !== undefined) dbUpdates.is_active = updates.is_active
+
+    if (updates.password !== undefined) {
+      const passwordError = this.validatePassword(updates.password)
+      if (passwordError) {
+        return { success: false, error: passwordError }
+      }
+      dbUpdates.password_hash = await this.hashPassword(updates.password)
+    }
+
+    const user = await SupabaseService.updateAdminUser(userId, dbUpdates)
+    return user ? { success: true, user: this.toSummary(user) } : { success: false, error: 'Failed to update user' }
+  }
+
+  private static async bootstrapOwner(email: string, password: string): Promise<AdminUser | null> {
+    const bootstrapEmail = process.env.ADMIN_BOOTSTRAP_EMAIL?.trim().toLowerCase()
+    const bootstrapPassword = process.env.ADMIN_BOOTSTRAP_PASSWORD
+    if (!bootstrapEmail || !bootstrapPassword || email !== bootstrapEmail || password !== bootstrapPassword) {
+      return null
+    }
+
+    const count = await SupabaseService.countAdminUsers()
+    if (count !== 0) {
+      return null
+    }
+
+    console.log(`Creating the first owner account for ${email}`)
+    return await SupabaseService.createAdminUser({
+      email,
+      name: email.split('@')[0],
+      role: 'owner',
+      password_hash: await this.hashPassword(password),
+      is_active: true
+    })
+  }
+
+  private static toSummary(user: AdminUser): AdminUserSummary {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      is_active: user.is_active,
+      last_login_at: user.last_login_at,
+      created_at: user.created_at,
+      updated_at: user.updated_at
+    }
+  }
+}
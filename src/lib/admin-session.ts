@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { AdminRole } from './supabase'
+import { SignedTokenService } from './signed-token'
+
+// Edge-safe (used by middleware): Web Crypto and fetch only, no Node APIs or Supabase client
+
+const ADMIN_SESSION_COOKIE = 'easy2get_admin_session'
+const SESSION_DURATION_HOURS = 12
+
+export interface AdminSession {
+  userId: string
+  email: string
+  name: string
+  role: AdminRole
+  expiresAt: string
+}
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  read_only: 1,
+  case_handler: 2,
+  owner: 3
+}
+
+// API routes reachable without an admin session: customer flows and external callers.
+// /api/customer routes check the signed customer session themselves.
+const PUBLIC_API_PATHS = [
+  '/api/customer',
+  '/api/auth/send-code',
+  '/api/auth/verify-code',
+  '/api/auth/validate-token',
+  '/api/whatsapp/webhook',
+  '/api/admin/auth/login',
+  '/api/admin/auth/logout'
+]
+
+// Scheduler endpoints, also reachable with the REMINDER_JOB_AUTH_TOKEN bearer token
+const JOB_API_PATHS = ['/api/reminders/process', '/api/reminders/batch/worker', '/api/auth/tokens/cleanup']
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+// Actions only the owner may perform; everything else that writes needs a case handler
+const OWNER_ONLY_RULES: Array<{ path: string; methods: string[] }> = [
+  { path: '/api/admin/users', methods: ['GET', ...WRITE_METHODS] },
+  { path: '/api/customers', methods: ['DELETE'] },
+  { path: '/api/reminders/templates', methods: WRITE_METHODS },
+  { path: '/api/reminders/policies', methods: WRITE_METHODS },
+  { path: '/api/reminders/sending-window', methods: WRITE_METHODS },
+  { path: '/api/reviews/reasons', methods: WRITE_METHODS },
+  { path: '/api/forms', methods: WRITE_METHODS }
+]
+
+const OWNER_ONLY_PAGES = ['/admin/users']
+
+const matchesPath = (pathname: string, path: string) => pathname === path || pathname.startsWith(`${path}/`)
+
+export class AdminSessionService {
+  static isConfigured(): boolean {
+    return !!process.env.ADMIN_SESSION_SECRET
+  }
+
+  static isPublicApi(pathname: string): boolean {
+    return PUBLIC_API_PATHS.some(path => matchesPath(pathname, path))
+  }
+
+  static isJobApi(pathname: string): boolean {
+    return JOB_API_PATHS.some(path => matchesPath(pathname, path))
+  }
+
+  static hasRole(role: AdminRole, required: AdminRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[required]
+  }
+
+  // Minimum role for an admin API call: reads are open to every role, writes need a case handler
+  static getRequiredApiRole(pathname: string, method: string): AdminRole {
+    const upperMethod = method.toUpperCase()
+    if (OWNER_ONLY_RULES.some(rule => matchesPath(pathname, rule.path) && rule.methods.includes(upperMethod))) {
+      return 'owner'
+    }
+    return WRITE_METHODS.includes(upperMethod) ? 'case_handler' : 'read_only'
+  }
+
+  static getRequiredPageRole(pathname: string): AdminRole {
+    return OWNER_ONLY_PAGES.some(path => matchesPath(pathname, path)) ? 'owner' : 'read_only'
+  }
+
+  /**
+   * Create a signed session token (see SignedTokenService).
+   * The cookie proves who signed in; the role is re-read from admin_users on every request.
+   */
+  static async createToken(user: { id: string; email: string; name: string; role: AdminRole }): Promise<{ token: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + SESSION_DURATION_HOURS * 60 * 60 * 1000)
+    const session: AdminSession = {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      expiresAt: expiresAt.toISOString()
+    }
+
+    return { token: await SignedTokenService.sign(session, this.getSecret()), expiresAt }
+  }
+
+  static async verifyToken(token: string): Promise<AdminSession | null> {
+    if (!this.isConfigured()) return null
+
+    const session = await SignedTokenService.verify<AdminSession>(token, this.getSecret())
+    if (!session || new Date() > new Date(session.expiresAt) || !ROLE_RANK[session.role]) {
+      return null
+    }
+
+    return session
+  }
+
+  // The session with the user's current role; null once the user is disabled or removed
+  static async getSessionFromRequest(request: NextRequest): Promise<AdminSession | null> {
+    const cookie = request.cookies.get(ADMIN_SESSION_COOKIE)
+    if (!cookie) return null
+
+    const session = await this.verifyToken(cookie.value)
+    if (!session) return null
+
+    const role = await this.getCurrentRole(session.userId)
+    return role ? { ...session, role } : null
+  }
+
+  static setSessionCookie(response: NextResponse, token: string, expiresAt: Date): NextResponse {
+    response.cookies.set(ADMIN_SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      expires: expiresAt,
+      path: '/'
+    })
+    return response
+  }
+
+  static clearSessionCookie(response: NextResponse): NextResponse {
+    response.cookies.delete(ADMIN_SESSION_COOKIE)
+    return response
+  }
+
+  // Looked up through the Supabase REST API, since the Supabase client isn't edge-safe
+  private static async getCurrentRole(userId: string): Promise<AdminRole | null> {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!url || !serviceRoleKey) {
+      console.error('Supabase is not configured - admin sessions cannot be checked')
+      return null
+    }
+
+    try {
+      const response = await fetch(
+        `${url}/rest/v1/admin_users?id=eq.${encodeURIComponent(userId)}&select=role,is_active`,
+        { headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` }, cache: 'no-store' }
+      )
+
+      if (!response.ok) {
+        console.error('Error checking admin user:', response.status)
+        return null
+      }
+
+      const [user] = await response.json() as Array<{ role: AdminRole, is_active: boolean }>
+      return user?.is_active && ROLE_RANK[user.role] ? user.role : null
+    } catch (error) {
+      console.error('Error checking admin user:', error)
+      return null
+    }
+  }
+
+  private static getSecret(): string {
+    const secret = process.env.ADMIN_SESSION_SECRET
+    if (!secret) {
+      throw new Error('ADMIN_SESSION_SECRET is not configured')
+    }
+    return secret
+  }
+}
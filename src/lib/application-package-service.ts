@@ -0,0 +1,259 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { PDFDocument, PDFFont, PDFPage, rgb } from 'pdf-lib'
+import fontkit from '@pdf-lib/fontkit'
+import { SupabaseService } from './supabase-service'
+import { APPLICATION_PACKAGE_SLUG, DocumentBundleService, DocumentEntry } from './document-bundle-service'
+import { Customer, CustomerSubmission, UploadedFile } from './supabase'
+
+const APPLICATION_PACKAGE_NAME = 'תיק בקשה מאוחד (PDF)'
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', '@fontsource', 'noto-sans-hebrew', 'files')
+
+// A4 in points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+
+const HEBREW_PATTERN = /[\u0590-\u05FF]/
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[' }
+
+// The cover font ships as separate Hebrew and Latin subsets
+interface CoverFonts {
+  hebrew: PDFFont
+  latin: PDFFont
+  hebrewBold: PDFFont
+}
+
+export interface SkippedDocument {
+  fileName: string
+  fieldName: string
+  reason: string
+}
+
+export interface ApplicationPackageResult {
+  success: boolean
+  error?: string
+  file?: UploadedFile
+  pageCount?: number
+  skipped?: SkippedDocument[]
+}
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('he-IL', { timeZone: 'Asia/Jerusalem' }) : '-'
+
+const formatPhone = (phone: string): string => {
+  if (phone.startsWith('+972') && phone.length >= 13) {
+    const local = phone.substring(4)
+    return `0${local.substring(0, 2)}-${local.substring(2, 5)}-${local.substring(5)}`
+  }
+  return phone
+}
+
+export class ApplicationPackageService {
+  /**
+   * Merge a submission's uploads into one PDF for the ministry: a cover page with the customer's
+   * details and a table of contents, then every PDF and JPG/PNG image ordered by field number.
+   * Rejected documents are left out.
+   * The result replaces any earlier package stored for the submission.
+   */
+  static async createPackage(submissionId: string): Promise<ApplicationPackageResult> {
+    const submission = await SupabaseService.getSubmissionById(submissionId)
+    if (!submission) {
+      return { success: false, error: 'Submission not found' }
+    }
+
+    const [files, customer] = await Promise.all([
+      SupabaseService.getUploadedFiles(submissionId),
+      SupabaseService.getCustomerByPhone(submission.phone_number),
+      SupabaseService.loadFormDefinitions()
+    ])
+
+    const entries = DocumentBundleService.getDocumentEntries(
+      submission.form_type,
+      files.filter(file => file.field_slug !== APPLICATION_PACKAGE_SLUG && file.review_status !== 'rejected')
+    )
+    if (!entries.some(entry => entry.files.length > 0)) {
+      return { success: false, error: 'No documents uploaded for this submission' }
+    }
+
+    const pdf = await PDFDocument.create()
+    pdf.registerFontkit(fontkit)
+    const fonts = await this.embedFonts(pdf)
+
+    const contents: Array<{ entry: DocumentEntry, startPage: number }> = []
+    const skipped: SkippedDocument[] = []
+
+    // Page numbers count the cover page, which is inserted first once the contents are known
+    for (const entry of entries) {
+      let startPage: number | null = null
+      for (const { file } of entry.files) {
+        const pageIndex = pdf.getPageCount()
+        const reason = await this.appendFile(pdf, file)
+        if (reason) {
+          skipped.push({ fileName: file.file_name, fieldName: entry.name, reason })
+        } else if (startPage === null) {
+          startPage = pageIndex + 2
+        }
+      }
+      if (startPage !== null) {
+        contents.push({ entry, startPage })
+      }
+    }
+
+    if (contents.length === 0) {
+      return { success: false, error: 'None of the uploaded documents could be added to the PDF', skipped }
+    }
+
+    this.drawCoverPage(pdf.insertPage(0, [PAGE_WIDTH, PAGE_HEIGHT]), fonts, submission, customer, contents, entries, skipped)
+    pdf.setTitle(`${submission.form_type_label} - ${submission.phone_number}`)
+
+    const bytes = await pdf.save()
+    const date = new Date().toISOString().slice(0, 10)
+    const file = new File([new Uint8Array(bytes)], `application-${submission.phone_number.replace(/\D/g, '')}-${date}.pdf`, {
+      type: 'application/pdf'
+    })
+
+    const filePath = await SupabaseService.uploadFile(file, submission.phone_number, APPLICATION_PACKAGE_SLUG)
+    if (!filePath) {
+      return { success: false, error: 'Failed to store the PDF' }
+    }
+
+    const stored = await SupabaseService.saveFileMetadata(submissionId, APPLICATION_PACKAGE_SLUG, APPLICATION_PACKAGE_NAME, file, filePath)
+    if (!stored) {
+      return { success: false, error: 'Failed to store the PDF' }
+    }
+
+    return { success: true, file: stored, pageCount: pdf.getPageCount(), skipped }
+  }
+
+  // Returns why the file was left out, or null when its pages were added
+  private static async appendFile(pdf: PDFDocument, file: UploadedFile): Promise<string | null> {
+    const extension = file.file_name.split('.').pop()?.toLowerCase()
+    const type = file.mime_type === 'application/pdf' || extension === 'pdf' ? 'pdf'
+      : file.mime_type === 'image/png' || extension === 'png' ? 'png'
+      : ['image/jpeg', 'image/jpg'].includes(file.mime_type) || extension === 'jpg' || extension === 'jpeg' ? 'jpg'
+      : null
+
+    if (!type) {
+      return 'סוג קובץ שאינו נתמך'
+    }
+
+    const contents = await SupabaseService.downloadFile(file.file_path)
+    if (!contents) {
+      return 'הקובץ לא נמצא באחסון'
+    }
+
+    try {
+      if (type === 'pdf') {
+        const source = await PDFDocument.load(contents, { ignoreEncryption: true })
+        const pages = await pdf.copyPages(source, source.getPageIndices())
+        pages.forEach(page => pdf.addPage(page))
+        return null
+      }
+
+      const image = type === 'png' ? await pdf.embedPng(contents) : await pdf.embedJpg(contents)
+
+      // Landscape photos get a landscape page so they aren't shrunk to half size
+      const landscape = image.width > image.height
+      const page = pdf.addPage(landscape ? [PAGE_HEIGHT, PAGE_WIDTH] : [PAGE_WIDTH, PAGE_HEIGHT])
+      const { width, height } = image.scaleToFit(page.getWidth() - MARGIN * 2, page.getHeight() - MARGIN * 2)
+      page.drawImage(image, {
+        x: (page.getWidth() - width) / 2,
+        y: (page.getHeight() - height) / 2,
+        width,
+        height
+      })
+      return null
+    } catch (error) {
+      console.error(`Error adding ${file.file_path} to application PDF:`, error)
+      return 'הקובץ פגום או מוגן בסיסמה'
+    }
+  }
+
+  private static async embedFonts(pdf: PDFDocument): Promise<CoverFonts> {
+    const load = async (name: string) =>
+      await pdf.embedFont(await readFile(path.join(FONT_DIR, `noto-sans-hebrew-${name}-normal.woff`)), { subset: true })
+
+    const [hebrew, latin, hebrewBold] = await Promise.all([load('hebrew-400'), load('latin-400'), load('hebrew-700')])
+    return { hebrew, latin, hebrewBold }
+  }
+
+  private static drawCoverPage(
+    page: PDFPage,
+    fonts: CoverFonts,
+    submission: CustomerSubmission,
+    customer: Customer | null,
+    contents: Array<{ entry: DocumentEntry, startPage: number }>,
+    entries: DocumentEntry[],
+    skipped: SkippedDocument[]
+  ) {
+    const right = PAGE_WIDTH - MARGIN
+    let y = PAGE_HEIGHT - MARGIN - 20
+
+    const line = (text: string, size = 11, gap = 18, bold = false) => {
+      if (y < MARGIN) return
+      this.drawRtlText(page, text, right, y, size, bold ? { ...fonts, hebrew: fonts.hebrewBold } : fonts)
+      y -= gap
+    }
+
+    line(`תיק בקשה - ${submission.form_type_label}`, 20, 34, true)
+
+    const address = [customer?.address?.street, customer?.address?.city, customer?.address?.zip_code].filter(Boolean).join(', ')
+    line(`שם: ${[customer?.name, customer?.family_name].filter(Boolean).join(' ') || '-'}`)
+    line(`תעודת זהות: ${customer?.id_number || '-'}`)
+    line(`תאריך לידה: ${formatDate(customer?.birth_date)}`)
+    line(`טלפון: ${formatPhone(submission.phone_number)}`)
+    line(`כתובת: ${address || '-'}`)
+    line(`הופק: ${formatDate(new Date().toISOString())}`, 11, 30)
+
+    page.drawLine({ start: { x: MARGIN, y: y + 18 }, end: { x: right, y: y + 18 }, thickness: 0.5, color: rgb(0.7, 0.7, 0.7) })
+
+    line('תוכן עניינים', 14, 24, true)
+    for (const { entry, startPage } of contents) {
+      line(`${entry.number}. ${entry.name} - עמוד ${startPage}`)
+    }
+
+    const missing = entries.filter(entry => entry.required && entry.files.length < entry.minFiles)
+    if (missing.length > 0) {
+      y -= 12
+      line('מסמכים חסרים', 14, 24, true)
+      missing.forEach(entry => line(
+        entry.files.length > 0 ? `${entry.number}. ${entry.name} (${entry.files.length}/${entry.minFiles})` : `${entry.number}. ${entry.name}`
+      ))
+    }
+
+    if (skipped.length > 0) {
+      y -= 12
+      line('קבצים שלא נכללו', 14, 24, true)
+      skipped.forEach(item => line(`${item.fieldName}: ${item.fileName} (${item.reason})`))
+    }
+  }
+
+  /**
+   * pdf-lib draws glyphs left to right, so a right-to-left line is laid out in visual order:
+   * runs of Latin letters and digits keep their order, everything else is reversed around them.
+   * Each run uses the subset font that has its glyphs.
+   */
+  private static drawRtlText(page: PDFPage, text: string, right: number, y: number, size: number, fonts: CoverFonts) {
+    const tokens = text.match(/[A-Za-z0-9](?:[A-Za-z0-9@._+\-/ ]*[A-Za-z0-9])?|[\s\S]/g) || []
+    const visual = tokens.reverse().map(token => MIRRORED[token] || token)
+
+    const runs: Array<{ text: string, font: PDFFont }> = []
+    for (const token of visual) {
+      const font = HEBREW_PATTERN.test(token) ? fonts.hebrew : fonts.latin
+      const last = runs[runs.length - 1]
+      if (last && last.font === font) {
+        last.text += token
+      } else {
+        runs.push({ text: token, font })
+      }
+    }
+
+    let x = right - runs.reduce((width, run) => width + run.font.widthOfTextAtSize(run.text, size), 0)
+    for (const run of runs) {
+      page.drawText(run.text, { x, y, size, font: run.font, color: rgb(0.07, 0.07, 0.07) })
+      x += run.font.widthOfTextAtSize(run.text, size)
+    }
+  }
+}
@@ -1,27 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { SignedTokenService } from './signed-token'
 
 const AUTH_COOKIE_NAME = 'shimi_phone_auth'
 const AUTH_EXPIRY_DAYS = 90
+// Sessions opened from a reminder link only last as long as a customer would keep the tab open
+const TOKEN_SESSION_EXPIRY_HOURS = 24
 
 export interface AuthData {
   phoneNumber: string
+  // Set for sessions opened from a tokenized link: the session only covers that form
+  formType?: string
+  method: 'otp' | 'token'
   verifiedAt: string
   expiresAt: string
 }
 
+// Normalize phone numbers to +972XXXXXXXXX so session and request phones compare reliably
+const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '').replace(/^(?:972)+/, '')
+  return `+972${digits.startsWith('0') ? digits.substring(1) : digits}`
+}
+
 export class AuthService {
-  // Set authentication cookie (for API routes)
-  static setAuthCookie(response: NextResponse, phoneNumber: string): NextResponse {
+  static isConfigured(): boolean {
+    return !!process.env.CUSTOMER_SESSION_SECRET
+  }
+
+  /**
+   * Caller's IP for rate limits and audit trails. The client can put anything at the start of
+   * x-forwarded-for; the right-most entry is the one our own proxy appended for the connection.
+   */
+  static getClientIp(headers: Headers): string {
+    const forwardedFor = headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean)
+    return forwardedFor?.[forwardedFor.length - 1] || headers.get('x-real-ip') || 'unknown'
+  }
+
+  // Set signed authentication cookie (for API routes)
+  static async setAuthCookie(
+    response: NextResponse,
+    phoneNumber: string,
+    options: { formType?: string, method?: AuthData['method'] } = {}
+  ): Promise<NextResponse> {
     const now = new Date()
-    const expiresAt = new Date(now.getTime() + (AUTH_EXPIRY_DAYS * 24 * 60 * 60 * 1000))
-    
+    const method = options.method || 'otp'
+    const expiresAt = method === 'token'
+      ? new Date(now.getTime() + (TOKEN_SESSION_EXPIRY_HOURS * 60 * 60 * 1000))
+      : new Date(now.getTime() + (AUTH_EXPIRY_DAYS * 24 * 60 * 60 * 1000))
+
     const authData: AuthData = {
-      phoneNumber,
+      phoneNumber: normalizePhone(phoneNumber),
+      ...(options.formType && { formType: options.formType }),
+      method,
       verifiedAt: now.toISOString(),
       expiresAt: expiresAt.toISOString()
     }
 
-    response.cookies.set(AUTH_COOKIE_NAME, JSON.stringify(authData), {
+    response.cookies.set(AUTH_COOKIE_NAME, await SignedTokenService.sign(authData, this.getSecret()), {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax',
@@ -32,82 +66,61 @@ export class AuthService {
     return response
   }
 
-  // Get authentication from cookie (for API routes)
-  static getAuthFromCookie(request: NextRequest): AuthData | null {
-    try {
-      const authCookie = request.cookies.get(AUTH_COOKIE_NAME)
-      if (!authCookie) return null
-
-      const authData: AuthData = JSON.parse(authCookie.value)
-      
-      // Check if expired
-      if (new Date() > new Date(authData.expiresAt)) {
-        return null
-      }
-
-      return authData
-    } catch (error) {
-      console.error('Error parsing auth cookie:', error)
+  // Get authentication from cookie (for API routes); null when missing, tampered with or expired
+  static async getAuthFromCookie(request: NextRequest): Promise<AuthData | null> {
+    if (!this.isConfigured()) return null
+
+    const authCookie = request.cookies.get(AUTH_COOKIE_NAME)
+    if (!authCookie) return null
+
+    const authData = await SignedTokenService.verify<AuthData>(authCookie.value, this.getSecret())
+    if (!authData || new Date() > new Date(authData.expiresAt)) {
       return null
     }
-  }
 
-  // Clear authentication cookie
-  static clearAuthCookie(response: NextResponse): NextResponse {
-    response.cookies.delete(AUTH_COOKIE_NAME)
-    return response
+    return authData
   }
 
-  // Client-side methods for components
-  static setClientAuth(phoneNumber: string): void {
-    const now = new Date()
-    const expiresAt = new Date(now.getTime() + (AUTH_EXPIRY_DAYS * 24 * 60 * 60 * 1000))
-    
-    const authData: AuthData = {
-      phoneNumber,
-      verifiedAt: now.toISOString(),
-      expiresAt: expiresAt.toISOString()
+  /**
+   * Check that the request's session covers the phone number and form type it acts on.
+   * Returns the session, or the error and status code to respond with.
+   */
+  static async authorizeCustomer(
+    request: NextRequest,
+    phoneNumber: string | null,
+    formType?: string | null
+  ): Promise<{ auth?: AuthData, error?: string, status?: number }> {
+    if (!this.isConfigured()) {
+      return { error: 'Customer sessions are not configured', status: 503 }
     }
 
-    // Set client-side cookie (accessible to JavaScript)
-    document.cookie = `${AUTH_COOKIE_NAME}_client=${JSON.stringify(authData)}; expires=${expiresAt.toUTCString()}; path=/; SameSite=Lax${process.env.NODE_ENV === 'production' ? '; Secure' : ''}`
-  }
+    const auth = await this.getAuthFromCookie(request)
+    if (!auth) {
+      return { error: 'Authentication required', status: 401 }
+    }
 
-  static getClientAuth(): AuthData | null {
-    try {
-      if (typeof window === 'undefined') return null
-      
-      const cookies = document.cookie.split(';')
-      const authCookie = cookies.find(cookie => 
-        cookie.trim().startsWith(`${AUTH_COOKIE_NAME}_client=`)
-      )
-      
-      if (!authCookie) return null
-
-      const authValue = authCookie.split('=')[1]
-      const authData: AuthData = JSON.parse(decodeURIComponent(authValue))
-      
-      // Check if expired
-      if (new Date() > new Date(authData.expiresAt)) {
-        this.clearClientAuth()
-        return null
-      }
-
-      return authData
-    } catch (error) {
-      console.error('Error getting client auth:', error)
-      return null
+    if (!phoneNumber || normalizePhone(phoneNumber) !== auth.phoneNumber) {
+      return { error: 'Phone number does not match the verified session', status: 403 }
+    }
+
+    if (auth.formType && formType && formType !== auth.formType) {
+      return { error: 'Form type does not match the verified session', status: 403 }
     }
+
+    return { auth }
   }
 
-  static clearClientAuth(): void {
-    if (typeof window === 'undefined') return
-    
-    document.cookie = `${AUTH_COOKIE_NAME}_client=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;`
+  // Clear authentication cookie
+  static clearAuthCookie(response: NextResponse): NextResponse {
+    response.cookies.delete(AUTH_COOKIE_NAME)
+    return response
   }
 
-  static isPhoneVerified(phoneNumber: string): boolean {
-    const auth = this.getClientAuth()
-    return auth !== null && auth.phoneNumber === phoneNumber
+  private static getSecret(): string {
+    const secret = process.env.CUSTOMER_SESSION_SECRET
+    if (!secret) {
+      throw new Error('CUSTOMER_SESSION_SECRET is not configured')
+    }
+    return secret
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,343 @@
+import { SupabaseService } from './supabase-service'
+import { BatchReminderService } from './batch-reminder-service'
+import { SendingWindowService } from './sending-window-service'
+import { BatchJob, BatchJobStatus, BatchJobRecipient, BatchProgress, BatchRecipient } from './supabase'
+
+type StepOutcome = 'sent' | 'failed' | 'skipped' | 'deferred' | 'completed'
+
+export class BatchJobService {
+  private static readonly LEASE_DURATION = 5 * 60 * 1000 // A step sends one message, far less than this
+  private static readonly MAX_STEPS_PER_JOB = 50 // Skipped recipients need no delay, keep going within one tick
+  static readonly ACTIVE_STATUSES: BatchJobStatus[] = ['scheduled', 'queued', 'running']
+
+  /**
+   * Persist a batch as a job with one row per recipient.
+   * The worker picks it up at `scheduledFor`, or on its next tick when omitted.
+   */
+  static async enqueueBatch(recipients: BatchRecipient[], scheduledFor?: Date): Promise<BatchJob | null> {
+    const now = new Date()
+    const isScheduled = !!scheduledFor && scheduledFor.getTime() > now.getTime()
+
+    return await SupabaseService.createBatchJob(
+      {
+        status: isScheduled ? 'scheduled' : 'queued',
+        scheduled_for: isScheduled ? scheduledFor.toISOString() : undefined,
+        next_run_at: (isScheduled ? scheduledFor : now).toISOString(),
+        total_count: recipients.length,
+        sent_count: 0,
+        failed_count: 0,
+        skipped_count: 0,
+        sent_in_block: 0
+      },
+      recipients.map((recipient, index) => ({
+        position: index,
+        phone_number: recipient.phoneNumber,
+        form_type: recipient.formType,
+        reminder_type: recipient.reminderType,
+        status: 'pending'
+      }))
+    )
+  }
+
+  static async getJob(jobId: string): Promise<{ job: BatchJob, recipients: BatchJobRecipient[] } | null> {
+    const job = await SupabaseService.getBatchJob(jobId)
+    if (!job) return null
+
+    const recipients = await SupabaseService.getBatchJobRecipients(jobId)
+    return { job, recipients }
+  }
+
+  static async listJobs(limit: number = 50): Promise<BatchJob[]> {
+    return await SupabaseService.getBatchJobs(limit)
+  }
+
+  /**
+   * Live progress of a job for the admin page, including per-recipient errors
+   */
+  static async getProgress(jobId: string): Promise<BatchProgress | null> {
+    const job = await SupabaseService.getBatchJob(jobId)
+    if (!job) return null
+
+    const problemRecipients = await SupabaseService.getBatchJobRecipients(jobId, ['failed', 'skipped'])
+    const processed = job.sent_count + job.failed_count + job.skipped_count
+    const currentStatus = this.getProgressStatus(job)
+
+    // Time until the next message (break / window / scheduled start) on top of the per-message average
+    const waitRemaining = Math.max(0, new Date(job.next_run_at).getTime() - Date.now())
+    const isActive = this.ACTIVE_STATUSES.includes(job.status)
+
+    return {
+      jobId: job.id,
+      totalCount: job.total_count,
+      sentCount: job.sent_count,
+      failedCount: job.failed_count,
+      skippedCount: job.skipped_count,
+      currentRecipient: job.current_recipient || undefined,
+      currentStatus,
+      estimatedTimeRemaining: isActive
+        ? BatchReminderService.estimateRemainingTime(
+          processed,
+          job.total_count,
+          job.started_at ? new Date(job.started_at).getTime() : Date.now(),
+          currentStatus === 'sleeping' || currentStatus === 'waiting_window' || currentStatus === 'scheduled' ? waitRemaining : 0
+        )
+        : 0,
+      nextRunAt: isActive ? job.next_run_at : undefined,
+      nextWindowAt: currentStatus === 'waiting_window' ? job.next_run_at : undefined,
+      lastError: job.last_error || undefined,
+      errors: problemRecipients.map(recipient => ({
+        phoneNumber: recipient.phone_number,
+        error: recipient.error || 'Unknown error',
+        status: recipient.status
+      }))
+    }
+  }
+
+  private static getProgressStatus(job: BatchJob): BatchProgress['currentStatus'] {
+    switch (job.status) {
+      case 'scheduled':
+        return 'scheduled'
+      case 'queued':
+        return 'preparing'
+      case 'running':
+        return job.current_phase || 'sending'
+      default:
+        return job.status
+    }
+  }
+
+  static async pauseJob(jobId: string): Promise<{ success: boolean, job?: BatchJob, error?: string }> {
+    const job = await SupabaseService.getBatchJob(jobId)
+    if (!job) {
+      return { success: false, error: 'Job not found' }
+    }
+
+    if (!this.ACTIVE_STATUSES.includes(job.status)) {
+      return { success: false, error: `Cannot pause a ${job.status} job` }
+    }
+
+    const updated = await SupabaseService.updateBatchJob(jobId, { status: 'paused' })
+    return updated ? { success: true, job: updated } : { success: false, error: 'Failed to pause job' }
+  }
+
+  static async resumeJob(jobId: string): Promise<{ success: boolean, job?: BatchJob, error?: string }> {
+    const job = await SupabaseService.getBatchJob(jobId)
+    if (!job) {
+      return { success: false, error: 'Job not found' }
+    }
+
+    if (job.status !== 'paused') {
+      return { success: false, error: `Cannot resume a ${job.status} job` }
+    }
+
+    // A job paused before its scheduled time goes back to waiting for it
+    const now = new Date()
+    const scheduledFor = job.scheduled_for ? new Date(job.scheduled_for) : null
+    const stillScheduled = !job.started_at && !!scheduledFor && scheduledFor.getTime() > now.getTime()
+
+    const updated = await SupabaseService.updateBatchJob(jobId, {
+      status: job.started_at ? 'running' : stillScheduled ? 'scheduled' : 'queued',
+      next_run_at: (stillScheduled ? scheduledFor : now).toISOString()
+    })
+    return updated ? { success: true, job: updated } : { success: false, error: 'Failed to resume job' }
+  }
+
+  static async cancelJob(jobId: string): Promise<{ success: boolean, job?: BatchJob, error?: string }> {
+    const job = await SupabaseService.getBatchJob(jobId)
+    if (!job) {
+      return { success: false, error: 'Job not found' }
+    }
+
+    if (!this.ACTIVE_STATUSES.includes(job.status) && job.status !== 'paused') {
+      return { success: false, error: `Cannot cancel a ${job.status} job` }
+    }
+
+    const updated = await SupabaseService.updateBatchJob(jobId, {
+      status: 'cancelled',
+      completed_at: new Date().toISOString()
+    })
+    if (!updated) {
+      return { success: false, error: 'Failed to cancel job' }
+    }
+
+    const skipped = await SupabaseService.skipPendingRecipients(jobId, 'Batch cancelled')
+    const final = await SupabaseService.updateBatchJob(jobId, { skipped_count: updated.skipped_count + skipped })
+    return { success: true, job: final || updated }
+  }
+
+  /**
+   * Worker tick: advance every due job by one message (plus any recipients that are skipped).
+   * Safe to call often and from several places - each job is leased before it is touched,
+   * and all progress lives in the database, so a restart just continues on the next tick.
+   */
+  static async runDueJobs(): Promise<{ jobsProcessed: number, sent: number, failed: number, skipped: number, deferred: number, completed: number }> {
+    const summary = { jobsProcessed: 0, sent: 0, failed: 0, skipped: 0, deferred: 0, completed: 0 }
+    const dueJobs = await SupabaseService.getDueBatchJobs()
+
+    for (const dueJob of dueJobs) {
+      const job = await SupabaseService.claimBatchJob(dueJob.id!, new Date(Date.now() + this.LEASE_DURATION))
+      if (!job) {
+        // Another worker took it
+        continue
+      }
+
+      summary.jobsProcessed++
+
+      try {
+        let current: BatchJob = job
+        for (let step = 0; step < this.MAX_STEPS_PER_JOB; step++) {
+          if (step > 0) {
+            // A pause or cancel made while skipping recipients stops the job before the next send
+            const latest = await SupabaseService.getBatchJob(job.id!)
+            if (!latest || !this.ACTIVE_STATUSES.includes(latest.status)) break
+            current = latest
+          }
+
+          const { outcome, job: next } = await this.runJobStep(current)
+          summary[outcome]++
+          current = next
+          if (outcome !== 'skipped') break
+        }
+      } catch (error) {
+        console.error(`Error running batch job ${job.id}:`, error)
+        await SupabaseService.updateBatchJob(job.id!, {
+          last_error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      } finally {
+        await SupabaseService.updateBatchJob(job.id!, { locked_until: null })
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Send to the next pending recipient of a leased job and schedule the following step
+   */
+  private static async runJobStep(job: BatchJob): Promise<{ outcome: StepOutcome, job: BatchJob }> {
+    const now = new Date()
+
+    // Hold the job until sending is allowed (night, Shabbat, holidays)
+    const settings = await SendingWindowService.getSettings()
+    if (!SendingWindowService.isWithinWindow(now, settings)) {
+      const nextWindow = SendingWindowService.getNextAllowedTime(now, settings)
+      if (!nextWindow) {
+        const failed = await SupabaseService.updateBatchJob(job.id!, {
+          status: 'failed',
+          last_error: 'No sending window available',
+          completed_at: now.toISOString()
+        })
+        return { outcome: 'failed', job: failed || job }
+      }
+
+      console.log(`🌙 Batch job ${job.id} outside sending window - next run ${SendingWindowService.formatIsraelTime(nextWindow)}`)
+      const deferred = await SupabaseService.updateBatchJob(job.id!, {
+        next_run_at: nextWindow.toISOString(),
+        current_phase: 'waiting_window'
+      })
+      return { outcome: 'deferred', job: deferred || job }
+    }
+
+    const recipient = await SupabaseService.getNextPendingRecipient(job.id!)
+    if (!recipient) {
+      const interrupted = await SupabaseService.failInterruptedRecipients(job.id!, 'Interrupted while sending - not retried to avoid a duplicate message')
+      const counted = interrupted > 0
+        ? await SupabaseService.updateBatchJob(job.id!, { failed_count: job.failed_count + interrupted })
+        : null
+      const completed = await this.completeJob(counted || job)
+      return { outcome: 'completed', job: completed }
+    }
+
+    // Claimed before sending, so a crash after the send can't lead to the message going out twice
+    if (!await SupabaseService.claimBatchJobRecipient(recipient.id!, now.toISOString())) {
+      return { outcome: 'deferred', job }
+    }
+
+    // Status is only written on the first step, so a pause made while sending isn't overwritten
+    const started = await SupabaseService.updateBatchJob(job.id!, {
+      ...(job.status !== 'running' && { status: 'running', started_at: job.started_at || now.toISOString() }),
+      current_phase: 'sending',
+      current_recipient: recipient.phone_number
+    })
+    job = started || job
+
+    const [prepared] = await BatchReminderService.prepareRecipients([{
+      phoneNumber: recipient.phone_number,
+      formType: recipient.form_type,
+      reminderType: recipient.reminder_type
+    }])
+
+    let outcome: 'sent' | 'failed' | 'skipped'
+    let error: string | null = null
+
+    if (!prepared) {
+      outcome = 'skipped'
+      error = 'No submission found'
+    } else {
+      const result = await BatchReminderService.sendSingleReminder(prepared)
+      outcome = result.success ? 'sent' : 'failed'
+      error = result.success ? null : result.error || 'Send failed'
+    }
+
+    await SupabaseService.updateBatchJobRecipient(recipient.id!, {
+      status: outcome,
+      error,
+      attempted_at: now.toISOString()
+    })
+
+    if (outcome === 'sent') {
+      console.log(`✅ Batch job ${job.id}: sent ${recipient.reminder_type} to ${recipient.phone_number}`)
+    } else {
+      console.warn(`Batch job ${job.id}: ${outcome} ${recipient.phone_number} - ${error}`)
+    }
+
+    // Only write the counter that changed, so a concurrent cancel's skipped_count isn't overwritten
+    const updates: Partial<BatchJob> = outcome === 'sent'
+      ? { sent_count: job.sent_count + 1 }
+      : outcome === 'failed'
+        ? { failed_count: job.failed_count + 1, last_error: error }
+        : { skipped_count: job.skipped_count + 1 }
+
+    const processed = job.sent_count + job.failed_count + job.skipped_count + 1
+    if (processed >= job.total_count) {
+      const updated = await SupabaseService.updateBatchJob(job.id!, updates)
+      return { outcome, job: await this.completeJob(updated || job) }
+    }
+
+    if (outcome === 'skipped') {
+      // Nothing was sent, the next recipient may go right away
+      const updated = await SupabaseService.updateBatchJob(job.id!, updates)
+      return { outcome, job: updated || job }
+    }
+
+    const sentInBlock = job.sent_in_block + 1
+    const { delay, isBreak } = BatchReminderService.getNextDelay(sentInBlock)
+    if (isBreak) {
+      console.log(`💤 Batch job ${job.id}: taking a ${Math.round(delay / 60000)}-minute break after ${sentInBlock} messages`)
+    }
+
+    const updated = await SupabaseService.updateBatchJob(job.id!, {
+      ...updates,
+      sent_in_block: isBreak ? 0 : sentInBlock,
+      current_phase: isBreak ? 'sleeping' : 'waiting',
+      next_run_at: new Date(now.getTime() + delay).toISOString()
+    })
+    return { outcome, job: updated || job }
+  }
+
+  private static async completeJob(job: BatchJob): Promise<BatchJob> {
+    // Re-read so a cancel that raced with the last send isn't overwritten
+    const current = await SupabaseService.getBatchJob(job.id!)
+    if (current && current.status === 'cancelled') {
+      return current
+    }
+
+    console.log(`Batch job ${job.id} completed: ${job.sent_count} sent, ${job.failed_count} failed, ${job.skipped_count} skipped`)
+    const completed = await SupabaseService.updateBatchJob(job.id!, {
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      current_phase: null
+    })
+    return completed || job
+  }
+}
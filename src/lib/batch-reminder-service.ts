@@ -1,10 +1,6 @@
 import { SupabaseService } from './supabase-service'
 import { ReminderService } from './reminder-service'
-import { 
-  BatchRecipient, 
-  BatchProgress, 
-  BatchResult
-} from './supabase'
+import { BatchRecipient } from './supabase'
 
 export class BatchReminderService {
   private static readonly MIN_MESSAGE_DELAY = 2 * 60 * 1000 // 2 minutes in milliseconds
@@ -12,128 +8,10 @@ export class BatchReminderService {
   private static readonly BATCH_SIZE = 20 // Messages before long break
   private static readonly BATCH_BREAK_DURATION = 30 * 60 * 1000 // 30 minutes in milliseconds
 
-  /**
-   * Process a batch of selected reminder candidates with smart rate limiting
-   * @param recipients Array of selected recipients with their reminder types
-   * @param progressCallback Optional callback to track progress
-   * @returns BatchResult with statistics and errors
-   */
-  static async processBatchReminders(
-    recipients: BatchRecipient[],
-    progressCallback?: (progress: BatchProgress) => void
-  ): Promise<BatchResult> {
-    const startTime = Date.now()
-    const result: BatchResult = {
-      success: true,
-      totalSent: 0,
-      totalFailed: 0,
-      errors: [],
-      duration: 0
-    }
-
-    if (recipients.length === 0) {
-      return { ...result, duration: Date.now() - startTime }
-    }
-
-    console.log(`Starting batch reminder processing for ${recipients.length} recipients`)
-
-    // Prepare recipients by validating and enriching data
-    const preparedRecipients = await this.prepareRecipients(recipients)
-    
-    let processedCount = 0
-    let sentInCurrentBatch = 0
-
-    for (const recipient of preparedRecipients) {
-      try {
-        // Update progress
-        const progress: BatchProgress = {
-          totalCount: recipients.length,
-          sentCount: result.totalSent,
-          failedCount: result.totalFailed,
-          currentRecipient: recipient.phoneNumber,
-          currentStatus: 'sending',
-          estimatedTimeRemaining: this.estimateRemainingTime(
-            processedCount, 
-            recipients.length, 
-            startTime
-          )
-        }
-        progressCallback?.(progress)
-
-        // Send the reminder
-        const sendResult = await this.sendSingleReminder(recipient)
-        
-        if (sendResult.success) {
-          result.totalSent++
-          console.log(`✅ Sent reminder to ${recipient.phoneNumber} (${recipient.reminderType})`)
-        } else {
-          result.totalFailed++
-          result.errors.push({
-            phoneNumber: recipient.phoneNumber,
-            error: sendResult.error || 'Unknown error'
-          })
-          console.error(`❌ Failed to send to ${recipient.phoneNumber}: ${sendResult.error}`)
-        }
-
-        processedCount++
-        sentInCurrentBatch++
-
-        // Check if we need a long break (every 20 sends)
-        if (sentInCurrentBatch >= this.BATCH_SIZE && processedCount < recipients.length) {
-          console.log(`💤 Taking 30-minute break after ${sentInCurrentBatch} messages...`)
-          
-          const sleepProgress: BatchProgress = {
-            ...progress,
-            currentStatus: 'sleeping',
-            estimatedTimeRemaining: this.estimateRemainingTime(
-              processedCount, 
-              recipients.length, 
-              startTime,
-              this.BATCH_BREAK_DURATION
-            )
-          }
-          progressCallback?.(sleepProgress)
-
-          await this.sleep(this.BATCH_BREAK_DURATION)
-          sentInCurrentBatch = 0
-        } else if (processedCount < recipients.length) {
-          // Random delay between messages (2-5 minutes)
-          const delay = this.getRandomDelay()
-          console.log(`⏱️  Waiting ${Math.round(delay / 1000 / 60)} minutes before next message...`)
-          await this.sleep(delay)
-        }
-
-      } catch (error) {
-        result.totalFailed++
-        result.errors.push({
-          phoneNumber: recipient.phoneNumber,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
-        console.error(`Error processing ${recipient.phoneNumber}:`, error)
-      }
-    }
-
-    result.duration = Date.now() - startTime
-    result.success = result.totalFailed === 0
-
-    // Final progress update
-    const finalProgress: BatchProgress = {
-      totalCount: recipients.length,
-      sentCount: result.totalSent,
-      failedCount: result.totalFailed,
-      currentStatus: 'completed'
-    }
-    progressCallback?.(finalProgress)
-
-    console.log(`Batch processing completed: ${result.totalSent} sent, ${result.totalFailed} failed in ${Math.round(result.duration / 1000 / 60)} minutes`)
-    
-    return result
-  }
-
   /**
    * Prepare recipients by validating data and enriching with submission details
    */
-  private static async prepareRecipients(recipients: BatchRecipient[]): Promise<BatchRecipient[]> {
+  static async prepareRecipients(recipients: BatchRecipient[]): Promise<BatchRecipient[]> {
     const prepared: BatchRecipient[] = []
 
     for (const recipient of recipients) {
@@ -169,7 +47,7 @@ export class BatchReminderService {
   /**
    * Send a single reminder to a recipient
    */
-  private static async sendSingleReminder(recipient: BatchRecipient): Promise<{success: boolean, error?: string}> {
+  static async sendSingleReminder(recipient: BatchRecipient): Promise<{success: boolean, error?: string}> {
     try {
       if (recipient.reminderType === 'first_message') {
         // Handle first message (customers without forms)
@@ -227,6 +105,17 @@ export class BatchReminderService {
     }
   }
 
+  /**
+   * Delay before the next message of a batch, given how many were sent since the last long break:
+   * a 30-minute break every 20 messages, otherwise a random 2-5 minute gap
+   */
+  static getNextDelay(sentInBlock: number): { delay: number, isBreak: boolean } {
+    if (sentInBlock >= this.BATCH_SIZE) {
+      return { delay: this.BATCH_BREAK_DURATION, isBreak: true }
+    }
+    return { delay: this.getRandomDelay(), isBreak: false }
+  }
+
   /**
    * Generate random delay between min and max message delays
    */
@@ -236,28 +125,21 @@ export class BatchReminderService {
     return Math.floor(Math.random() * (max - min + 1)) + min
   }
 
-  /**
-   * Sleep for specified duration
-   */
-  private static sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
-
   /**
    * Estimate remaining time based on current progress
    */
-  private static estimateRemainingTime(
-    processed: number, 
-    total: number, 
+  static estimateRemainingTime(
+    processed: number,
+    total: number,
     startTime: number,
     additionalDelay: number = 0
   ): number {
-    if (processed === 0) return 0
-    
+    if (processed === 0) return this.estimateBatchDuration(total) + additionalDelay
+
     const elapsed = Date.now() - startTime
     const avgTimePerItem = elapsed / processed
     const remaining = total - processed
-    
+
     return Math.round((remaining * avgTimePerItem) + additionalDelay)
   }
 
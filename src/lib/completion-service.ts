@@ -0,0 +1,159 @@
+import { CustomerSubmission, FileReviewStatus, UploadedFile } from './supabase'
+import { PeriodSlot, getFieldFileLimits, getFieldPeriod, getPeriodCoverage, getPeriodSlots, getReferenceDate } from './form-fields'
+import { getFieldDefinition, getFormTypeFields } from './form-definitions'
+
+// Enough of a submission to work out its progress; the customer form may not have saved one yet
+export type CompletionSubject = Pick<CustomerSubmission, 'form_type'> & Partial<CustomerSubmission>
+
+// Which document fields have enough files, worked out from the files themselves
+export interface FieldProgress {
+  submittedFields: string[]
+  approvedFields: string[]
+  missingPeriods: Record<string, string[]> // Period field slug -> slots without a file
+  hasFiles: boolean
+}
+
+// One line of the form: a document field, or a section the customer picks requiredCount options from
+export interface CompletionItem {
+  slug: string
+  number: number
+  name: string
+  optional: boolean
+  waived: boolean
+  submitted: boolean
+  approved: boolean
+  requiredCount?: number
+  options?: Array<{ slug: string, name: string, submitted: boolean, approved: boolean }>
+  missingPeriods: PeriodSlot[]
+}
+
+export interface CompletionReport {
+  items: CompletionItem[]
+  required: number // Items the customer has to provide: not optional and not waived
+  submitted: number
+  approved: number
+  missing: CompletionItem[] // Required items still waiting for uploads
+  awaitingReview: CompletionItem[] // Uploaded but not approved yet
+  status: CustomerSubmission['status']
+}
+
+const getFieldName = (fieldSlug: string, fallback: string) => getFieldDefinition(fieldSlug)?.name || fallback
+
+export class CompletionService {
+  /**
+   * Which fields have enough files that weren't rejected (submitted) and enough approved files.
+   * A field needs its minFiles, a period field needs its files for every month or week. Files
+   * outside the form (e.g. the generated application PDF) are ignored.
+   */
+  static getFieldProgress(submission: CompletionSubject, files: UploadedFile[]): FieldProgress {
+    const formSlugs = new Set(getFormTypeFields(submission.form_type).flatMap(field =>
+      field.isSection ? (field.options || []).map(option => option.slug) : [field.fieldSlug]
+    ))
+    const formFiles = files.filter(file => formSlugs.has(file.field_slug))
+    const referenceDate = getReferenceDate(submission)
+
+    const slugsWith = (statuses: FileReviewStatus[]) => {
+      const matching = formFiles.filter(file => statuses.includes(file.review_status || 'pending'))
+      return [...new Set(matching.map(file => file.field_slug))].filter(slug => getFieldPeriod(slug)
+        ? getPeriodCoverage(slug, referenceDate, matching).slots.every(coverage => coverage.complete)
+        : matching.filter(file => file.field_slug === slug).length >= getFieldFileLimits(slug).minFiles)
+    }
+
+    const activeFiles = formFiles.filter(file => file.review_status !== 'rejected')
+    const missingPeriods: Record<string, string[]> = {}
+    for (const slug of formSlugs) {
+      if (!getFieldPeriod(slug)) continue
+      missingPeriods[slug] = getPeriodCoverage(slug, referenceDate, activeFiles).slots
+        .filter(coverage => !coverage.complete)
+        .map(coverage => coverage.slot.key)
+    }
+
+    return {
+      submittedFields: slugsWith(['pending', 'approved']),
+      approvedFields: slugsWith(['approved']),
+      missingPeriods,
+      hasFiles: activeFiles.length > 0
+    }
+  }
+
+  /**
+   * Apply the form's structure to the field progress: sections are done once requiredCount of
+   * their options are, optional and waived items don't hold the form back, and the submission
+   * is completed when every remaining item is approved. Without progress, the one stored on
+   * the submission is used.
+   */
+  static evaluate(submission: CompletionSubject, progress?: FieldProgress): CompletionReport {
+    const { submittedFields, approvedFields, missingPeriods, hasFiles } = progress || {
+      submittedFields: submission.submitted_fields || [],
+      approvedFields: submission.approved_fields || [],
+      missingPeriods: submission.missing_periods || {},
+      hasFiles: (submission.submitted_fields || []).length > 0 || (!!submission.status && submission.status !== 'new')
+    }
+    const waivedFields = submission.waived_fields || []
+    const referenceDate = getReferenceDate(submission)
+
+    const items: CompletionItem[] = []
+    for (const field of getFormTypeFields(submission.form_type)) {
+      if (field.isSection) {
+        const options = (field.options || []).map(option => ({
+          slug: option.slug,
+          name: getFieldName(option.slug, option.label),
+          submitted: submittedFields.includes(option.slug),
+          approved: approvedFields.includes(option.slug)
+        }))
+        if (options.length === 0) continue
+
+        const requiredCount = Math.min(field.requiredCount || options.length, options.length)
+        items.push({
+          slug: field.fieldSlug,
+          number: field.number,
+          name: field.sectionTitle || field.fieldSlug,
+          optional: !!field.optional,
+          waived: waivedFields.includes(field.fieldSlug),
+          submitted: options.filter(option => option.submitted).length >= requiredCount,
+          approved: options.filter(option => option.approved).length >= requiredCount,
+          requiredCount,
+          options,
+          missingPeriods: []
+        })
+        continue
+      }
+
+      const missingKeys = missingPeriods[field.fieldSlug] || []
+      items.push({
+        slug: field.fieldSlug,
+        number: field.number,
+        name: getFieldName(field.fieldSlug, field.fieldSlug),
+        optional: !!field.optional,
+        waived: waivedFields.includes(field.fieldSlug),
+        submitted: submittedFields.includes(field.fieldSlug),
+        approved: approvedFields.includes(field.fieldSlug),
+        missingPeriods: missingKeys.length > 0
+          ? getPeriodSlots(field.fieldSlug, referenceDate).filter(slot => missingKeys.includes(slot.key))
+          : []
+      })
+    }
+
+    const requiredItems = items.filter(item => !item.optional && !item.waived)
+    const approved = requiredItems.filter(item => item.approved).length
+    const submitted = requiredItems.filter(item => item.submitted).length
+
+    const status: CustomerSubmission['status'] = items.length > 0 && approved === requiredItems.length
+      ? 'completed'
+      : hasFiles || items.some(item => item.submitted) ? 'in-progress' : 'new'
+
+    return {
+      items,
+      required: requiredItems.length,
+      submitted,
+      approved,
+      missing: requiredItems.filter(item => !item.submitted),
+      awaitingReview: items.filter(item => !item.waived && item.submitted && !item.approved),
+      status
+    }
+  }
+
+  static getReport(submission: CompletionSubject, files: UploadedFile[]): CompletionReport {
+    return this.evaluate(submission, this.getFieldProgress(submission, files))
+  }
+}
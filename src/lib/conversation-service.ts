@@ -0,0 +1,156 @@
+import { SupabaseService } from './supabase-service'
+import { ConversationSession, ConversationState, ConversationContext, InboxConversation, MessageLog } from './supabase'
+
+export class ConversationService {
+  // How long each state stays valid without a reply from the customer (minutes)
+  private static readonly STATE_TIMEOUT_MINUTES: Record<ConversationState, number> = {
+    menu: 24 * 60,
+    awaiting_file: 24 * 60,
+    awaiting_field_choice: 30,
+    awaiting_confirmation: 30,
+    human: 72 * 60
+  }
+
+  // Messages that always bring the customer back to the main menu
+  private static readonly RESET_COMMANDS = ['תפריט', 'menu', 'ביטול', 'cancel', 'התחל', 'start']
+
+  // Messages that hand the conversation to the team from any step
+  private static readonly HANDOFF_COMMANDS = ['נציג', 'נציגה', 'נציג אנושי', 'agent', 'human']
+
+  // Text that goes with sending a document ("sending it now", "the photo is attached") keeps the bot waiting for the file
+  private static readonly UPLOAD_INTENT_PATTERN = /מסמך|קובץ|צילום|תמונה|שולח|אשלח|מצרף|מצורף|מעלה|להעלות|upload|file|photo|sending|attach/i
+
+  static isResetCommand(message: string): boolean {
+    return this.RESET_COMMANDS.includes(message.toLowerCase().trim())
+  }
+
+  static isHandoffCommand(message: string): boolean {
+    return this.HANDOFF_COMMANDS.includes(message.toLowerCase().trim())
+  }
+
+  // Questions aren't upload intents, even when they mention a document
+  static isUploadIntent(message: string): boolean {
+    return !message.includes('?') && this.UPLOAD_INTENT_PATTERN.test(message)
+  }
+
+  /**
+   * Load the current session for a phone number. Expired sessions are
+   * treated as a fresh conversation at the main menu.
+   */
+  static async getSession(phoneNumber: string): Promise<ConversationSession> {
+    const session = await SupabaseService.getConversationSession(phoneNumber)
+
+    if (!session || new Date(session.expires_at).getTime() < Date.now()) {
+      if (session) {
+        await SupabaseService.deleteConversationSession(phoneNumber)
+      }
+      return this.buildSession(phoneNumber, 'menu', {})
+    }
+
+    return { ...session, context: session.context || {} }
+  }
+
+  /**
+   * Move the conversation to a new state, replacing its context and
+   * restarting the timeout for that state.
+   */
+  static async setState(
+    phoneNumber: string,
+    state: ConversationState,
+    context: ConversationContext = {}
+  ): Promise<ConversationSession> {
+    const session = this.buildSession(phoneNumber, state, context)
+    await SupabaseService.upsertConversationSession(session)
+    return session
+  }
+
+  // Drop any multi-step flow and return to the main menu
+  static async reset(phoneNumber: string): Promise<void> {
+    await SupabaseService.deleteConversationSession(phoneNumber)
+  }
+
+  // A team member takes over the chat; the bot stops auto-replying until released
+  static async startHandoff(phoneNumber: string): Promise<ConversationSession> {
+    return await this.setState(phoneNumber, 'human')
+  }
+
+  static async endHandoff(phoneNumber: string): Promise<void> {
+    await this.reset(phoneNumber)
+  }
+
+  static async isHumanHandling(phoneNumber: string): Promise<boolean> {
+    const session = await this.getSession(phoneNumber)
+    return session.state === 'human'
+  }
+
+  /**
+   * Build the admin inbox: one entry per phone number that wrote to us
+   * recently, with the number of customer messages since our last reply.
+   * Conversations handled by a team member are always listed.
+   */
+  static async getInbox(messageLimit: number = 1000): Promise<InboxConversation[]> {
+    const [messages, humanSessions, customers] = await Promise.all([
+      SupabaseService.getRecentMessages(messageLimit),
+      SupabaseService.getConversationSessionsByState('human'),
+      SupabaseService.getAllCustomers()
+    ])
+
+    // Messages arrive newest first
+    const messagesByPhone = new Map<string, MessageLog[]>()
+    for (const message of messages) {
+      const list = messagesByPhone.get(message.phone_number) || []
+      list.push(message)
+      messagesByPhone.set(message.phone_number, list)
+    }
+
+    const humanByPhone = new Map(humanSessions.map(s => [s.phone_number, s]))
+    const conversations: InboxConversation[] = []
+
+    for (const [phoneNumber, phoneMessages] of messagesByPhone) {
+      const humanSession = humanByPhone.get(phoneNumber)
+      const lastIncoming = phoneMessages.find(m => m.direction === 'incoming')
+      if (!lastIncoming && !humanSession) continue
+
+      // Count customer messages until the first reply by a team member
+      let unansweredCount = 0
+      for (const message of phoneMessages) {
+        if (message.direction === 'incoming') {
+          unansweredCount++
+        } else if (message.message_type === 'manual') {
+          break
+        }
+      }
+
+      const customer = customers.find(c => c.phone_number === phoneNumber)
+      const customerName = [customer?.name, customer?.family_name].filter(Boolean).join(' ')
+
+      conversations.push({
+        phone_number: phoneNumber,
+        customer_name: customerName || undefined,
+        last_message: phoneMessages[0],
+        last_incoming_at: lastIncoming?.sent_at,
+        unanswered_count: unansweredCount,
+        human_handling: !!humanSession,
+        handoff_expires_at: humanSession?.expires_at
+      })
+    }
+
+    return conversations.sort((a, b) =>
+      new Date(b.last_message.sent_at).getTime() - new Date(a.last_message.sent_at).getTime()
+    )
+  }
+
+  private static buildSession(
+    phoneNumber: string,
+    state: ConversationState,
+    context: ConversationContext
+  ): ConversationSession {
+    const timeoutMs = this.STATE_TIMEOUT_MINUTES[state] * 60 * 1000
+    return {
+      phone_number: phoneNumber,
+      state,
+      context,
+      expires_at: new Date(Date.now() + timeoutMs).toISOString()
+    }
+  }
+}
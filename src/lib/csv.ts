@@ -0,0 +1,65 @@
+// RFC 4180 CSV: quoted fields may contain commas, line breaks and doubled quotes ("")
+
+// Parse CSV text into rows of cells. A leading BOM (added by Excel) is ignored; blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const content = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+// Spreadsheets can read text starting with = + - @, a tab or a CR as a formula; a leading ' keeps it as text.
+// Phone numbers (+972...) and plain numbers are left as they are.
+const escapeFormula = (text: string): string =>
+  /^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text) ? `'${text}` : text
+
+const escapeCsvField = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : escapeFormula(String(value))
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Build CSV text with CRLF line endings
+export const toCsv = (rows: Array<Array<string | number | boolean | null | undefined>>): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')
+
+// Excel only detects UTF-8 (and shows Hebrew correctly) when the file starts with a BOM
+export const CSV_BOM = '\uFEFF'
@@ -0,0 +1,214 @@
+import JSZip from 'jszip'
+import { SupabaseService } from './supabase-service'
+import { Customer, CustomerSubmission, FileReviewStatus, UploadedFile } from './supabase'
+import { getFieldFileLimits } from './form-fields'
+import { getFieldDefinition, getFormTypeFields } from './form-definitions'
+
+// The generated application package PDF is stored alongside the customer's uploads, but is not a form field
+export const APPLICATION_PACKAGE_SLUG = 'application-package'
+
+const MANIFEST_FILE_NAME = '00 רשימת מסמכים.html'
+
+const REVIEW_LABELS: Record<FileReviewStatus, string> = {
+  pending: '🕓 הועלה, ממתין לבדיקה',
+  approved: '✅ אושר',
+  rejected: '❌ נדחה'
+}
+
+// A required document, a mail-document option, or a file outside the form, with its files
+export interface DocumentEntry {
+  number: string
+  name: string
+  sectionTitle?: string
+  required: boolean
+  minFiles: number
+  files: Array<{ file: UploadedFile, zipName?: string }> // zipName is missing when the download failed
+}
+
+interface DocumentBundle {
+  fileName: string
+  stream: ReadableStream<Uint8Array>
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Characters that aren't allowed in file names on Windows or macOS
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '-').trim()
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : ''
+
+export class DocumentBundleService {
+  /**
+   * ZIP of every file uploaded for a submission, named "<field number>. <field name>.<ext>"
+   * in form order, with an HTML manifest of the required documents and their status.
+   * Rejected files are left out, so their documents are listed as missing, as the customer sees them.
+   * The generated application package isn't a customer upload and is left out too.
+   */
+  static async createBundle(submissionId: string): Promise<{ bundle?: DocumentBundle, error?: string }> {
+    const submission = await SupabaseService.getSubmissionById(submissionId)
+    if (!submission) {
+      return { error: 'Submission not found' }
+    }
+
+    const [files, customer] = await Promise.all([
+      SupabaseService.getUploadedFiles(submissionId),
+      SupabaseService.getCustomerByPhone(submission.phone_number),
+      SupabaseService.loadFormDefinitions()
+    ])
+
+    const entries = this.getDocumentEntries(
+      submission.form_type,
+      files.filter(file => file.field_slug !== APPLICATION_PACKAGE_SLUG && file.review_status !== 'rejected')
+    )
+    const zip = new JSZip()
+    const usedNames = new Set<string>()
+
+    // Downloaded one at a time so a large case doesn't hold every request open at once
+    for (const entry of entries) {
+      for (const item of entry.files) {
+        const contents = await SupabaseService.downloadFile(item.file.file_path)
+        if (!contents) continue
+
+        item.zipName = this.uniqueName(`${entry.number}. ${entry.name}`, item.file.file_name, usedNames)
+        zip.file(item.zipName, contents, { date: item.file.created_at ? new Date(item.file.created_at) : undefined })
+      }
+    }
+
+    zip.file(MANIFEST_FILE_NAME, this.buildManifest(submission, customer, entries), { compression: 'DEFLATE' })
+
+    const date = new Date().toISOString().slice(0, 10)
+    return {
+      bundle: {
+        fileName: `documents-${submission.phone_number.replace(/\D/g, '')}-${date}.zip`,
+        stream: this.toStream(zip)
+      }
+    }
+  }
+
+  // Required documents in form order, then any files whose field is no longer on the form
+  static getDocumentEntries(formTypeSlug: string, files: UploadedFile[]): DocumentEntry[] {
+    const filesFor = (slug: string) =>
+      files.filter(file => file.field_slug === slug)
+        .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''))
+        .map(file => ({ file }))
+
+    const entries: DocumentEntry[] = []
+    for (const field of getFormTypeFields(formTypeSlug)) {
+      if (field.isSection) {
+        (field.options || []).forEach((option, index) => {
+          entries.push({
+            number: `${field.number}.${index + 1}`,
+            name: getFieldDefinition(option.slug)?.name || option.label,
+            sectionTitle: field.sectionTitle,
+            required: false,
+            minFiles: getFieldFileLimits(option.slug).minFiles,
+            files: filesFor(option.slug)
+          })
+        })
+        continue
+      }
+
+      entries.push({
+        number: String(field.number),
+        name: getFieldDefinition(field.fieldSlug)?.name || field.fieldSlug,
+        required: true,
+        minFiles: getFieldFileLimits(field.fieldSlug).minFiles,
+        files: filesFor(field.fieldSlug)
+      })
+    }
+
+    const knownSlugs = new Set(entries.flatMap(entry => entry.files.map(item => item.file.field_slug)))
+    const otherFiles = files.filter(file => !knownSlugs.has(file.field_slug))
+    otherFiles.forEach((file, index) => {
+      entries.push({ number: `X${index + 1}`, name: file.field_name || file.field_slug, required: false, minFiles: 1, files: [{ file }] })
+    })
+
+    return entries
+  }
+
+  private static buildManifest(submission: CustomerSubmission, customer: Customer | null, entries: DocumentEntry[]): string {
+    const customerName = [customer?.name, customer?.family_name].filter(Boolean).join(' ')
+    const isMissing = (entry: DocumentEntry) => entry.required && entry.files.length < entry.minFiles
+    const missingCount = entries.filter(isMissing).length
+
+    const rows = entries.map(entry => {
+      const uploaded = entry.files.filter(item => item.zipName)
+      const failed = entry.files.length > uploaded.length
+      const count = entry.minFiles > 1 ? ` (${entry.files.length}/${entry.minFiles} קבצים)` : ''
+      const status = uploaded.length > 0
+        ? `${REVIEW_LABELS[uploaded[uploaded.length - 1].file.review_status || 'pending']}${count}${failed ? ' (חלק מהקבצים לא נכללו)' : ''}`
+        : failed ? '⚠️ לא ניתן היה לכלול את הקובץ' : entry.required ? '❌ חסר' : '—'
+
+      return `<tr class="${isMissing(entry) ? 'missing' : ''}">
+        <td>${escapeHtml(entry.number)}</td>
+        <td>${escapeHtml(entry.name)}${entry.sectionTitle ? `<div class="note">${escapeHtml(entry.sectionTitle)}</div>` : ''}</td>
+        <td>${status}</td>
+        <td>${escapeHtml(uploaded.map(item => formatDate(item.file.created_at)).join(', '))}</td>
+        <td>${escapeHtml(uploaded.map(item => item.zipName!).join(', '))}</td>
+      </tr>`
+    }).join('\n')
+
+    return `<!DOCTYPE html>
+<html lang="he" dir="rtl">
+<head>
+<meta charset="utf-8">
+<title>רשימת מסמכים - ${escapeHtml(submission.form_type_label)}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 32px; color: #111; }
+  table { border-collapse: collapse; width: 100%; margin-top: 16px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: right; vertical-align: top; font-size: 14px; }
+  th { background: #f3f4f6; }
+  tr.missing td { background: #fef2f2; }
+  .note { color: #666; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>רשימת מסמכים - ${escapeHtml(submission.form_type_label)}</h1>
+<p>
+  לקוח: ${escapeHtml(customerName || '-')}<br>
+  טלפון: ${escapeHtml(submission.phone_number)}<br>
+  ${customer?.id_number ? `ת.ז.: ${customer.id_number}<br>` : ''}
+  הופק: ${escapeHtml(formatDate(new Date().toISOString()))}<br>
+  ${missingCount > 0 ? `<strong>חסרים ${missingCount} מסמכי חובה</strong>` : '<strong>כל מסמכי החובה הועלו</strong>'}
+</p>
+<table>
+  <thead>
+    <tr><th>#</th><th>מסמך</th><th>סטטוס</th><th>תאריך העלאה</th><th>קובץ בתיקייה</th></tr>
+  </thead>
+  <tbody>
+${rows}
+  </tbody>
+</table>
+</body>
+</html>
+`
+  }
+
+  // "<base>.<ext>", or "<base> (2).<ext>" when a field has several files
+  private static uniqueName(base: string, originalName: string, usedNames: Set<string>): string {
+    const extension = originalName.includes('.') ? `.${originalName.split('.').pop()!.toLowerCase()}` : ''
+    const safeBase = sanitizeFileName(base)
+
+    let name = `${safeBase}${extension}`
+    for (let copy = 2; usedNames.has(name); copy++) {
+      name = `${safeBase} (${copy})${extension}`
+    }
+    usedNames.add(name)
+    return name
+  }
+
+  // Stream the archive as it is generated instead of building it in memory first
+  private static toStream(zip: JSZip): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        zip.generateInternalStream({ type: 'uint8array', streamFiles: true })
+          .on('data', chunk => controller.enqueue(chunk))
+          .on('error', error => controller.error(error))
+          .on('end', () => controller.close())
+          .resume()
+      }
+    })
+  }
+}
@@ -0,0 +1,155 @@
+import { SupabaseService } from './supabase-service'
+import { greenAPI } from './green-api'
+import { CustomerSubmission, PendingUpload } from './supabase'
+import { CompletionReport } from './completion-service'
+import { getFieldDefinition, getFormType } from './form-definitions'
+
+export interface IntakeField {
+  slug: string
+  name: string
+  sectionTitle?: string
+}
+
+export class DocumentIntakeService {
+  /**
+   * List the fields a customer can upload for a form type, in display order.
+   * Mail-document sections are expanded into their individual options.
+   */
+  static getRequiredFields(formTypeSlug: string): IntakeField[] {
+    const formType = getFormType(formTypeSlug)
+    if (!formType) return []
+
+    const fields: IntakeField[] = []
+
+    for (const field of formType.fields) {
+      if (field.isSection) {
+        for (const option of field.options || []) {
+          fields.push({
+            slug: option.slug,
+            name: getFieldDefinition(option.slug)?.name || option.label,
+            sectionTitle: field.sectionTitle
+          })
+        }
+        continue
+      }
+
+      fields.push({
+        slug: field.fieldSlug,
+        name: getFieldDefinition(field.fieldSlug)?.name || field.fieldSlug
+      })
+    }
+
+    return fields
+  }
+
+  static findField(formTypeSlug: string, fieldSlug: string): IntakeField | null {
+    return this.getRequiredFields(formTypeSlug).find(f => f.slug === fieldSlug) || null
+  }
+
+  /**
+   * Find the submission a file sent over WhatsApp most likely belongs to:
+   * the most recently updated submission that is not completed yet. If the
+   * customer has no submission, one is created from their criterion.
+   */
+  static async findOpenSubmission(phoneNumber: string): Promise<CustomerSubmission | null> {
+    const submissions = await SupabaseService.getSubmissionsByPhone(phoneNumber)
+    const open = submissions.find(s => s.status !== 'completed')
+    if (open) return open
+
+    if (submissions.length > 0) return submissions[0]
+
+    const customer = await SupabaseService.getCustomerByPhone(phoneNumber)
+    if (!customer?.criterion) return null
+
+    await SupabaseService.loadFormDefinitions()
+    const formType = getFormType(customer.criterion)
+    if (!formType) return null
+
+    return await SupabaseService.getOrCreateSubmission(phoneNumber, formType.slug, formType.label)
+  }
+
+  /**
+   * Build the numbered field list sent to the customer, marking uploaded fields
+   */
+  static buildFieldChoiceMessage(fields: IntakeField[], submittedFields: string[], formTypeLabel: string): string {
+    let text = `📎 *קיבלנו את הקובץ!*\n\n`
+    text += `לאיזה מסמך בטופס "${formTypeLabel}" הקובץ שייך?\n\n`
+
+    fields.forEach((field, index) => {
+      const mark = submittedFields.includes(field.slug) ? ' ✓' : ''
+      text += `${index + 1}. ${field.name}${mark}\n`
+    })
+
+    text += '\n💬 *שלח את מספר המסמך המתאים*'
+    text += '\n❌ לביטול שלח: *ביטול*'
+    return text
+  }
+
+  /**
+   * Download a file received over WhatsApp and store it exactly like an upload
+   * made through the customer form, then refresh the submitted fields.
+   */
+  static async storeFile(
+    phoneNumber: string,
+    submission: Pick<CustomerSubmission, 'form_type' | 'form_type_label'>,
+    upload: PendingUpload,
+    field: IntakeField
+  ): Promise<{ success: boolean; submission?: CustomerSubmission; submittedFields?: string[]; completion?: CompletionReport; fieldFileCount?: number; limitReached?: boolean }> {
+    try {
+      const file = await greenAPI.downloadFile(upload.fileUrl, upload.fileName, upload.mimeType)
+      if (!file) {
+        return { success: false }
+      }
+
+      const result = await SupabaseService.handleFileUpload(
+        phoneNumber,
+        submission.form_type,
+        submission.form_type_label,
+        field.slug,
+        field.name,
+        file
+      )
+
+      if (result.limitReached) {
+        return { success: false, limitReached: true }
+      }
+
+      if (!result.success || !result.submission) {
+        return { success: false }
+      }
+
+      // Automatically mark as submitted, same as the customer form
+      const progress = await SupabaseService.syncSubmissionProgress(result.submission.id!)
+      const fieldFileCount = (progress?.files || []).filter(f => f.field_slug === field.slug && f.review_status !== 'rejected').length
+
+      return {
+        success: true,
+        submission: result.submission,
+        submittedFields: progress?.submittedFields || [],
+        completion: progress?.report,
+        fieldFileCount
+      }
+    } catch (error) {
+      console.error('Error storing WhatsApp file:', error)
+      return { success: false }
+    }
+  }
+
+  /**
+   * Fallback file name for media without one (e.g. photos taken in the chat)
+   */
+  static resolveFileName(fileName: string | undefined, mimeType: string | undefined): string {
+    if (fileName && fileName.includes('.')) return fileName
+
+    const extensions: Record<string, string> = {
+      'image/jpeg': 'jpg',
+      'image/jpg': 'jpg',
+      'image/png': 'png',
+      'application/pdf': 'pdf',
+      'application/msword': 'doc',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+    }
+    const ext = (mimeType && extensions[mimeType]) || 'jpg'
+    return `${fileName || `whatsapp-${Date.now()}`}.${ext}`
+  }
+}
@@ -0,0 +1,157 @@
+import ExcelJS from 'exceljs'
+import { SupabaseService } from './supabase-service'
+import { Customer, CustomerStatus, CustomerSubmission } from './supabase'
+import { toCsv, CSV_BOM } from './csv'
+import { CompletionService } from './completion-service'
+import { getFormTypeLabel } from './form-definitions'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json'
+export type ExportDataset = 'customers' | 'submissions'
+
+export interface SubmissionExport {
+  submission: CustomerSubmission
+  completion_percent: number
+  missing_fields: string[] // Field names, in form order
+}
+
+export interface CustomerExport {
+  phone_number: string
+  customer?: Customer // Missing when submissions exist for a phone with no customer record
+  submissions: SubmissionExport[]
+  last_interaction_at?: string
+}
+
+interface ExportColumn<T> {
+  header: string
+  value: (row: T) => string | number | undefined
+}
+
+type SubmissionExportRow = SubmissionExport & { owner: CustomerExport }
+
+const CUSTOMER_STATUS_LABELS: Record<CustomerStatus, string> = {
+  new_lead: 'ליד חדש',
+  qualified_lead: 'ליד מוכשר',
+  agreement_signed: 'הסכם נחתם',
+  ready_for_apply: 'מוכן להגשה',
+  applied: 'הוגש',
+  application_approved: 'בקשה אושרה',
+  application_declined: 'בקשה נדחתה'
+}
+
+const SUBMISSION_STATUS_LABELS: Record<CustomerSubmission['status'], string> = {
+  new: 'חדש',
+  'in-progress': 'בתהליך',
+  completed: 'הושלם'
+}
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString('he-IL', { timeZone: 'Asia/Jerusalem' }) : undefined
+
+const getFormLabel = (formType?: string) => formType ? getFormTypeLabel(formType) : undefined
+
+const CUSTOMER_COLUMNS: ExportColumn<CustomerExport>[] = [
+  { header: 'טלפון', value: row => row.phone_number },
+  { header: 'שם פרטי', value: row => row.customer?.name },
+  { header: 'שם משפחה', value: row => row.customer?.family_name },
+  { header: 'ת.ז.', value: row => row.customer?.id_number },
+  { header: 'סטטוס', value: row => row.customer ? CUSTOMER_STATUS_LABELS[row.customer.status] || row.customer.status : undefined },
+  { header: 'תבחין', value: row => getFormLabel(row.customer?.criterion) },
+  { header: 'רחוב', value: row => row.customer?.address?.street },
+  { header: 'עיר', value: row => row.customer?.address?.city },
+  { header: 'מיקוד', value: row => row.customer?.address?.zip_code },
+  { header: 'תאריך לידה', value: row => row.customer?.birth_date },
+  { header: 'טפסים', value: row => row.submissions.length },
+  { header: 'טפסים שהושלמו', value: row => row.submissions.filter(item => item.completion_percent === 100).length },
+  { header: 'אינטראקציה אחרונה', value: row => formatDate(row.last_interaction_at) },
+  { header: 'נוצר', value: row => formatDate(row.customer?.created_at) }
+]
+
+const SUBMISSION_COLUMNS: ExportColumn<SubmissionExportRow>[] = [
+  { header: 'טלפון', value: row => row.owner.phone_number },
+  { header: 'שם', value: row => [row.owner.customer?.name, row.owner.customer?.family_name].filter(Boolean).join(' ') || undefined },
+  { header: 'טופס', value: row => row.submission.form_type_label || getFormLabel(row.submission.form_type) },
+  { header: 'סטטוס', value: row => SUBMISSION_STATUS_LABELS[row.submission.status] || row.submission.status },
+  { header: 'אחוז השלמה', value: row => row.completion_percent },
+  { header: 'שדות חסרים', value: row => row.missing_fields.join('; ') },
+  { header: 'תזכורות שנשלחו', value: row => row.submission.reminder_count },
+  { header: 'תזכורת אחרונה', value: row => formatDate(row.submission.last_reminder_sent_at) },
+  { header: 'אינטראקציה אחרונה', value: row => formatDate(row.submission.last_interaction_at) },
+  { header: 'נשלח לראשונה', value: row => formatDate(row.submission.first_sent_at) },
+  { header: 'עודכן', value: row => formatDate(row.submission.updated_at) }
+]
+
+export class CustomerExportService {
+  /**
+   * Customers with their submissions, grouped by phone number the way the admin list
+   * shows them, filtered by the same phone search.
+   */
+  static async getExportData(search: string = ''): Promise<CustomerExport[]> {
+    const [customers, submissions] = await Promise.all([
+      SupabaseService.getAllCustomers(),
+      SupabaseService.getAllSubmissions(),
+      SupabaseService.loadFormDefinitions()
+    ])
+
+    const groups = new Map<string, CustomerExport>()
+    for (const customer of customers) {
+      groups.set(customer.phone_number, { phone_number: customer.phone_number, customer, submissions: [] })
+    }
+
+    for (const submission of submissions) {
+      const group = groups.get(submission.phone_number) || { phone_number: submission.phone_number, submissions: [] }
+      group.submissions.push(this.describeSubmission(submission))
+      if (submission.last_interaction_at && (!group.last_interaction_at || submission.last_interaction_at > group.last_interaction_at)) {
+        group.last_interaction_at = submission.last_interaction_at
+      }
+      groups.set(submission.phone_number, group)
+    }
+
+    return [...groups.values()].filter(group => group.phone_number.includes(search))
+  }
+
+  // Completion is the share of required items approved, as in the admin list
+  static describeSubmission(submission: CustomerSubmission): SubmissionExport {
+    const report = CompletionService.evaluate(submission)
+
+    return {
+      submission,
+      completion_percent: report.required > 0
+        ? Math.round((report.approved / report.required) * 100)
+        : report.status === 'completed' ? 100 : 0,
+      missing_fields: report.missing.map(item => item.name)
+    }
+  }
+
+  static toCsv(data: CustomerExport[], dataset: ExportDataset): string {
+    const table = dataset === 'customers'
+      ? this.toTable(CUSTOMER_COLUMNS, data)
+      : this.toTable(SUBMISSION_COLUMNS, this.submissionRows(data))
+    return CSV_BOM + toCsv(table)
+  }
+
+  // One sheet per dataset
+  static async toXlsx(data: CustomerExport[]): Promise<Uint8Array<ArrayBuffer>> {
+    const workbook = new ExcelJS.Workbook()
+    const sheets: Array<[string, (string | number | undefined)[][]]> = [
+      ['לקוחות', this.toTable(CUSTOMER_COLUMNS, data)],
+      ['טפסים', this.toTable(SUBMISSION_COLUMNS, this.submissionRows(data))]
+    ]
+
+    for (const [name, table] of sheets) {
+      const worksheet = workbook.addWorksheet(name, { views: [{ rightToLeft: true, state: 'frozen', ySplit: 1 }] })
+      worksheet.addRows(table)
+      worksheet.getRow(1).font = { bold: true }
+      worksheet.columns.forEach(column => { column.width = 18 })
+    }
+
+    return new Uint8Array(await workbook.xlsx.writeBuffer())
+  }
+
+  private static submissionRows(data: CustomerExport[]): SubmissionExportRow[] {
+    return data.flatMap(owner => owner.submissions.map(item => ({ ...item, owner })))
+  }
+
+  private static toTable<T>(columns: ExportColumn<T>[], rows: T[]): (string | number | undefined)[][] {
+    return [columns.map(column => column.header), ...rows.map(row => columns.map(column => column.value(row)))]
+  }
+}
@@ -0,0 +1,123 @@
+import { SupabaseService } from './supabase-service'
+import { TokenService } from './token-service'
+import { URLService } from './url-service'
+import { greenAPI } from './green-api'
+import { LinkAnalyticsService } from './link-analytics-service'
+import { DocumentIntakeService } from './document-intake-service'
+import { CustomerSubmission, FileReviewStatus, UploadedFile } from './supabase'
+
+export interface FileReviewDecision {
+  status: FileReviewStatus
+  reasonId?: string
+  reasonText?: string // Free text when no library reason fits
+  notifyCustomer?: boolean
+}
+
+export interface FileReviewResult {
+  success: boolean
+  error?: string
+  status?: number
+  file?: UploadedFile
+  submission?: CustomerSubmission | null // Recomputed after the review
+  notified?: boolean
+  notifyError?: string
+}
+
+export class FileReviewService {
+  /**
+   * Approve, reject or reset a file. Rejecting needs a reason from the library (or free text)
+   * and, unless notifyCustomer is false, messages the customer on WhatsApp with the reason and a
+   * fresh form link. The submission's progress is recomputed either way.
+   */
+  static async reviewFile(fileId: string, decision: FileReviewDecision, reviewer: string, baseURL: string): Promise<FileReviewResult> {
+    const file = await SupabaseService.getUploadedFileById(fileId)
+    if (!file) {
+      return { success: false, error: 'File not found', status: 404 }
+    }
+
+    let reason: string | null = null
+    if (decision.status === 'rejected') {
+      const libraryReason = decision.reasonId ? await SupabaseService.getRejectionReasonById(decision.reasonId) : null
+      reason = libraryReason?.message || decision.reasonText?.trim() || null
+      if (!reason) {
+        return { success: false, error: 'A rejection reason is required', status: 400 }
+      }
+    }
+
+    const reviewed = await SupabaseService.updateFileReview(fileId, {
+      review_status: decision.status,
+      rejection_reason: reason,
+      reviewed_by: decision.status === 'pending' ? null : reviewer,
+      reviewed_at: decision.status === 'pending' ? null : new Date().toISOString()
+    })
+    if (!reviewed) {
+      return { success: false, error: 'Failed to update file review', status: 500 }
+    }
+
+    await SupabaseService.syncSubmissionProgress(file.submission_id)
+    const submission = await SupabaseService.getSubmissionById(file.submission_id)
+
+    if (decision.status !== 'rejected' || decision.notifyCustomer === false) {
+      return { success: true, file: reviewed, submission, notified: false }
+    }
+
+    const notification = submission
+      ? await this.sendRejectionMessage(submission, reviewed, reason!, baseURL)
+      : { success: false, error: 'Submission not found' }
+
+    return { success: true, file: reviewed, submission, notified: notification.success, notifyError: notification.error }
+  }
+
+  // What the customer sees of their files: rejected ones are left out so the field asks for a new upload
+  static getCustomerFiles(files: UploadedFile[], formType: string): UploadedFile[] {
+    return files.filter(file => file.review_status !== 'rejected' && DocumentIntakeService.findField(formType, file.field_slug))
+  }
+
+  private static async sendRejectionMessage(
+    submission: CustomerSubmission,
+    file: UploadedFile,
+    reason: string,
+    baseURL: string
+  ): Promise<{ success: boolean, error?: string }> {
+    const tokenData = await TokenService.createAuthToken(submission.phone_number, submission.form_type, {
+      isReusable: true,
+      createdByAdmin: true
+    })
+    if (!tokenData) {
+      return { success: false, error: 'Failed to create form link' }
+    }
+
+    const shortUrlResult = await URLService.createWhatsAppShortUrl(
+      baseURL,
+      submission.phone_number,
+      submission.form_type,
+      submission.form_type_label,
+      tokenData.token,
+      { campaign: 'manual' }
+    )
+    const formLink = shortUrlResult.shortUrl
+      || TokenService.generateTokenizedURL(baseURL, submission.phone_number, submission.form_type, tokenData.token)
+
+    const message = `שלום! 👋\n\nהמסמך "${file.field_name}" שהעלית לטופס "${submission.form_type_label}" לא אושר:\n${reason}\n\nנא להעלות מסמך חדש בקישור:\n${formLink}\n\nבברכה, Easy2Get`
+    const result = await greenAPI.sendMessage(greenAPI.formatChatId(submission.phone_number), message)
+
+    const log = await SupabaseService.logMessage({
+      customer_id: submission.customer_id,
+      phone_number: submission.phone_number,
+      message_type: 'document_rejected',
+      message_content: message,
+      form_type: submission.form_type,
+      form_type_label: submission.form_type_label,
+      sent_successfully: result.success,
+      error_message: result.success ? undefined : result.error,
+      whatsapp_message_id: result.data && typeof result.data === 'object' && 'idMessage' in result.data ? String(result.data.idMessage) : undefined
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to send WhatsApp message' }
+    }
+
+    await LinkAnalyticsService.recordSentLinks(message, log, { phoneNumber: submission.phone_number, formType: submission.form_type })
+    return { success: true }
+  }
+}
@@ -0,0 +1,147 @@
+import formFieldsData from '@/data/form-fields.json'
+import { FieldPeriod, FormFieldRecord, FormTemplateLink, FormTypeFieldRecord, FormTypeRecord } from './supabase'
+
+export interface FormFieldDefinition {
+  slug: string
+  name: string
+  description?: string
+  variants?: string[]
+  template?: string
+  templates?: FormTemplateLink[]
+  minFiles?: number
+  maxFiles?: number
+  period?: FieldPeriod
+}
+
+// A line of a form type: a document field, or a section the customer picks requiredCount options from
+export interface FormTypeFieldDefinition {
+  fieldSlug: string
+  number: number
+  optional?: boolean
+  isSection?: boolean
+  sectionType?: string
+  sectionTitle?: string
+  requiredCount?: number
+  options?: Array<{ label: string, slug: string }>
+}
+
+export interface FormTypeDefinition {
+  slug: string
+  label: string
+  isActive?: boolean // Missing in the bundled file, where every form type is active
+  fields: FormTypeFieldDefinition[]
+}
+
+export interface FormDefinitions {
+  fields: Record<string, FormFieldDefinition>
+  formTypes: FormTypeDefinition[]
+}
+
+// 'database' once the form builder tables have form types, 'bundled' while src/data/form-fields.json is used
+export type FormDefinitionSource = 'database' | 'bundled'
+
+export const BUNDLED_FORM_DEFINITIONS = formFieldsData as FormDefinitions
+
+let currentDefinitions: FormDefinitions = BUNDLED_FORM_DEFINITIONS
+
+/**
+ * The definitions every form helper reads. The server installs them with
+ * SupabaseService.loadFormDefinitions, the browser with useFormDefinitions; until then they
+ * are the bundled ones.
+ */
+export const getFormDefinitions = (): FormDefinitions => currentDefinitions
+
+export const setFormDefinitions = (definitions: FormDefinitions) => {
+  currentDefinitions = definitions
+}
+
+// Form types customers can pick, in menu order
+export const getFormTypes = (): FormTypeDefinition[] =>
+  currentDefinitions.formTypes.filter(type => type.isActive !== false)
+
+// Any form type, including retired ones that existing submissions still use
+export const getFormType = (slug: string | null | undefined): FormTypeDefinition | undefined =>
+  currentDefinitions.formTypes.find(type => type.slug === slug)
+
+export const getFormTypeLabel = (slug: string): string => getFormType(slug)?.label || slug
+
+export const getFormTypeFields = (slug: string): FormTypeFieldDefinition[] => getFormType(slug)?.fields || []
+
+export const getFieldDefinition = (fieldSlug: string): FormFieldDefinition | undefined =>
+  currentDefinitions.fields[fieldSlug]
+
+// Assemble the form builder tables into definitions; numbers follow the stored order
+export const buildFormDefinitions = (
+  fieldRecords: FormFieldRecord[],
+  typeRecords: FormTypeRecord[],
+  typeFieldRecords: FormTypeFieldRecord[]
+): FormDefinitions => {
+  const fields: Record<string, FormFieldDefinition> = {}
+  for (const record of fieldRecords) {
+    fields[record.slug] = {
+      slug: record.slug,
+      name: record.name,
+      ...(record.description && { description: record.description }),
+      ...(record.variants?.length && { variants: record.variants }),
+      ...(record.template && { template: record.template }),
+      ...(record.templates?.length && { templates: record.templates }),
+      ...(record.min_files && { minFiles: record.min_files }),
+      ...(record.max_files && { maxFiles: record.max_files }),
+      ...(record.period && { period: record.period })
+    }
+  }
+
+  const formTypes = [...typeRecords]
+    .sort((a, b) => a.position - b.position)
+    .map(type => ({
+      slug: type.slug,
+      label: type.label,
+      isActive: type.is_active,
+      fields: typeFieldRecords
+        .filter(row => row.form_type_slug === type.slug)
+        .sort((a, b) => a.position - b.position)
+        .map((row, index): FormTypeFieldDefinition => ({
+          fieldSlug: row.field_slug,
+          number: index + 1,
+          ...(row.optional && { optional: true }),
+          ...(row.options && {
+            isSection: true,
+            sectionType: row.section_type || undefined,
+            sectionTitle: row.section_title || undefined,
+            requiredCount: row.required_count || undefined,
+            options: row.options
+          })
+        }))
+    }))
+
+  return { fields, formTypes }
+}
+
+export const toFormFieldRecord = (field: FormFieldDefinition): FormFieldRecord => ({
+  slug: field.slug,
+  name: field.name,
+  description: field.description || null,
+  variants: field.variants || [],
+  template: field.template || null,
+  templates: field.templates || [],
+  min_files: field.minFiles || null,
+  max_files: field.maxFiles || null,
+  period: field.period || null
+})
+
+export const toFormTypeFieldRecords = (formTypeSlug: string, fields: FormTypeFieldDefinition[]): FormTypeFieldRecord[] =>
+  fields.map((field, index) => ({
+    form_type_slug: formTypeSlug,
+    position: index,
+    field_slug: field.fieldSlug,
+    optional: !!field.optional,
+    section_type: field.isSection ? field.sectionType || null : null,
+    section_title: field.isSection ? field.sectionTitle || null : null,
+    required_count: field.isSection ? field.requiredCount || null : null,
+    options: field.isSection ? field.options || [] : null
+  }))
+
+// Field slugs end up in storage paths, so they stay lowercase latin; form type slugs (Hebrew today) only go into URLs
+export const isValidFieldSlug = (slug: string) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)
+
+export const isValidFormTypeSlug = (slug: string) => /^[^\s/?#&%]+$/.test(slug)
@@ -0,0 +1,107 @@
+import { CustomerSubmission, FieldPeriod, UploadedFile } from './supabase'
+import { getFieldDefinition } from './form-definitions'
+
+export interface FieldFileLimits {
+  minFiles: number
+  maxFiles: number
+}
+
+export interface PeriodSlot {
+  key: string // '2026-07' for a month, the Sunday '2026-07-05' for a week
+  label: string
+}
+
+export interface PeriodSlotCoverage {
+  slot: PeriodSlot
+  files: UploadedFile[]
+  complete: boolean
+}
+
+// A field that needs documents for each month or week before the reference date
+export const getFieldPeriod = (fieldSlug: string): FieldPeriod | null =>
+  getFieldDefinition(fieldSlug)?.period || null
+
+// How many files a field takes. Fields without limits take exactly one, and a new upload replaces it.
+// A period field needs filesPerPeriod files for each of its slots.
+export const getFieldFileLimits = (fieldSlug: string): FieldFileLimits => {
+  const field = getFieldDefinition(fieldSlug)
+  const minFiles = field?.period
+    ? field.period.count * field.period.filesPerPeriod
+    : Math.max(1, field?.minFiles || 1)
+  return { minFiles, maxFiles: Math.max(minFiles, field?.maxFiles || minFiles) }
+}
+
+export const isMultiFileField = (fieldSlug: string): boolean => getFieldFileLimits(fieldSlug).maxFiles > 1
+
+// Today's date in Israel as YYYY-MM-DD
+const toIsraelDate = (value?: string) =>
+  (value ? new Date(value) : new Date()).toLocaleDateString('en-CA', { timeZone: 'Asia/Jerusalem' })
+
+// The planned application date, or the day the submission was opened when none was set
+export const getReferenceDate = (submission: Pick<CustomerSubmission, 'reference_date' | 'created_at'> | null | undefined): string =>
+  submission?.reference_date || toIsraelDate(submission?.created_at)
+
+const formatDayMonth = (date: Date) =>
+  `${String(date.getUTCDate()).padStart(2, '0')}/${String(date.getUTCMonth() + 1).padStart(2, '0')}`
+
+/**
+ * The full months or weeks (Sunday to Saturday) before the one the reference date falls in,
+ * oldest first.
+ */
+export const getPeriodSlots = (fieldSlug: string, referenceDate: string): PeriodSlot[] => {
+  const period = getFieldPeriod(fieldSlug)
+  if (!period) return []
+
+  const [year, month, day] = referenceDate.split('-').map(Number)
+  const slots: PeriodSlot[] = []
+
+  for (let back = period.count; back >= 1; back--) {
+    if (period.unit === 'month') {
+      const start = new Date(Date.UTC(year, month - 1 - back, 1))
+      slots.push({
+        key: start.toISOString().slice(0, 7),
+        label: start.toLocaleDateString('he-IL', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+      })
+    } else {
+      const reference = new Date(Date.UTC(year, month - 1, day))
+      const start = new Date(Date.UTC(year, month - 1, day - reference.getUTCDay() - back * 7))
+      const end = new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000)
+      slots.push({
+        key: start.toISOString().slice(0, 10),
+        label: `שבוע ${formatDayMonth(start)}–${formatDayMonth(end)}`
+      })
+    }
+  }
+
+  return slots
+}
+
+// Which of a period field's files fall in each slot; files without a matching slot are unassigned
+export const getPeriodCoverage = (
+  fieldSlug: string,
+  referenceDate: string,
+  files: UploadedFile[]
+): { slots: PeriodSlotCoverage[], unassigned: UploadedFile[] } => {
+  const period = getFieldPeriod(fieldSlug)
+  const fieldFiles = files.filter(file => file.field_slug === fieldSlug)
+  const slots = getPeriodSlots(fieldSlug, referenceDate).map(slot => {
+    const slotFiles = fieldFiles.filter(file => file.period_key === slot.key)
+    return { slot, files: slotFiles, complete: slotFiles.length >= (period?.filesPerPeriod || 1) }
+  })
+
+  const slotKeys = new Set(slots.map(coverage => coverage.slot.key))
+  return { slots, unassigned: fieldFiles.filter(file => !file.period_key || !slotKeys.has(file.period_key)) }
+}
+
+// "<field name>: <missing slots>" for each period field of the submission that still has gaps
+export const describeMissingPeriods = (submission: CustomerSubmission): string[] => {
+  const referenceDate = getReferenceDate(submission)
+  return Object.entries(submission.missing_periods || {})
+    .filter(([, keys]) => keys.length > 0)
+    .map(([fieldSlug, keys]) => {
+      const labels = getPeriodSlots(fieldSlug, referenceDate)
+        .filter(slot => keys.includes(slot.key))
+        .map(slot => slot.label)
+      return `${getFieldDefinition(fieldSlug)?.name || fieldSlug}: ${labels.join(', ')}`
+    })
+}
@@ -1,4 +1,6 @@
 // Green API WhatsApp Service
+import { MessageDeliveryStatus } from './supabase'
+
 interface APIResponse {
   success: boolean;
   data?: unknown;
@@ -7,6 +9,10 @@ interface APIResponse {
 
 interface NotificationBody {
   typeWebhook?: string;
+  idMessage?: string;
+  chatId?: string;
+  status?: string;
+  description?: string;
   senderData?: {
     chatId?: string;
     [key: string]: unknown;
@@ -19,6 +25,8 @@ interface NotificationBody {
     fileMessageData?: {
       downloadUrl?: string;
       fileName?: string;
+      caption?: string;
+      mimeType?: string;
     };
     [key: string]: unknown;
   };
@@ -31,6 +39,9 @@ interface ParsedNotification {
   [key: string]: unknown;
 }
 
+// Hosts Green API serves received media from; GREEN_API_MEDIA_HOSTS adds more (comma-separated)
+const MEDIA_HOSTS = ['green-api.com', 'greenapi.com', 'greenapi.net']
+
 class GreenAPIService {
   private idInstance: string
   private apiTokenInstance: string
@@ -214,27 +225,100 @@ class GreenAPIService {
     return formattedPhone + '@c.us'
   }
 
+  // Convert WhatsApp chat ID back to +972 phone format used in the database
+  formatPhoneFromChatId(chatId: string): string {
+    const digits = chatId.replace('@c.us', '').replace(/\D/g, '')
+    if (digits.startsWith('972')) return `+${digits}`
+    if (digits.startsWith('0')) return `+972${digits.substring(1)}`
+    return `+972${digits}`
+  }
+
+  // Green API sends the instance's webhookUrlToken as a bearer token with every notification
+  isAuthorizedWebhook(headers: Headers): boolean {
+    const token = process.env.GREEN_API_WEBHOOK_TOKEN
+    return !!token && headers.get('authorization') === `Bearer ${token}`
+  }
+
+  // Only media on Green API's own storage is downloaded, never an arbitrary URL from a notification
+  isTrustedMediaUrl(downloadUrl: string): boolean {
+    try {
+      const { protocol, hostname } = new URL(downloadUrl)
+      const extraHosts = (process.env.GREEN_API_MEDIA_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean)
+      return protocol === 'https:' && [...MEDIA_HOSTS, ...extraHosts].some(host => hostname === host || hostname.endsWith(`.${host}`))
+    } catch {
+      return false
+    }
+  }
+
+  // Download a media file received in a chat (image/document)
+  async downloadFile(downloadUrl: string, fileName: string, mimeType?: string): Promise<File | null> {
+    if (!this.isTrustedMediaUrl(downloadUrl)) {
+      console.error('Refusing to download WhatsApp file from an unknown host:', downloadUrl)
+      return null
+    }
+
+    try {
+      // Redirects aren't followed, so an allowed host can't point the request elsewhere
+      const response = await fetch(downloadUrl, { redirect: 'error' })
+      if (!response.ok) {
+        console.error('Failed to download WhatsApp file:', response.status)
+        return null
+      }
+
+      const buffer = await response.arrayBuffer()
+      const type = mimeType || response.headers.get('content-type') || 'application/octet-stream'
+      return new File([buffer], fileName, { type })
+    } catch (error) {
+      console.error('Error downloading file:', error)
+      return null
+    }
+  }
+
+  // Map Green API outgoing message statuses to the statuses we track
+  private mapMessageStatus(status?: string): MessageDeliveryStatus | undefined {
+    switch (status) {
+      case 'sent':
+      case 'delivered':
+      case 'read':
+        return status
+      case 'failed':
+      case 'noAccount':
+      case 'notInGroup':
+      case 'yellowCard':
+        return 'failed'
+      default:
+        return undefined
+    }
+  }
+
   // Parse incoming message
   parseIncomingMessage(notification: ParsedNotification): {
     type: string
     chatId: string
     phoneNumber: string
+    messageId?: string
     message?: string
     fileName?: string
     fileUrl?: string
+    mimeType?: string
+    caption?: string
+    status?: MessageDeliveryStatus
+    statusDescription?: string
     timestamp: number
   } | null {
     try {
       if (!notification?.body) return null
 
       const { body } = notification
-      const chatId = body.senderData?.chatId || ''
+      // Status notifications carry the chat ID at the top level
+      const chatId = body.senderData?.chatId || body.chatId || ''
       const phoneNumber = chatId.replace('@c.us', '').replace('972', '0')
 
       const result = {
         type: body.typeWebhook || 'unknown',
         chatId,
         phoneNumber,
+        messageId: body.idMessage,
         timestamp: body.timestamp || Date.now()
       }
 
@@ -249,16 +333,26 @@ class GreenAPIService {
             return {
               ...result,
               fileName: body.messageData.fileMessageData?.fileName,
-              fileUrl: body.messageData.fileMessageData?.downloadUrl
+              fileUrl: body.messageData.fileMessageData?.downloadUrl,
+              mimeType: body.messageData.fileMessageData?.mimeType,
+              caption: body.messageData.fileMessageData?.caption
             }
           } else if (body.messageData?.typeMessage === 'documentMessage') {
             return {
               ...result,
               fileName: body.messageData.fileMessageData?.fileName,
-              fileUrl: body.messageData.fileMessageData?.downloadUrl
+              fileUrl: body.messageData.fileMessageData?.downloadUrl,
+              mimeType: body.messageData.fileMessageData?.mimeType,
+              caption: body.messageData.fileMessageData?.caption
             }
           }
           break
+        case 'outgoingMessageStatus':
+          return {
+            ...result,
+            status: this.mapMessageStatus(body.status),
+            statusDescription: body.description
+          }
       }
 
       return result
@@ -0,0 +1,261 @@
+import ExcelJS from 'exceljs'
+import { SupabaseService } from './supabase-service'
+import { IsraeliValidation } from './israeli-validation'
+import { parseCsv } from './csv'
+import { Customer, CustomerCriterion } from './supabase'
+
+const MAX_IMPORT_ROWS = 5000
+const PREVIEW_ROWS = 10
+
+// Customer fields a column can be mapped to
+export type ImportField = 'full_name' | 'first_name' | 'family_name' | 'phone' | 'alt_phone' | 'id_number'
+
+// Field → column header in the uploaded file
+export type ImportMapping = Partial<Record<ImportField, string>>
+
+// upsert updates customers that already exist; skip leaves them untouched
+export type ImportMode = 'upsert' | 'skip'
+
+export interface ImportPreview {
+  headers: string[]
+  sampleRows: string[][]
+  totalRows: number
+  suggestedMapping: ImportMapping
+}
+
+export interface ImportRowResult {
+  row: number // Line in the file, counting the header as line 1
+  action: 'create' | 'update' | 'skip' | 'error'
+  phone?: string
+  name?: string
+  family_name?: string
+  id_number?: string
+  errors: string[]
+}
+
+export interface ImportReport {
+  dryRun: boolean
+  mode: ImportMode
+  total: number
+  created: number
+  updated: number
+  skipped: number
+  failed: number
+  rows: ImportRowResult[]
+}
+
+interface ParsedTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Header names we recognise for each field, in order of preference (compared case-insensitively)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  full_name: ['שם עסק', 'שם מלא', 'שם הלקוח', 'שם', 'full name', 'name'],
+  first_name: ['שם פרטי', 'first name'],
+  family_name: ['שם משפחה', 'last name', 'family name'],
+  phone: ['נייד', 'טלפון נייד', 'mobile', 'phone', 'טלפון'],
+  alt_phone: ['טלפון', 'טלפון נוסף', 'phone 2'],
+  id_number: ['ח.פ.', 'ח.פ', 'ח"פ', 'ת.ז.', 'ת.ז', 'ת"ז', 'תעודת זהות', 'מספר זהות', 'id number', 'id']
+}
+
+export class CustomerImportService {
+  static readonly FIELDS = Object.keys(FIELD_ALIASES) as ImportField[]
+
+  // Read a CSV or XLSX upload into a header row and data rows
+  static async parseFile(file: File): Promise<{ table?: ParsedTable, error?: string }> {
+    const fileName = file.name.toLowerCase()
+
+    try {
+      let cells: string[][]
+      if (fileName.endsWith('.xlsx')) {
+        cells = await this.readXlsx(file)
+      } else if (fileName.endsWith('.csv') || file.type === 'text/csv') {
+        cells = parseCsv(await file.text())
+      } else {
+        return { error: 'Unsupported file type. Upload a .csv or .xlsx file' }
+      }
+
+      if (cells.length < 2) {
+        return { error: 'The file has no data rows' }
+      }
+      if (cells.length - 1 > MAX_IMPORT_ROWS) {
+        return { error: `The file has more than ${MAX_IMPORT_ROWS} rows` }
+      }
+
+      const headers = cells[0].map(header => header.trim())
+      const rows = cells.slice(1).map(row => headers.map((_, index) => (row[index] || '').trim()))
+      return { table: { headers, rows } }
+    } catch (error) {
+      console.error('Error parsing import file:', error)
+      return { error: 'Could not read the file' }
+    }
+  }
+
+  static getPreview(table: ParsedTable): ImportPreview {
+    return {
+      headers: table.headers,
+      sampleRows: table.rows.slice(0, PREVIEW_ROWS),
+      totalRows: table.rows.length,
+      suggestedMapping: this.suggestMapping(table.headers)
+    }
+  }
+
+  // Match headers to fields by known names; each column is used for one field at most
+  static suggestMapping(headers: string[]): ImportMapping {
+    const mapping: ImportMapping = {}
+    const used = new Set<string>()
+
+    for (const field of this.FIELDS) {
+      for (const alias of FIELD_ALIASES[field]) {
+        const header = headers.find(candidate => !used.has(candidate) && candidate.toLowerCase() === alias.toLowerCase())
+        if (header) {
+          mapping[field] = header
+          used.add(header)
+          break
+        }
+      }
+    }
+
+    return mapping
+  }
+
+  /**
+   * Validate every row and work out what would happen to it, then (unless dryRun)
+   * create or update the customers. Rows with errors are never written.
+   */
+  static async runImport(
+    table: ParsedTable,
+    options: { mapping: ImportMapping, criterion: string, mode: ImportMode, dryRun: boolean }
+  ): Promise<ImportReport> {
+    const { mapping, criterion, mode, dryRun } = options
+    const existing = new Map<string, Customer>()
+    for (const customer of await SupabaseService.getAllCustomers()) {
+      existing.set(IsraeliValidation.normalizePhone(customer.phone_number) || customer.phone_number, customer)
+    }
+
+    const seenPhones = new Map<string, number>()
+    const rows: ImportRowResult[] = []
+
+    for (let index = 0; index < table.rows.length; index++) {
+      const result = this.validateRow(table.headers, table.rows[index], mapping, index + 2)
+
+      if (result.phone) {
+        const firstRow = seenPhones.get(result.phone)
+        if (firstRow) {
+          result.errors.push(`Phone number already appears in row ${firstRow}`)
+        } else {
+          seenPhones.set(result.phone, result.row)
+        }
+      }
+
+      if (result.errors.length > 0) {
+        rows.push({ ...result, action: 'error' })
+        continue
+      }
+
+      const customer = existing.get(result.phone!)
+      if (customer && mode === 'skip') {
+        rows.push({ ...result, action: 'skip' })
+        continue
+      }
+
+      const action = customer ? 'update' : 'create'
+      if (!dryRun && !(await this.saveRow(result, criterion, customer))) {
+        rows.push({ ...result, action: 'error', errors: ['Failed to save customer'] })
+        continue
+      }
+
+      rows.push({ ...result, action })
+    }
+
+    return {
+      dryRun,
+      mode,
+      total: rows.length,
+      created: rows.filter(row => row.action === 'create').length,
+      updated: rows.filter(row => row.action === 'update').length,
+      skipped: rows.filter(row => row.action === 'skip').length,
+      failed: rows.filter(row => row.action === 'error').length,
+      rows
+    }
+  }
+
+  private static validateRow(headers: string[], cells: string[], mapping: ImportMapping, rowNumber: number): ImportRowResult {
+    const value = (field: ImportField) => {
+      const column = mapping[field] ? headers.indexOf(mapping[field]!) : -1
+      return column >= 0 ? cells[column] : ''
+    }
+
+    const result: ImportRowResult = { row: rowNumber, action: 'create', errors: [] }
+
+    // Separate first/family name columns win over a full name column
+    const fullNameParts = value('full_name').split(/\s+/).filter(Boolean)
+    result.name = value('first_name') || fullNameParts[0] || undefined
+    result.family_name = value('family_name') || fullNameParts.slice(1).join(' ') || undefined
+
+    const rawPhone = value('phone') || value('alt_phone')
+    if (!rawPhone) {
+      result.errors.push('Missing phone number')
+    } else {
+      const phone = IsraeliValidation.normalizePhone(rawPhone)
+      if (phone) {
+        result.phone = phone
+      } else {
+        result.errors.push(`Invalid Israeli phone number: ${rawPhone}`)
+      }
+    }
+
+    const rawIdNumber = value('id_number')
+    if (rawIdNumber) {
+      if (IsraeliValidation.isValidIdNumber(rawIdNumber)) {
+        result.id_number = rawIdNumber.replace(/\D/g, '')
+      } else {
+        result.errors.push(`Invalid ID number: ${rawIdNumber}`)
+      }
+    }
+
+    return result
+  }
+
+  // Updates only overwrite the details present in the file
+  private static async saveRow(row: ImportRowResult, criterion: string, customer?: Customer): Promise<boolean> {
+    if (!customer) {
+      const created = await SupabaseService.createCustomer({
+        phone_number: row.phone!,
+        name: row.name,
+        family_name: row.family_name,
+        criterion,
+        id_number: row.id_number,
+        status: 'agreement_signed'
+      })
+      return !!created
+    }
+
+    return await SupabaseService.updateCustomer(customer.id, {
+      criterion: criterion as CustomerCriterion,
+      ...(row.name && { name: row.name }),
+      ...(row.family_name && { family_name: row.family_name }),
+      ...(row.id_number && { id_number: Number(row.id_number) })
+    })
+  }
+
+  private static async readXlsx(file: File): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(await file.arrayBuffer())
+
+    const worksheet = workbook.worksheets[0]
+    if (!worksheet) return []
+
+    const rows: string[][] = []
+    worksheet.eachRow(row => {
+      const cells: string[] = []
+      for (let column = 1; column <= worksheet.columnCount; column++) {
+        cells.push(row.getCell(column).text || '')
+      }
+      rows.push(cells)
+    })
+
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+  }
+}
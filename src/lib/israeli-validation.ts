@@ -0,0 +1,34 @@
+// Validation for Israeli phone numbers and ID / company numbers
+export class IsraeliValidation {
+  /**
+   * Normalize a phone number to +972XXXXXXXXX. Accepts local (05X-XXXXXXX) and
+   * international (972 / +972) forms; returns null when the number isn't a valid
+   * mobile (5X), 07X or landline (2, 3, 4, 8, 9) number.
+   */
+  static normalizePhone(phone: string): string | null {
+    const digits = phone.replace(/\D/g, '')
+    if (!digits) return null
+
+    const national = digits.startsWith('972') ? digits.substring(3) : digits.replace(/^0/, '')
+    const isMobileOrVoip = /^[57]\d{8}$/.test(national)
+    const isLandline = /^[23489]\d{7}$/.test(national)
+
+    return isMobileOrVoip || isLandline ? `+972${national}` : null
+  }
+
+  /**
+   * Check an ID number (ת.ז.) or company number (ח.פ.): up to 9 digits, left-padded
+   * with zeros, whose check digit passes the Luhn-style weighted sum.
+   */
+  static isValidIdNumber(idNumber: string): boolean {
+    const digits = idNumber.replace(/[\s-]/g, '')
+    if (!/^\d{5,9}$/.test(digits) || /^0+$/.test(digits)) return false
+
+    const sum = digits.padStart(9, '0').split('').reduce((total, digit, index) => {
+      const step = Number(digit) * ((index % 2) + 1)
+      return total + (step > 9 ? step - 9 : step)
+    }, 0)
+
+    return sum % 10 === 0
+  }
+}
@@ -0,0 +1,95 @@
+import { SupabaseService } from './supabase-service'
+import { CustomerSubmission, LinkActivity, LinkFunnelRow, MessageLog, ShortLink } from './supabase'
+
+// Short links as they appear in a message body: <origin>/s/<code>
+const SHORT_LINK_PATTERN = /\/s\/([A-Za-z0-9_-]{3,64})/g
+
+// Funnel rows are listed in the order customers receive the messages
+const STEP_ORDER = ['first_message', 'first', 'second', 'first_week', 'second_week', 'third_week', 'fourth_week', 'manual']
+
+// Phones arrive as +972..., 972... or 05...; links store them as +972XXXXXXXXX
+const normalizePhone = (phone: string) => `+972${phone.replace(/\D/g, '').replace(/^972/, '').replace(/^0/, '')}`
+
+export class LinkAnalyticsService {
+  static readonly DEFAULT_WINDOW_DAYS = 30
+
+  /**
+   * Tie the short links in an outgoing message to it, so later clicks are attributed to
+   * that message. Call after logging the message; unsent messages leave their links untracked.
+   */
+  static async recordSentLinks(
+    message: string,
+    log: MessageLog | null,
+    target: { phoneNumber: string, formType?: string }
+  ): Promise<void> {
+    const codes = [...new Set([...message.matchAll(SHORT_LINK_PATTERN)].map(match => match[1]))]
+    if (codes.length === 0) return
+
+    await SupabaseService.markShortLinksSent(codes, {
+      sent_at: log?.sent_at || new Date().toISOString(),
+      message_log_id: log?.id,
+      phone_number: normalizePhone(target.phoneNumber),
+      form_type: target.formType
+    })
+  }
+
+  // Every link sent to the customer (newest first) with its clicks (oldest first)
+  static async getCustomerTimeline(phoneNumber: string): Promise<LinkActivity[]> {
+    const links = await SupabaseService.getSentShortLinksByPhone(normalizePhone(phoneNumber))
+    const clicks = await SupabaseService.getLinkClicks(links.map(link => link.id!))
+
+    return links.map(link => ({ ...link, clicks: clicks.filter(click => click.short_link_id === link.id) }))
+  }
+
+  /**
+   * Sent → clicked → first upload → completed for links sent within the window, per form
+   * type and step. A link counts as leading to an upload from the customer's earliest upload
+   * after it was sent; completed only counts those links whose form is now complete.
+   */
+  static async getFunnel(days: number = this.DEFAULT_WINDOW_DAYS): Promise<LinkFunnelRow[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const links = await SupabaseService.getSentShortLinks(since)
+    if (links.length === 0) return []
+
+    const submissions = new Map<string, CustomerSubmission>()
+    for (const submission of await SupabaseService.getAllSubmissions()) {
+      submissions.set(`${normalizePhone(submission.phone_number)}:${submission.form_type}`, submission)
+    }
+
+    const findSubmission = (link: ShortLink) =>
+      link.phone_number && link.form_type ? submissions.get(`${normalizePhone(link.phone_number)}:${link.form_type}`) : undefined
+
+    const submissionIds = [...new Set(links.map(link => findSubmission(link)?.id).filter((id): id is string => !!id))]
+    const uploadTimes = await SupabaseService.getUploadTimes(submissionIds, since)
+
+    const rows = new Map<string, LinkFunnelRow>()
+    for (const link of links) {
+      const formType = link.form_type || 'unknown'
+      const step = this.getStep(link)
+      const key = `${formType}:${step}`
+      const row = rows.get(key) || { form_type: formType, step, sent: 0, clicked: 0, first_upload: 0, completed: 0 }
+
+      row.sent++
+      if ((link.click_count || 0) > 0) row.clicked++
+
+      const submission = findSubmission(link)
+      const firstUpload = submission
+        ? uploadTimes.get(submission.id!)?.find(uploadedAt => new Date(uploadedAt) >= new Date(link.sent_at!))
+        : undefined
+      if (firstUpload) {
+        row.first_upload++
+        if (submission?.status === 'completed') row.completed++
+      }
+
+      rows.set(key, row)
+    }
+
+    return [...rows.values()].sort((a, b) =>
+      a.form_type.localeCompare(b.form_type) || STEP_ORDER.indexOf(a.step) - STEP_ORDER.indexOf(b.step)
+    )
+  }
+
+  private static getStep(link: ShortLink): string {
+    return link.campaign === 'reminder' ? link.reminder_type || 'reminder' : link.campaign
+  }
+}
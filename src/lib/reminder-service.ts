@@ -1,7 +1,11 @@
 import { SupabaseService } from './supabase-service'
 import { greenAPI } from './green-api'
-import { CustomerSubmission, MessageLog, ReminderType } from './supabase'
-import formFieldsData from '@/data/form-fields.json'
+import { SendingWindowService } from './sending-window-service'
+import { LinkAnalyticsService } from './link-analytics-service'
+import type { ShortUrlOptions } from './url-service'
+import { CustomerSubmission, MessageLog, ReminderPolicy, ReminderType } from './supabase'
+import { CompletionService } from './completion-service'
+import { getFormType, getFormTypes } from './form-definitions'
 import fs from 'fs'
 import path from 'path'
 
@@ -9,6 +13,15 @@ interface ReminderCandidate {
   submission: CustomerSubmission
   reminderType: ReminderType
   daysSinceLastAction: number
+  lastReminder?: MessageLog
+  escalated?: boolean
+  policy?: ReminderPolicy
+}
+
+// What we know about the customer's recent activity outside the form itself
+interface EngagementSignals {
+  lastReminder?: MessageLog
+  lastReplyAt?: Date
 }
 
 interface FirstMessageCandidate {
@@ -29,12 +42,27 @@ interface MessageTemplates {
 
 export class ReminderService {
   
-  // Timeline constants (in hours)
+  // Timeline constants (in hours) - used when no reminder policy is configured
   static readonly FIRST_REMINDER_HOURS = 48  // 2 days
   static readonly SECOND_REMINDER_HOURS = 72 // 3 days after first reminder
   static readonly WEEKLY_REMINDER_HOURS = 168 // 7 days
   static readonly MAX_INACTIVE_DAYS = 30 // Stop after 30 days of inactivity
 
+  static readonly FALLBACK_POLICY: ReminderPolicy = {
+    name: 'ברירת מחדל',
+    first_reminder_hours: this.FIRST_REMINDER_HOURS,
+    second_reminder_hours: this.SECOND_REMINDER_HOURS,
+    weekly_reminder_hours: this.WEEKLY_REMINDER_HOURS,
+    max_inactive_days: this.MAX_INACTIVE_DAYS,
+    form_types: [],
+    is_default: true
+  }
+
+  // Engagement constants (in hours)
+  static readonly ENGAGED_HOLD_HOURS = 48 // Hold reminders after a chat reply or link open
+  static readonly UNREAD_ESCALATION_HOURS = 24 // Delivered but still unread after this long
+  static readonly UNREAD_INTERVAL_FACTOR = 0.5 // Unread reminders shorten the next wait by half
+
   // Default templates (fallback)
   private static readonly DEFAULT_TEMPLATES: MessageTemplates = {
     first_message: 'שלום {customerName}! 👋\n\nבהמשך לשיחתינו ועל מנת שנוכל לקדם את הבקשה שלך מול המשרד לביטחון פנים יש להמציא את המסמכים המופרטים ברשימה הבאה:\n\n{formLink}\n\nבברכה, Easy2Get',
@@ -63,10 +91,32 @@ export class ReminderService {
   // Get customers who need reminders (including first messages)
   static async getCustomersNeedingReminders(): Promise<ReminderCandidate[]> {
     try {
+      await SupabaseService.loadFormDefinitions()
       const submissions = await SupabaseService.getAllSubmissions()
       const candidates: ReminderCandidate[] = []
       const now = new Date()
 
+      // Latest reminder per phone + form, to show whether it was read
+      const reminderMessages = await SupabaseService.getRecentReminderMessages()
+      const lastReminderByForm = new Map<string, MessageLog>()
+      for (const message of reminderMessages) {
+        const key = `${message.phone_number}|${message.form_type}`
+        if (!lastReminderByForm.has(key)) {
+          lastReminderByForm.set(key, message)
+        }
+      }
+
+      // Latest chat reply per phone
+      const incomingMessages = await SupabaseService.getRecentIncomingMessages()
+      const lastReplyByPhone = new Map<string, Date>()
+      for (const message of incomingMessages) {
+        if (!lastReplyByPhone.has(message.phone_number)) {
+          lastReplyByPhone.set(message.phone_number, new Date(message.sent_at))
+        }
+      }
+
+      const policies = await SupabaseService.getReminderPolicies()
+
       // Handle existing submissions
       for (const submission of submissions) {
         // Skip if reminders are paused or form is completed
@@ -81,23 +131,32 @@ export class ReminderService {
 
         const firstSentAt = new Date(submission.first_sent_at)
         const lastInteractionAt = submission.last_interaction_at ? new Date(submission.last_interaction_at) : firstSentAt
+        const policy = this.resolvePolicy(submission, policies)
 
         // Calculate time since last interaction
         const hoursSinceLastAction = (now.getTime() - lastInteractionAt.getTime()) / (1000 * 60 * 60)
         const daysSinceLastAction = Math.floor(hoursSinceLastAction / 24)
 
         // Stop if inactive too long
-        if (daysSinceLastAction > this.MAX_INACTIVE_DAYS) {
+        if (daysSinceLastAction > policy.max_inactive_days) {
           continue
         }
 
+        const signals: EngagementSignals = {
+          lastReminder: lastReminderByForm.get(`${submission.phone_number}|${submission.form_type}`),
+          lastReplyAt: lastReplyByPhone.get(submission.phone_number)
+        }
+
         // Determine reminder type needed
-        const reminderType = this.determineReminderType(submission, now)
+        const reminderType = this.determineReminderType(submission, now, signals, policy)
         if (reminderType) {
           candidates.push({
             submission,
             reminderType,
-            daysSinceLastAction
+            daysSinceLastAction,
+            lastReminder: signals.lastReminder,
+            escalated: this.isLastReminderUnread(signals, now),
+            policy
           })
         }
       }
@@ -134,33 +193,55 @@ export class ReminderService {
   // Determine what type of reminder is needed, if any
   private static determineReminderType(
     submission: CustomerSubmission, 
-    now: Date
+    now: Date,
+    signals: EngagementSignals = {},
+    policy: ReminderPolicy = this.FALLBACK_POLICY
   ): ReminderType | null {
     
     const firstSentAt = new Date(submission.first_sent_at!)
-    const lastInteractionAt = submission.last_interaction_at ? new Date(submission.last_interaction_at) : firstSentAt
     const lastReminderAt = submission.last_reminder_sent_at ? new Date(submission.last_reminder_sent_at) : null
 
+    // A chat reply or opening the form link counts as the latest interaction
+    const linkOpenedAt = submission.last_link_opened_at ? new Date(submission.last_link_opened_at) : null
+    const lastEngagementAt = [signals.lastReplyAt, linkOpenedAt]
+      .filter((d): d is Date => !!d)
+      .reduce<Date | null>((latest, d) => (!latest || d > latest ? d : latest), null)
+    const interactionAt = submission.last_interaction_at ? new Date(submission.last_interaction_at) : firstSentAt
+    const lastInteractionAt = lastEngagementAt && lastEngagementAt > interactionAt ? lastEngagementAt : interactionAt
+
     const hoursSinceFirstSent = (now.getTime() - firstSentAt.getTime()) / (1000 * 60 * 60)
     const hoursSinceLastInteraction = (now.getTime() - lastInteractionAt.getTime()) / (1000 * 60 * 60)
     const hoursSinceLastReminder = lastReminderAt ? (now.getTime() - lastReminderAt.getTime()) / (1000 * 60 * 60) : Infinity
 
-    // First reminder: 48 hours after first sent, no reminders sent yet
-    if (submission.reminder_count === 0 && hoursSinceFirstSent >= this.FIRST_REMINDER_HOURS) {
+    // Customer is actively engaged: don't interrupt with a reminder
+    if (lastEngagementAt) {
+      const hoursSinceEngagement = (now.getTime() - lastEngagementAt.getTime()) / (1000 * 60 * 60)
+      if (hoursSinceEngagement < this.ENGAGED_HOLD_HOURS) {
+        return null
+      }
+    }
+
+    // The previous reminder reached the phone but was never read: follow up sooner
+    const intervalFactor = this.isLastReminderUnread(signals, now) ? this.UNREAD_INTERVAL_FACTOR : 1
+    const secondReminderHours = policy.second_reminder_hours * intervalFactor
+    const weeklyReminderHours = policy.weekly_reminder_hours * intervalFactor
+
+    // First reminder: after first sent, no reminders sent yet
+    if (submission.reminder_count === 0 && hoursSinceFirstSent >= policy.first_reminder_hours) {
       return 'first'
     }
 
-    // Second reminder: 72 hours after last reminder or interaction (whichever is more recent)
+    // Second reminder: after last reminder or interaction (whichever is more recent)
     if (submission.reminder_count === 1 && 
-        hoursSinceLastReminder >= this.SECOND_REMINDER_HOURS && 
-        hoursSinceLastInteraction >= this.SECOND_REMINDER_HOURS) {
+        hoursSinceLastReminder >= secondReminderHours && 
+        hoursSinceLastInteraction >= secondReminderHours) {
       return 'second'
     }
 
     // Weekly reminders: after second reminder, send weekly variants
     if (submission.reminder_count >= 2 && 
-        hoursSinceLastReminder >= this.WEEKLY_REMINDER_HOURS &&
-        hoursSinceLastInteraction >= this.WEEKLY_REMINDER_HOURS) {
+        hoursSinceLastReminder >= weeklyReminderHours &&
+        hoursSinceLastInteraction >= weeklyReminderHours) {
       
       // Determine which weekly reminder based on count
       const weeklyReminderCount = submission.reminder_count - 2 + 1; // Start from week 1 after second reminder
@@ -174,15 +255,82 @@ export class ReminderService {
     return null
   }
 
-  // Check if form is completed
+  /**
+   * Pick the reminder policy for a submission: its own override first, then
+   * the policy assigned to its form type, then the default policy, and
+   * finally the built-in timeline constants.
+   */
+  static resolvePolicy(submission: CustomerSubmission, policies: ReminderPolicy[]): ReminderPolicy {
+    if (submission.reminder_policy_id) {
+      const override = policies.find(p => p.id === submission.reminder_policy_id)
+      if (override) return override
+    }
+
+    return policies.find(p => (p.form_types || []).includes(submission.form_type)) ||
+      policies.find(p => p.is_default) ||
+      this.FALLBACK_POLICY
+  }
+
+  // Create or update a policy. A form type belongs to one policy and only one policy is the default.
+  static async saveReminderPolicy(policy: ReminderPolicy): Promise<ReminderPolicy | null> {
+    try {
+      const policyData = {
+        name: policy.name,
+        first_reminder_hours: policy.first_reminder_hours,
+        second_reminder_hours: policy.second_reminder_hours,
+        weekly_reminder_hours: policy.weekly_reminder_hours,
+        max_inactive_days: policy.max_inactive_days,
+        form_types: policy.form_types || [],
+        is_default: policy.is_default
+      }
+
+      const saved = policy.id
+        ? await SupabaseService.updateReminderPolicy(policy.id, policyData)
+        : await SupabaseService.createReminderPolicy(policyData)
+
+      if (!saved) return null
+
+      const others = (await SupabaseService.getReminderPolicies()).filter(p => p.id !== saved.id)
+      for (const other of others) {
+        const remainingFormTypes = (other.form_types || []).filter(ft => !policyData.form_types.includes(ft))
+        const updates: Partial<ReminderPolicy> = {}
+
+        if (remainingFormTypes.length !== (other.form_types || []).length) {
+          updates.form_types = remainingFormTypes
+        }
+        if (policyData.is_default && other.is_default) {
+          updates.is_default = false
+        }
+
+        if (Object.keys(updates).length > 0) {
+          await SupabaseService.updateReminderPolicy(other.id!, updates)
+        }
+      }
+
+      return saved
+    } catch (error) {
+      console.error('Error saving reminder policy:', error)
+      return null
+    }
+  }
+
+  // Last reminder was delivered but has stayed unread for a while
+  private static isLastReminderUnread(signals: EngagementSignals, now: Date): boolean {
+    const lastReminder = signals.lastReminder
+    if (!lastReminder || lastReminder.delivery_status !== 'delivered') {
+      return false
+    }
+
+    const deliveredAt = new Date(lastReminder.delivered_at || lastReminder.sent_at)
+    const hoursUnread = (now.getTime() - deliveredAt.getTime()) / (1000 * 60 * 60)
+    return hoursUnread >= this.UNREAD_ESCALATION_HOURS
+  }
+
+  // Check if the customer has nothing left to upload. Rejected documents drop out of
+  // submitted_fields, so a rejection brings reminders back; documents awaiting review don't.
   private static isFormCompleted(submission: CustomerSubmission): boolean {
-    const formType = formFieldsData.formTypes.find(ft => ft.slug === submission.form_type)
-    if (!formType) return false
-    
-    const totalFields = formType.fields.filter(f => !f.isSection).length
-    const submittedFields = submission.submitted_fields.length
-    
-    return submittedFields === totalFields
+    const report = CompletionService.evaluate(submission)
+    return report.items.length > 0 && report.missing.length === 0
   }
 
   // Send reminder to customer
@@ -205,15 +353,18 @@ export class ReminderService {
         return await this.sendFirstMessage(firstMsgCandidate)
       }
 
-      // Handle regular reminders
-      const message = this.getReminderMessage(reminderType, submission)
+      // Handle regular reminders; templates that include {formLink} get a tracked link for this step
+      const formLink = this.loadMessageTemplates()[reminderType]?.includes('{formLink}')
+        ? await this.generateFormLink(submission.phone_number, submission.form_type, submission.form_type_label, { campaign: 'reminder', reminderType })
+        : null
+      const message = this.getReminderMessage(reminderType, submission, formLink || undefined)
       const chatId = greenAPI.formatChatId(submission.phone_number)
 
       // Send WhatsApp message
       const result = await greenAPI.sendMessage(chatId, message)
       
       // Log the reminder message
-      await SupabaseService.logMessage({
+      const log = await SupabaseService.logMessage({
         phone_number: submission.phone_number,
         message_type: `reminder_${reminderType}` as MessageLog['message_type'],
         message_content: message,
@@ -226,6 +377,8 @@ export class ReminderService {
       })
       
       if (result.success) {
+        await LinkAnalyticsService.recordSentLinks(message, log, { phoneNumber: submission.phone_number, formType: submission.form_type })
+
         // Update reminder tracking in database
         await this.updateReminderTracking(submission.id!, reminderType)
         console.log(`Reminder sent to ${submission.phone_number}: ${reminderType}`)
@@ -314,16 +467,28 @@ export class ReminderService {
     }
   }
 
-  // Process all pending reminders
-  static async processAllReminders(): Promise<{sent: number, failed: number}> {
+  // Process all pending reminders that fall inside the sending window.
+  // Anything left when the window closes is picked up again by the next run.
+  static async processAllReminders(): Promise<{sent: number, failed: number, deferred: number, nextWindowAt?: string}> {
     const candidates = await this.getCustomersNeedingReminders()
+    const windowSettings = await SendingWindowService.getSettings()
     let sent = 0
     let failed = 0
+    let deferred = 0
+    let nextWindowAt: string | undefined
 
     console.log(`Found ${candidates.length} customers needing reminders`)
 
-    for (const candidate of candidates) {
-      const success = await this.sendReminder(candidate)
+    for (let i = 0; i < candidates.length; i++) {
+      const now = new Date()
+      if (!SendingWindowService.isWithinWindow(now, windowSettings)) {
+        deferred = candidates.length - i
+        nextWindowAt = SendingWindowService.getNextAllowedTime(now, windowSettings)?.toISOString()
+        console.log(`Outside sending window - deferring ${deferred} reminders until ${nextWindowAt}`)
+        break
+      }
+
+      const success = await this.sendReminder(candidates[i])
       if (success) {
         sent++
       } else {
@@ -334,8 +499,8 @@ export class ReminderService {
       await new Promise(resolve => setTimeout(resolve, 1000))
     }
 
-    console.log(`Reminder processing complete: ${sent} sent, ${failed} failed`)
-    return { sent, failed }
+    console.log(`Reminder processing complete: ${sent} sent, ${failed} failed, ${deferred} deferred`)
+    return { sent, failed, deferred, nextWindowAt }
   }
 
   // Mark form as sent (called when admin sends form link)
@@ -378,30 +543,16 @@ export class ReminderService {
     }
   }
 
-  // Map customer criterion to form type (using Hebrew slugs from form-fields.json)
+  // The form type for the customer's criterion; the first form type when it has none or it was removed
   private static mapCriterionToFormType(criterion?: import('./supabase').CustomerCriterion): {formType: string, formLabel: string} {
-    const mapping: Record<string, {formType: string, formLabel: string}> = {
-      'זכאי-מגורים': {formType: 'זכאי-מגורים', formLabel: 'מגורים באיזור זכאי'},
-      'צבא-דרגה': {formType: 'צבא-דרגה', formLabel: 'צבא- דרגה'},
-      'צבא-לוחם': {formType: 'צבא-לוחם', formLabel: 'צבא- לוחם'},
-      'איזור-עבודה-שכיר': {formType: 'עבודה-זכאי-שכיר', formLabel: 'עבודה באיזור זכאי שכיר'},
-      'איזור-עבודה-עצמאי': {formType: 'עבודה-זכאי-עצמאי', formLabel: 'עבודה באיזור זכאי עצמאי'},
-      'איזור-לימודים': {formType: 'תלמיד-סטודנט', formLabel: 'תלמיד / סטודנט'},
-      'מתנדב': {formType: 'מתנדב', formLabel: 'מתנדב'},
-      'חקלאי-עצמאי': {formType: 'חקלאי-עצמאי', formLabel: 'חקלאי עצמאי'},
-      'חקלאי-שכיר': {formType: 'חקלאי-שכיר', formLabel: 'חקלאי שכיר'},
-      'חקלאי-דרגה-ראשונה': {formType: 'חקלאי-דרגה-ראשונה', formLabel: 'חקלאי דרגה ראשונה'},
-      'מאבטח': {formType: 'מאבטח', formLabel: 'מאבטח'},
-      'מנהל-ביטחון': {formType: 'מנהל-ביטחון', formLabel: 'מנהל ביטחון'}
-    }
-    
-    // Default to residential form if no mapping found
-    return mapping[criterion || ''] || {formType: 'זכאי-מגורים', formLabel: 'מגורים באיזור זכאי'}
+    const formType = getFormType(criterion) || getFormTypes()[0]
+    return {formType: formType.slug, formLabel: formType.label}
   }
 
   // Get customers without any form submissions
   static async getCustomersWithoutForms(): Promise<FirstMessageCandidate[]> {
     try {
+      await SupabaseService.loadFormDefinitions()
       const customers = await SupabaseService.getAllCustomers()
       const submissions = await SupabaseService.getAllSubmissions()
       
@@ -428,8 +579,8 @@ export class ReminderService {
     }
   }
 
-  // Generate auth token and short URL for first message
-  private static async generateFirstMessageLink(phoneNumber: string, formType: string, formLabel: string): Promise<string | null> {
+  // Generate auth token and short URL for a message, tagged with the message it goes out in
+  private static async generateFormLink(phoneNumber: string, formType: string, formLabel: string, options: ShortUrlOptions): Promise<string | null> {
     try {
       // Format phone number for token service
       const cleanPhone = phoneNumber.replace(/\D/g, '')
@@ -455,61 +606,31 @@ export class ReminderService {
         return null
       }
 
-      // Step 2: Create short URL using the same approach as the customer page
-      // Use the URL shortening API with proper parameters
+      // Step 2: Create the short URL directly - calling our own /api/urls/shorten
+      // from the server would need an admin session
       const baseURL = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
-      console.log('Using baseURL for first message:', baseURL)
-      console.log('Making URL shortening request with params:', {
-        phoneNumber,
+      const { URLService } = await import('./url-service')
+      const shortUrlResult = await URLService.createWhatsAppShortUrl(
+        baseURL,
+        phoneNumber, // Use original phone (not formatted)
         formType,
-        formTypeLabel: formLabel,
-        token: tokenData.token
-      })
-      
-      try {
-        const shortUrlResponse = await fetch(`${baseURL}/api/urls/shorten`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            phoneNumber: phoneNumber, // Use original phone (not formatted)
-            formType: formType,
-            formTypeLabel: formLabel,
-            token: tokenData.token
-          })
-        })
-        
-        console.log('Short URL response status:', shortUrlResponse.status)
-
-        if (shortUrlResponse.ok) {
-          const shortData = await shortUrlResponse.json()
-          console.log('Short URL API response data:', shortData)
-          if (shortData.success) {
-            console.log('✅ Created short URL for first message:', shortData.shortUrl)
-            return shortData.shortUrl
-          } else {
-            console.error('❌ Short URL creation failed:', shortData.error)
-            // Fallback: generate tokenized URL manually
-            const fallbackUrl = TokenService.generateTokenizedURL(baseURL, phoneNumber, formType, tokenData.token)
-            console.log('⚠️ Using fallback tokenized URL:', fallbackUrl)
-            return fallbackUrl
-          }
-        } else {
-          const errorText = await shortUrlResponse.text()
-          console.error('❌ Short URL API error:', shortUrlResponse.status, errorText)
-          // Fallback: generate tokenized URL manually
-          const fallbackUrl = TokenService.generateTokenizedURL(baseURL, phoneNumber, formType, tokenData.token)
-          console.log('⚠️ Using fallback tokenized URL:', fallbackUrl)
-          return fallbackUrl
-        }
-      } catch (urlError) {
-        console.error('Error creating short URL:', urlError)
-        // Fallback: generate tokenized URL manually
-        const fallbackUrl = TokenService.generateTokenizedURL(baseURL, phoneNumber, formType, tokenData.token)
-        console.log('Using fallback tokenized URL:', fallbackUrl)
-        return fallbackUrl
+        formLabel,
+        tokenData.token,
+        options
+      )
+
+      if (shortUrlResult.success && shortUrlResult.shortUrl) {
+        console.log(`✅ Created short URL for ${options.reminderType || options.campaign}:`, shortUrlResult.shortUrl)
+        return shortUrlResult.shortUrl
       }
+
+      // Fallback: generate tokenized URL manually
+      console.error('❌ Short URL creation failed:', shortUrlResult.error)
+      const fallbackUrl = TokenService.generateTokenizedURL(baseURL, phoneNumber, formType, tokenData.token)
+      console.log('⚠️ Using fallback tokenized URL:', fallbackUrl)
+      return fallbackUrl
     } catch (error) {
-      console.error('Error generating first message link:', error)
+      console.error('Error generating form link:', error)
       return null
     }
   }
@@ -520,7 +641,7 @@ export class ReminderService {
       const { customer, suggestedFormType, suggestedFormLabel } = candidate
 
       // Generate the tokenized short URL
-      const formLink = await this.generateFirstMessageLink(customer.phone_number, suggestedFormType, suggestedFormLabel)
+      const formLink = await this.generateFormLink(customer.phone_number, suggestedFormType, suggestedFormLabel, { campaign: 'first_message' })
       if (!formLink) {
         console.error('Failed to generate form link for first message')
         return false
@@ -547,7 +668,7 @@ export class ReminderService {
       const result = await greenAPI.sendMessage(chatId, message)
       
       // Log the message
-      await SupabaseService.logMessage({
+      const log = await SupabaseService.logMessage({
         customer_id: customer.id,
         phone_number: customer.phone_number,
         message_type: 'form_link',
@@ -560,6 +681,7 @@ export class ReminderService {
       })
       
       if (result.success) {
+        await LinkAnalyticsService.recordSentLinks(message, log, { phoneNumber: customer.phone_number, formType: suggestedFormType })
         console.log(`First message sent to ${customer.phone_number}: ${suggestedFormLabel}`)
         return true
       } else {
@@ -0,0 +1,118 @@
+import { SupabaseService } from './supabase-service'
+import { SendingWindowSettings } from './supabase'
+
+interface IsraelTime {
+  date: string // YYYY-MM-DD
+  hour: number
+  weekday: number // 0 = Sunday ... 6 = Saturday
+}
+
+export class SendingWindowService {
+  static readonly TIME_ZONE = 'Asia/Jerusalem'
+  private static readonly SETTINGS_KEY = 'sending_window'
+  private static readonly MAX_SEARCH_HOURS = 60 * 24 // Look up to 60 days ahead for a window
+  private static readonly WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+  static readonly DEFAULT_SETTINGS: SendingWindowSettings = {
+    enabled: true,
+    start_hour: 9,
+    end_hour: 21,
+    pre_rest_day_cutoff_hour: 14,
+    rest_day_resume_hour: 20,
+    holiday_dates: []
+  }
+
+  static async getSettings(): Promise<SendingWindowSettings> {
+    const stored = await SupabaseService.getAppSetting<Partial<SendingWindowSettings>>(this.SETTINGS_KEY)
+    return { ...this.DEFAULT_SETTINGS, ...(stored || {}) }
+  }
+
+  static async saveSettings(settings: SendingWindowSettings): Promise<boolean> {
+    const holidayDates = Array.from(new Set(settings.holiday_dates || [])).sort()
+    return await SupabaseService.saveAppSetting(this.SETTINGS_KEY, { ...settings, holiday_dates: holidayDates })
+  }
+
+  /**
+   * Check whether a message may be sent at the given moment (Israel time):
+   * inside the daily hours, not from the cutoff on Friday / a holiday eve,
+   * and not on Shabbat / a holiday before the resume hour.
+   */
+  static isWithinWindow(date: Date, settings: SendingWindowSettings): boolean {
+    if (!settings.enabled) return true
+
+    const now = this.getIsraelTime(date)
+    const tomorrow = this.getIsraelTime(new Date(date.getTime() + 24 * 60 * 60 * 1000))
+
+    if (now.hour < settings.start_hour || now.hour >= settings.end_hour) {
+      return false
+    }
+
+    if (this.isRestDay(now, settings) && now.hour < settings.rest_day_resume_hour) {
+      return false
+    }
+
+    if (this.isRestDay(tomorrow, settings) && now.hour >= settings.pre_rest_day_cutoff_hour) {
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * The first moment at or after `from` when sending is allowed.
+   * Window boundaries are whole hours, so checking each full hour is enough.
+   */
+  static getNextAllowedTime(from: Date, settings: SendingWindowSettings): Date | null {
+    if (this.isWithinWindow(from, settings)) return from
+
+    const candidate = new Date(from)
+    candidate.setUTCMinutes(0, 0, 0)
+
+    for (let i = 0; i < this.MAX_SEARCH_HOURS; i++) {
+      candidate.setTime(candidate.getTime() + 60 * 60 * 1000)
+      if (this.isWithinWindow(candidate, settings)) {
+        return candidate
+      }
+    }
+
+    console.error('No sending window found in the next 60 days - check the sending window settings')
+    return null
+  }
+
+  // Convenience: load settings and check the current moment
+  static async canSendNow(): Promise<{ allowed: boolean; nextWindowAt: Date | null }> {
+    const settings = await this.getSettings()
+    const now = new Date()
+    const allowed = this.isWithinWindow(now, settings)
+    return { allowed, nextWindowAt: allowed ? now : this.getNextAllowedTime(now, settings) }
+  }
+
+  // Format a moment for Hebrew admin messages in Israel time
+  static formatIsraelTime(date: Date): string {
+    return date.toLocaleString('he-IL', { timeZone: this.TIME_ZONE })
+  }
+
+  private static isRestDay(time: IsraelTime, settings: SendingWindowSettings): boolean {
+    return time.weekday === 6 || (settings.holiday_dates || []).includes(time.date)
+  }
+
+  private static getIsraelTime(date: Date): IsraelTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'short'
+    }).formatToParts(date)
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || ''
+
+    return {
+      date: `${get('year')}-${get('month')}-${get('day')}`,
+      hour: parseInt(get('hour')),
+      weekday: this.WEEKDAYS.indexOf(get('weekday'))
+    }
+  }
+}
@@ -0,0 +1,66 @@
+// Edge-safe (used by middleware): Web Crypto only, no Node APIs
+
+// Tokens are base64url(JSON payload).base64url(HMAC-SHA256(payload))
+export class SignedTokenService {
+  static async sign(payload: object, secret: string): Promise<string> {
+    const encodedPayload = this.toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+    const signature = await crypto.subtle.sign('HMAC', await this.getKey(secret), new TextEncoder().encode(encodedPayload))
+
+    return `${encodedPayload}.${this.toBase64Url(new Uint8Array(signature))}`
+  }
+
+  // Returns the decoded payload, or null when the token is malformed or the signature doesn't match
+  static async verify<T>(token: string, secret: string): Promise<T | null> {
+    try {
+      const [encodedPayload, signature] = token.split('.')
+      if (!encodedPayload || !signature) return null
+
+      const valid = await crypto.subtle.verify(
+        'HMAC',
+        await this.getKey(secret),
+        this.fromBase64Url(signature),
+        new TextEncoder().encode(encodedPayload)
+      )
+      if (!valid) return null
+
+      return JSON.parse(new TextDecoder().decode(this.fromBase64Url(encodedPayload))) as T
+    } catch (error) {
+      console.error('Error verifying signed token:', error)
+      return null
+    }
+  }
+
+  // Compares every byte whatever the first difference, so the time taken doesn't reveal how much of a secret matched
+  static safeEqual(a: string, b: string): boolean {
+    const left = new TextEncoder().encode(a)
+    const right = new TextEncoder().encode(b)
+
+    let difference = left.length ^ right.length
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      difference |= (left[i] ?? 0) ^ (right[i] ?? 0)
+    }
+    return difference === 0
+  }
+
+  private static async getKey(secret: string): Promise<CryptoKey> {
+    return await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    )
+  }
+
+  private static toBase64Url(bytes: Uint8Array): string {
+    let binary = ''
+    bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+  }
+
+  private static fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+    const binary = atob(base64)
+    return Uint8Array.from(binary, char => char.charCodeAt(0))
+  }
+}
@@ -1,10 +1,9 @@
-import { supabase, Customer, CustomerSubmission, UploadedFile, MessageLog, AuthToken } from './supabase'
+import { supabase, isSupabaseConfigured, Customer, CustomerSubmission, UploadedFile, MessageLog, MessageDeliveryStatus, AuthToken, ConversationSession, ReminderPolicy, BatchJob, BatchJobRecipient, BatchJobRecipientStatus, AdminUser, OtpCode, OtpAuditEntry, OtpAuditEvent, TokenValidationLog, ShortLink, LinkClick, RejectionReason, FormFieldRecord, FormTypeRecord, FormTypeFieldRecord } from './supabase'
+import { getFieldFileLimits, getPeriodSlots, getReferenceDate } from './form-fields'
+import { CompletionReport, CompletionService } from './completion-service'
+import { BUNDLED_FORM_DEFINITIONS, FormDefinitionSource, FormDefinitions, buildFormDefinitions, getFormDefinitions, setFormDefinitions, toFormFieldRecord, toFormTypeFieldRecords } from './form-definitions'
 
-const isSupabaseConfigured = () => {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
-  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-  return url && key && url !== 'https://placeholder.supabase.co' && key !== 'placeholder-key'
-}
+const FORM_DEFINITIONS_CACHE_MS = 60 * 1000
 
 export class SupabaseService {
   
@@ -279,46 +278,50 @@ export class SupabaseService {
     }
   }
 
-  // Update submitted fields
-  static async updateSubmittedFields(submissionId: string, fieldSlugs: string[]): Promise<boolean> {
+  /**
+   * Recompute a submission's progress from its files and store it, moving the status to
+   * completed once every required item is approved (see CompletionService).
+   */
+  static async syncSubmissionProgress(submissionId: string): Promise<{
+    files: UploadedFile[]
+    submittedFields: string[]
+    approvedFields: string[]
+    report: CompletionReport
+  } | null> {
     if (!isSupabaseConfigured()) {
-      console.warn('Supabase not configured, returning false')
-      return false
+      console.warn('Supabase not configured, returning null')
+      return null
     }
-    
+
     try {
-      // Determine status based on number of fields
-      let newStatus: 'new' | 'in-progress' | 'completed' = 'new'
-      if (fieldSlugs.length > 0) {
-        newStatus = 'in-progress'
-      }
+      const submission = await this.getSubmissionById(submissionId)
+      if (!submission) return null
 
-      const { error, status: httpStatus } = await supabase
+      await this.loadFormDefinitions()
+      const files = await this.getUploadedFiles(submissionId)
+      const progress = CompletionService.getFieldProgress(submission, files)
+      const report = CompletionService.evaluate(submission, progress)
+
+      // Missing periods are kept on the submission so reminder lists can show the gaps without loading every file
+      const { error } = await supabase
         .from('customer_submissions')
-        .update({ 
-          submitted_fields: fieldSlugs,
-          status: newStatus
+        .update({
+          submitted_fields: progress.submittedFields,
+          approved_fields: progress.approvedFields,
+          missing_periods: progress.missingPeriods,
+          status: report.status
         })
         .eq('id', submissionId)
 
-      // Treat successful HTTP statuses as success regardless of empty error objects
-      if (typeof httpStatus === 'number' && httpStatus >= 200 && httpStatus < 300) {
-        return true
-      }
-      // If no HTTP status provided, consider lack of error code/message as success
-      const errCode = (error as { code?: string })?.code
-      const errMsg = (error as { message?: string })?.message
-      if (!error || (!errCode && !errMsg)) {
-        return true
+      if (error) {
+        console.error('Error updating submission progress:', error)
+        return null
       }
-      // Non-success with a meaningful error: fail silently (no console error noise)
-      return false
 
-      return true
+      return { files, submittedFields: progress.submittedFields, approvedFields: progress.approvedFields, report }
     } catch (error) {
-      // Avoid throwing console errors; keep logs minimal
-      console.warn('updateSubmittedFields exception', error)
-      return false
+      console.error('Error in syncSubmissionProgress:', error)
+      return null
     }
   }
 
@@ -450,6 +453,113 @@ export class SupabaseService {
     }
   }
 
+  // Override the reminder policy for a single submission (null = use the form type policy)
+  static async updateSubmissionReminderPolicy(submissionId: string, policyId: string | null): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+    
+    try {
+      const { error } = await supabase
+        .from('customer_submissions')
+        .update({ reminder_policy_id: policyId })
+        .eq('id', submissionId)
+
+      if (error) {
+        console.error('Error updating submission reminder policy:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in updateSubmissionReminderPolicy:', error)
+      return false
+    }
+  }
+
+  // Set the planned application date that period fields count back from (null falls back to the creation date)
+  static async updateSubmissionReferenceDate(submissionId: string, referenceDate: string | null): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('customer_submissions')
+        .update({ reference_date: referenceDate })
+        .eq('id', submissionId)
+
+      if (error) {
+        console.error('Error updating submission reference date:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in updateSubmissionReferenceDate:', error)
+      return false
+    }
+  }
+
+  // Fields or sections the customer doesn't have to provide for this submission
+  static async updateSubmissionWaivers(submissionId: string, waivedFields: string[]): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('customer_submissions')
+        .update({ waived_fields: waivedFields })
+        .eq('id', submissionId)
+
+      if (error) {
+        console.error('Error updating submission waivers:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in updateSubmissionWaivers:', error)
+      return false
+    }
+  }
+
+  // Update when the customer last opened the form link
+  static async updateSubmissionLinkOpened(phoneNumber: string, formType: string, openedAt: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+    
+    try {
+      const { error } = await supabase
+        .from('customer_submissions')
+        .update({ last_link_opened_at: openedAt })
+        .eq('phone_number', phoneNumber)
+        .eq('form_type', formType)
+
+      if (error) {
+        // If the column doesn't exist in the DB yet, skip gracefully
+        if ((error as { code?: string })?.code === 'PGRST204' ||
+            (error as { message?: { toString?: () => string } })?.message?.toString?.().includes('does not exist')) {
+          console.warn('last_link_opened_at column not found - skipping link open tracking')
+          return true
+        }
+        console.error('Error updating link open tracking:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in updateSubmissionLinkOpened:', error)
+      return false
+    }
+  }
+
   // Pause/resume reminders
   static async updateSubmissionReminderPause(submissionId: string, paused: boolean): Promise<boolean> {
     if (!isSupabaseConfigured()) {
@@ -484,7 +594,8 @@ export class SupabaseService {
     
     try {
       const fileExt = file.name.split('.').pop()
-      const fileName = `${fieldSlug}-${Date.now()}.${fileExt}`
+      // Random suffix so several files for one field can't collide
+      const fileName = `${fieldSlug}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}.${fileExt}`
       const filePath = `${phoneNumber}/${fileName}`
 
       const { data, error } = await supabase.storage
@@ -512,11 +623,16 @@ export class SupabaseService {
     fieldSlug: string,
     fieldName: string,
     file: File,
-    filePath: string
+    filePath: string,
+    periodKey?: string | null
   ): Promise<UploadedFile | null> {
     try {
-      // First, delete any existing file for this field
-      await this.deleteFileForField(submissionId, fieldSlug)
+      await this.loadFormDefinitions()
+
+      // A single-file field keeps only the latest upload; multi-file fields collect them
+      if (getFieldFileLimits(fieldSlug).maxFiles === 1) {
+        await this.deleteFileForField(submissionId, fieldSlug)
+      }
 
       const { data, error } = await supabase
         .from('uploaded_files')
@@ -527,7 +643,8 @@ export class SupabaseService {
           file_name: file.name,
           file_path: filePath,
           file_size: file.size,
-          mime_type: file.type
+          mime_type: file.type,
+          period_key: periodKey || null
         })
         .select()
         .single()
@@ -544,6 +661,52 @@ export class SupabaseService {
     }
   }
 
+  // Delete one file of a submission (multi-file fields remove files one at a time)
+  static async deleteFileById(submissionId: string, fileId: string): Promise<boolean> {
+    try {
+      const { data: existingFile } = await supabase
+        .from('uploaded_files')
+        .select('*')
+        .eq('id', fileId)
+        .eq('submission_id', submissionId)
+        .maybeSingle()
+
+      if (!existingFile) {
+        return false
+      }
+
+      await supabase.storage
+        .from('customer-files')
+        .remove([existingFile.file_path])
+
+      const { error } = await supabase
+        .from('uploaded_files')
+        .delete()
+        .eq('id', fileId)
+
+      if (error) {
+        console.error('Error deleting file:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in deleteFileById:', error)
+      return false
+    }
+  }
+
+  // Whether a field can take another file: single-file fields are replaced, multi-file fields stop at maxFiles
+  static async canAddFile(submissionId: string, fieldSlug: string): Promise<boolean> {
+    await this.loadFormDefinitions()
+    const { maxFiles } = getFieldFileLimits(fieldSlug)
+    if (maxFiles === 1) return true
+
+    const files = await this.getUploadedFiles(submissionId)
+    const activeCount = files.filter(file => file.field_slug === fieldSlug && file.review_status !== 'rejected').length
+    return activeCount < maxFiles
+  }
+
   // Delete file for a specific field
   static async deleteFileForField(submissionId: string, fieldSlug: string): Promise<boolean> {
     try {
@@ -636,6 +799,31 @@ export class SupabaseService {
     }
   }
 
+  // Download a stored file's contents (server side, e.g. for document bundles)
+  static async downloadFile(filePath: string): Promise<ArrayBuffer | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const cleanFilePath = filePath.startsWith('/') ? filePath.substring(1) : filePath
+      const { data, error } = await supabase.storage
+        .from('customer-files')
+        .download(cleanFilePath)
+
+      if (error || !data) {
+        console.error('Error downloading file:', error)
+        return null
+      }
+
+      return await data.arrayBuffer()
+    } catch (error) {
+      console.error('Error in downloadFile:', error)
+      return null
+    }
+  }
+
   // Complete file upload process
   static async handleFileUpload(
     phoneNumber: string,
@@ -643,8 +831,9 @@ export class SupabaseService {
     formTypeLabel: string,
     fieldSlug: string,
     fieldName: string,
-    file: File
-  ): Promise<{ success: boolean; submission?: CustomerSubmission; uploadedFile?: UploadedFile }> {
+    file: File,
+    periodKey?: string
+  ): Promise<{ success: boolean; submission?: CustomerSubmission; uploadedFile?: UploadedFile; limitReached?: boolean; invalidPeriod?: boolean }> {
     if (!isSupabaseConfigured()) {
       console.warn('Supabase not configured, returning failure')
       return { success: false }
@@ -657,6 +846,14 @@ export class SupabaseService {
         return { success: false }
       }
 
+      if (!await this.canAddFile(submission.id!, fieldSlug)) {
+        return { success: false, submission, limitReached: true }
+      }
+
+      if (periodKey && !getPeriodSlots(fieldSlug, getReferenceDate(submission)).some(slot => slot.key === periodKey)) {
+        return { success: false, submission, invalidPeriod: true }
+      }
+
       // Upload file to storage
       const filePath = await this.uploadFile(file, phoneNumber, fieldSlug)
       if (!filePath) {
@@ -664,7 +861,7 @@ export class SupabaseService {
       }
 
       // Save file metadata
-      const uploadedFile = await this.saveFileMetadata(submission.id!, fieldSlug, fieldName, file, filePath)
+      const uploadedFile = await this.saveFileMetadata(submission.id!, fieldSlug, fieldName, file, filePath, periodKey)
       if (!uploadedFile) {
         return { success: false }
       }
@@ -732,6 +929,82 @@ export class SupabaseService {
     }
   }
 
+  static async getUploadedFileById(fileId: string): Promise<UploadedFile | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('uploaded_files')
+        .select('*')
+        .eq('id', fileId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching uploaded file:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getUploadedFileById:', error)
+      return null
+    }
+  }
+
+  static async getSubmissionById(submissionId: string): Promise<CustomerSubmission | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customer_submissions')
+        .select('*')
+        .eq('id', submissionId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching submission:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getSubmissionById:', error)
+      return null
+    }
+  }
+
+  // Get all submissions for a phone number (a customer may have several form types)
+  static async getSubmissionsByPhone(phoneNumber: string): Promise<CustomerSubmission[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customer_submissions')
+        .select('*')
+        .eq('phone_number', phoneNumber)
+        .order('updated_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching submissions by phone:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getSubmissionsByPhone:', error)
+      return []
+    }
+  }
+
   // Get all files for all submissions by phone number
   static async getAllFilesByPhone(phoneNumber: string): Promise<UploadedFile[]> {
     if (!isSupabaseConfigured()) {
@@ -914,8 +1187,9 @@ export class SupabaseService {
     formTypeLabel: string,
     fieldSlug: string,
     fieldName: string,
-    file: File
-  ): Promise<{ success: boolean; submission?: CustomerSubmission; uploadedFile?: UploadedFile }> {
+    file: File,
+    periodKey?: string
+  ): Promise<{ success: boolean; submission?: CustomerSubmission; uploadedFile?: UploadedFile; limitReached?: boolean; invalidPeriod?: boolean }> {
     if (!isSupabaseConfigured()) {
       console.warn('Supabase not configured, returning failure')
       return { success: false }
@@ -928,6 +1202,14 @@ export class SupabaseService {
         return { success: false }
       }
 
+      if (!await this.canAddFile(submission.id!, fieldSlug)) {
+        return { success: false, submission, limitReached: true }
+      }
+
+      if (periodKey && !getPeriodSlots(fieldSlug, getReferenceDate(submission)).some(slot => slot.key === periodKey)) {
+        return { success: false, submission, invalidPeriod: true }
+      }
+
       // Upload file to storage
       const filePath = await this.uploadFile(file, phoneNumber, fieldSlug)
       if (!filePath) {
@@ -935,7 +1217,7 @@ export class SupabaseService {
       }
 
       // Save file metadata
-      const uploadedFile = await this.saveFileMetadata(submission.id!, fieldSlug, fieldName, file, filePath)
+      const uploadedFile = await this.saveFileMetadata(submission.id!, fieldSlug, fieldName, file, filePath, periodKey)
       if (!uploadedFile) {
         return { success: false }
       }
@@ -982,6 +1264,7 @@ export class SupabaseService {
   static async logMessage(messageData: {
     customer_id?: string
     phone_number: string
+    direction?: MessageLog['direction']
     message_type: MessageLog['message_type']
     message_content: string
     form_type?: string
@@ -1006,6 +1289,7 @@ export class SupabaseService {
       const { data, error } = await supabase
         .from('message_logs')
         .insert({
+          direction: 'outgoing',
           ...messageData,
           sent_at: new Date().toISOString()
         })
@@ -1128,32 +1412,180 @@ export class SupabaseService {
     }
   }
 
-  // Authorization Token Functions
-  static async createAuthToken(tokenData: {
-    phone_number: string
-    form_type: string
-    token: string
-    expires_at: string
-    is_reusable?: boolean
-    created_by_admin?: boolean
-  }): Promise<AuthToken | null> {
+  // Status order for delivery receipts; a message never moves back to an earlier status
+  private static readonly DELIVERY_STATUS_RANK: Record<MessageDeliveryStatus, number> = {
+    sent: 1,
+    delivered: 2,
+    read: 3,
+    failed: 0
+  }
+
+  // Record a delivery/read receipt for a sent message and advance its status
+  static async recordMessageStatus(
+    whatsappMessageId: string,
+    status: MessageDeliveryStatus,
+    occurredAt: string,
+    description?: string
+  ): Promise<boolean> {
     if (!isSupabaseConfigured()) {
-      console.warn('Supabase not configured, returning null')
-      return null
+      console.warn('Supabase not configured, skipping message status')
+      return false
     }
 
     try {
-      const { data, error } = await supabase
-        .from('auth_tokens')
-        .insert([{
-          phone_number: tokenData.phone_number,
-          form_type: tokenData.form_type,
-          token: tokenData.token,
-          expires_at: tokenData.expires_at,
-          is_reusable: tokenData.is_reusable || false,
-          created_by_admin: tokenData.created_by_admin || true
-        }])
-        .select()
+      const { data: messageLog, error: fetchError } = await supabase
+        .from('message_logs')
+        .select('*')
+        .eq('whatsapp_message_id', whatsappMessageId)
+        .order('sent_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (fetchError) {
+        console.error('Error fetching message for status update:', fetchError)
+        return false
+      }
+
+      const { error: eventError } = await supabase
+        .from('message_status_events')
+        .insert({
+          message_log_id: messageLog?.id,
+          whatsapp_message_id: whatsappMessageId,
+          status,
+          description,
+          occurred_at: occurredAt
+        })
+
+      if (eventError) {
+        console.error('Error saving message status event:', eventError)
+        return false
+      }
+
+      if (!messageLog) {
+        console.warn('No logged message found for status update:', whatsappMessageId)
+        return true
+      }
+
+      const currentStatus = messageLog.delivery_status as MessageDeliveryStatus | null
+      // Failures only count while the message was not delivered yet
+      const shouldAdvance = !currentStatus ||
+        (status === 'failed'
+          ? currentStatus === 'sent'
+          : this.DELIVERY_STATUS_RANK[status] > this.DELIVERY_STATUS_RANK[currentStatus])
+
+      const updates: Partial<MessageLog> = {}
+      if (shouldAdvance) {
+        updates.delivery_status = status
+        updates.status_updated_at = occurredAt
+      }
+      if ((status === 'delivered' || status === 'read') && !messageLog.delivered_at) {
+        updates.delivered_at = occurredAt
+      }
+      if (status === 'read' && !messageLog.read_at) {
+        updates.read_at = occurredAt
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return true
+      }
+
+      const { error: updateError } = await supabase
+        .from('message_logs')
+        .update(updates)
+        .eq('id', messageLog.id)
+
+      if (updateError) {
+        console.error('Error updating message delivery status:', updateError)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in recordMessageStatus:', error)
+      return false
+    }
+  }
+
+  // Get the most recent reminder messages across all customers (newest first)
+  static async getRecentReminderMessages(limit: number = 2000): Promise<MessageLog[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('message_logs')
+        .select('*')
+        .like('message_type', 'reminder_%')
+        .order('sent_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching reminder messages:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getRecentReminderMessages:', error)
+      return []
+    }
+  }
+
+  // Get the most recent messages customers sent us (newest first)
+  static async getRecentIncomingMessages(limit: number = 2000): Promise<MessageLog[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('message_logs')
+        .select('*')
+        .eq('direction', 'incoming')
+        .order('sent_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching incoming messages:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getRecentIncomingMessages:', error)
+      return []
+    }
+  }
+
+  // Authorization Token Functions
+  static async createAuthToken(tokenData: {
+    phone_number: string
+    form_type: string
+    token: string
+    expires_at: string
+    is_reusable?: boolean
+    created_by_admin?: boolean
+  }): Promise<AuthToken | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('auth_tokens')
+        .insert([{
+          phone_number: tokenData.phone_number,
+          form_type: tokenData.form_type,
+          token: tokenData.token,
+          expires_at: tokenData.expires_at,
+          is_reusable: tokenData.is_reusable || false,
+          created_by_admin: tokenData.created_by_admin || true
+        }])
+        .select()
         .single()
 
       if (error) {
@@ -1168,7 +1600,8 @@ export class SupabaseService {
     }
   }
 
-  static async validateAuthToken(token: string): Promise<AuthToken | null> {
+  // Look up a token whatever its state, so validation can tell expired, used and revoked apart
+  static async getAuthTokenByToken(token: string): Promise<AuthToken | null> {
     if (!isSupabaseConfigured()) {
       console.warn('Supabase not configured, returning null')
       return null
@@ -1179,29 +1612,21 @@ export class SupabaseService {
         .from('auth_tokens')
         .select('*')
         .eq('token', token)
-        .gt('expires_at', new Date().toISOString())
-        .single()
+        .maybeSingle()
 
       if (error) {
-        if (error.code !== 'PGRST116') { // Not found error
-          console.error('Error validating auth token:', error)
-        }
-        return null
-      }
-
-      // Check if token is single-use and already used
-      if (!data.is_reusable && data.used_at) {
+        console.error('Error fetching auth token:', error)
         return null
       }
 
       return data
     } catch (error) {
-      console.error('Error in validateAuthToken:', error)
+      console.error('Error in getAuthTokenByToken:', error)
       return null
     }
   }
 
-  static async markTokenAsUsed(tokenId: string): Promise<boolean> {
+  static async logTokenValidation(entry: Omit<TokenValidationLog, 'id' | 'created_at'>): Promise<boolean> {
     if (!isSupabaseConfigured()) {
       console.warn('Supabase not configured, returning false')
       return false
@@ -1209,19 +1634,83 @@ export class SupabaseService {
 
     try {
       const { error } = await supabase
+        .from('token_validation_logs')
+        .insert(entry)
+
+      if (error) {
+        console.error('Error logging token validation:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in logTokenValidation:', error)
+      return false
+    }
+  }
+
+  private static readonly TOKEN_LOG_PAGE_SIZE = 1000 // Supabase's default cap on rows per response
+
+  // Newest first. Without a limit every row in the window is read, a page at a time
+  static async getTokenValidationLogs(since: Date, limit?: number): Promise<TokenValidationLog[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    const pageSize = Math.min(limit ?? this.TOKEN_LOG_PAGE_SIZE, this.TOKEN_LOG_PAGE_SIZE)
+    const logs: TokenValidationLog[] = []
+
+    try {
+      while (limit === undefined || logs.length < limit) {
+        const { data, error } = await supabase
+          .from('token_validation_logs')
+          .select('*')
+          .gte('created_at', since.toISOString())
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .range(logs.length, logs.length + pageSize - 1)
+
+        if (error) {
+          console.error('Error fetching token validation logs:', error)
+          return []
+        }
+
+        logs.push(...(data || []))
+        if (!data || data.length < pageSize) break
+      }
+
+      return limit === undefined ? logs : logs.slice(0, limit)
+    } catch (error) {
+      console.error('Error in getTokenValidationLogs:', error)
+      return []
+    }
+  }
+
+  // Only an unused token is updated, so of two concurrent requests just one consumes it
+  static async markTokenAsUsed(tokenId: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { data, error } = await supabase
         .from('auth_tokens')
         .update({
           used_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
         .eq('id', tokenId)
+        .is('used_at', null)
+        .select('id')
 
       if (error) {
         console.error('Error marking token as used:', error)
         return false
       }
 
-      return true
+      return (data || []).length > 0
     } catch (error) {
       console.error('Error in markTokenAsUsed:', error)
       return false
@@ -1253,6 +1742,89 @@ export class SupabaseService {
     }
   }
 
+  static async getAuthTokenById(tokenId: string): Promise<AuthToken | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('auth_tokens')
+        .select('*')
+        .eq('id', tokenId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching auth token:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getAuthTokenById:', error)
+      return null
+    }
+  }
+
+  static async updateAuthToken(
+    tokenId: string,
+    updates: Partial<Pick<AuthToken, 'expires_at' | 'revoked_at'>>
+  ): Promise<AuthToken | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('auth_tokens')
+        .update(updates)
+        .eq('id', tokenId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating auth token:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateAuthToken:', error)
+      return null
+    }
+  }
+
+  // Count a successful link open
+  static async recordTokenUse(token: AuthToken): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('auth_tokens')
+        .update({
+          use_count: (token.use_count || 0) + 1,
+          last_used_at: new Date().toISOString()
+        })
+        .eq('id', token.id!)
+
+      if (error) {
+        console.error('Error recording token use:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in recordTokenUse:', error)
+      return false
+    }
+  }
+
+  // Revoked tokens are kept (with revoked_at set) so the admin can still see them until cleanup
   static async revokeToken(tokenId: string): Promise<boolean> {
     if (!isSupabaseConfigured()) {
       console.warn('Supabase not configured, returning false')
@@ -1262,7 +1834,7 @@ export class SupabaseService {
     try {
       const { error } = await supabase
         .from('auth_tokens')
-        .delete()
+        .update({ revoked_at: new Date().toISOString() })
         .eq('id', tokenId)
 
       if (error) {
@@ -1277,17 +1849,19 @@ export class SupabaseService {
     }
   }
 
-  static async cleanupExpiredTokens(): Promise<number> {
+  // Delete tokens that expired or were revoked before the given date
+  static async cleanupExpiredTokens(olderThan: Date = new Date()): Promise<number> {
     if (!isSupabaseConfigured()) {
       console.warn('Supabase not configured, returning 0')
       return 0
     }
 
     try {
+      const cutoff = olderThan.toISOString()
       const { data, error } = await supabase
         .from('auth_tokens')
         .delete()
-        .lt('expires_at', new Date().toISOString())
+        .or(`expires_at.lt.${cutoff},revoked_at.lt.${cutoff}`)
         .select()
 
       if (error) {
@@ -1301,4 +1875,1593 @@ export class SupabaseService {
       return 0
     }
   }
-}
\ No newline at end of file
+
+  // Conversation Session Functions
+
+  static async getConversationSession(phoneNumber: string): Promise<ConversationSession | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('conversation_sessions')
+        .select('*')
+        .eq('phone_number', phoneNumber)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching conversation session:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getConversationSession:', error)
+      return null
+    }
+  }
+
+  static async upsertConversationSession(session: ConversationSession): Promise<ConversationSession | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, skipping conversation session')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('conversation_sessions')
+        .upsert({
+          phone_number: session.phone_number,
+          state: session.state,
+          context: session.context,
+          expires_at: session.expires_at
+        }, { onConflict: 'phone_number' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error saving conversation session:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in upsertConversationSession:', error)
+      return null
+    }
+  }
+
+  static async getConversationSessionsByState(state: ConversationSession['state']): Promise<ConversationSession[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('conversation_sessions')
+        .select('*')
+        .eq('state', state)
+        .gt('expires_at', new Date().toISOString())
+
+      if (error) {
+        console.error('Error fetching conversation sessions:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getConversationSessionsByState:', error)
+      return []
+    }
+  }
+
+  static async deleteConversationSession(phoneNumber: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('conversation_sessions')
+        .delete()
+        .eq('phone_number', phoneNumber)
+
+      if (error) {
+        console.error('Error deleting conversation session:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in deleteConversationSession:', error)
+      return false
+    }
+  }
+
+  // Reminder Policy Functions
+
+  static async getReminderPolicies(): Promise<ReminderPolicy[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('reminder_policies')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching reminder policies:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getReminderPolicies:', error)
+      return []
+    }
+  }
+
+  static async createReminderPolicy(policy: Omit<ReminderPolicy, 'id' | 'created_at' | 'updated_at'>): Promise<ReminderPolicy | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('reminder_policies')
+        .insert(policy)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating reminder policy:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in createReminderPolicy:', error)
+      return null
+    }
+  }
+
+  static async updateReminderPolicy(
+    policyId: string,
+    updates: Partial<Omit<ReminderPolicy, 'id' | 'created_at' | 'updated_at'>>
+  ): Promise<ReminderPolicy | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('reminder_policies')
+        .update(updates)
+        .eq('id', policyId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating reminder policy:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateReminderPolicy:', error)
+      return null
+    }
+  }
+
+  static async deleteReminderPolicy(policyId: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('reminder_policies')
+        .delete()
+        .eq('id', policyId)
+
+      if (error) {
+        console.error('Error deleting reminder policy:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in deleteReminderPolicy:', error)
+      return false
+    }
+  }
+
+  // App Settings Functions
+
+  static async getAppSetting<T>(key: string): Promise<T | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', key)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching app setting:', error)
+        return null
+      }
+
+      return data ? (data.value as T) : null
+    } catch (error) {
+      console.error('Error in getAppSetting:', error)
+      return null
+    }
+  }
+
+  static async saveAppSetting<T>(key: string, value: T): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key, value }, { onConflict: 'key' })
+
+      if (error) {
+        console.error('Error saving app setting:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in saveAppSetting:', error)
+      return false
+    }
+  }
+
+  // Batch Job Functions
+
+  static async createBatchJob(
+    job: Omit<BatchJob, 'id' | 'created_at' | 'updated_at'>,
+    recipients: Omit<BatchJobRecipient, 'id' | 'job_id' | 'created_at'>[]
+  ): Promise<BatchJob | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .insert(job)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating batch job:', error)
+        return null
+      }
+
+      const { error: recipientsError } = await supabase
+        .from('batch_job_recipients')
+        .insert(recipients.map(recipient => ({ ...recipient, job_id: data.id })))
+
+      if (recipientsError) {
+        console.error('Error creating batch job recipients:', recipientsError)
+        // Don't leave a job without recipients behind
+        await supabase.from('batch_jobs').delete().eq('id', data.id)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in createBatchJob:', error)
+      return null
+    }
+  }
+
+  static async getBatchJob(jobId: string): Promise<BatchJob | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching batch job:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getBatchJob:', error)
+      return null
+    }
+  }
+
+  static async getBatchJobs(limit: number = 50): Promise<BatchJob[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        console.error('Error fetching batch jobs:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getBatchJobs:', error)
+      return []
+    }
+  }
+
+  // Jobs the worker should run now: active, due, and not leased by another worker
+  static async getDueBatchJobs(now: Date = new Date()): Promise<BatchJob[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .select('*')
+        .in('status', ['scheduled', 'queued', 'running'])
+        .lte('next_run_at', now.toISOString())
+        .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+        .order('next_run_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching due batch jobs:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getDueBatchJobs:', error)
+      return []
+    }
+  }
+
+  /**
+   * Take the worker lease on a job. The update only matches while the job is
+   * unleased (or the previous lease expired), so concurrent workers can't both win.
+   */
+  static async claimBatchJob(jobId: string, lockedUntil: Date): Promise<BatchJob | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const now = new Date().toISOString()
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .update({ locked_until: lockedUntil.toISOString() })
+        .eq('id', jobId)
+        .or(`locked_until.is.null,locked_until.lt.${now}`)
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error claiming batch job:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in claimBatchJob:', error)
+      return null
+    }
+  }
+
+  static async updateBatchJob(
+    jobId: string,
+    updates: Partial<Omit<BatchJob, 'id' | 'created_at' | 'updated_at'>>
+  ): Promise<BatchJob | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_jobs')
+        .update(updates)
+        .eq('id', jobId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating batch job:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateBatchJob:', error)
+      return null
+    }
+  }
+
+  static async getBatchJobRecipients(jobId: string, statuses?: BatchJobRecipientStatus[]): Promise<BatchJobRecipient[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      let query = supabase
+        .from('batch_job_recipients')
+        .select('*')
+        .eq('job_id', jobId)
+
+      if (statuses && statuses.length > 0) {
+        query = query.in('status', statuses)
+      }
+
+      const { data, error } = await query.order('position', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching batch job recipients:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getBatchJobRecipients:', error)
+      return []
+    }
+  }
+
+  static async getNextPendingRecipient(jobId: string): Promise<BatchJobRecipient | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_job_recipients')
+        .select('*')
+        .eq('job_id', jobId)
+        .eq('status', 'pending')
+        .order('position', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching next batch recipient:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getNextPendingRecipient:', error)
+      return null
+    }
+  }
+
+  static async updateBatchJobRecipient(
+    recipientId: string,
+    updates: Partial<Pick<BatchJobRecipient, 'status' | 'error' | 'attempted_at'>>
+  ): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('batch_job_recipients')
+        .update(updates)
+        .eq('id', recipientId)
+
+      if (error) {
+        console.error('Error updating batch job recipient:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in updateBatchJobRecipient:', error)
+      return false
+    }
+  }
+
+  // Claim a pending recipient before its message is sent; false when it was already claimed
+  static async claimBatchJobRecipient(recipientId: string, attemptedAt: string): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_job_recipients')
+        .update({ status: 'sending', attempted_at: attemptedAt })
+        .eq('id', recipientId)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (error) {
+        console.error('Error claiming batch job recipient:', error)
+        return false
+      }
+
+      return (data?.length || 0) > 0
+    } catch (error) {
+      console.error('Error in claimBatchJobRecipient:', error)
+      return false
+    }
+  }
+
+  /**
+   * Fail recipients left claimed by a step that never finished (crash or timeout after the claim).
+   * They aren't retried: the message may already have gone out.
+   */
+  static async failInterruptedRecipients(jobId: string, reason: string): Promise<number> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning 0')
+      return 0
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_job_recipients')
+        .update({ status: 'failed', error: reason })
+        .eq('job_id', jobId)
+        .eq('status', 'sending')
+        .select('id')
+
+      if (error) {
+        console.error('Error failing interrupted recipients:', error)
+        return 0
+      }
+
+      return data?.length || 0
+    } catch (error) {
+      console.error('Error in failInterruptedRecipients:', error)
+      return 0
+    }
+  }
+
+  // Mark every recipient that hasn't been attempted yet as skipped (used on cancel)
+  static async skipPendingRecipients(jobId: string, reason: string): Promise<number> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning 0')
+      return 0
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('batch_job_recipients')
+        .update({ status: 'skipped', error: reason })
+        .eq('job_id', jobId)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (error) {
+        console.error('Error skipping pending recipients:', error)
+        return 0
+      }
+
+      return data?.length || 0
+    } catch (error) {
+      console.error('Error in skipPendingRecipients:', error)
+      return 0
+    }
+  }
+
+  // Admin User Functions
+
+  static async getAdminUserByEmail(email: string): Promise<AdminUser | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('*')
+        .eq('email', email.trim().toLowerCase())
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching admin user:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getAdminUserByEmail:', error)
+      return null
+    }
+  }
+
+  static async getAdminUsers(): Promise<AdminUser[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching admin users:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getAdminUsers:', error)
+      return []
+    }
+  }
+
+  static async countAdminUsers(): Promise<number | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { count, error } = await supabase
+        .from('admin_users')
+        .select('id', { count: 'exact', head: true })
+
+      if (error) {
+        console.error('Error counting admin users:', error)
+        return null
+      }
+
+      return count || 0
+    } catch (error) {
+      console.error('Error in countAdminUsers:', error)
+      return null
+    }
+  }
+
+  static async createAdminUser(user: Omit<AdminUser, 'id' | 'created_at' | 'updated_at'>): Promise<AdminUser | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .insert({ ...user, email: user.email.trim().toLowerCase() })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating admin user:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in createAdminUser:', error)
+      return null
+    }
+  }
+
+  static async updateAdminUser(
+    userId: string,
+    updates: Partial<Omit<AdminUser, 'id' | 'email' | 'created_at' | 'updated_at'>>
+  ): Promise<AdminUser | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .update(updates)
+        .eq('id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating admin user:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateAdminUser:', error)
+      return null
+    }
+  }
+
+  // OTP Verification Functions
+
+  static async createOtpCode(code: Omit<OtpCode, 'id' | 'attempts' | 'created_at' | 'updated_at'>): Promise<OtpCode | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      // Only the newest code is valid: retire any that are still open
+      await supabase
+        .from('otp_codes')
+        .update({ consumed_at: new Date().toISOString() })
+        .eq('phone_number', code.phone_number)
+        .is('consumed_at', null)
+
+      const { data, error } = await supabase
+        .from('otp_codes')
+        .insert({ ...code, attempts: 0 })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating OTP code:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in createOtpCode:', error)
+      return null
+    }
+  }
+
+  static async getLatestOtpCode(phoneNumber: string): Promise<OtpCode | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('otp_codes')
+        .select('*')
+        .eq('phone_number', phoneNumber)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching latest OTP code:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getLatestOtpCode:', error)
+      return null
+    }
+  }
+
+  /**
+   * Count a verification attempt against a code. The update only matches while the code is
+   * open and still has the attempt count the caller read, so parallel guesses can't share an attempt.
+   */
+  static async recordOtpAttempt(codeId: string, currentAttempts: number): Promise<OtpCode | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('otp_codes')
+        .update({ attempts: currentAttempts + 1 })
+        .eq('id', codeId)
+        .eq('attempts', currentAttempts)
+        .is('consumed_at', null)
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error recording OTP attempt:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in recordOtpAttempt:', error)
+      return null
+    }
+  }
+
+  static async updateOtpCode(codeId: string, updates: Partial<Pick<OtpCode, 'consumed_at' | 'locked_until'>>): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('otp_codes')
+        .update(updates)
+        .eq('id', codeId)
+
+      if (error) {
+        console.error('Error updating OTP code:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in updateOtpCode:', error)
+      return false
+    }
+  }
+
+  static async logOtpAudit(entry: Omit<OtpAuditEntry, 'id' | 'created_at'>): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('otp_audit')
+        .insert(entry)
+
+      if (error) {
+        console.error('Error logging OTP audit entry:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in logOtpAudit:', error)
+      return false
+    }
+  }
+
+  // Count audit events for a phone number or IP address since a point in time (for rate limits)
+  static async countOtpAuditEvents(
+    filter: { phoneNumber?: string, ipAddress?: string },
+    events: OtpAuditEvent[],
+    since: Date
+  ): Promise<number | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      let query = supabase
+        .from('otp_audit')
+        .select('id', { count: 'exact', head: true })
+        .in('event', events)
+        .gte('created_at', since.toISOString())
+
+      if (filter.phoneNumber) query = query.eq('phone_number', filter.phoneNumber)
+      if (filter.ipAddress) query = query.eq('ip_address', filter.ipAddress)
+
+      const { count, error } = await query
+
+      if (error) {
+        console.error('Error counting OTP audit events:', error)
+        return null
+      }
+
+      return count || 0
+    } catch (error) {
+      console.error('Error in countOtpAuditEvents:', error)
+      return null
+    }
+  }
+
+  // Short Link Functions
+
+  // A taken code is reported as duplicate so the caller can retry with another one
+  static async createShortLink(
+    link: Omit<ShortLink, 'id' | 'click_count' | 'last_clicked_at' | 'created_at' | 'updated_at'>
+  ): Promise<{ data: ShortLink | null, duplicate: boolean }> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return { data: null, duplicate: false }
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('short_links')
+        .insert(link)
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          return { data: null, duplicate: true }
+        }
+        console.error('Error creating short link:', error)
+        return { data: null, duplicate: false }
+      }
+
+      return { data, duplicate: false }
+    } catch (error) {
+      console.error('Error in createShortLink:', error)
+      return { data: null, duplicate: false }
+    }
+  }
+
+  static async getShortLinkByCode(code: string): Promise<ShortLink | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('short_links')
+        .select('*')
+        .eq('code', code)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching short link:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getShortLinkByCode:', error)
+      return null
+    }
+  }
+
+  // Count a click on the link and keep it, with its time, for the customer timeline
+  static async recordShortLinkClick(link: ShortLink, click: Pick<LinkClick, 'ip_address' | 'user_agent'>): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const clickedAt = new Date().toISOString()
+      const { error } = await supabase
+        .from('short_links')
+        .update({
+          click_count: (link.click_count || 0) + 1,
+          last_clicked_at: clickedAt
+        })
+        .eq('id', link.id!)
+
+      if (error) {
+        console.error('Error recording short link click:', error)
+        return false
+      }
+
+      const { error: clickError } = await supabase
+        .from('link_clicks')
+        .insert({ short_link_id: link.id!, ...click, clicked_at: clickedAt })
+
+      if (clickError) {
+        console.error('Error logging link click:', clickError)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in recordShortLinkClick:', error)
+      return false
+    }
+  }
+
+  // Attach links to the message they went out in; links already sent keep their first message
+  static async markShortLinksSent(
+    codes: string[],
+    updates: Pick<ShortLink, 'sent_at' | 'message_log_id' | 'phone_number' | 'form_type'>
+  ): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { error } = await supabase
+        .from('short_links')
+        .update(updates)
+        .in('code', codes)
+        .is('sent_at', null)
+
+      if (error) {
+        console.error('Error marking short links sent:', error)
+        return false
+      }
+
+      return true
+    } catch (error) {
+      console.error('Error in markShortLinksSent:', error)
+      return false
+    }
+  }
+
+  static async getSentShortLinksByPhone(phoneNumber: string): Promise<ShortLink[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('short_links')
+        .select('*')
+        .eq('phone_number', phoneNumber)
+        .not('sent_at', 'is', null)
+        .order('sent_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching short links:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getSentShortLinksByPhone:', error)
+      return []
+    }
+  }
+
+  static async getSentShortLinks(since: Date): Promise<ShortLink[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('short_links')
+        .select('*')
+        .gte('sent_at', since.toISOString())
+        .order('sent_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching sent short links:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getSentShortLinks:', error)
+      return []
+    }
+  }
+
+  static async getLinkClicks(shortLinkIds: string[]): Promise<LinkClick[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    if (shortLinkIds.length === 0) return []
+
+    try {
+      const { data, error } = await supabase
+        .from('link_clicks')
+        .select('*')
+        .in('short_link_id', shortLinkIds)
+        .order('clicked_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching link clicks:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getLinkClicks:', error)
+      return []
+    }
+  }
+
+  // Upload times per submission (oldest first), counting only uploads since the given date
+  static async getUploadTimes(submissionIds: string[], since: Date): Promise<Map<string, string[]>> {
+    const times = new Map<string, string[]>()
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty map')
+      return times
+    }
+
+    if (submissionIds.length === 0) return times
+
+    try {
+      const { data, error } = await supabase
+        .from('uploaded_files')
+        .select('submission_id, created_at')
+        .in('submission_id', submissionIds)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching upload times:', error)
+        return times
+      }
+
+      for (const file of data || []) {
+        const submissionTimes = times.get(file.submission_id) || []
+        submissionTimes.push(file.created_at)
+        times.set(file.submission_id, submissionTimes)
+      }
+
+      return times
+    } catch (error) {
+      console.error('Error in getUploadTimes:', error)
+      return times
+    }
+  }
+
+  // Document Review Functions
+
+  static async updateFileReview(
+    fileId: string,
+    review: Pick<UploadedFile, 'review_status' | 'rejection_reason' | 'reviewed_by' | 'reviewed_at'>
+  ): Promise<UploadedFile | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('uploaded_files')
+        .update(review)
+        .eq('id', fileId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating file review:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateFileReview:', error)
+      return null
+    }
+  }
+
+  // Move a period field's file to another month or week (files sent over WhatsApp arrive unassigned)
+  static async updateFilePeriod(fileId: string, periodKey: string | null): Promise<UploadedFile | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('uploaded_files')
+        .update({ period_key: periodKey })
+        .eq('id', fileId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating file period:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateFilePeriod:', error)
+      return null
+    }
+  }
+
+  static async getRejectionReasons(includeInactive: boolean = false): Promise<RejectionReason[]> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning empty array')
+      return []
+    }
+
+    try {
+      let query = supabase
+        .from('rejection_reasons')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true)
+      }
+
+      const { data, error } = await query
+
+      if (error) {
+        console.error('Error fetching rejection reasons:', error)
+        return []
+      }
+
+      return data || []
+    } catch (error) {
+      console.error('Error in getRejectionReasons:', error)
+      return []
+    }
+  }
+
+  static async getRejectionReasonById(reasonId: string): Promise<RejectionReason | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('rejection_reasons')
+        .select('*')
+        .eq('id', reasonId)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching rejection reason:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in getRejectionReasonById:', error)
+      return null
+    }
+  }
+
+  static async createRejectionReason(reason: Omit<RejectionReason, 'id' | 'created_at' | 'updated_at'>): Promise<RejectionReason | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('rejection_reasons')
+        .insert(reason)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating rejection reason:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in createRejectionReason:', error)
+      return null
+    }
+  }
+
+  static async updateRejectionReason(
+    reasonId: string,
+    updates: Partial<Omit<RejectionReason, 'id' | 'created_at' | 'updated_at'>>
+  ): Promise<RejectionReason | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('rejection_reasons')
+        .update(updates)
+        .eq('id', reasonId)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating rejection reason:', error)
+        return null
+      }
+
+      return data
+    } catch (error) {
+      console.error('Error in updateRejectionReason:', error)
+      return null
+    }
+  }
+
+  // Form Definitions
+
+  private static formDefinitionsCache: { definitions: FormDefinitions, source: FormDefinitionSource, loadedAt: number } | null = null
+
+  /**
+   * Load the form types and fields from the form builder tables and install them for the form
+   * helpers (see form-definitions.ts). Cached for a minute; the builder's saves clear the cache.
+   * While the tables are empty, or Supabase isn't configured, the bundled definitions are used.
+   */
+  static async loadFormDefinitions(force: boolean = false): Promise<{ definitions: FormDefinitions, source: FormDefinitionSource }> {
+    const cache = this.formDefinitionsCache
+    if (!force && cache && Date.now() - cache.loadedAt < FORM_DEFINITIONS_CACHE_MS) {
+      return { definitions: cache.definitions, source: cache.source }
+    }
+
+    let loaded: { definitions: FormDefinitions, source: FormDefinitionSource } = { definitions: BUNDLED_FORM_DEFINITIONS, source: 'bundled' }
+
+    if (isSupabaseConfigured()) {
+      try {
+        const [fields, types, typeFields] = await Promise.all([
+          supabase.from('form_fields').select('*'),
+          supabase.from('form_types').select('*'),
+          supabase.from('form_type_fields').select('*')
+        ])
+
+        const error = fields.error || types.error || typeFields.error
+        if (error) {
+          // Keep whatever was loaded before rather than switching forms on a failed read
+          console.error('Error fetching form definitions:', error)
+          return { definitions: getFormDefinitions(), source: cache?.source || 'bundled' }
+        }
+
+        if ((types.data || []).length > 0) {
+          loaded = {
+            definitions: buildFormDefinitions(fields.data || [], types.data || [], typeFields.data || []),
+            source: 'database'
+          }
+        }
+      } catch (error) {
+        console.error('Error in loadFormDefinitions:', error)
+        return { definitions: getFormDefinitions(), source: cache?.source || 'bundled' }
+      }
+    }
+
+    this.formDefinitionsCache = { ...loaded, loadedAt: Date.now() }
+    setFormDefinitions(loaded.definitions)
+    return loaded
+  }
+
+  // Copy the bundled form-fields.json into the empty form builder tables
+  static async importBundledFormDefinitions(): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      const { fields, formTypes } = BUNDLED_FORM_DEFINITIONS
+
+      const { error: fieldsError } = await supabase
+        .from('form_fields')
+        .upsert(Object.values(fields).map(toFormFieldRecord), { onConflict: 'slug' })
+
+      if (fieldsError) {
+        console.error('Error importing form fields:', fieldsError)
+        return false
+      }
+
+      const { error: typesError } = await supabase
+        .from('form_types')
+        .insert(formTypes.map((type, index) => ({ slug: type.slug, label: type.label, position: index, is_active: true })))
+
+      if (typesError) {
+        console.error('Error importing form types:', typesError)
+        return false
+      }
+
+      const { error: typeFieldsError } = await supabase
+        .from('form_type_fields')
+        .insert(formTypes.flatMap(type => toFormTypeFieldRecords(type.slug, type.fields)))
+
+      if (typeFieldsError) {
+        // Without their fields the form types would replace the bundled forms with empty ones
+        console.error('Error importing form type fields:', typeFieldsError)
+        await supabase.from('form_types').delete().in('slug', formTypes.map(type => type.slug))
+        return false
+      }
+
+      this.formDefinitionsCache = null
+      return true
+    } catch (error) {
+      console.error('Error in importBundledFormDefinitions:', error)
+      return false
+    }
+  }
+
+  // Add or update a field; its slug stays, since uploaded files refer to it
+  static async saveFormField(record: FormFieldRecord): Promise<FormFieldRecord | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('form_fields')
+        .upsert(record, { onConflict: 'slug' })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error saving form field:', error)
+        return null
+      }
+
+      this.formDefinitionsCache = null
+      return data
+    } catch (error) {
+      console.error('Error in saveFormField:', error)
+      return null
+    }
+  }
+
+  // New form types go to the end of the menu
+  static async createFormType(slug: string, label: string): Promise<FormTypeRecord | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data: last } = await supabase
+        .from('form_types')
+        .select('position')
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const { data, error } = await supabase
+        .from('form_types')
+        .insert({ slug, label, position: (last?.position ?? -1) + 1, is_active: true })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating form type:', error)
+        return null
+      }
+
+      this.formDefinitionsCache = null
+      return data
+    } catch (error) {
+      console.error('Error in createFormType:', error)
+      return null
+    }
+  }
+
+  static async updateFormType(
+    slug: string,
+    updates: Partial<Pick<FormTypeRecord, 'label' | 'position' | 'is_active'>>
+  ): Promise<FormTypeRecord | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('form_types')
+        .update(updates)
+        .eq('slug', slug)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating form type:', error)
+        return null
+      }
+
+      this.formDefinitionsCache = null
+      return data
+    } catch (error) {
+      console.error('Error in updateFormType:', error)
+      return null
+    }
+  }
+
+  /**
+   * Replace a form type's fields with the given ones, in the given order. The new rows are upserted
+   * before the removed ones are deleted, so a failure or a concurrent load never sees the form empty.
+   */
+  static async replaceFormTypeFields(formTypeSlug: string, rows: FormTypeFieldRecord[]): Promise<boolean> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning false')
+      return false
+    }
+
+    try {
+      if (rows.length > 0) {
+        const { error } = await supabase
+          .from('form_type_fields')
+          .upsert(rows, { onConflict: 'form_type_slug,field_slug' })
+
+        if (error) {
+          console.error('Error saving form type fields:', error)
+          return false
+        }
+      }
+
+      const { data: existing, error: fetchError } = await supabase
+        .from('form_type_fields')
+        .select('id, field_slug')
+        .eq('form_type_slug', formTypeSlug)
+
+      if (fetchError) {
+        console.error('Error fetching form type fields:', fetchError)
+        return false
+      }
+
+      const keptSlugs = new Set(rows.map(row => row.field_slug))
+      const staleIds = (existing || []).filter(row => !keptSlugs.has(row.field_slug)).map(row => row.id)
+      if (staleIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('form_type_fields')
+          .delete()
+          .in('id', staleIds)
+
+        if (deleteError) {
+          console.error('Error removing form type fields:', deleteError)
+          return false
+        }
+      }
+
+      this.formDefinitionsCache = null
+      return true
+    } catch (error) {
+      console.error('Error in replaceFormTypeFields:', error)
+      return false
+    }
+  }
+
+  // Store a downloadable form in the public form-templates bucket and return its URL
+  static async uploadFormTemplate(file: File): Promise<string | null> {
+    if (!isSupabaseConfigured()) {
+      console.warn('Supabase not configured, returning null')
+      return null
+    }
+
+    try {
+      const fileExt = file.name.split('.').pop()
+      const filePath = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}.${fileExt}`
+
+      const { data, error } = await supabase.storage
+        .from('form-templates')
+        .upload(filePath, file, {
+          cacheControl: '3600',
+          contentType: file.type || undefined
+        })
+
+      if (error) {
+        console.error('Error uploading form template:', error)
+        return null
+      }
+
+      return supabase.storage.from('form-templates').getPublicUrl(data.path).data.publicUrl
+    } catch (error) {
+      console.error('Error in uploadFormTemplate:', error)
+      return null
+    }
+  }
+}
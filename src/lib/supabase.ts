@@ -1,9 +1,19 @@
 import { createClient } from '@supabase/supabase-js'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co'
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key'
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Database access is server-only and uses the service role key; the tables and buckets are closed to the anon key.
+// Without the key (and always in the browser) the client stays unconfigured, so calls fail instead of
+// falling back to the public anon key.
+const supabaseServiceRoleKey = typeof window === 'undefined' ? process.env.SUPABASE_SERVICE_ROLE_KEY : undefined
+
+export const isSupabaseConfigured = (): boolean => !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!supabaseServiceRoleKey
+
+if (typeof window === 'undefined' && process.env.NEXT_PUBLIC_SUPABASE_URL && !supabaseServiceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is not set - database access is disabled')
+}
+
+export const supabase = createClient(supabaseUrl, supabaseServiceRoleKey || 'placeholder-key')
 
 // Database types
 export type CustomerStatus = 
@@ -15,19 +25,8 @@ export type CustomerStatus =
   | 'application_approved'
   | 'application_declined'
 
-export type CustomerCriterion = 
-  | 'זכאי-מגורים'
-  | 'צבא-דרגה'
-  | 'צבא-לוחם'
-  | 'איזור-עבודה-שכיר'
-  | 'איזור-עבודה-עצמאי'
-  | 'איזור-לימודים'
-  | 'מתנדב'
-  | 'חקלאי-עצמאי'
-  | 'חקלאי-שכיר'
-  | 'חקלאי-דרגה-ראשונה'
-  | 'מאבטח'
-  | 'מנהל-ביטחון'
+// The slug of the form type the customer applies under; form types are managed in the form builder
+export type CustomerCriterion = string
 
 export type Customer = {
   id: string
@@ -54,16 +53,24 @@ export type CustomerSubmission = {
   form_type: string
   form_type_label: string
   submitted_fields: string[]
+  approved_fields?: string[]
+  reference_date?: string | null // Planned application date that period fields count back from
+  missing_periods?: Record<string, string[]> // Period field slug -> keys of slots without a file
+  waived_fields?: string[] // Fields or sections the customer doesn't have to provide
   status: 'new' | 'in-progress' | 'completed'
   first_sent_at?: string
   last_interaction_at?: string
   last_reminder_sent_at?: string
+  last_link_opened_at?: string
+  reminder_policy_id?: string | null
   reminder_count: number
   reminder_paused: boolean
   created_at?: string
   updated_at?: string
 }
 
+export type FileReviewStatus = 'pending' | 'approved' | 'rejected'
+
 export type UploadedFile = {
   id?: string
   submission_id: string
@@ -73,14 +80,82 @@ export type UploadedFile = {
   file_path: string
   file_size: number
   mime_type: string
+  period_key?: string | null // Month or week slot of a period field
+  review_status?: FileReviewStatus
+  rejection_reason?: string | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  created_at?: string
+}
+
+// Reusable reasons for rejecting a document; the message is what the customer is told
+export type RejectionReason = {
+  id?: string
+  label: string
+  message: string
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+// Form builder tables: the documents each form type asks for
+export type FieldPeriod = {
+  unit: 'month' | 'week'
+  count: number
+  filesPerPeriod: number
+}
+
+export type FormTemplateLink = {
+  label: string
+  path: string
+}
+
+export type FormFieldRecord = {
+  slug: string
+  name: string
+  description?: string | null
+  variants: string[] // Other names of the document
+  template?: string | null // A form the customer downloads and fills
+  templates: FormTemplateLink[] // Several versions of it, each with a label
+  min_files?: number | null
+  max_files?: number | null
+  period?: FieldPeriod | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type FormTypeRecord = {
+  slug: string
+  label: string
+  position: number
+  is_active: boolean // Retired form types stay for existing customers but leave the menus
   created_at?: string
+  updated_at?: string
 }
 
+export type FormTypeFieldRecord = {
+  id?: string
+  form_type_slug: string
+  position: number
+  field_slug: string // A form field, or the section's own slug
+  optional: boolean
+  section_type?: string | null
+  section_title?: string | null
+  required_count?: number | null
+  options?: Array<{ label: string, slug: string }> | null // The fields a section's documents are picked from
+  created_at?: string
+}
+
+export type MessageDirection = 'incoming' | 'outgoing'
+
+export type MessageDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed'
+
 export type MessageLog = {
   id?: string
   customer_id?: string
   phone_number: string
-  message_type: 'form_link' | 'manual' | 'reminder_first' | 'reminder_second' | 'reminder_first_week' | 'reminder_second_week' | 'reminder_third_week' | 'reminder_fourth_week' | 'verification_code'
+  direction?: MessageDirection
+  message_type: 'form_link' | 'manual' | 'reminder_first' | 'reminder_second' | 'reminder_first_week' | 'reminder_second_week' | 'reminder_third_week' | 'reminder_fourth_week' | 'verification_code' | 'incoming' | 'bot_reply' | 'document_rejected'
   message_content: string
   form_type?: string
   form_type_label?: string
@@ -88,10 +163,24 @@ export type MessageLog = {
   sent_successfully: boolean
   error_message?: string
   whatsapp_message_id?: string
+  delivery_status?: MessageDeliveryStatus
+  delivered_at?: string
+  read_at?: string
+  status_updated_at?: string
   sent_at: string
   created_at?: string
 }
 
+export type MessageStatusEvent = {
+  id?: string
+  message_log_id?: string
+  whatsapp_message_id: string
+  status: MessageDeliveryStatus
+  description?: string
+  occurred_at: string
+  created_at?: string
+}
+
 export type AuthToken = {
   id?: string
   phone_number: string
@@ -101,10 +190,157 @@ export type AuthToken = {
   used_at?: string
   is_reusable: boolean
   created_by_admin: boolean
+  use_count?: number
+  last_used_at?: string
+  revoked_at?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type AuthTokenStatus = 'active' | 'used' | 'expired' | 'revoked'
+
+// Which outgoing message a form link was generated for
+export type LinkCampaign = 'first_message' | 'reminder' | 'manual'
+
+// Self-hosted short link (/s/<code>); links carrying a magic-link token live as long as the token
+export type ShortLink = {
+  id?: string
+  code: string
+  target_url: string
+  auth_token_id?: string
+  campaign: LinkCampaign
+  reminder_type?: string // Set for campaign 'reminder': which step of the reminder sequence
+  phone_number?: string
+  form_type?: string
+  message_log_id?: string // Filled in once the link actually goes out in a message
+  sent_at?: string
+  click_count?: number
+  last_clicked_at?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type LinkClick = {
+  id?: string
+  short_link_id: string
+  ip_address?: string
+  user_agent?: string
+  clicked_at?: string
+}
+
+// Customer timeline entry: a sent link with every click on it
+export type LinkActivity = ShortLink & { clicks: LinkClick[] }
+
+// Funnel for one form type and campaign step (first_message, manual, or the reminder type)
+export type LinkFunnelRow = {
+  form_type: string
+  step: string
+  sent: number
+  clicked: number
+  first_upload: number // Customer uploaded a document after the link was sent
+  completed: number
+}
+
+// One row per magic-link validation, for spotting forwarded or leaked links
+export type TokenValidationAction = 'open' | 'consume' | 'status_check'
+export type TokenValidationReason = 'ok' | 'not_found' | 'expired' | 'used' | 'revoked'
+
+export type TokenValidationLog = {
+  id?: string
+  token_id?: string
+  token_prefix: string // First characters of the presented token, to group attempts on unknown tokens
+  phone_number?: string
+  form_type?: string
+  action: TokenValidationAction
+  outcome: 'valid' | 'invalid'
+  reason: TokenValidationReason
+  ip_address?: string
+  user_agent?: string
+  created_at?: string
+}
+
+export type TokenAnomalyType = 'many_ips' | 'repeated_failures' | 'used_after_revocation'
+
+export type TokenAnomaly = {
+  type: TokenAnomalyType
+  token_id?: string
+  token_prefix: string
+  phone_number?: string
+  form_type?: string
+  ip_addresses: string[]
+  count: number
+  first_seen: string
+  last_seen: string
+}
+
+// One-time verification codes sent over WhatsApp; only the code's hash is stored
+export type OtpCode = {
+  id?: string
+  phone_number: string
+  code_hash: string
+  expires_at: string
+  attempts: number
+  consumed_at?: string
+  locked_until?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type OtpAuditEvent =
+  | 'code_sent'
+  | 'send_failed'
+  | 'send_rate_limited'
+  | 'verify_success'
+  | 'verify_failed'
+  | 'verify_locked'
+  | 'verify_expired'
+
+export type OtpAuditEntry = {
+  id?: string
+  phone_number: string
+  ip_address?: string
+  event: OtpAuditEvent
+  reason?: string
+  created_at?: string
+}
+
+// Admin users (staff logging into /admin), separate from customer phone verification
+export type AdminRole = 'owner' | 'case_handler' | 'read_only'
+
+export type AdminUser = {
+  id?: string
+  email: string
+  name: string
+  role: AdminRole
+  password_hash: string
+  is_active: boolean
+  last_login_at?: string
   created_at?: string
   updated_at?: string
 }
 
+export type ReminderPolicy = {
+  id?: string
+  name: string
+  first_reminder_hours: number
+  second_reminder_hours: number
+  weekly_reminder_hours: number
+  max_inactive_days: number
+  form_types: string[]
+  is_default: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type SendingWindowSettings = {
+  enabled: boolean
+  start_hour: number // Daily window start, Israel time (0-23)
+  end_hour: number // Daily window end, exclusive (1-24)
+  pre_rest_day_cutoff_hour: number // Friday / holiday eve: no sending from this hour
+  rest_day_resume_hour: number // Saturday / holiday: sending resumes from this hour
+  holiday_dates: string[] // YYYY-MM-DD, treated like Shabbat
+}
+
 // Batch Reminder Types
 export type ReminderType = 
   | 'first_message' 
@@ -127,17 +363,61 @@ export type BatchProgress = {
   sentCount: number
   failedCount: number
   currentRecipient?: string
-  currentStatus: 'preparing' | 'sending' | 'sleeping' | 'completed' | 'failed'
+  currentStatus: 'preparing' | 'scheduled' | 'sending' | 'waiting' | 'sleeping' | 'waiting_window' | 'paused' | 'completed' | 'cancelled' | 'failed'
   estimatedTimeRemaining?: number
+  nextWindowAt?: string
   lastError?: string
+  jobId?: string
+  skippedCount?: number
+  nextRunAt?: string // When the next message of the job is due
+  errors?: Array<{ phoneNumber: string; error: string; status: BatchJobRecipientStatus }>
 }
 
-export type BatchResult = {
-  success: boolean
-  totalSent: number
-  totalFailed: number
-  errors: Array<{ phoneNumber: string; error: string }>
-  duration: number
+export type BatchJobStatus =
+  | 'scheduled' // Waiting for scheduled_for
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+  | 'failed'
+
+// What a running job is doing between worker ticks
+export type BatchJobPhase = 'sending' | 'waiting' | 'sleeping' | 'waiting_window'
+
+export type BatchJob = {
+  id?: string
+  status: BatchJobStatus
+  scheduled_for?: string
+  next_run_at: string // The worker picks the job up once this has passed
+  total_count: number
+  sent_count: number
+  failed_count: number
+  skipped_count: number
+  sent_in_block: number // Sends since the last long break
+  current_phase?: BatchJobPhase | null
+  current_recipient?: string | null // Phone number being sent to, or the last one sent
+  locked_until?: string | null // Worker lease, prevents two workers sending the same recipient
+  last_error?: string | null
+  started_at?: string
+  completed_at?: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type BatchJobRecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped' // 'sending': claimed, message on its way
+
+export type BatchJobRecipient = {
+  id?: string
+  job_id: string
+  position: number
+  phone_number: string
+  form_type: string
+  reminder_type: ReminderType
+  status: BatchJobRecipientStatus
+  error?: string | null
+  attempted_at?: string
+  created_at?: string
 }
 
 export type ReminderCandidate = {
@@ -147,4 +427,48 @@ export type ReminderCandidate = {
   reminderType: ReminderType
   daysSinceLastAction: number
   reminderCount: number
-}
\ No newline at end of file
+  lastReminderSentAt?: string
+  lastReminderStatus?: MessageDeliveryStatus
+  escalated?: boolean
+  policyName?: string
+  missingPeriods?: string[]
+}
+// WhatsApp Conversation Types
+export type ConversationState =
+  | 'menu'
+  | 'awaiting_file'
+  | 'awaiting_field_choice'
+  | 'awaiting_confirmation'
+  | 'human'
+
+export type PendingUpload = {
+  fileUrl: string
+  fileName: string
+  mimeType?: string
+}
+
+export type ConversationContext = {
+  formType?: string
+  formTypeLabel?: string
+  pendingUpload?: PendingUpload
+  fieldSlug?: string
+}
+
+export type ConversationSession = {
+  phone_number: string
+  state: ConversationState
+  context: ConversationContext
+  expires_at: string
+  created_at?: string
+  updated_at?: string
+}
+
+export type InboxConversation = {
+  phone_number: string
+  customer_name?: string
+  last_message: MessageLog
+  last_incoming_at?: string
+  unanswered_count: number
+  human_handling: boolean
+  handoff_expires_at?: string
+}
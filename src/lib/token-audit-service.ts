@@ -0,0 +1,118 @@
+import { SupabaseService } from './supabase-service'
+import { AuthService } from './auth-service'
+import { AuthToken, TokenAnomaly, TokenAnomalyType, TokenValidationAction, TokenValidationLog, TokenValidationReason } from './supabase'
+
+const TOKEN_PREFIX_LENGTH = 8
+
+// Where and how a token was presented
+export interface TokenValidationContext {
+  action: TokenValidationAction
+  ipAddress?: string
+  userAgent?: string
+}
+
+export class TokenAuditService {
+  static readonly DEFAULT_WINDOW_DAYS = 7
+  private static readonly MANY_IPS_THRESHOLD = 3 // Distinct IPs opening one link before it looks forwarded
+  private static readonly REPEATED_FAILURES_THRESHOLD = 5 // Failed validations on one token (or from one IP for unknown tokens)
+
+  static getContext(headers: Headers, action: TokenValidationAction): TokenValidationContext {
+    return { action, ipAddress: AuthService.getClientIp(headers), userAgent: headers.get('user-agent') || undefined }
+  }
+
+  static async logValidation(
+    token: string,
+    tokenData: AuthToken | null,
+    reason: TokenValidationReason,
+    context: TokenValidationContext
+  ): Promise<void> {
+    await SupabaseService.logTokenValidation({
+      token_id: tokenData?.id,
+      token_prefix: token.substring(0, TOKEN_PREFIX_LENGTH),
+      phone_number: tokenData?.phone_number,
+      form_type: tokenData?.form_type,
+      action: context.action,
+      outcome: reason === 'ok' ? 'valid' : 'invalid',
+      reason,
+      ip_address: context.ipAddress,
+      user_agent: context.userAgent
+    })
+  }
+
+  static async getRecentLogs(days: number = this.DEFAULT_WINDOW_DAYS, limit: number = 200): Promise<TokenValidationLog[]> {
+    return await SupabaseService.getTokenValidationLogs(this.windowStart(days), limit)
+  }
+
+  /**
+   * Flag patterns that suggest a forwarded or leaked link within the window, over every log row in it:
+   * - many_ips: one token opened successfully from several IP addresses
+   * - repeated_failures: many failed validations on one token, or on unknown tokens from one IP
+   * - used_after_revocation: a revoked token was presented again
+   */
+  static async detectAnomalies(days: number = this.DEFAULT_WINDOW_DAYS): Promise<TokenAnomaly[]> {
+    const logs = await SupabaseService.getTokenValidationLogs(this.windowStart(days))
+    const anomalies: TokenAnomaly[] = []
+
+    const byToken = this.groupBy(logs.filter(log => log.token_id), log => log.token_id!)
+    for (const tokenLogs of byToken.values()) {
+      const valid = tokenLogs.filter(log => log.outcome === 'valid')
+      if (this.distinctIps(valid).length >= this.MANY_IPS_THRESHOLD) {
+        anomalies.push(this.toAnomaly('many_ips', valid))
+      }
+
+      const failed = tokenLogs.filter(log => log.outcome === 'invalid')
+      if (failed.length >= this.REPEATED_FAILURES_THRESHOLD) {
+        anomalies.push(this.toAnomaly('repeated_failures', failed))
+      }
+
+      const afterRevocation = tokenLogs.filter(log => log.reason === 'revoked')
+      if (afterRevocation.length > 0) {
+        anomalies.push(this.toAnomaly('used_after_revocation', afterRevocation))
+      }
+    }
+
+    // Unknown tokens have no id; guessing shows up as many misses from the same address
+    const unknownByIp = this.groupBy(logs.filter(log => log.reason === 'not_found'), log => log.ip_address || 'unknown')
+    for (const ipLogs of unknownByIp.values()) {
+      if (ipLogs.length >= this.REPEATED_FAILURES_THRESHOLD) {
+        anomalies.push(this.toAnomaly('repeated_failures', ipLogs))
+      }
+    }
+
+    return anomalies.sort((a, b) => new Date(b.last_seen).getTime() - new Date(a.last_seen).getTime())
+  }
+
+  // Logs arrive newest first
+  private static toAnomaly(type: TokenAnomalyType, logs: TokenValidationLog[]): TokenAnomaly {
+    const newest = logs[0]
+    return {
+      type,
+      token_id: newest.token_id,
+      token_prefix: newest.token_prefix,
+      phone_number: newest.phone_number,
+      form_type: newest.form_type,
+      ip_addresses: this.distinctIps(logs),
+      count: logs.length,
+      first_seen: logs[logs.length - 1].created_at!,
+      last_seen: newest.created_at!
+    }
+  }
+
+  private static distinctIps(logs: TokenValidationLog[]): string[] {
+    return [...new Set(logs.map(log => log.ip_address || 'unknown'))]
+  }
+
+  private static groupBy(logs: TokenValidationLog[], key: (log: TokenValidationLog) => string): Map<string, TokenValidationLog[]> {
+    const groups = new Map<string, TokenValidationLog[]>()
+    for (const log of logs) {
+      const group = groups.get(key(log)) || []
+      group.push(log)
+      groups.set(key(log), group)
+    }
+    return groups
+  }
+
+  private static windowStart(days: number): Date {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+  }
+}
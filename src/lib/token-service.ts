@@ -1,10 +1,23 @@
 import { randomBytes, createHash } from 'crypto'
 import { SupabaseService } from './supabase-service'
-import { AuthToken } from './supabase'
+import { URLService } from './url-service'
+import { greenAPI } from './green-api'
+import { TokenAuditService, TokenValidationContext } from './token-audit-service'
+import { LinkAnalyticsService } from './link-analytics-service'
+import { AuthToken, AuthTokenStatus, TokenValidationReason } from './supabase'
+import { getFormTypeLabel } from './form-definitions'
 
 export class TokenService {
   private static readonly DEFAULT_EXPIRY_DAYS = 7
   private static readonly TOKEN_LENGTH = 32
+  private static readonly RETENTION_DAYS = 30 // Expired and revoked tokens stay visible this long before cleanup
+
+  private static readonly INVALID_REASON_MESSAGES: Record<Exclude<TokenValidationReason, 'ok'>, string> = {
+    not_found: 'Token not found',
+    expired: 'Token has expired',
+    used: 'Token has already been used',
+    revoked: 'Token has been revoked'
+  }
 
   /**
    * Generate a secure random token
@@ -76,41 +89,27 @@ export class TokenService {
   }
 
   /**
-   * Validate a token and return token data if valid
+   * Validate a token and return token data if valid.
+   * Every validation is written to the audit trail when a context is given.
    */
-  static async validateToken(token: string): Promise<{
+  static async validateToken(token: string, context?: TokenValidationContext): Promise<{
     isValid: boolean
     tokenData: AuthToken | null
     reason?: string
   }> {
     try {
-      const tokenData = await SupabaseService.validateAuthToken(token)
-      
-      if (!tokenData) {
-        return {
-          isValid: false,
-          tokenData: null,
-          reason: 'Token not found or expired'
-        }
-      }
+      const tokenData = await SupabaseService.getAuthTokenByToken(token)
+      const reason: TokenValidationReason = !tokenData ? 'not_found' : this.getInvalidReason(tokenData)
 
-      // Check expiration
-      const now = new Date()
-      const expiration = new Date(tokenData.expires_at)
-      if (now > expiration) {
-        return {
-          isValid: false,
-          tokenData: null,
-          reason: 'Token has expired'
-        }
+      if (context) {
+        await TokenAuditService.logValidation(token, tokenData, reason, context)
       }
 
-      // Check if single-use token was already used
-      if (!tokenData.is_reusable && tokenData.used_at) {
+      if (reason !== 'ok') {
         return {
           isValid: false,
           tokenData: null,
-          reason: 'Token has already been used'
+          reason: this.INVALID_REASON_MESSAGES[reason]
         }
       }
 
@@ -129,7 +128,7 @@ export class TokenService {
   }
 
   /**
-   * Mark token as used (for single-use tokens)
+   * Mark token as used (for single-use tokens). False when it was already used.
    */
   static async markTokenAsUsed(tokenId: string): Promise<boolean> {
     try {
@@ -159,11 +158,13 @@ export class TokenService {
   }
 
   /**
-   * Clean up expired tokens (utility function for maintenance)
+   * Clean up tokens that expired or were revoked more than RETENTION_DAYS ago
+   * (run from the scheduled cleanup job)
    */
   static async cleanupExpiredTokens(): Promise<number> {
     try {
-      return await SupabaseService.cleanupExpiredTokens()
+      const cutoff = new Date(Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      return await SupabaseService.cleanupExpiredTokens(cutoff)
     } catch (error) {
       console.error('Error cleaning up expired tokens:', error)
       return 0
@@ -171,15 +172,113 @@ export class TokenService {
   }
 
   /**
-   * Revoke a specific token
+   * Revoke a specific token; the link stops working immediately
    */
-  static async revokeToken(tokenId: string): Promise<boolean> {
-    try {
-      return await SupabaseService.revokeToken(tokenId)
-    } catch (error) {
-      console.error('Error revoking token:', error)
-      return false
+  static async revokeToken(tokenId: string): Promise<{ success: boolean, token?: AuthToken, error?: string }> {
+    const token = await SupabaseService.getAuthTokenById(tokenId)
+    if (!token) {
+      return { success: false, error: 'Token not found' }
+    }
+
+    if (token.revoked_at) {
+      return { success: false, error: 'Token is already revoked' }
     }
+
+    const updated = await SupabaseService.updateAuthToken(tokenId, { revoked_at: new Date().toISOString() })
+    return updated ? { success: true, token: updated } : { success: false, error: 'Failed to revoke token' }
+  }
+
+  /**
+   * Push a token's expiry out by the given number of days (from now if it already expired)
+   */
+  static async extendToken(tokenId: string, days: number): Promise<{ success: boolean, token?: AuthToken, error?: string }> {
+    const token = await SupabaseService.getAuthTokenById(tokenId)
+    if (!token) {
+      return { success: false, error: 'Token not found' }
+    }
+
+    const status = this.getTokenStatus(token)
+    if (status === 'revoked' || status === 'used') {
+      return { success: false, error: `Cannot extend a ${status} token` }
+    }
+
+    const from = Math.max(Date.now(), new Date(token.expires_at).getTime())
+    const expiresAt = new Date(from + days * 24 * 60 * 60 * 1000)
+
+    const updated = await SupabaseService.updateAuthToken(tokenId, { expires_at: expiresAt.toISOString() })
+    return updated ? { success: true, token: updated } : { success: false, error: 'Failed to extend token' }
+  }
+
+  /**
+   * Replace a token with a fresh one for the same phone and form, keeping its
+   * reusability and original validity period. The old token is revoked.
+   */
+  static async regenerateToken(tokenId: string): Promise<{ success: boolean, token?: AuthToken, error?: string }> {
+    const token = await SupabaseService.getAuthTokenById(tokenId)
+    if (!token) {
+      return { success: false, error: 'Token not found' }
+    }
+
+    const validityMs = token.created_at
+      ? new Date(token.expires_at).getTime() - new Date(token.created_at).getTime()
+      : this.DEFAULT_EXPIRY_DAYS * 24 * 60 * 60 * 1000
+    const expiryDays = Math.max(1, Math.round(validityMs / (24 * 60 * 60 * 1000)))
+
+    const newToken = await this.createAuthToken(token.phone_number, token.form_type, {
+      expiryDays,
+      isReusable: token.is_reusable,
+      createdByAdmin: true
+    })
+    if (!newToken) {
+      return { success: false, error: 'Failed to create replacement token' }
+    }
+
+    if (!token.revoked_at) {
+      await SupabaseService.revokeToken(tokenId)
+    }
+
+    return { success: true, token: newToken }
+  }
+
+  /**
+   * Send the token's link to the customer over WhatsApp again
+   */
+  static async resendToken(tokenId: string, baseURL: string): Promise<{ success: boolean, token?: AuthToken, error?: string }> {
+    const token = await SupabaseService.getAuthTokenById(tokenId)
+    if (!token) {
+      return { success: false, error: 'Token not found' }
+    }
+
+    const status = this.getTokenStatus(token)
+    if (status !== 'active') {
+      return { success: false, error: `Cannot resend a ${status} token` }
+    }
+
+    await SupabaseService.loadFormDefinitions()
+    const formLabel = getFormTypeLabel(token.form_type)
+    const shortUrlResult = await URLService.createWhatsAppShortUrl(baseURL, token.phone_number, token.form_type, formLabel, token.token)
+    const formLink = shortUrlResult.shortUrl || this.generateTokenizedURL(baseURL, token.phone_number, token.form_type, token.token)
+
+    const message = `שלום! 👋\n\nמצורף שוב הקישור לטופס "${formLabel}":\n\n${formLink}\n\nבברכה, Easy2Get`
+    const result = await greenAPI.sendMessage(greenAPI.formatChatId(token.phone_number), message)
+
+    const log = await SupabaseService.logMessage({
+      phone_number: token.phone_number,
+      message_type: 'form_link',
+      message_content: message,
+      form_type: token.form_type,
+      form_type_label: formLabel,
+      sent_successfully: result.success,
+      error_message: result.success ? undefined : result.error,
+      whatsapp_message_id: result.data && typeof result.data === 'object' && 'idMessage' in result.data ? String(result.data.idMessage) : undefined
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to send WhatsApp message' }
+    }
+
+    await LinkAnalyticsService.recordSentLinks(message, log, { phoneNumber: token.phone_number, formType: token.form_type })
+    return { success: true, token }
   }
 
   /**
@@ -194,6 +293,21 @@ export class TokenService {
     }
   }
 
+  private static getInvalidReason(tokenData: AuthToken): TokenValidationReason {
+    const status = this.getTokenStatus(tokenData)
+    return status === 'active' ? 'ok' : status
+  }
+
+  /**
+   * Lifecycle status shown in the admin token panel
+   */
+  static getTokenStatus(tokenData: AuthToken): AuthTokenStatus {
+    if (tokenData.revoked_at) return 'revoked'
+    if (this.isTokenExpired(tokenData)) return 'expired'
+    if (!tokenData.is_reusable && tokenData.used_at) return 'used'
+    return 'active'
+  }
+
   /**
    * Check if a token is still valid (without detailed validation)
    */
@@ -207,15 +321,6 @@ export class TokenService {
    * Check if a token can still be used
    */
   static isTokenUsable(tokenData: AuthToken): boolean {
-    if (this.isTokenExpired(tokenData)) {
-      return false
-    }
-    
-    // If it's a single-use token and it's been used, it's not usable
-    if (!tokenData.is_reusable && tokenData.used_at) {
-      return false
-    }
-
-    return true
+    return this.getTokenStatus(tokenData) === 'active'
   }
 }
\ No newline at end of file
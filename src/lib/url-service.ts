@@ -1,3 +1,7 @@
+import { randomInt } from 'crypto'
+import { SupabaseService } from './supabase-service'
+import { LinkCampaign, LinkClick } from './supabase'
+
 export interface ShortUrlResponse {
   success: boolean
   shortUrl?: string
@@ -5,16 +9,25 @@ export interface ShortUrlResponse {
   error?: string
 }
 
+// Custom code and which message the link is generated for (defaults to a manual send)
+export interface ShortUrlOptions {
+  alias?: string
+  campaign?: LinkCampaign
+  reminderType?: string
+}
+
 export interface UrlEncodeOptions {
   encodeHebrew?: boolean
   platform?: 'whatsapp' | 'general'
 }
 
 export class URLService {
-  private static readonly TINYURL_API = 'https://tinyurl.com/api-create.php'
-  private static readonly TINYURL_V1_API = 'https://api.tinyurl.com/create'
-  private static readonly ISGD_API = 'https://is.gd/create.php'
-  private static readonly CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours
+  private static readonly SHORT_CODE_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+  private static readonly SHORT_CODE_LENGTH = 7 // 62^7 ≈ 3.5 trillion codes, so links can't be guessed by enumeration
+  private static readonly SHORT_CODE_PATTERN = /^[A-Za-z0-9_-]{3,64}$/
+  private static readonly MAX_CODE_ATTEMPTS = 5
+  // Messaging apps fetch a link for its preview as soon as the message arrives; those fetches aren't clicks
+  private static readonly LINK_PREVIEW_AGENTS = /^WhatsApp\/|facebookexternalhit|Facebot|TelegramBot|Slackbot|Twitterbot|LinkedInBot|Discordbot|SkypeUriPreview|Googlebot|bingbot|bot\b|crawler|spider/i
 
   /**
    * Encode Hebrew text for WhatsApp URL compatibility
@@ -71,15 +84,17 @@ export class URLService {
   }
 
   /**
-   * Create a short URL using supported providers. Prefers TinyURL v1 (token),
-   * then falls back to is.gd. If all fail, returns failure so caller can use
-   * the original URL.
+   * Create a self-hosted short link (<baseUrl>/s/<code>) for a URL on this site.
+   * A custom alias is used as the code when it is free; otherwise a random code is
+   * generated, retrying on the rare collision. Links to a tokenized form URL are tied
+   * to that token and stop working once it expires or is revoked.
    */
-  static async createShortUrl(longUrl: string, alias?: string): Promise<ShortUrlResponse> {
+  static async createShortUrl(longUrl: string, baseUrl: string, options: ShortUrlOptions = {}): Promise<ShortUrlResponse> {
+    const { alias, campaign = 'manual', reminderType } = options
     try {
-      // Validate URL
+      let target: URL
       try {
-        new URL(longUrl)
+        target = new URL(longUrl)
       } catch {
         return {
           success: false,
@@ -87,66 +102,95 @@ export class URLService {
         }
       }
 
-      // Try TinyURL v1 (requires token)
-      const tinyToken = process.env.TINYURL_API_TOKEN
-      if (tinyToken) {
-        try {
-          const body: { url: string; domain: string; alias?: string } = { url: longUrl, domain: 'tinyurl.com' }
-          if (alias) body.alias = alias
-          const res = await fetch(this.TINYURL_V1_API, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${tinyToken}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(body)
-          })
-          if (res.ok) {
-            const json: { data?: { tiny_url?: string }; tiny_url?: string } = await res.json()
-            const tiny = json?.data?.tiny_url || json?.tiny_url
-            if (tiny) {
-              return { success: true, shortUrl: tiny, originalUrl: longUrl }
-            }
-          }
-        } catch (e) {
-          console.warn('TinyURL v1 failed; falling back to is.gd', e)
-        }
+      // Only our own pages are shortened, so /s/ can't be used as an open redirect
+      if (target.origin !== new URL(baseUrl).origin) {
+        return { success: false, error: 'Only links to this site can be shortened', originalUrl: longUrl }
       }
 
-      // Fallback: is.gd (no token needed)
-      try {
-        const apiUrl = new URL(this.ISGD_API)
-        apiUrl.searchParams.set('format', 'simple')
-        apiUrl.searchParams.set('url', longUrl)
-        if (alias) apiUrl.searchParams.set('shorturl', alias)
-
-        const response = await fetch(apiUrl.toString(), { method: 'GET' })
-        if (response.ok) {
-          const text = (await response.text()).trim()
-          if (text.startsWith('http')) {
-            return { success: true, shortUrl: text, originalUrl: longUrl }
-          }
+      const token = target.searchParams.get('token')
+      const tokenData = token ? await SupabaseService.getAuthTokenByToken(token) : null
+
+      if (alias && !this.SHORT_CODE_PATTERN.test(alias)) {
+        return { success: false, error: 'Invalid alias format', originalUrl: longUrl }
+      }
+
+      const attempts = alias ? 1 : this.MAX_CODE_ATTEMPTS
+      for (let attempt = 0; attempt < attempts; attempt++) {
+        const { data, duplicate } = await SupabaseService.createShortLink({
+          code: alias || this.generateShortCode(),
+          target_url: longUrl,
+          auth_token_id: tokenData?.id,
+          campaign,
+          reminder_type: reminderType,
+          phone_number: tokenData?.phone_number,
+          form_type: tokenData?.form_type || this.parseFormUrl(longUrl).formType
+        })
+
+        if (data) {
+          return { success: true, shortUrl: `${target.origin}/s/${data.code}`, originalUrl: longUrl }
+        }
+        if (!duplicate) {
+          return { success: false, error: 'Failed to save short link', originalUrl: longUrl }
         }
-      } catch (e) {
-        console.warn('is.gd failed to shorten URL', e)
       }
 
+      return {
+        success: false,
+        error: alias ? 'Alias is already taken' : 'Could not generate a unique short code',
+        originalUrl: longUrl
+      }
     } catch (error) {
       console.error('Error creating short URL:', error)
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        originalUrl: longUrl
+      }
+    }
+  }
+
+  /**
+   * Look up a short code for the /s/ redirect and count the click, unless the request is a
+   * link preview or another bot. Links tied to a token follow the token's current state, so
+   * extending or revoking it applies here too.
+   */
+  static async resolveShortUrl(
+    code: string,
+    click: Pick<LinkClick, 'ip_address' | 'user_agent'> = {}
+  ): Promise<{ status: 'active' | 'not_found' | 'expired', targetUrl?: string }> {
+    if (!this.SHORT_CODE_PATTERN.test(code)) {
+      return { status: 'not_found' }
+    }
+
+    const link = await SupabaseService.getShortLinkByCode(code)
+    if (!link) {
+      return { status: 'not_found' }
+    }
+
+    if (link.auth_token_id) {
+      const token = await SupabaseService.getAuthTokenById(link.auth_token_id)
+      if (!token || token.revoked_at || new Date(token.expires_at) < new Date()) {
+        return { status: 'expired' }
       }
     }
 
-    // Fallback: return failure if all methods fail
-    return {
-      success: false,
-      error: 'All URL shortening methods failed',
-      originalUrl: longUrl
+    if (!this.isLinkPreview(click.user_agent)) {
+      await SupabaseService.recordShortLinkClick(link, click)
     }
+    return { status: 'active', targetUrl: link.target_url }
   }
 
+  private static isLinkPreview(userAgent?: string): boolean {
+    return !!userAgent && this.LINK_PREVIEW_AGENTS.test(userAgent)
+  }
+
+  private static generateShortCode(): string {
+    let code = ''
+    for (let i = 0; i < this.SHORT_CODE_LENGTH; i++) {
+      code += this.SHORT_CODE_ALPHABET[randomInt(this.SHORT_CODE_ALPHABET.length)]
+    }
+    return code
+  }
 
   /**
    * Generate a WhatsApp-friendly URL with Hebrew text support
@@ -189,14 +233,16 @@ export class URLService {
   }
 
   /**
-   * Create a short URL for WhatsApp sharing using supported providers
+   * Create a short URL for WhatsApp sharing, falling back to the long URL so a message
+   * can still be sent if the link can't be saved
    */
   static async createWhatsAppShortUrl(
     baseUrl: string,
     phoneNumber: string,
     formType: string,
     formTypeLabel: string,
-    token?: string
+    token?: string,
+    options: ShortUrlOptions = {}
   ): Promise<ShortUrlResponse> {
     try {
       // Generate WhatsApp-friendly URL
@@ -208,8 +254,7 @@ export class URLService {
         token
       )
 
-      // Create short URL using providers (TinyURL v1 -> is.gd)
-      const shortUrlResult = await this.createShortUrl(longUrl)
+      const shortUrlResult = await this.createShortUrl(longUrl, baseUrl, options)
       if (shortUrlResult.success) {
         return shortUrlResult
       }
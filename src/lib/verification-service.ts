@@ -1,65 +1,174 @@
-// In-memory storage for verification codes
-// In production, this should be replaced with Redis or a database
-class VerificationCodeStorage {
-  private codes = new Map<string, { code: string, expires: number }>()
-
-  // Generate 6-digit verification code
-  generateCode(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString()
+import { createHmac, randomInt, timingSafeEqual } from 'crypto'
+import { SupabaseService } from './supabase-service'
+import { OtpAuditEvent } from './supabase'
+
+const CODE_EXPIRY_MINUTES = 10
+const MAX_VERIFY_ATTEMPTS = 5
+const LOCKOUT_MINUTES = 15
+const RESEND_COOLDOWN_SECONDS = 60
+const MAX_SENDS_PER_PHONE_PER_HOUR = 5
+const MAX_SENDS_PER_IP_PER_HOUR = 20
+
+// Sends that count toward the hourly limits, whether or not WhatsApp delivered them
+const SEND_EVENTS: OtpAuditEvent[] = ['code_sent', 'send_failed']
+
+export interface OtpResult {
+  success: boolean
+  error?: string
+  status?: number
+  retryAfterSeconds?: number
+}
+
+// Database-backed WhatsApp verification codes, shared by every server instance
+export class VerificationService {
+  static readonly CODE_EXPIRY_MINUTES = CODE_EXPIRY_MINUTES
+
+  /**
+   * Check the resend cooldown, an active lockout and the hourly per-phone and per-IP limits
+   * before a new code is sent. Blocked requests are audited.
+   */
+  static async checkSendAllowed(phoneNumber: string, ipAddress: string): Promise<OtpResult> {
+    const now = Date.now()
+    const latest = await SupabaseService.getLatestOtpCode(phoneNumber)
+
+    if (latest?.locked_until && new Date(latest.locked_until).getTime() > now) {
+      return await this.blockSend(phoneNumber, ipAddress, 'locked after too many attempts', latest.locked_until)
+    }
+
+    if (latest?.created_at) {
+      const cooldownEndsAt = new Date(latest.created_at).getTime() + RESEND_COOLDOWN_SECONDS * 1000
+      if (cooldownEndsAt > now) {
+        return await this.blockSend(phoneNumber, ipAddress, 'resend cooldown', new Date(cooldownEndsAt).toISOString())
+      }
+    }
+
+    const hourAgo = new Date(now - 60 * 60 * 1000)
+    const [phoneSends, ipSends] = await Promise.all([
+      SupabaseService.countOtpAuditEvents({ phoneNumber }, SEND_EVENTS, hourAgo),
+      SupabaseService.countOtpAuditEvents({ ipAddress }, SEND_EVENTS, hourAgo)
+    ])
+
+    // Fail closed: without the counts the limits can't be enforced
+    if (phoneSends === null || ipSends === null) {
+      return { success: false, error: 'Verification is temporarily unavailable', status: 503 }
+    }
+
+    const hourFromNow = new Date(now + 60 * 60 * 1000).toISOString()
+    if (phoneSends >= MAX_SENDS_PER_PHONE_PER_HOUR) {
+      return await this.blockSend(phoneNumber, ipAddress, 'hourly phone limit', hourFromNow)
+    }
+    if (ipSends >= MAX_SENDS_PER_IP_PER_HOUR) {
+      return await this.blockSend(phoneNumber, ipAddress, 'hourly IP limit', hourFromNow)
+    }
+
+    return { success: true }
   }
 
-  // Store verification code
-  storeCode(phoneNumber: string, code: string, expirationMinutes: number = 10): void {
-    const expires = Date.now() + expirationMinutes * 60 * 1000
-    this.codes.set(phoneNumber, { code, expires })
-    console.log(`Stored verification code for ${phoneNumber}, expires in ${expirationMinutes} minutes`)
+  // Generate and store a new code, retiring any earlier one. Returns the plain code to send.
+  static async createCode(phoneNumber: string): Promise<string | null> {
+    const code = randomInt(100000, 1000000).toString()
+    const expiresAt = new Date(Date.now() + CODE_EXPIRY_MINUTES * 60 * 1000)
+
+    const stored = await SupabaseService.createOtpCode({
+      phone_number: phoneNumber,
+      code_hash: this.hashCode(phoneNumber, code),
+      expires_at: expiresAt.toISOString()
+    })
+
+    return stored ? code : null
   }
 
-  // Get verification code
-  getCode(phoneNumber: string): { code: string, expires: number } | null {
-    this.cleanExpiredCodes()
-    return this.codes.get(phoneNumber) || null
+  static async recordSend(phoneNumber: string, ipAddress: string, sent: boolean, reason?: string): Promise<void> {
+    await this.audit(phoneNumber, ipAddress, sent ? 'code_sent' : 'send_failed', reason)
   }
 
-  // Verify and remove code
-  verifyAndRemoveCode(phoneNumber: string, inputCode: string): boolean {
-    this.cleanExpiredCodes()
-    
-    const storedData = this.codes.get(phoneNumber)
-    if (!storedData) {
-      return false
+  /**
+   * Check a code against the latest one sent to the phone. Every guess uses up an attempt
+   * before it is compared; after MAX_VERIFY_ATTEMPTS the code is retired and the phone is
+   * locked out of verifying and requesting codes for LOCKOUT_MINUTES.
+   */
+  static async verifyCode(phoneNumber: string, code: string, ipAddress: string): Promise<OtpResult> {
+    const now = new Date()
+    const latest = await SupabaseService.getLatestOtpCode(phoneNumber)
+
+    if (latest?.locked_until && new Date(latest.locked_until) > now) {
+      await this.audit(phoneNumber, ipAddress, 'verify_locked')
+      return {
+        success: false,
+        error: 'Too many failed attempts. Please try again later',
+        status: 429,
+        retryAfterSeconds: this.secondsUntil(latest.locked_until)
+      }
     }
 
-    if (storedData.expires < Date.now()) {
-      this.codes.delete(phoneNumber)
-      return false
+    if (!latest || latest.consumed_at || new Date(latest.expires_at) < now) {
+      await this.audit(phoneNumber, ipAddress, 'verify_expired')
+      return { success: false, error: 'Invalid or expired verification code', status: 400 }
     }
 
-    if (storedData.code !== inputCode) {
-      return false
+    const attempt = await SupabaseService.recordOtpAttempt(latest.id!, latest.attempts)
+    if (!attempt) {
+      // Another attempt changed the code first; this guess isn't checked
+      await this.audit(phoneNumber, ipAddress, 'verify_failed', 'concurrent attempt')
+      return { success: false, error: 'Invalid or expired verification code', status: 409 }
     }
 
-    // Code is valid - remove it
-    this.codes.delete(phoneNumber)
-    return true
-  }
+    if (this.matches(phoneNumber, code, attempt.code_hash)) {
+      await SupabaseService.updateOtpCode(attempt.id!, { consumed_at: now.toISOString() })
+      await this.audit(phoneNumber, ipAddress, 'verify_success')
+      return { success: true }
+    }
 
-  // Clean expired codes
-  private cleanExpiredCodes(): void {
-    const now = Date.now()
-    for (const [phone, data] of this.codes.entries()) {
-      if (data.expires < now) {
-        this.codes.delete(phone)
+    if (attempt.attempts >= MAX_VERIFY_ATTEMPTS) {
+      const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+      await SupabaseService.updateOtpCode(attempt.id!, { consumed_at: now.toISOString(), locked_until: lockedUntil })
+      await this.audit(phoneNumber, ipAddress, 'verify_failed', `wrong code, locked until ${lockedUntil}`)
+      return {
+        success: false,
+        error: 'Too many failed attempts. Please try again later',
+        status: 429,
+        retryAfterSeconds: LOCKOUT_MINUTES * 60
       }
     }
+
+    await this.audit(phoneNumber, ipAddress, 'verify_failed', `wrong code, attempt ${attempt.attempts}/${MAX_VERIFY_ATTEMPTS}`)
+    return { success: false, error: 'Invalid or expired verification code', status: 400 }
   }
 
-  // Get all stored codes (for debugging)
-  getAllCodes(): Map<string, { code: string, expires: number }> {
-    this.cleanExpiredCodes()
-    return new Map(this.codes)
+  private static async blockSend(phoneNumber: string, ipAddress: string, reason: string, retryAt: string): Promise<OtpResult> {
+    await this.audit(phoneNumber, ipAddress, 'send_rate_limited', reason)
+    return {
+      success: false,
+      error: 'Too many verification requests. Please try again later',
+      status: 429,
+      retryAfterSeconds: this.secondsUntil(retryAt)
+    }
+  }
+
+  private static async audit(phoneNumber: string, ipAddress: string, event: OtpAuditEvent, reason?: string): Promise<void> {
+    await SupabaseService.logOtpAudit({ phone_number: phoneNumber, ip_address: ipAddress, event, reason })
+  }
+
+  // Keyed hash so a leaked table can't be checked against all 900,000 codes offline
+  private static hashCode(phoneNumber: string, code: string): string {
+    return createHmac('sha256', this.getSecret()).update(`${phoneNumber}:${code}`).digest('hex')
+  }
+
+  private static matches(phoneNumber: string, code: string, storedHash: string): boolean {
+    const expected = Buffer.from(storedHash, 'hex')
+    const actual = Buffer.from(this.hashCode(phoneNumber, code), 'hex')
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
   }
-}
 
-// Export singleton instance
-export const verificationStorage = new VerificationCodeStorage()
\ No newline at end of file
+  private static secondsUntil(isoDate: string): number {
+    return Math.max(1, Math.ceil((new Date(isoDate).getTime() - Date.now()) / 1000))
+  }
+
+  private static getSecret(): string {
+    const secret = process.env.CUSTOMER_SESSION_SECRET
+    if (!secret) {
+      throw new Error('CUSTOMER_SESSION_SECRET is not configured')
+    }
+    return secret
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AdminSessionService } from '@/lib/admin-session'
+import { SignedTokenService } from '@/lib/signed-token'
+
+// Guards the admin pages and every admin API route with the admin session cookie and role
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const isApi = pathname.startsWith('/api/')
+
+  if (isApi) {
+    if (AdminSessionService.isPublicApi(pathname)) {
+      return NextResponse.next()
+    }
+
+    const authHeader = request.headers.get('authorization') || ''
+    const jobToken = process.env.REMINDER_JOB_AUTH_TOKEN
+    if (jobToken && AdminSessionService.isJobApi(pathname) && SignedTokenService.safeEqual(authHeader, `Bearer ${jobToken}`)) {
+      return NextResponse.next()
+    }
+
+    // Server-to-server scripts may use the admin API token with full access
+    const adminApiToken = process.env.ADMIN_API_TOKEN
+    if (adminApiToken && SignedTokenService.safeEqual(authHeader, `Bearer ${adminApiToken}`)) {
+      return NextResponse.next()
+    }
+  } else if (pathname === '/admin/login') {
+    return NextResponse.next()
+  }
+
+  if (!AdminSessionService.isConfigured()) {
+    console.error('ADMIN_SESSION_SECRET is not set - the admin area is locked')
+    return isApi
+      ? NextResponse.json({ success: false, error: 'Admin authentication is not configured' }, { status: 503 })
+      : NextResponse.redirect(new URL('/admin/login?error=config', request.url))
+  }
+
+  const session = await AdminSessionService.getSessionFromRequest(request)
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 })
+    }
+
+    const loginUrl = new URL('/admin/login', request.url)
+    loginUrl.searchParams.set('next', pathname)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  const requiredRole = isApi
+    ? AdminSessionService.getRequiredApiRole(pathname, request.method)
+    : AdminSessionService.getRequiredPageRole(pathname)
+
+  if (!AdminSessionService.hasRole(session.role, requiredRole)) {
+    return isApi
+      ? NextResponse.json({ success: false, error: 'You do not have permission to perform this action' }, { status: 403 })
+      : NextResponse.redirect(new URL('/admin', request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/:path*']
+}
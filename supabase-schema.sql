@@ -107,4 +107,597 @@ ADD COLUMN IF NOT EXISTS reminder_paused BOOLEAN DEFAULT FALSE;
 -- Initialize last_interaction_at for existing records that have submitted fields
 UPDATE customer_submissions 
 SET last_interaction_at = updated_at 
-WHERE last_interaction_at IS NULL AND jsonb_array_length(submitted_fields) > 0;
\ No newline at end of file
+WHERE last_interaction_at IS NULL AND jsonb_array_length(submitted_fields) > 0;
+
+-- Migration: WhatsApp conversation sessions (one row per phone number)
+CREATE TABLE IF NOT EXISTS conversation_sessions (
+  phone_number TEXT PRIMARY KEY,
+  state TEXT NOT NULL DEFAULT 'menu' CHECK (state IN ('menu', 'awaiting_file', 'awaiting_field_choice', 'awaiting_confirmation', 'human')),
+  context JSONB DEFAULT '{}'::jsonb,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_sessions_expires_at ON conversation_sessions(expires_at);
+
+ALTER TABLE conversation_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on conversation_sessions" ON conversation_sessions
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_conversation_sessions_updated_at
+  BEFORE UPDATE ON conversation_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+
+-- Migration: Incoming WhatsApp messages in message_logs
+ALTER TABLE message_logs
+ADD COLUMN IF NOT EXISTS direction TEXT DEFAULT 'outgoing' CHECK (direction IN ('incoming', 'outgoing'));
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_direction_sent_at ON message_logs(direction, sent_at DESC);
+
+-- Migration: Delivery and read receipts for sent WhatsApp messages
+ALTER TABLE message_logs
+ADD COLUMN IF NOT EXISTS delivery_status TEXT CHECK (delivery_status IN ('sent', 'delivered', 'read', 'failed')),
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_whatsapp_message_id ON message_logs(whatsapp_message_id);
+
+CREATE TABLE IF NOT EXISTS message_status_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_log_id UUID REFERENCES message_logs(id) ON DELETE CASCADE,
+  whatsapp_message_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'delivered', 'read', 'failed')),
+  description TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_status_events_message_log_id ON message_status_events(message_log_id);
+
+ALTER TABLE message_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on message_status_events" ON message_status_events
+  FOR ALL USING (true);
+
+-- Migration: Track when the customer last opened their form link
+ALTER TABLE customer_submissions
+ADD COLUMN IF NOT EXISTS last_link_opened_at TIMESTAMP WITH TIME ZONE;
+
+-- Migration: Reminder policies (cadence per form type, with per-submission override)
+CREATE TABLE IF NOT EXISTS reminder_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  first_reminder_hours INTEGER NOT NULL DEFAULT 48,
+  second_reminder_hours INTEGER NOT NULL DEFAULT 72,
+  weekly_reminder_hours INTEGER NOT NULL DEFAULT 168,
+  max_inactive_days INTEGER NOT NULL DEFAULT 30,
+  form_types JSONB DEFAULT '[]'::jsonb,
+  is_default BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE reminder_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on reminder_policies" ON reminder_policies
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_reminder_policies_updated_at
+  BEFORE UPDATE ON reminder_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE customer_submissions
+ADD COLUMN IF NOT EXISTS reminder_policy_id UUID REFERENCES reminder_policies(id) ON DELETE SET NULL;
+
+-- Seed the default policy with the original timeline
+INSERT INTO reminder_policies (name, first_reminder_hours, second_reminder_hours, weekly_reminder_hours, max_inactive_days, is_default)
+SELECT 'ברירת מחדל', 48, 72, 168, 30, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM reminder_policies WHERE is_default = TRUE);
+
+-- Migration: Application settings (key/value), e.g. the reminder sending window
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on app_settings" ON app_settings
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration: Background batch reminder jobs
+CREATE TABLE IF NOT EXISTS batch_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('scheduled', 'queued', 'running', 'paused', 'completed', 'cancelled', 'failed')),
+  scheduled_for TIMESTAMP WITH TIME ZONE,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  total_count INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  sent_in_block INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS batch_job_recipients (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES batch_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  phone_number TEXT NOT NULL,
+  form_type TEXT NOT NULL,
+  reminder_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  error TEXT,
+  attempted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_status_next_run ON batch_jobs(status, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_batch_job_recipients_job_status ON batch_job_recipients(job_id, status, position);
+
+ALTER TABLE batch_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_job_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on batch_jobs" ON batch_jobs
+  FOR ALL USING (true);
+
+CREATE POLICY "Allow all operations on batch_job_recipients" ON batch_job_recipients
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_batch_jobs_updated_at
+  BEFORE UPDATE ON batch_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration: Live progress for batch reminder jobs
+ALTER TABLE batch_jobs
+ADD COLUMN IF NOT EXISTS current_phase TEXT CHECK (current_phase IN ('sending', 'waiting', 'sleeping', 'waiting_window')),
+ADD COLUMN IF NOT EXISTS current_recipient TEXT;
+
+-- Migration: Admin users and roles
+CREATE TABLE IF NOT EXISTS admin_users (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'read_only' CHECK (role IN ('owner', 'case_handler', 'read_only')),
+  password_hash TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on admin_users" ON admin_users
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_admin_users_updated_at
+  BEFORE UPDATE ON admin_users
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration: Persistent OTP verification
+CREATE TABLE IF NOT EXISTS otp_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number TEXT NOT NULL,
+  code_hash TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS otp_audit (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number TEXT NOT NULL,
+  ip_address TEXT,
+  event TEXT NOT NULL CHECK (event IN ('code_sent', 'send_failed', 'send_rate_limited', 'verify_success', 'verify_failed', 'verify_locked', 'verify_expired')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_otp_codes_phone_created ON otp_codes(phone_number, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_otp_audit_phone_created ON otp_audit(phone_number, event, created_at);
+CREATE INDEX IF NOT EXISTS idx_otp_audit_ip_created ON otp_audit(ip_address, event, created_at);
+
+ALTER TABLE otp_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE otp_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on otp_codes" ON otp_codes
+  FOR ALL USING (true);
+
+CREATE POLICY "Allow all operations on otp_audit" ON otp_audit
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_otp_codes_updated_at
+  BEFORE UPDATE ON otp_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration: Magic-link token lifecycle
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number TEXT NOT NULL,
+  form_type TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  is_reusable BOOLEAN DEFAULT FALSE,
+  created_by_admin BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE auth_tokens
+ADD COLUMN IF NOT EXISTS use_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_phone_number ON auth_tokens(phone_number);
+
+-- Migration: Token validation audit trail
+CREATE TABLE IF NOT EXISTS token_validation_logs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token_id UUID REFERENCES auth_tokens(id) ON DELETE SET NULL,
+  token_prefix TEXT NOT NULL,
+  phone_number TEXT,
+  form_type TEXT,
+  action TEXT NOT NULL CHECK (action IN ('open', 'consume', 'status_check')),
+  outcome TEXT NOT NULL CHECK (outcome IN ('valid', 'invalid')),
+  reason TEXT NOT NULL CHECK (reason IN ('ok', 'not_found', 'expired', 'used', 'revoked')),
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_validation_logs_created_at ON token_validation_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_token_validation_logs_token_id ON token_validation_logs(token_id, created_at);
+
+ALTER TABLE token_validation_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on token_validation_logs" ON token_validation_logs
+  FOR ALL USING (true);
+
+-- Migration: Self-hosted short links
+CREATE TABLE IF NOT EXISTS short_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  target_url TEXT NOT NULL,
+  auth_token_id UUID REFERENCES auth_tokens(id) ON DELETE CASCADE,
+  click_count INTEGER NOT NULL DEFAULT 0,
+  last_clicked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_short_links_auth_token_id ON short_links(auth_token_id);
+
+ALTER TABLE short_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on short_links" ON short_links
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_short_links_updated_at
+  BEFORE UPDATE ON short_links
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migration: Link click analytics
+ALTER TABLE short_links
+ADD COLUMN IF NOT EXISTS campaign TEXT NOT NULL DEFAULT 'manual' CHECK (campaign IN ('first_message', 'reminder', 'manual')),
+ADD COLUMN IF NOT EXISTS reminder_type TEXT,
+ADD COLUMN IF NOT EXISTS phone_number TEXT,
+ADD COLUMN IF NOT EXISTS form_type TEXT,
+ADD COLUMN IF NOT EXISTS message_log_id UUID REFERENCES message_logs(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_short_links_phone_number ON short_links(phone_number, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_short_links_sent_at ON short_links(sent_at);
+
+CREATE TABLE IF NOT EXISTS link_clicks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  short_link_id UUID NOT NULL REFERENCES short_links(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  user_agent TEXT,
+  clicked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_link_clicks_short_link_id ON link_clicks(short_link_id, clicked_at);
+
+ALTER TABLE link_clicks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on link_clicks" ON link_clicks
+  FOR ALL USING (true);
+
+-- Migration: Document review
+ALTER TABLE uploaded_files
+ADD COLUMN IF NOT EXISTS review_status TEXT CHECK (review_status IN ('pending', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_by TEXT,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Files uploaded before reviews existed were already accepted
+UPDATE uploaded_files SET review_status = 'approved' WHERE review_status IS NULL;
+ALTER TABLE uploaded_files
+ALTER COLUMN review_status SET DEFAULT 'pending',
+ALTER COLUMN review_status SET NOT NULL;
+
+-- Fields whose file was approved; submitted_fields keeps every field with a file that wasn't rejected
+ALTER TABLE customer_submissions
+ADD COLUMN IF NOT EXISTS approved_fields JSONB;
+
+UPDATE customer_submissions SET approved_fields = submitted_fields WHERE approved_fields IS NULL;
+ALTER TABLE customer_submissions
+ALTER COLUMN approved_fields SET DEFAULT '[]'::jsonb,
+ALTER COLUMN approved_fields SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS rejection_reasons (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL UNIQUE,
+  message TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE rejection_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on rejection_reasons" ON rejection_reasons
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_rejection_reasons_updated_at
+  BEFORE UPDATE ON rejection_reasons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO rejection_reasons (label, message) VALUES
+  ('מטושטש', 'המסמך מטושטש ולא ניתן לקרוא אותו. נא לצלם שוב באור טוב וללא רעידות.'),
+  ('מסמך שגוי', 'המסמך שהועלה אינו המסמך המבוקש.'),
+  ('חתוך', 'המסמך חתוך ולא רואים אותו במלואו. נא לצלם את כל המסמך.'),
+  ('פג תוקף', 'תוקף המסמך פג. נא להעלות מסמך בתוקף.'),
+  ('חסרים עמודים', 'חסרים עמודים במסמך. נא להעלות את כל העמודים.')
+ON CONFLICT (label) DO NOTHING;
+
+-- Migration: Period-slotted document fields
+-- The date periods are counted back from (the planned application date); submissions without one use their creation date
+ALTER TABLE customer_submissions
+ADD COLUMN IF NOT EXISTS reference_date DATE;
+
+-- Slots still missing a file, per period field, kept up to date with submitted_fields
+ALTER TABLE customer_submissions
+ADD COLUMN IF NOT EXISTS missing_periods JSONB DEFAULT '{}'::jsonb;
+
+-- The month ('2026-07') or week ('2026-07-05', its Sunday) a file covers; files sent over WhatsApp start unassigned
+ALTER TABLE uploaded_files
+ADD COLUMN IF NOT EXISTS period_key TEXT;
+
+-- Migration: Completion waivers
+-- Fields or sections (by slug) a customer is exempt from; completion skips them
+ALTER TABLE customer_submissions
+ADD COLUMN IF NOT EXISTS waived_fields JSONB DEFAULT '[]'::jsonb;
+
+-- Migration: Form definitions
+-- Form types and their documents, edited from the admin form builder. While form_types is empty the app
+-- uses the bundled src/data/form-fields.json; the builder's import button copies it here.
+CREATE TABLE IF NOT EXISTS form_fields (
+  slug TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  template TEXT,
+  templates JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ "label": ..., "path": ... }]
+  min_files INTEGER,
+  max_files INTEGER,
+  period JSONB, -- { "unit": "month" | "week", "count": ..., "filesPerPeriod": ... }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS form_types (
+  slug TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The lines of each form type in order; sections keep the fields the customer picks from in options
+CREATE TABLE IF NOT EXISTS form_type_fields (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_type_slug TEXT NOT NULL REFERENCES form_types(slug) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  field_slug TEXT NOT NULL,
+  optional BOOLEAN NOT NULL DEFAULT FALSE,
+  section_type TEXT,
+  section_title TEXT,
+  required_count INTEGER,
+  options JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(form_type_slug, field_slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_form_type_fields_form_type ON form_type_fields(form_type_slug, position);
+
+ALTER TABLE form_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE form_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE form_type_fields ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on form_fields" ON form_fields
+  FOR ALL USING (true);
+
+CREATE POLICY "Allow all operations on form_types" ON form_types
+  FOR ALL USING (true);
+
+CREATE POLICY "Allow all operations on form_type_fields" ON form_type_fields
+  FOR ALL USING (true);
+
+CREATE TRIGGER update_form_fields_updated_at
+  BEFORE UPDATE ON form_fields
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_form_types_updated_at
+  BEFORE UPDATE ON form_types
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Downloadable forms uploaded from the builder; public so customers can open them from the form
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'form-templates',
+  'form-templates',
+  true,
+  10485760, -- 10MB limit
+  ARRAY['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Allow file uploads to form-templates bucket" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'form-templates');
+
+CREATE POLICY "Allow file access from form-templates bucket" ON storage.objects
+  FOR SELECT USING (bucket_id = 'form-templates');
+
+-- Migration: Close admin_users to the anon key (password hashes and roles are only read by the server)
+DROP POLICY IF EXISTS "Allow all operations on admin_users" ON admin_users;
+
+CREATE POLICY "Service role manages admin_users" ON admin_users
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+REVOKE ALL ON admin_users FROM anon, authenticated;
+
+-- Migration: Close customer submissions, files and documents to the anon key
+-- Customers and admins reach them through the API routes, which use the service role
+DROP POLICY IF EXISTS "Allow all operations on customer_submissions" ON customer_submissions;
+DROP POLICY IF EXISTS "Allow all operations on uploaded_files" ON uploaded_files;
+
+CREATE POLICY "Service role manages customer_submissions" ON customer_submissions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages uploaded_files" ON uploaded_files
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+REVOKE ALL ON customer_submissions, uploaded_files FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Allow file uploads to customer-files bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow file access from customer-files bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow file updates to customer-files bucket" ON storage.objects;
+DROP POLICY IF EXISTS "Allow file deletions from customer-files bucket" ON storage.objects;
+
+CREATE POLICY "Service role manages customer-files bucket" ON storage.objects
+  FOR ALL TO service_role USING (bucket_id = 'customer-files') WITH CHECK (bucket_id = 'customer-files');
+
+-- Migration: Close OTP codes and the OTP audit log to the anon key (attempt limits and send limits live there)
+DROP POLICY IF EXISTS "Allow all operations on otp_codes" ON otp_codes;
+DROP POLICY IF EXISTS "Allow all operations on otp_audit" ON otp_audit;
+
+CREATE POLICY "Service role manages otp_codes" ON otp_codes
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages otp_audit" ON otp_audit
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+REVOKE ALL ON otp_codes, otp_audit FROM anon, authenticated;
+
+-- Migration: Batch recipients are claimed ('sending') before their message goes out
+ALTER TABLE batch_job_recipients DROP CONSTRAINT IF EXISTS batch_job_recipients_status_check;
+ALTER TABLE batch_job_recipients
+ADD CONSTRAINT batch_job_recipients_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped'));
+
+-- Migration: Close the remaining tables and the form-templates uploads to the anon key
+-- Every table is read and written by the API routes with the service role; the anon key must not list tokens, sessions or settings
+ALTER TABLE auth_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on conversation_sessions" ON conversation_sessions;
+DROP POLICY IF EXISTS "Allow all operations on message_status_events" ON message_status_events;
+DROP POLICY IF EXISTS "Allow all operations on reminder_policies" ON reminder_policies;
+DROP POLICY IF EXISTS "Allow all operations on app_settings" ON app_settings;
+DROP POLICY IF EXISTS "Allow all operations on batch_jobs" ON batch_jobs;
+DROP POLICY IF EXISTS "Allow all operations on batch_job_recipients" ON batch_job_recipients;
+DROP POLICY IF EXISTS "Allow all operations on token_validation_logs" ON token_validation_logs;
+DROP POLICY IF EXISTS "Allow all operations on short_links" ON short_links;
+DROP POLICY IF EXISTS "Allow all operations on link_clicks" ON link_clicks;
+DROP POLICY IF EXISTS "Allow all operations on rejection_reasons" ON rejection_reasons;
+DROP POLICY IF EXISTS "Allow all operations on form_fields" ON form_fields;
+DROP POLICY IF EXISTS "Allow all operations on form_types" ON form_types;
+DROP POLICY IF EXISTS "Allow all operations on form_type_fields" ON form_type_fields;
+
+CREATE POLICY "Service role manages auth_tokens" ON auth_tokens
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages conversation_sessions" ON conversation_sessions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages message_status_events" ON message_status_events
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages reminder_policies" ON reminder_policies
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages app_settings" ON app_settings
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages batch_jobs" ON batch_jobs
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages batch_job_recipients" ON batch_job_recipients
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages token_validation_logs" ON token_validation_logs
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages short_links" ON short_links
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages link_clicks" ON link_clicks
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages rejection_reasons" ON rejection_reasons
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages form_fields" ON form_fields
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages form_types" ON form_types
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages form_type_fields" ON form_type_fields
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+REVOKE ALL ON
+  auth_tokens, conversation_sessions, message_status_events, reminder_policies, app_settings,
+  batch_jobs, batch_job_recipients, token_validation_logs, short_links, link_clicks,
+  rejection_reasons, form_fields, form_types, form_type_fields
+FROM anon, authenticated;
+
+-- Templates stay publicly readable (the bucket is public); only the server uploads them
+DROP POLICY IF EXISTS "Allow file uploads to form-templates bucket" ON storage.objects;
+
+CREATE POLICY "Service role uploads to form-templates bucket" ON storage.objects
+  FOR INSERT TO service_role WITH CHECK (bucket_id = 'form-templates');
+
+-- Migration: Close the customers and message_logs tables (created before this file) to the anon key
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages customers" ON customers;
+DROP POLICY IF EXISTS "Service role manages message_logs" ON message_logs;
+
+CREATE POLICY "Service role manages customers" ON customers
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role manages message_logs" ON message_logs
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+REVOKE ALL ON customers, message_logs FROM anon, authenticated;